@@ -2,6 +2,18 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * Storage of a data set read from <envPrefix>_STORAGE and <envPrefix>_FILE_PATH.
+ * 'file' persists the data to filePath, 'memory' keeps it in memory only (lost on restart).
+ * Defaults to 'memory' under NODE_ENV=test so tests never touch the data files.
+ */
+function fileStorage(envPrefix: string, defaultPath: string): { storage: 'memory' | 'file'; filePath: string } {
+  return {
+    storage: (process.env[`${envPrefix}_STORAGE`] || (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) as 'memory' | 'file',
+    filePath: process.env[`${envPrefix}_FILE_PATH`] || defaultPath
+  };
+}
+
 export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -9,9 +21,38 @@ export const config = {
   switchbot: {
     token: process.env.SWITCHBOT_TOKEN || '',
     secret: process.env.SWITCHBOT_SECRET || '',
-    baseUrl: 'https://api.switch-bot.com/v1.1'
+    // Point at the local simulator (npm run simulator) to develop without real devices
+    baseUrl: process.env.SWITCHBOT_BASE_URL || 'https://api.switch-bot.com/v1.1'
+  },
+  defaultUpdateInterval: parseInt(process.env.DEFAULT_UPDATE_INTERVAL || '30', 10),
+  history: fileStorage('HISTORY', 'data/environment-history.jsonl'),
+  settings: fileStorage('SETTINGS', 'data/settings.json'),
+  automation: fileStorage('AUTOMATION', 'data/automation-rules.json'),
+  scheduler: fileStorage('SCHEDULER', 'data/schedules.json'),
+  scenes: fileStorage('SCENES', 'data/scenes.json'),
+  irButtons: fileStorage('IR_BUTTONS', 'data/ir-buttons.json'),
+  lockAudit: fileStorage('LOCK_AUDIT', 'data/lock-audit.jsonl'),
+  webhook: {
+    // Required to receive events: the receiver only accepts requests carrying ?token=<value> and answers 503 while it is empty
+    token: process.env.SWITCHBOT_WEBHOOK_TOKEN || ''
+  },
+  apiQuota: {
+    ...fileStorage('API_USAGE', 'data/api-usage.json'),
+    dailyLimit: parseInt(process.env.SWITCHBOT_DAILY_LIMIT || '10000', 10),
+    // Calls polling never uses, so that devices stay controllable when the budget runs low
+    reservedForCommands: parseInt(process.env.SWITCHBOT_RESERVED_CALLS || '500', 10)
+  },
+  energy: {
+    ...fileStorage('ENERGY', 'data/energy-history.jsonl'),
+    sampleIntervalMinutes: parseInt(process.env.ENERGY_SAMPLE_INTERVAL_MINUTES || '5', 10)
   },
-  defaultUpdateInterval: parseInt(process.env.DEFAULT_UPDATE_INTERVAL || '30', 10)
+  simulator: {
+    // Local SwitchBot API simulator (npm run simulator); fault rates are shares of requests (0-1)
+    port: parseInt(process.env.SIMULATOR_PORT || '3100', 10),
+    errorRate: parseFloat(process.env.SIMULATOR_ERROR_RATE || '0'),
+    rateLimitRate: parseFloat(process.env.SIMULATOR_RATE_LIMIT_RATE || '0'),
+    latencyMs: parseInt(process.env.SIMULATOR_LATENCY_MS || '0', 10)
+  }
 };
 
 // Validate required environment variables
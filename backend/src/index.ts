@@ -7,8 +7,20 @@ import { validateSwitchBotCredentials } from './utils/switchbot-auth';
 import { environmentRoutes } from './routes/environment.routes';
 import { alertRoutes } from './routes/alert.routes';
 import { deviceRoutes } from './routes/device.routes';
+import { automationRoutes } from './routes/automation.routes';
+import { scheduleRoutes } from './routes/schedule.routes';
+import { sceneRoutes } from './routes/scene.routes';
+import { energyRoutes } from './routes/energy.routes';
+import { webhookRoutes } from './routes/webhook.routes';
+import { quotaRoutes } from './routes/quota.routes';
+import { commandRoutes } from './routes/command.routes';
 import settingsRoutes from './routes/settings.routes';
 import { WebSocketService } from './services/websocket.service';
+import { schedulerService } from './services/scheduler.service';
+import { energyHistoryService } from './services/energy-history.service';
+import { webhookService } from './services/webhook.service';
+import { commandQueueService } from './services/command-queue.service';
+import { automationService } from './services/automation.service';
 
 const app = express();
 const server = createServer(app);
@@ -34,6 +46,15 @@ const webSocketService = new WebSocketService(io, {
   retryDelay: 5000 // 5 seconds
 });
 
+// Push device state changes received by the webhook to browsers
+webhookService.onDeviceUpdate(device => webSocketService.broadcastDeviceUpdate(device));
+
+// Report rules triggered by the automation sampler to browsers
+automationService.onExecution(execution => webSocketService.broadcastAutomationExecution(execution));
+
+// Report progress of queued device commands to browsers
+commandQueueService.onStatusChange(command => webSocketService.broadcastCommandStatus(command));
+
 // Serve static files for testing
 app.use(express.static('public'));
 
@@ -75,6 +96,27 @@ app.use('/api/devices', deviceRoutes);
 // Settings routes
 app.use('/api/settings', settingsRoutes);
 
+// Automation rule routes
+app.use('/api/automations', automationRoutes);
+
+// Device schedule routes
+app.use('/api/schedules', scheduleRoutes);
+
+// Scene routes
+app.use('/api/scenes', sceneRoutes);
+
+// Plug energy monitoring routes
+app.use('/api/energy', energyRoutes);
+
+// SwitchBot webhook receiver and management routes
+app.use('/api/webhook', webhookRoutes);
+
+// Device command status routes
+app.use('/api/commands', commandRoutes);
+
+// SwitchBot API quota routes
+app.use('/api/quota', quotaRoutes);
+
 // WebSocket status endpoint
 app.get('/api/websocket/status', (req, res) => {
   res.json({
@@ -100,18 +142,27 @@ app.use('*', (req, res) => {
   });
 });
 
-// Start server
-server.listen(config.port, () => {
-  console.log(`🚀 Server running on port ${config.port}`);
-  console.log(`📊 Environment: ${config.nodeEnv}`);
-  console.log(`🔗 Frontend URL: ${config.frontendUrl}`);
-  console.log(`🤖 SwitchBot configured: ${validateSwitchBotCredentials()}`);
-});
+// Start server (tests import the app without listening on a port)
+if (config.nodeEnv !== 'test') {
+  server.listen(config.port, () => {
+    console.log(`🚀 Server running on port ${config.port}`);
+    console.log(`📊 Environment: ${config.nodeEnv}`);
+    console.log(`🔗 Frontend URL: ${config.frontendUrl}`);
+    console.log(`🤖 SwitchBot configured: ${validateSwitchBotCredentials()}`);
+  });
+
+  schedulerService.start();
+  automationService.start();
+  energyHistoryService.start(config.energy.sampleIntervalMinutes * 60 * 1000);
+}
 
 // Graceful shutdown handling
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
   webSocketService.shutdown();
+  schedulerService.stop();
+  automationService.stop();
+  energyHistoryService.stop();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -121,6 +172,9 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
   webSocketService.shutdown();
+  schedulerService.stop();
+  automationService.stop();
+  energyHistoryService.stop();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -16,7 +16,8 @@ describe('AlertThresholdValidator', () => {
     it('should reject temperature min >= max', () => {
       const thresholds = {
         temperature: { min: 25, max: 20 },
-        humidity: { min: 30, max: 70 }
+        humidity: { min: 30, max: 70 },
+        co2: { warning: 1000, critical: 1500 }
       };
       const result = AlertThresholdValidator.validate(thresholds);
       expect(result.isValid).toBe(false);
@@ -26,7 +27,8 @@ describe('AlertThresholdValidator', () => {
     it('should reject humidity min >= max', () => {
       const thresholds = {
         temperature: { min: 18, max: 28 },
-        humidity: { min: 70, max: 60 }
+        humidity: { min: 70, max: 60 },
+        co2: { warning: 1000, critical: 1500 }
       };
       const result = AlertThresholdValidator.validate(thresholds);
       expect(result.isValid).toBe(false);
@@ -36,7 +38,8 @@ describe('AlertThresholdValidator', () => {
     it('should reject out-of-range temperature values', () => {
       const thresholds = {
         temperature: { min: -50, max: 100 },
-        humidity: { min: 30, max: 70 }
+        humidity: { min: 30, max: 70 },
+        co2: { warning: 1000, critical: 1500 }
       };
       const result = AlertThresholdValidator.validate(thresholds);
       expect(result.isValid).toBe(false);
@@ -47,13 +50,29 @@ describe('AlertThresholdValidator', () => {
     it('should reject out-of-range humidity values', () => {
       const thresholds = {
         temperature: { min: 18, max: 28 },
-        humidity: { min: -10, max: 110 }
+        humidity: { min: -10, max: 110 },
+        co2: { warning: 1000, critical: 1500 }
       };
       const result = AlertThresholdValidator.validate(thresholds);
       expect(result.isValid).toBe(false);
       expect(result.errors.some(error => error.includes('Humidity minimum'))).toBe(true);
       expect(result.errors.some(error => error.includes('Humidity maximum'))).toBe(true);
     });
+
+    it('should reject CO2 warning >= critical', () => {
+      const thresholds = { ...DEFAULT_ALERT_THRESHOLDS, co2: { warning: 1500, critical: 1200 } };
+      const result = AlertThresholdValidator.validate(thresholds);
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('CO2 warning level must be less than critical level');
+    });
+
+    it('should reject out-of-range CO2 values', () => {
+      const thresholds = { ...DEFAULT_ALERT_THRESHOLDS, co2: { warning: 100, critical: 20000 } };
+      const result = AlertThresholdValidator.validate(thresholds);
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(error => error.includes('CO2 warning level'))).toBe(true);
+      expect(result.errors.some(error => error.includes('CO2 critical level'))).toBe(true);
+    });
   });
 });
 
@@ -67,7 +86,8 @@ describe('AlertGenerator', () => {
 
   const mockThresholds = {
     temperature: { min: 20, max: 30 },
-    humidity: { min: 40, max: 60 }
+    humidity: { min: 40, max: 60 },
+    co2: { warning: 1000, critical: 1500 }
   };
 
   describe('generateAlerts', () => {
@@ -141,6 +161,25 @@ describe('AlertGenerator', () => {
       expect(alerts.some(alert => alert.type === 'humidity')).toBe(true);
     });
 
+    it('should generate CO2 alerts above the ventilation threshold', () => {
+      const warning = AlertGenerator.generateAlerts({ ...mockEnvironmentData, co2: 1200 }, mockThresholds);
+      const critical = AlertGenerator.generateAlerts({ ...mockEnvironmentData, co2: 1800 }, mockThresholds);
+
+      expect(warning).toHaveLength(1);
+      expect(warning[0]).toMatchObject({ type: 'co2', condition: 'above', severity: 'warning', value: 1200, threshold: 1000 });
+      expect(warning[0].message).toContain('CO2濃度が高すぎます');
+      expect(critical[0].severity).toBe('critical');
+      expect(AlertGenerator.generateAlerts({ ...mockEnvironmentData, co2: 800 }, mockThresholds)).toHaveLength(0);
+    });
+
+    it('should use the configured CO2 levels', () => {
+      const thresholds = { ...mockThresholds, co2: { warning: 800, critical: 1000 } };
+      const alerts = AlertGenerator.generateAlerts({ ...mockEnvironmentData, co2: 900 }, thresholds);
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({ type: 'co2', severity: 'warning', threshold: 800 });
+    });
+
     it('should include Japanese messages', () => {
       const data = { ...mockEnvironmentData, temperature: 35 };
       const alerts = AlertGenerator.generateAlerts(data, mockThresholds);
@@ -91,6 +91,27 @@ describe('DeviceValidator', () => {
       expect(result.isValid).toBe(true);
       expect(result.device!.deviceType).toBe('Unknown');
     });
+
+    it.each([
+      ['Smart Lock', 'Lock'],
+      ['Smart Lock Pro', 'Lock'],
+      ['Keypad', 'Keypad'],
+      ['Keypad Touch', 'Keypad'],
+      ['Meter', 'Meter'],
+      ['MeterPlus', 'Meter'],
+      ['WoIOSensor', 'Meter'],
+      ['MeterPro(CO2)', 'Meter']
+    ] as const)('should map %s device type to %s', (switchBotType, deviceType) => {
+      const result = DeviceValidator.validateSwitchBotDevice({
+        deviceId: 'lock-001',
+        deviceName: 'Front Door',
+        deviceType: switchBotType,
+        enableCloudService: true,
+        hubDeviceId: 'hub-001'
+      });
+
+      expect(result.device!.deviceType).toBe(deviceType);
+    });
   });
 
   describe('validateInfraredRemoteDevice', () => {
@@ -127,7 +148,7 @@ describe('DeviceValidator', () => {
       expect(result.errors).toContain('Remote type is required and must be a string');
     });
 
-    it('should map TV remote type to Unknown', () => {
+    it('should map TV remote type to TV', () => {
       const rawDevice: RawInfraredRemoteDevice = {
         deviceId: 'ir-tv-001',
         deviceName: 'Living Room TV',
@@ -138,7 +159,26 @@ describe('DeviceValidator', () => {
       const result = DeviceValidator.validateInfraredRemoteDevice(rawDevice);
 
       expect(result.isValid).toBe(true);
-      expect(result.device!.deviceType).toBe('Unknown');
+      expect(result.device!.deviceType).toBe('TV');
+    });
+
+    it.each([
+      ['IPTV/Streamer', 'TV'],
+      ['Set Top Box', 'TV'],
+      ['Fan', 'Fan'],
+      ['Speaker', 'Speaker'],
+      ['DVD', 'Speaker'],
+      ['Projector', 'Projector'],
+      ['Vacuum Cleaner', 'Unknown']
+    ])('should map %s remote type to %s', (remoteType, deviceType) => {
+      const result = DeviceValidator.validateInfraredRemoteDevice({
+        deviceId: 'ir-001',
+        deviceName: 'Remote',
+        remoteType,
+        hubDeviceId: 'hub-001'
+      });
+
+      expect(result.device!.deviceType).toBe(deviceType);
     });
   });
 
@@ -149,17 +189,20 @@ describe('DeviceValidator', () => {
       expect(DeviceValidator.isControllableDevice('Bot')).toBe(true);
       expect(DeviceValidator.isControllableDevice('Curtain')).toBe(true);
       expect(DeviceValidator.isControllableDevice('Plug')).toBe(true);
+      expect(DeviceValidator.isControllableDevice('Lock')).toBe(true);
     });
 
     it('should return false for non-controllable device types', () => {
       expect(DeviceValidator.isControllableDevice('Hub')).toBe(false);
+      expect(DeviceValidator.isControllableDevice('Keypad')).toBe(false);
       expect(DeviceValidator.isControllableDevice('Unknown')).toBe(false);
     });
   });
 
   describe('isEnvironmentDevice', () => {
-    it('should return true for Hub devices', () => {
+    it('should return true for Hub and Meter devices', () => {
       expect(DeviceValidator.isEnvironmentDevice('Hub')).toBe(true);
+      expect(DeviceValidator.isEnvironmentDevice('Meter')).toBe(true);
     });
 
     it('should return false for non-environment device types', () => {
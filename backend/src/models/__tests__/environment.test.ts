@@ -173,6 +173,28 @@ describe('EnvironmentDataValidator', () => {
     });
   });
 
+  describe('validate CO2 and battery', () => {
+    it('should pass CO2 and battery through for CO2 Meters', () => {
+      const result = EnvironmentDataValidator.validate({ temperature: 22, humidity: 45, CO2: 950, battery: 80 }, false, true);
+
+      expect(result.isValid).toBe(true);
+      expect(result.data!.co2).toBe(950);
+      expect(result.data!.battery).toBe(80);
+    });
+
+    it('should require CO2 only when requested', () => {
+      expect(EnvironmentDataValidator.validate({ temperature: 22, humidity: 45 }, false).data!.co2).toBeUndefined();
+      expect(EnvironmentDataValidator.validate({ temperature: 22, humidity: 45 }, false, true).errors)
+        .toContain('CO2 concentration is required');
+    });
+
+    it('should reject out-of-range CO2 values', () => {
+      const result = EnvironmentDataValidator.validate({ temperature: 22, humidity: 45, CO2: 20000 }, false, true);
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
   describe('isReasonableData', () => {
     it('should return true for reasonable indoor data', () => {
       const data: EnvironmentData = {
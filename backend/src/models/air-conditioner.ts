@@ -0,0 +1,148 @@
+/**
+ * Infrared air conditioner model for SwitchBot Dashboard
+ * IR remotes cannot report their state, so the dashboard tracks the last state it
+ * sent and always transmits the full state with a single setAll command.
+ */
+
+import { AirConditionerProperties } from './device';
+
+export type AirConditionerMode = AirConditionerProperties['mode'];
+export type AirConditionerFanSpeed = AirConditionerProperties['fanSpeed'];
+
+/**
+ * SwitchBot setAll mode codes
+ */
+export const AC_MODE_CODES: Record<AirConditionerMode, number> = {
+  auto: 1,
+  cool: 2,
+  dry: 3,
+  fan: 4,
+  heat: 5
+};
+
+/**
+ * SwitchBot setAll fan speed codes
+ */
+export const AC_FAN_SPEED_CODES: Record<AirConditionerFanSpeed, number> = {
+  auto: 1,
+  low: 2,
+  medium: 3,
+  high: 4
+};
+
+/**
+ * Supported target temperature range (°C)
+ */
+export const AC_MIN_TEMPERATURE = 16;
+export const AC_MAX_TEMPERATURE = 30;
+
+/**
+ * State assumed for an IR air conditioner before the dashboard sent anything
+ */
+export const DEFAULT_AIR_CONDITIONER_STATE: AirConditionerProperties = {
+  power: 'off',
+  mode: 'auto',
+  temperature: 25,
+  fanSpeed: 'auto'
+};
+
+/**
+ * Commands that change the tracked air conditioner state
+ */
+export const AIR_CONDITIONER_COMMANDS = ['turnOn', 'turnOff', 'setMode', 'setTemperature', 'setFanSpeed', 'setAll'];
+
+/**
+ * Error raised for an invalid air conditioner command or parameter
+ */
+export class AirConditionerCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AirConditionerCommandError';
+  }
+}
+
+/**
+ * Build the setAll parameter "temperature,mode,fanSpeed,power" of a state
+ */
+export function buildSetAllParameter(state: AirConditionerProperties): string {
+  return `${state.temperature},${AC_MODE_CODES[state.mode]},${AC_FAN_SPEED_CODES[state.fanSpeed]},${state.power}`;
+}
+
+/**
+ * Parse a setAll parameter "temperature,mode,fanSpeed,power" into a state
+ */
+export function parseSetAllParameter(parameter: unknown): AirConditionerProperties {
+  const parts = typeof parameter === 'string' ? parameter.split(',').map(part => part.trim()) : [];
+  if (parts.length !== 4) {
+    throw new AirConditionerCommandError('setAll parameter must be "temperature,mode,fanSpeed,power"');
+  }
+
+  const [rawTemperature, rawMode, rawFanSpeed, power] = parts;
+  const mode = findByCode(AC_MODE_CODES, Number(rawMode));
+  const fanSpeed = findByCode(AC_FAN_SPEED_CODES, Number(rawFanSpeed));
+
+  if (!mode) {
+    throw new AirConditionerCommandError(`Unknown mode code: ${rawMode}`);
+  }
+  if (!fanSpeed) {
+    throw new AirConditionerCommandError(`Unknown fan speed code: ${rawFanSpeed}`);
+  }
+  if (power !== 'on' && power !== 'off') {
+    throw new AirConditionerCommandError('Power must be either "on" or "off"');
+  }
+
+  return { temperature: parseTemperature(rawTemperature), mode, fanSpeed, power };
+}
+
+/**
+ * Apply a command to the tracked state and return the resulting state
+ * Mode, temperature and fan speed changes also switch the unit on, like a physical remote.
+ */
+export function applyAirConditionerCommand(
+  state: AirConditionerProperties,
+  command: string,
+  parameter?: unknown
+): AirConditionerProperties {
+  switch (command) {
+    case 'turnOn':
+      return { ...state, power: 'on' };
+    case 'turnOff':
+      return { ...state, power: 'off' };
+    case 'setMode':
+      if (typeof parameter !== 'string' || !(parameter in AC_MODE_CODES)) {
+        throw new AirConditionerCommandError(`Unsupported AC mode: ${parameter}`);
+      }
+      return { ...state, mode: parameter as AirConditionerMode, power: 'on' };
+    case 'setTemperature':
+      return { ...state, temperature: parseTemperature(parameter), power: 'on' };
+    case 'setFanSpeed':
+      if (typeof parameter !== 'string' || !(parameter in AC_FAN_SPEED_CODES)) {
+        throw new AirConditionerCommandError(`Unsupported fan speed: ${parameter}`);
+      }
+      return { ...state, fanSpeed: parameter as AirConditionerFanSpeed, power: 'on' };
+    case 'setAll':
+      return parseSetAllParameter(parameter);
+    default:
+      throw new AirConditionerCommandError(`Unsupported air conditioner command: ${command}`);
+  }
+}
+
+/**
+ * Parse and validate a target temperature
+ */
+function parseTemperature(value: unknown): number {
+  const temperature = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(temperature) || temperature < AC_MIN_TEMPERATURE || temperature > AC_MAX_TEMPERATURE) {
+    throw new AirConditionerCommandError(
+      `Temperature must be between ${AC_MIN_TEMPERATURE} and ${AC_MAX_TEMPERATURE} degrees`
+    );
+  }
+  return temperature;
+}
+
+/**
+ * Find the key of a code table by its code
+ */
+function findByCode<K extends string>(codes: Record<K, number>, code: number): K | undefined {
+  return (Object.keys(codes) as K[]).find(key => codes[key] === code);
+}
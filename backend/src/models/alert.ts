@@ -12,7 +12,7 @@ export type AlertSeverity = 'warning' | 'critical';
 /**
  * Alert types
  */
-export type AlertType = 'temperature' | 'humidity';
+export type AlertType = 'temperature' | 'humidity' | 'co2';
 
 /**
  * Alert interface
@@ -27,6 +27,8 @@ export interface Alert {
   value: number;
   threshold: number;
   condition: 'above' | 'below';
+  deviceId?: string;     // Sensor that triggered the alert
+  deviceName?: string;
 }
 
 /**
@@ -41,6 +43,11 @@ export interface AlertThresholds {
     min: number;
     max: number;
   };
+  // CO2 concentration in ppm (CO2 Meters only)
+  co2: {
+    warning: number;
+    critical: number;
+  };
 }
 
 /**
@@ -54,6 +61,10 @@ export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
   humidity: {
     min: 30,  // 30%
     max: 70   // 70%
+  },
+  co2: {
+    warning: 1000,  // 1000 ppm - rooms need ventilation
+    critical: 1500  // 1500 ppm
   }
 };
 
@@ -65,6 +76,8 @@ export class AlertThresholdValidator {
   private static readonly TEMPERATURE_MAX = 80;
   private static readonly HUMIDITY_MIN = 0;
   private static readonly HUMIDITY_MAX = 100;
+  private static readonly CO2_MIN = 400;
+  private static readonly CO2_MAX = 10000;
 
   /**
    * Validate alert thresholds
@@ -102,6 +115,21 @@ export class AlertThresholdValidator {
       errors.push('Humidity minimum must be less than maximum');
     }
 
+    // Validate CO2 thresholds
+    if (thresholds.co2.warning < this.CO2_MIN || 
+        thresholds.co2.warning > this.CO2_MAX) {
+      errors.push(`CO2 warning level must be between ${this.CO2_MIN}ppm and ${this.CO2_MAX}ppm`);
+    }
+
+    if (thresholds.co2.critical < this.CO2_MIN || 
+        thresholds.co2.critical > this.CO2_MAX) {
+      errors.push(`CO2 critical level must be between ${this.CO2_MIN}ppm and ${this.CO2_MAX}ppm`);
+    }
+
+    if (thresholds.co2.warning >= thresholds.co2.critical) {
+      errors.push('CO2 warning level must be less than critical level');
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -121,61 +149,92 @@ export class AlertGenerator {
     thresholds: AlertThresholds
   ): Alert[] {
     const alerts: Alert[] = [];
+    const idSuffix = environmentData.deviceId ? `${environmentData.deviceId}-${Date.now()}` : `${Date.now()}`;
+    const messagePrefix = environmentData.deviceName ? `[${environmentData.deviceName}] ` : '';
 
     // Check temperature alerts
     if (environmentData.temperature < thresholds.temperature.min) {
       alerts.push({
-        id: `temp-low-${Date.now()}`,
+        id: `temp-low-${idSuffix}`,
         type: 'temperature',
         severity: environmentData.temperature < thresholds.temperature.min - 5 ? 'critical' : 'warning',
-        message: `温度が低すぎます: ${environmentData.temperature.toFixed(1)}°C (最低: ${thresholds.temperature.min}°C)`,
+        message: `${messagePrefix}温度が低すぎます: ${environmentData.temperature.toFixed(1)}°C (最低: ${thresholds.temperature.min}°C)`,
         timestamp: environmentData.timestamp,
         isActive: true,
         value: environmentData.temperature,
         threshold: thresholds.temperature.min,
-        condition: 'below'
+        condition: 'below',
+        ...this.sourceOf(environmentData)
       });
     } else if (environmentData.temperature > thresholds.temperature.max) {
       alerts.push({
-        id: `temp-high-${Date.now()}`,
+        id: `temp-high-${idSuffix}`,
         type: 'temperature',
         severity: environmentData.temperature > thresholds.temperature.max + 5 ? 'critical' : 'warning',
-        message: `温度が高すぎます: ${environmentData.temperature.toFixed(1)}°C (最高: ${thresholds.temperature.max}°C)`,
+        message: `${messagePrefix}温度が高すぎます: ${environmentData.temperature.toFixed(1)}°C (最高: ${thresholds.temperature.max}°C)`,
         timestamp: environmentData.timestamp,
         isActive: true,
         value: environmentData.temperature,
         threshold: thresholds.temperature.max,
-        condition: 'above'
+        condition: 'above',
+        ...this.sourceOf(environmentData)
       });
     }
 
     // Check humidity alerts
     if (environmentData.humidity < thresholds.humidity.min) {
       alerts.push({
-        id: `humidity-low-${Date.now()}`,
+        id: `humidity-low-${idSuffix}`,
         type: 'humidity',
         severity: environmentData.humidity < thresholds.humidity.min - 10 ? 'critical' : 'warning',
-        message: `湿度が低すぎます: ${environmentData.humidity.toFixed(1)}% (最低: ${thresholds.humidity.min}%)`,
+        message: `${messagePrefix}湿度が低すぎます: ${environmentData.humidity.toFixed(1)}% (最低: ${thresholds.humidity.min}%)`,
         timestamp: environmentData.timestamp,
         isActive: true,
         value: environmentData.humidity,
         threshold: thresholds.humidity.min,
-        condition: 'below'
+        condition: 'below',
+        ...this.sourceOf(environmentData)
       });
     } else if (environmentData.humidity > thresholds.humidity.max) {
       alerts.push({
-        id: `humidity-high-${Date.now()}`,
+        id: `humidity-high-${idSuffix}`,
         type: 'humidity',
         severity: environmentData.humidity > thresholds.humidity.max + 10 ? 'critical' : 'warning',
-        message: `湿度が高すぎます: ${environmentData.humidity.toFixed(1)}% (最高: ${thresholds.humidity.max}%)`,
+        message: `${messagePrefix}湿度が高すぎます: ${environmentData.humidity.toFixed(1)}% (最高: ${thresholds.humidity.max}%)`,
         timestamp: environmentData.timestamp,
         isActive: true,
         value: environmentData.humidity,
         threshold: thresholds.humidity.max,
-        condition: 'above'
+        condition: 'above',
+        ...this.sourceOf(environmentData)
+      });
+    }
+
+    // Check CO2 alerts
+    if (environmentData.co2 !== undefined && environmentData.co2 > thresholds.co2.warning) {
+      alerts.push({
+        id: `co2-high-${idSuffix}`,
+        type: 'co2',
+        severity: environmentData.co2 > thresholds.co2.critical ? 'critical' : 'warning',
+        message: `${messagePrefix}CO2濃度が高すぎます: ${environmentData.co2}ppm (上限: ${thresholds.co2.warning}ppm)`,
+        timestamp: environmentData.timestamp,
+        isActive: true,
+        value: environmentData.co2,
+        threshold: thresholds.co2.warning,
+        condition: 'above',
+        ...this.sourceOf(environmentData)
       });
     }
 
     return alerts;
   }
+
+  /**
+   * Source sensor fields for alerts generated from the given data
+   */
+  private static sourceOf(environmentData: EnvironmentData): Pick<Alert, 'deviceId' | 'deviceName'> {
+    return environmentData.deviceId
+      ? { deviceId: environmentData.deviceId, deviceName: environmentData.deviceName }
+      : {};
+  }
 }
\ No newline at end of file
@@ -0,0 +1,206 @@
+/**
+ * Automation rule models and validation for SwitchBot Dashboard
+ */
+
+/**
+ * Environment metrics a rule condition can watch
+ */
+export type AutomationMetric = 'temperature' | 'humidity' | 'light';
+
+/**
+ * Comparison of a rule condition
+ */
+export type AutomationOperator = 'above' | 'below';
+
+/**
+ * Rule condition: metric above/below a value, held for a duration
+ */
+export interface AutomationCondition {
+  metric: AutomationMetric;
+  operator: AutomationOperator;
+  value: number;
+  durationMinutes: number; // 0 = trigger on the first matching sample
+  sensorId?: string;       // Sensor to watch; any sensor when omitted
+}
+
+/**
+ * Device command executed when a rule triggers
+ */
+export interface AutomationAction {
+  deviceId: string;
+  command: string;
+  parameter?: any;
+}
+
+/**
+ * Automation rule
+ * A rule triggers when all of its conditions are met, then waits for its cooldown.
+ */
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  cooldownMinutes: number;
+  createdAt: Date;
+  updatedAt: Date;
+  lastTriggeredAt?: Date;
+}
+
+/**
+ * Fields accepted when creating or updating a rule
+ */
+export interface AutomationRuleInput {
+  name: string;
+  enabled?: boolean;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  cooldownMinutes?: number;
+}
+
+/**
+ * Result of a single action of a rule execution
+ */
+export interface AutomationActionResult extends AutomationAction {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Execution log entry
+ */
+export interface AutomationExecution {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  timestamp: Date;
+  success: boolean;
+  trigger: {
+    sensorId?: string;
+    temperature: number;
+    humidity: number;
+    light: number;
+  };
+  actions: AutomationActionResult[];
+}
+
+/**
+ * Default cooldown between two executions of a rule
+ */
+export const DEFAULT_COOLDOWN_MINUTES = 30;
+
+const AUTOMATION_METRICS: AutomationMetric[] = ['temperature', 'humidity', 'light'];
+const AUTOMATION_OPERATORS: AutomationOperator[] = ['above', 'below'];
+
+/**
+ * Automation rule validation
+ */
+export class AutomationRuleValidator {
+  private static readonly MAX_NAME_LENGTH = 100;
+  private static readonly MAX_DURATION_MINUTES = 24 * 60;
+  private static readonly MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+
+  /**
+   * Validate a rule definition
+   */
+  static validate(input: Partial<AutomationRuleInput>): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      errors.push('Rule name is required');
+    } else if (input.name.length > this.MAX_NAME_LENGTH) {
+      errors.push(`Rule name must be at most ${this.MAX_NAME_LENGTH} characters`);
+    }
+
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+
+    if (!Array.isArray(input.conditions) || input.conditions.length === 0) {
+      errors.push('At least one condition is required');
+    } else {
+      input.conditions.forEach((condition, index) => {
+        errors.push(...this.validateCondition(condition, index));
+      });
+    }
+
+    if (!Array.isArray(input.actions) || input.actions.length === 0) {
+      errors.push('At least one action is required');
+    } else {
+      input.actions.forEach((action, index) => {
+        errors.push(...this.validateAction(action, index));
+      });
+    }
+
+    if (input.cooldownMinutes !== undefined &&
+        (typeof input.cooldownMinutes !== 'number' ||
+         input.cooldownMinutes < 0 ||
+         input.cooldownMinutes > this.MAX_COOLDOWN_MINUTES)) {
+      errors.push(`cooldownMinutes must be between 0 and ${this.MAX_COOLDOWN_MINUTES}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a single condition
+   */
+  private static validateCondition(condition: AutomationCondition, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `conditions[${index}]`;
+
+    if (!condition || typeof condition !== 'object') {
+      return [`${prefix} must be an object`];
+    }
+    if (!AUTOMATION_METRICS.includes(condition.metric)) {
+      errors.push(`${prefix}.metric must be one of: ${AUTOMATION_METRICS.join(', ')}`);
+    }
+    if (!AUTOMATION_OPERATORS.includes(condition.operator)) {
+      errors.push(`${prefix}.operator must be one of: ${AUTOMATION_OPERATORS.join(', ')}`);
+    }
+    if (typeof condition.value !== 'number' || isNaN(condition.value)) {
+      errors.push(`${prefix}.value must be a number`);
+    }
+    if (typeof condition.durationMinutes !== 'number' ||
+        condition.durationMinutes < 0 ||
+        condition.durationMinutes > this.MAX_DURATION_MINUTES) {
+      errors.push(`${prefix}.durationMinutes must be between 0 and ${this.MAX_DURATION_MINUTES}`);
+    }
+    if (condition.sensorId !== undefined && typeof condition.sensorId !== 'string') {
+      errors.push(`${prefix}.sensorId must be a string`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a single action
+   */
+  private static validateAction(action: AutomationAction, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `actions[${index}]`;
+
+    if (!action || typeof action !== 'object') {
+      return [`${prefix} must be an object`];
+    }
+    if (typeof action.deviceId !== 'string' || action.deviceId.trim().length === 0) {
+      errors.push(`${prefix}.deviceId is required`);
+    }
+    if (typeof action.command !== 'string' || action.command.trim().length === 0) {
+      errors.push(`${prefix}.command is required`);
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Check whether a reading satisfies a condition's comparison
+ */
+export function isConditionMet(condition: AutomationCondition, reading: number): boolean {
+  return condition.operator === 'above' ? reading > condition.value : reading < condition.value;
+}
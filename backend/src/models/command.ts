@@ -0,0 +1,46 @@
+/**
+ * Device command models for SwitchBot Dashboard
+ * Commands sent through the control API are queued and executed in the
+ * background. Clients follow a command through its status resource or the
+ * commandStatus WebSocket event.
+ */
+
+/**
+ * Lifecycle of a queued command
+ * - queued: waiting for earlier commands of the same device
+ * - sending: waiting for its turn in the request scheduler or for SwitchBot to answer
+ * - succeeded / failed: final states
+ */
+export type CommandStatus = 'queued' | 'sending' | 'succeeded' | 'failed';
+
+/**
+ * SwitchBot status code of an accepted command
+ */
+export const SWITCHBOT_SUCCESS_STATUS_CODE = 100;
+
+/**
+ * Device command tracked by the command queue
+ */
+export interface DeviceCommand {
+  id: string;
+  deviceId: string;
+  command: string;
+  parameter?: any;
+  commandType?: 'command' | 'customize'; // 'customize' sends a button learned by an IR remote
+  status: CommandStatus;
+  statusCode?: number; // Status code reported by SwitchBot once the command has been sent
+  error?: {
+    code: string;
+    message: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Check whether a command has reached a final state
+ */
+export function isCommandFinished(command: DeviceCommand): boolean {
+  return command.status === 'succeeded' || command.status === 'failed';
+}
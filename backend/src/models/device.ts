@@ -5,7 +5,21 @@
 /**
  * Device types supported by the dashboard
  */
-export type DeviceType = 'Light' | 'Air Conditioner' | 'Hub' | 'Bot' | 'Curtain' | 'Plug' | 'Unknown';
+export type DeviceType =
+  | 'Light'
+  | 'Air Conditioner'
+  | 'Hub'
+  | 'Bot'
+  | 'Curtain'
+  | 'Plug'
+  | 'TV'
+  | 'Fan'
+  | 'Speaker'
+  | 'Projector'
+  | 'Lock'
+  | 'Keypad'
+  | 'Meter'
+  | 'Unknown';
 
 /**
  * Device status
@@ -31,7 +45,18 @@ export interface Device {
 /**
  * Device properties union type
  */
-export type DeviceProperties = LightProperties | AirConditionerProperties | HubProperties | BotProperties | CurtainProperties | PlugProperties;
+export type DeviceProperties =
+  | LightProperties
+  | AirConditionerProperties
+  | HubProperties
+  | BotProperties
+  | CurtainProperties
+  | PlugProperties
+  | TVProperties
+  | FanProperties
+  | IRPowerProperties
+  | LockProperties
+  | MeterProperties;
 
 /**
  * Light device properties
@@ -67,19 +92,37 @@ export interface HubProperties {
   version?: string;
 }
 
+/**
+ * Meter device properties (Meter, Meter Plus, Outdoor Meter, Meter Pro, CO2 Meter)
+ */
+export interface MeterProperties {
+  temperature?: number;
+  humidity?: number;
+  co2?: number;       // ppm, CO2 Meter only
+  battery?: number;
+}
+
 /**
  * Bot device properties
  */
 export interface BotProperties {
   power: 'on' | 'off';
   battery?: number;
+  mode?: BotMode;
 }
 
+/**
+ * Bot operation mode (SwitchBot deviceMode)
+ * press: every command presses the button, switch: turnOn/turnOff push/pull the switch
+ */
+export type BotMode = 'press' | 'switch' | 'customize';
+
 /**
  * Curtain device properties
  */
 export interface CurtainProperties {
-  position: number;      // 0-100 (0 = closed, 100 = open)
+  position: number;      // 0-100 (0 = open, 100 = closed), SwitchBot slidePosition
+  moving?: boolean;
   battery?: number;
   calibrate?: boolean;
 }
@@ -89,9 +132,41 @@ export interface CurtainProperties {
  */
 export interface PlugProperties {
   power: 'on' | 'off';
-  voltage?: number;
-  current?: number;
-  power_consumption?: number;
+  voltage?: number;             // V
+  current?: number;             // A
+  power_consumption?: number;   // W
+  electricityOfDay?: number;    // Minutes switched on today (Plug Mini)
+}
+
+/**
+ * Lock / Lock Pro device properties
+ */
+export interface LockProperties {
+  lockState: 'locked' | 'unlocked' | 'jammed' | 'unknown';
+  doorState?: 'opened' | 'closed';   // Reported when the door sensor is calibrated
+  battery?: number;
+}
+
+/**
+ * Properties of IR remotes that only track their power (Speaker, Projector)
+ * IR remotes cannot report their state; the dashboard tracks the last command sent.
+ */
+export interface IRPowerProperties {
+  power: 'on' | 'off';
+}
+
+/**
+ * IR TV / IPTV / Set Top Box properties
+ */
+export interface TVProperties extends IRPowerProperties {
+  channel?: number;      // Last channel set with SetChannel or changed with channelAdd/channelSub
+}
+
+/**
+ * IR fan properties
+ */
+export interface FanProperties extends IRPowerProperties {
+  speed?: 'low' | 'middle' | 'high';
 }
 
 /**
@@ -240,7 +315,19 @@ export class DeviceValidator {
       'Hub Plus': 'Hub',
       'Bot': 'Bot',
       'Curtain': 'Curtain',
+      'Curtain3': 'Curtain',
       'Plug': 'Plug',
+      'Plug Mini (US)': 'Plug',
+      'Plug Mini (JP)': 'Plug',
+      'Smart Lock': 'Lock',
+      'Smart Lock Pro': 'Lock',
+      'Keypad': 'Keypad',
+      'Keypad Touch': 'Keypad',
+      'Meter': 'Meter',
+      'MeterPlus': 'Meter',
+      'WoIOSensor': 'Meter',
+      'MeterPro': 'Meter',
+      'MeterPro(CO2)': 'Meter',
       'Light': 'Light',
       'Color Bulb': 'Light',
       'Strip Light': 'Light'
@@ -255,16 +342,16 @@ export class DeviceValidator {
   private static mapRemoteTypeToDeviceType(remoteType: string): DeviceType {
     const typeMap: Record<string, DeviceType> = {
       'Air Conditioner': 'Air Conditioner',
-      'TV': 'Unknown',
+      'TV': 'TV',
       'Light': 'Light',
-      'IPTV/Streamer': 'Unknown',
-      'Set Top Box': 'Unknown',
-      'DVD': 'Unknown',
-      'Fan': 'Unknown',
-      'Projector': 'Unknown',
+      'IPTV/Streamer': 'TV',
+      'Set Top Box': 'TV',
+      'DVD': 'Speaker',
+      'Fan': 'Fan',
+      'Projector': 'Projector',
       'Camera': 'Unknown',
       'Air Purifier': 'Unknown',
-      'Speaker': 'Unknown',
+      'Speaker': 'Speaker',
       'Water Heater': 'Unknown',
       'Vacuum Cleaner': 'Unknown',
       'Others': 'Unknown'
@@ -277,14 +364,14 @@ export class DeviceValidator {
    * Check if device type is controllable by the dashboard
    */
   static isControllableDevice(deviceType: DeviceType): boolean {
-    return ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug'].includes(deviceType);
+    return ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug', 'TV', 'Fan', 'Speaker', 'Projector', 'Lock'].includes(deviceType);
   }
 
   /**
    * Check if device type provides environment data
    */
   static isEnvironmentDevice(deviceType: DeviceType): boolean {
-    return deviceType === 'Hub';
+    return deviceType === 'Hub' || deviceType === 'Meter';
   }
 }
 
@@ -342,6 +429,13 @@ export class DeviceUtils {
       'Bot': [],
       'Curtain': [],
       'Plug': [],
+      'TV': [],
+      'Fan': [],
+      'Speaker': [],
+      'Projector': [],
+      'Lock': [],
+      'Keypad': [],
+      'Meter': [],
       'Unknown': []
     };
 
@@ -0,0 +1,97 @@
+/**
+ * Energy monitoring models for SwitchBot Plug / Plug Mini devices
+ */
+
+/**
+ * Power reading sampled from a plug
+ */
+export interface PowerReading {
+  timestamp: Date;
+  deviceId: string;
+  watts: number;
+  voltage?: number;
+  current?: number;
+}
+
+/**
+ * Energy used by a plug during one local calendar day
+ */
+export interface DailyEnergy {
+  timestamp: Date;    // Start of the day (local time)
+  deviceId: string;
+  kWh: number;
+  sampleCount: number;
+}
+
+/**
+ * Energy used by a plug during one calendar month
+ */
+export interface MonthlyEnergy {
+  month: string;      // YYYY-MM (local time)
+  deviceId: string;
+  kWh: number;
+  days: number;       // Days with readings
+}
+
+/**
+ * Time periods of the power reading history
+ */
+export type EnergyPeriod = '1h' | '6h' | '24h' | '7d';
+
+/**
+ * Duration of each energy period in hours
+ */
+export const ENERGY_PERIOD_HOURS: Record<EnergyPeriod, number> = {
+  '1h': 1,
+  '6h': 6,
+  '24h': 24,
+  '7d': 24 * 7
+};
+
+/**
+ * All supported energy periods
+ */
+export const ENERGY_PERIODS = Object.keys(ENERGY_PERIOD_HOURS) as EnergyPeriod[];
+
+/**
+ * Check whether a value is a supported energy period
+ */
+export function isEnergyPeriod(value: string): value is EnergyPeriod {
+  return ENERGY_PERIODS.includes(value as EnergyPeriod);
+}
+
+/**
+ * Readings further apart than this are not integrated into energy totals
+ * (the plug was offline or sampling was stopped in between)
+ */
+export const MAX_INTEGRATION_GAP_MS = 30 * 60 * 1000;
+
+/**
+ * Energy (kWh) used between two consecutive readings of the same plug
+ * Uses the trapezoidal rule; returns 0 for gaps longer than MAX_INTEGRATION_GAP_MS.
+ */
+export function energyBetween(previous: PowerReading, current: PowerReading): number {
+  const elapsedMs = current.timestamp.getTime() - previous.timestamp.getTime();
+  if (elapsedMs <= 0 || elapsedMs > MAX_INTEGRATION_GAP_MS) {
+    return 0;
+  }
+
+  const averageWatts = (previous.watts + current.watts) / 2;
+  return (averageWatts * elapsedMs) / (1000 * 60 * 60 * 1000);
+}
+
+/**
+ * Start of the local calendar day containing a timestamp
+ */
+export function startOfDay(timestamp: Date): Date {
+  const start = new Date(timestamp);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Month key (YYYY-MM, local time) of a timestamp
+ */
+export function monthKeyOf(timestamp: Date): string {
+  return `${timestamp.getFullYear()}-${String(timestamp.getMonth() + 1).padStart(2, '0')}`;
+}
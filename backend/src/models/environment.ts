@@ -3,12 +3,14 @@
  */
 
 /**
- * Raw environment data from SwitchBot Hub 2
+ * Raw environment data from SwitchBot Hub 2 / Meter
  */
 export interface RawEnvironmentData {
   temperature?: number;
   humidity?: number;
   lightLevel?: number;
+  CO2?: number;
+  battery?: number;
 }
 
 /**
@@ -17,10 +19,42 @@ export interface RawEnvironmentData {
 export interface EnvironmentData {
   temperature: number;    // Temperature in Celsius
   humidity: number;       // Humidity percentage (0-100)
-  light: number;         // Light level in lux
+  light: number;         // Light level in lux (0 for sensors without a light sensor)
   timestamp: Date;       // Data acquisition timestamp
+  deviceId?: string;     // Source sensor device ID
+  deviceName?: string;   // Source sensor name (usually the room)
+  hasLightSensor?: boolean; // Whether light is measured by the source sensor
+  co2?: number;          // CO2 concentration in ppm (CO2 sensors only)
+  battery?: number;      // Battery level percentage (battery powered meters only)
 }
 
+/**
+ * Climate-capable SwitchBot device used as an environment data source
+ */
+export interface EnvironmentSensor {
+  deviceId: string;
+  deviceName: string;
+  deviceType: string;
+  hasLightSensor: boolean;
+  hasCO2Sensor: boolean;
+}
+
+/**
+ * Device types that report temperature and humidity
+ * WoIOSensor is the Outdoor Meter.
+ */
+export const CLIMATE_SENSOR_DEVICE_TYPES = ['Hub 2', 'Hub', 'Meter', 'MeterPlus', 'WoIOSensor', 'MeterPro', 'MeterPro(CO2)'];
+
+/**
+ * Device types that also report a light level
+ */
+export const LIGHT_SENSOR_DEVICE_TYPES = ['Hub 2'];
+
+/**
+ * Device types that also report a CO2 concentration
+ */
+export const CO2_SENSOR_DEVICE_TYPES = ['MeterPro(CO2)'];
+
 /**
  * Environment data validation result
  */
@@ -40,11 +74,15 @@ export class EnvironmentDataValidator {
   private static readonly HUMIDITY_MAX = 100;
   private static readonly LIGHT_MIN = 0;
   private static readonly LIGHT_MAX = 100000; // Maximum reasonable lux value
+  private static readonly CO2_MIN = 0;
+  private static readonly CO2_MAX = 10000; // Measuring range of the CO2 Meter is 400-9000 ppm
 
   /**
    * Validate raw environment data from SwitchBot API
+   * Sensors without a light sensor can pass requireLight = false; light is then reported as 0.
+   * CO2 is only required when requireCO2 is set; battery is passed through when it is a valid percentage.
    */
-  static validate(rawData: RawEnvironmentData): ValidationResult {
+  static validate(rawData: RawEnvironmentData, requireLight: boolean = true, requireCO2: boolean = false): ValidationResult {
     const errors: string[] = [];
 
     // Check if data exists
@@ -68,11 +106,21 @@ export class EnvironmentDataValidator {
     }
 
     // Validate light level
-    const light = this.validateLight(rawData.lightLevel);
+    const light: { value?: number; error?: string } = requireLight || (rawData.lightLevel !== undefined && rawData.lightLevel !== null)
+      ? this.validateLight(rawData.lightLevel)
+      : { value: 0 };
     if (light.error) {
       errors.push(light.error);
     }
 
+    // Validate CO2 concentration
+    const co2: { value?: number; error?: string } = requireCO2 || (rawData.CO2 !== undefined && rawData.CO2 !== null)
+      ? this.validateCO2(rawData.CO2)
+      : {};
+    if (co2.error) {
+      errors.push(co2.error);
+    }
+
     // If there are validation errors, return them
     if (errors.length > 0) {
       return {
@@ -88,6 +136,12 @@ export class EnvironmentDataValidator {
       light: light.value!,
       timestamp: new Date()
     };
+    if (co2.value !== undefined) {
+      environmentData.co2 = co2.value;
+    }
+    if (typeof rawData.battery === 'number' && rawData.battery >= 0 && rawData.battery <= 100) {
+      environmentData.battery = rawData.battery;
+    }
 
     return {
       isValid: true,
@@ -162,6 +216,28 @@ export class EnvironmentDataValidator {
     return { value: numValue };
   }
 
+  /**
+   * Validate CO2 concentration value
+   */
+  private static validateCO2(value: any): { value?: number; error?: string } {
+    if (value === undefined || value === null) {
+      return { error: 'CO2 concentration is required' };
+    }
+
+    const numValue = Number(value);
+    if (isNaN(numValue)) {
+      return { error: 'CO2 concentration must be a valid number' };
+    }
+
+    if (numValue < this.CO2_MIN || numValue > this.CO2_MAX) {
+      return {
+        error: `CO2 concentration must be between ${this.CO2_MIN} and ${this.CO2_MAX} ppm`
+      };
+    }
+
+    return { value: numValue };
+  }
+
   /**
    * Check if environment data is within reasonable ranges
    */
@@ -0,0 +1,54 @@
+/**
+ * IR button catalog models and validation for SwitchBot Dashboard
+ * DIY IR remotes only accept buttons learned in the SwitchBot app, sent with
+ * commandType 'customize'. The API cannot list them, so users register the
+ * button names per device.
+ */
+
+/**
+ * Learned button names of a single IR remote
+ */
+export interface IRButtonCatalog {
+  deviceId: string;
+  buttons: string[];
+  updatedAt: Date;
+}
+
+/**
+ * IR button catalog validation
+ */
+export class IRButtonValidator {
+  static readonly MAX_BUTTONS = 50;
+  static readonly MAX_NAME_LENGTH = 50;
+
+  /**
+   * Validate the button names of a catalog
+   */
+  static validate(buttons: unknown): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!Array.isArray(buttons)) {
+      errors.push('buttons must be an array of button names');
+    } else if (buttons.length > this.MAX_BUTTONS) {
+      errors.push(`A remote can have at most ${this.MAX_BUTTONS} buttons`);
+    } else {
+      buttons.forEach((button, index) => {
+        if (typeof button !== 'string' || button.trim().length === 0) {
+          errors.push(`buttons[${index}] must be a non-empty string`);
+        } else if (button.length > this.MAX_NAME_LENGTH) {
+          errors.push(`buttons[${index}] must be at most ${this.MAX_NAME_LENGTH} characters`);
+        }
+      });
+
+      const names = buttons.filter((button): button is string => typeof button === 'string').map(button => button.trim());
+      if (new Set(names).size !== names.length) {
+        errors.push('Button names must be unique');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
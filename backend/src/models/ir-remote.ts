@@ -0,0 +1,37 @@
+/**
+ * IR remote command models for SwitchBot Dashboard
+ * Commands documented by the SwitchBot API for the virtual remotes of a Hub.
+ */
+
+import { DeviceType } from './device';
+
+/**
+ * IR remote types with a fixed command set
+ */
+export type IRRemoteDeviceType = Extract<DeviceType, 'TV' | 'Fan' | 'Speaker' | 'Projector'>;
+
+/**
+ * Commands accepted by each IR remote type
+ * TV covers TV, IPTV/Streamer and Set Top Box; Speaker covers Speaker and DVD.
+ */
+export const IR_REMOTE_COMMANDS: Record<IRRemoteDeviceType, readonly string[]> = {
+  TV: ['turnOn', 'turnOff', 'SetChannel', 'volumeAdd', 'volumeSub', 'channelAdd', 'channelSub'],
+  Fan: ['turnOn', 'turnOff', 'swing', 'timer', 'lowSpeed', 'middleSpeed', 'highSpeed'],
+  Speaker: [
+    'turnOn', 'turnOff', 'setMute', 'FastForward', 'Rewind', 'Next', 'Previous', 'Pause', 'Play', 'Stop',
+    'volumeAdd', 'volumeSub'
+  ],
+  Projector: ['turnOn', 'turnOff']
+};
+
+/**
+ * Highest channel accepted by SetChannel
+ */
+export const MAX_TV_CHANNEL = 999;
+
+/**
+ * Check whether a device type is an IR remote type with a fixed command set
+ */
+export function isIRRemoteDeviceType(deviceType: DeviceType): deviceType is IRRemoteDeviceType {
+  return deviceType in IR_REMOTE_COMMANDS;
+}
@@ -0,0 +1,67 @@
+/**
+ * Color light model for SwitchBot Dashboard
+ * Color Bulb and Strip Light exchange colors as "red:green:blue" strings.
+ */
+
+import { LightProperties } from './device';
+
+export type LightColor = NonNullable<LightProperties['color']>;
+
+/**
+ * Supported color temperature range (Kelvin)
+ */
+export const LIGHT_MIN_COLOR_TEMPERATURE = 2700;
+export const LIGHT_MAX_COLOR_TEMPERATURE = 6500;
+
+/**
+ * Highest value of a single color channel
+ */
+export const LIGHT_MAX_COLOR_VALUE = 255;
+
+/**
+ * Check whether a value is a valid color channel (integer 0-255)
+ */
+export function isValidColorValue(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= LIGHT_MAX_COLOR_VALUE;
+}
+
+/**
+ * Check whether a value is a valid color temperature (integer 2700-6500)
+ */
+export function isValidColorTemperature(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) &&
+    value >= LIGHT_MIN_COLOR_TEMPERATURE && value <= LIGHT_MAX_COLOR_TEMPERATURE;
+}
+
+/**
+ * Build the setColor parameter ("red:green:blue")
+ */
+export function formatLightColor(color: LightColor): string {
+  return `${color.red}:${color.green}:${color.blue}`;
+}
+
+/**
+ * Parse a color reported by the status API
+ * Accepts "red:green:blue" strings and {red, green, blue} objects; returns undefined otherwise.
+ */
+export function parseLightColor(value: unknown): LightColor | undefined {
+  if (typeof value === 'string') {
+    const parts = value.split(':').map(part => Number(part));
+    if (parts.length !== 3 || !parts.every(isValidColorValue)) {
+      return undefined;
+    }
+    const [red, green, blue] = parts;
+    return { red, green, blue };
+  }
+
+  if (value && typeof value === 'object') {
+    const color = value as Partial<LightColor>;
+    return {
+      red: color.red || 0,
+      green: color.green || 0,
+      blue: color.blue || 0
+    };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,49 @@
+/**
+ * Smart lock models for SwitchBot Dashboard
+ * Locking and unlocking is a two-step operation: the client first requests a
+ * short-lived confirmation token for the action and then sends it back with
+ * the command. Every attempt is written to the lock audit log.
+ */
+
+/**
+ * Actions accepted by Lock / Lock Pro
+ */
+export type LockAction = 'lock' | 'unlock';
+
+export const LOCK_ACTIONS: readonly LockAction[] = ['lock', 'unlock'];
+
+/**
+ * Confirmation token issued for a single lock action
+ */
+export interface LockConfirmation {
+  token: string;
+  deviceId: string;
+  action: LockAction;
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of a lock action
+ * rejected: the confirmation token was missing, expired or issued for another action
+ */
+export type LockAuditResult = 'success' | 'failed' | 'rejected';
+
+/**
+ * Entry of the lock audit log
+ */
+export interface LockAuditEntry {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  action: LockAction;
+  result: LockAuditResult;
+  message?: string;
+  timestamp: Date;
+}
+
+/**
+ * Check whether a value is a lock action
+ */
+export function isLockAction(value: unknown): value is LockAction {
+  return typeof value === 'string' && (LOCK_ACTIONS as readonly string[]).includes(value);
+}
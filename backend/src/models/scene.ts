@@ -0,0 +1,154 @@
+/**
+ * Scene models and validation for SwitchBot Dashboard
+ */
+
+/**
+ * Single device command of a scene
+ */
+export interface SceneStep {
+  deviceId: string;
+  command: string;
+  parameter?: any;
+  delayMs?: number; // Wait before sending this step
+}
+
+/**
+ * Scene: an ordered list of device commands executed in one call
+ */
+export interface Scene {
+  id: string;
+  name: string;
+  icon?: string;
+  steps: SceneStep[];
+  createdAt: Date;
+  updatedAt: Date;
+  lastExecutedAt?: Date;
+}
+
+/**
+ * Fields accepted when creating or updating a scene
+ */
+export interface SceneInput {
+  name: string;
+  icon?: string;
+  steps: SceneStep[];
+}
+
+/**
+ * Result of a single step of a scene execution
+ */
+export interface SceneStepResult extends SceneStep {
+  success: boolean;
+  error?: string;
+  executedAt: Date;
+}
+
+/**
+ * Scene execution result
+ */
+export interface SceneExecution {
+  id: string;
+  sceneId: string;
+  sceneName: string;
+  startedAt: Date;
+  finishedAt: Date;
+  success: boolean;
+  steps: SceneStepResult[];
+}
+
+/**
+ * Manual scene created in the SwitchBot app (executed by the SwitchBot cloud)
+ */
+export interface CloudScene {
+  sceneId: string;
+  sceneName: string;
+}
+
+/**
+ * Cloud scene execution result
+ */
+export interface CloudSceneExecution {
+  sceneId: string;
+  sceneName?: string;
+  executedAt: Date;
+  success: boolean;
+}
+
+/**
+ * Scene validation
+ */
+export class SceneValidator {
+  private static readonly MAX_NAME_LENGTH = 100;
+  private static readonly MAX_ICON_LENGTH = 8;
+  private static readonly MAX_STEPS = 20;
+  static readonly MAX_DELAY_MS = 10 * 60 * 1000;
+
+  /**
+   * Validate a scene definition
+   */
+  static validate(input: Partial<SceneInput>): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      errors.push('Scene name is required');
+    } else if (input.name.length > this.MAX_NAME_LENGTH) {
+      errors.push(`Scene name must be at most ${this.MAX_NAME_LENGTH} characters`);
+    }
+
+    if (input.icon !== undefined &&
+        (typeof input.icon !== 'string' || input.icon.length > this.MAX_ICON_LENGTH)) {
+      errors.push(`icon must be a string of at most ${this.MAX_ICON_LENGTH} characters`);
+    }
+
+    if (!Array.isArray(input.steps) || input.steps.length === 0) {
+      errors.push('At least one step is required');
+    } else if (input.steps.length > this.MAX_STEPS) {
+      errors.push(`A scene can have at most ${this.MAX_STEPS} steps`);
+    } else {
+      input.steps.forEach((step, index) => {
+        errors.push(...this.validateStep(step, index));
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a single step
+   */
+  private static validateStep(step: SceneStep, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `steps[${index}]`;
+
+    if (!step || typeof step !== 'object') {
+      return [`${prefix} must be an object`];
+    }
+    if (typeof step.deviceId !== 'string' || step.deviceId.trim().length === 0) {
+      errors.push(`${prefix}.deviceId is required`);
+    }
+    if (typeof step.command !== 'string' || step.command.trim().length === 0) {
+      errors.push(`${prefix}.command is required`);
+    }
+    if (step.delayMs !== undefined &&
+        (typeof step.delayMs !== 'number' || step.delayMs < 0 || step.delayMs > this.MAX_DELAY_MS)) {
+      errors.push(`${prefix}.delayMs must be between 0 and ${this.MAX_DELAY_MS}`);
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Estimate how long a scene takes to execute
+ * Consecutive commands are spaced by at least the API request interval, so a
+ * delay shorter than the interval does not add to the total.
+ */
+export function estimateSceneDuration(steps: SceneStep[], minRequestIntervalMs: number): number {
+  return steps.reduce((total, step, index) => {
+    const delay = step.delayMs ?? 0;
+    return total + (index === 0 ? delay : Math.max(delay, minRequestIntervalMs));
+  }, 0);
+}
@@ -0,0 +1,148 @@
+/**
+ * Device schedule models and validation for SwitchBot Dashboard
+ */
+
+/**
+ * Device command executed when a schedule runs
+ */
+export interface ScheduleAction {
+  command: string;
+  parameter?: any;
+}
+
+/**
+ * Result of a schedule run
+ */
+export interface ScheduleRunResult {
+  timestamp: Date;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Weekly device schedule
+ * Runs its actions on the given device at a local time on the selected weekdays.
+ */
+export interface DeviceSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  deviceId: string;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday (Date.getDay())
+  time: string;       // Local time, HH:mm
+  actions: ScheduleAction[];
+  createdAt: Date;
+  updatedAt: Date;
+  lastRunAt?: Date;
+  lastResult?: ScheduleRunResult;
+  nextRunAt?: Date;   // Unset while the schedule is disabled
+}
+
+/**
+ * Fields accepted when creating or updating a schedule
+ */
+export interface DeviceScheduleInput {
+  name: string;
+  enabled?: boolean;
+  deviceId: string;
+  weekdays: number[];
+  time: string;
+  actions: ScheduleAction[];
+}
+
+/**
+ * Weekdays Monday to Friday
+ */
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Every day of the week
+ */
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Device schedule validation
+ */
+export class ScheduleValidator {
+  private static readonly MAX_NAME_LENGTH = 100;
+
+  /**
+   * Validate a schedule definition
+   */
+  static validate(input: Partial<DeviceScheduleInput>): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      errors.push('Schedule name is required');
+    } else if (input.name.length > this.MAX_NAME_LENGTH) {
+      errors.push(`Schedule name must be at most ${this.MAX_NAME_LENGTH} characters`);
+    }
+
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+
+    if (typeof input.deviceId !== 'string' || input.deviceId.trim().length === 0) {
+      errors.push('deviceId is required');
+    }
+
+    if (!Array.isArray(input.weekdays) || input.weekdays.length === 0) {
+      errors.push('At least one weekday is required');
+    } else if (!input.weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      errors.push('weekdays must contain integers between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    if (typeof input.time !== 'string' || !TIME_PATTERN.test(input.time)) {
+      errors.push('time must be in HH:mm format');
+    }
+
+    if (!Array.isArray(input.actions) || input.actions.length === 0) {
+      errors.push('At least one action is required');
+    } else {
+      input.actions.forEach((action, index) => {
+        if (!action || typeof action !== 'object') {
+          errors.push(`actions[${index}] must be an object`);
+        } else if (typeof action.command !== 'string' || action.command.trim().length === 0) {
+          errors.push(`actions[${index}].command is required`);
+        }
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
+
+/**
+ * Calculate the next run of a schedule strictly after the given time
+ * Times are interpreted in the server's local time zone.
+ */
+export function calculateNextRun(
+  schedule: Pick<DeviceSchedule, 'weekdays' | 'time'>,
+  after: Date
+): Date | undefined {
+  const match = TIME_PATTERN.exec(schedule.time);
+  if (!match || schedule.weekdays.length === 0) {
+    return undefined;
+  }
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+
+  // Today plus the following seven days covers every weekday at least once
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(after);
+    candidate.setDate(candidate.getDate() + offset);
+    candidate.setHours(hours, minutes, 0, 0);
+
+    if (schedule.weekdays.includes(candidate.getDay()) && candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+}
@@ -16,6 +16,10 @@ export interface AppSettings {
       min: number;
       max: number;
     };
+    co2: {
+      warning: number; // ppm
+      critical: number; // ppm
+    };
   };
   notifications: {
     enabled: boolean;
@@ -36,6 +40,10 @@ export const DEFAULT_SETTINGS: AppSettings = {
     humidity: {
       min: 30,
       max: 70
+    },
+    co2: {
+      warning: 1000,
+      critical: 1500
     }
   },
   notifications: {
@@ -105,6 +113,25 @@ export class SettingsValidator {
     return { isValid: true };
   }
 
+  /**
+   * Validate CO2 thresholds
+   */
+  static validateCO2Thresholds(warning: number, critical: number): { isValid: boolean; error?: string } {
+    if (typeof warning !== 'number' || typeof critical !== 'number') {
+      return { isValid: false, error: 'CO2 thresholds must be numbers' };
+    }
+    
+    if (warning >= critical) {
+      return { isValid: false, error: 'CO2 warning level must be less than critical level' };
+    }
+    
+    if (warning < 400 || critical > 10000) {
+      return { isValid: false, error: 'CO2 thresholds must be between 400ppm and 10000ppm' };
+    }
+    
+    return { isValid: true };
+  }
+
   /**
    * Validate complete settings object
    */
@@ -134,6 +161,14 @@ export class SettingsValidator {
       }
     }
 
+    if (settings.alertThresholds?.co2) {
+      const { warning, critical } = settings.alertThresholds.co2;
+      const co2Validation = this.validateCO2Thresholds(warning, critical);
+      if (!co2Validation.isValid) {
+        errors.push(co2Validation.error!);
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors
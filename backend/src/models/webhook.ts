@@ -0,0 +1,104 @@
+/**
+ * SwitchBot webhook models for SwitchBot Dashboard
+ * SwitchBot posts a "changeReport" event whenever the state of a device changes
+ * (meters, contact and motion sensors, locks, plugs, ...). The event context
+ * identifies the device by its MAC address and carries the changed state.
+ */
+
+/**
+ * Webhook payload posted by SwitchBot
+ */
+export interface SwitchBotWebhookPayload {
+  eventType: string;
+  eventVersion?: string;
+  context: {
+    deviceType: string;
+    deviceMac: string;
+    timeOfSample?: number;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Device state change extracted from a webhook payload
+ * status uses the field names of the device status API so it can be parsed the same way.
+ */
+export interface DeviceStateEvent {
+  deviceId: string;
+  switchBotType: string;
+  status: Record<string, unknown>;
+  timestamp: Date;
+}
+
+/**
+ * Event type of device state changes
+ */
+export const WEBHOOK_CHANGE_REPORT = 'changeReport';
+
+/**
+ * Context fields describing the event rather than the device state
+ */
+const METADATA_FIELDS = ['deviceType', 'deviceMac', 'timeOfSample', 'scale'];
+
+/**
+ * Convert a device MAC address ("01:00:5e:90:10:00") to a device ID ("01005E901000")
+ */
+export function deviceIdFromMac(mac: string): string {
+  return mac.replace(/[:-]/g, '').toUpperCase();
+}
+
+/**
+ * Check whether a value is a SwitchBot webhook payload
+ */
+export function isWebhookPayload(value: unknown): value is SwitchBotWebhookPayload {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const payload = value as Record<string, any>;
+  return (
+    typeof payload.eventType === 'string' &&
+    !!payload.context &&
+    typeof payload.context === 'object' &&
+    typeof payload.context.deviceMac === 'string' &&
+    payload.context.deviceMac.length > 0 &&
+    typeof payload.context.deviceType === 'string'
+  );
+}
+
+/**
+ * Extract the device state change of a webhook payload
+ * Returns null for events other than state changes.
+ */
+export function parseWebhookEvent(payload: SwitchBotWebhookPayload): DeviceStateEvent | null {
+  if (payload.eventType !== WEBHOOK_CHANGE_REPORT) {
+    return null;
+  }
+
+  const { context } = payload;
+  const status: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(context)) {
+    if (!METADATA_FIELDS.includes(key)) {
+      status[key] = value;
+    }
+  }
+
+  // Plugs report powerState ("ON" / "OFF") where the status API reports power ("on" / "off")
+  if (typeof status.powerState === 'string') {
+    status.power = status.powerState.toLowerCase();
+    delete status.powerState;
+  }
+
+  // Meters report in the unit configured in the app; the dashboard works in Celsius
+  if (context.scale === 'FAHRENHEIT' && typeof status.temperature === 'number') {
+    status.temperature = Math.round((status.temperature - 32) * 5 / 9 * 10) / 10;
+  }
+
+  return {
+    deviceId: deviceIdFromMac(context.deviceMac),
+    switchBotType: context.deviceType,
+    status,
+    timestamp: typeof context.timeOfSample === 'number' ? new Date(context.timeOfSample) : new Date()
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for automation rule API endpoints
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { automationRoutes } from '../automation.routes';
+import { automationService } from '../../services/automation.service';
+
+jest.mock('../../services/device.service', () => ({
+  deviceService: { controlDevice: jest.fn().mockResolvedValue(undefined) }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/automations', automationRoutes);
+
+describe('Automation API Endpoints', () => {
+  const ruleBody = {
+    name: 'Dehumidify bedroom',
+    conditions: [{ metric: 'humidity', operator: 'above', value: 65, durationMinutes: 0 }],
+    actions: [{ deviceId: 'ac-1', command: 'setAll', parameter: '26,3,1,on' }],
+    cooldownMinutes: 60
+  };
+
+  afterEach(() => {
+    automationService.getRules().forEach(rule => automationService.deleteRule(rule.id));
+  });
+
+  it('should create and list rules', async () => {
+    const created = await request(app)
+      .post('/api/automations')
+      .send(ruleBody)
+      .expect(201);
+
+    expect(created.body.success).toBe(true);
+    expect(created.body.data.id).toMatch(/^rule-/);
+    expect(created.body.data.lastTriggeredAt).toBeNull();
+
+    const list = await request(app).get('/api/automations').expect(200);
+    expect(list.body.data.count).toBe(1);
+    expect(list.body.data.rules[0].name).toBe('Dehumidify bedroom');
+  });
+
+  it('should reject invalid rules with 400', async () => {
+    const response = await request(app)
+      .post('/api/automations')
+      .send({ ...ruleBody, actions: [] })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should update, disable and delete a rule', async () => {
+    const { id } = automationService.createRule(ruleBody as any);
+
+    const updated = await request(app)
+      .put(`/api/automations/${id}`)
+      .send({ cooldownMinutes: 15 })
+      .expect(200);
+    expect(updated.body.data.cooldownMinutes).toBe(15);
+
+    const disabled = await request(app).post(`/api/automations/${id}/disable`).expect(200);
+    expect(disabled.body.data.enabled).toBe(false);
+
+    const enabled = await request(app).post(`/api/automations/${id}/enable`).expect(200);
+    expect(enabled.body.data.enabled).toBe(true);
+
+    await request(app).delete(`/api/automations/${id}`).expect(200);
+    await request(app).get(`/api/automations/${id}`).expect(404);
+  });
+
+  it('should return the execution log', async () => {
+    automationService.createRule(ruleBody as any);
+    await automationService.evaluate({ temperature: 25, humidity: 70, light: 100, timestamp: new Date() });
+
+    const response = await request(app)
+      .get('/api/automations/log')
+      .query({ limit: 5 })
+      .expect(200);
+
+    expect(response.body.data.count).toBeGreaterThanOrEqual(1);
+    expect(response.body.data.executions[0]).toMatchObject({
+      ruleName: 'Dehumidify bedroom',
+      success: true
+    });
+    expect(typeof response.body.data.executions[0].timestamp).toBe('string');
+  });
+});
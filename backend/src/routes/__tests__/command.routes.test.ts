@@ -0,0 +1,105 @@
+/**
+ * Device command routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { deviceRoutes } from '../device.routes';
+import { commandRoutes } from '../command.routes';
+import { commandQueueService, CommandQueueServiceError } from '../../services/command-queue.service';
+import { DeviceServiceError } from '../../services/device.service';
+import { DeviceCommand } from '../../models/command';
+
+// Mock command queue service
+jest.mock('../../services/command-queue.service', () => {
+  const actual = jest.requireActual('../../services/command-queue.service');
+  return {
+    ...actual,
+    commandQueueService: {
+      enqueue: jest.fn(),
+      getCommand: jest.fn()
+    }
+  };
+});
+const mockCommandQueue = commandQueueService as jest.Mocked<typeof commandQueueService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/devices', deviceRoutes);
+app.use('/api/commands', commandRoutes);
+
+describe('Device Command Routes', () => {
+  const queued: DeviceCommand = {
+    id: 'cmd-1704110400000-abc123',
+    deviceId: 'light-1',
+    command: 'turnOn',
+    status: 'queued',
+    createdAt: new Date('2024-01-01T12:00:00Z'),
+    updatedAt: new Date('2024-01-01T12:00:00Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('POST /api/devices/:deviceId/control', () => {
+    it('should queue the command and answer with 202 and the command ID', async () => {
+      mockCommandQueue.enqueue.mockResolvedValue(queued);
+
+      const response = await request(app)
+        .post('/api/devices/light-1/control')
+        .send({ command: 'setBrightness', parameter: 50 });
+
+      expect(response.status).toBe(202);
+      expect(response.headers.location).toBe('/api/commands/cmd-1704110400000-abc123');
+      expect(response.body.data).toMatchObject({
+        commandId: 'cmd-1704110400000-abc123',
+        status: 'queued'
+      });
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-1', 'setBrightness', 50);
+    });
+
+    it('should reject missing commands and unknown devices', async () => {
+      mockCommandQueue.enqueue.mockRejectedValue(new DeviceServiceError('Device missing not found', 'DEVICE_NOT_FOUND'));
+
+      const invalid = await request(app).post('/api/devices/light-1/control').send({});
+      const missing = await request(app).post('/api/devices/missing/control').send({ command: 'turnOn' });
+
+      expect(invalid.status).toBe(400);
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/commands/:commandId', () => {
+    it('should return the command status', async () => {
+      mockCommandQueue.getCommand.mockReturnValue({
+        ...queued,
+        status: 'failed',
+        statusCode: 161,
+        error: { code: 'CONTROL_ERROR', message: 'Device offline' }
+      });
+
+      const response = await request(app).get('/api/commands/cmd-1704110400000-abc123');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        id: 'cmd-1704110400000-abc123',
+        status: 'failed',
+        statusCode: 161,
+        createdAt: '2024-01-01T12:00:00.000Z'
+      });
+    });
+
+    it('should return 404 for unknown commands', async () => {
+      mockCommandQueue.getCommand.mockImplementation(() => {
+        throw new CommandQueueServiceError('Command cmd-missing not found', 'COMMAND_NOT_FOUND');
+      });
+
+      const response = await request(app).get('/api/commands/cmd-missing');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('COMMAND_NOT_FOUND');
+    });
+  });
+});
@@ -6,12 +6,29 @@ import request from 'supertest';
 import express from 'express';
 import { deviceRoutes } from '../device.routes';
 import { deviceService } from '../../services/device.service';
+import { commandQueueService } from '../../services/command-queue.service';
 import { Device } from '../../models/device';
 
 // Mock device service
 jest.mock('../../services/device.service');
 const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
 
+// Mock command queue service
+jest.mock('../../services/command-queue.service', () => ({
+  commandQueueService: {
+    enqueue: jest.fn(async (deviceId: string, command: string, parameter?: any) => ({
+      id: 'cmd-1',
+      deviceId,
+      command,
+      parameter,
+      status: 'queued',
+      createdAt: new Date('2024-01-01T12:00:00Z'),
+      updatedAt: new Date('2024-01-01T12:00:00Z')
+    }))
+  }
+}));
+const mockCommandQueue = commandQueueService as jest.Mocked<typeof commandQueueService>;
+
 const app = express();
 app.use(express.json());
 app.use('/api/devices', deviceRoutes);
@@ -42,30 +59,28 @@ describe('Air Conditioner Control Routes', () => {
   describe('POST /api/devices/:deviceId/aircon/power', () => {
     it('should set air conditioner power to on', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/power')
         .send({ power: 'on' });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.power).toBe('on');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'turnOn');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'turnOn', undefined);
     });
 
     it('should set air conditioner power to off', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/power')
         .send({ power: 'off' });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.power).toBe('off');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'turnOff');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'turnOff', undefined);
     });
 
     it('should return 400 for invalid power value', async () => {
@@ -95,30 +110,28 @@ describe('Air Conditioner Control Routes', () => {
   describe('POST /api/devices/:deviceId/aircon/mode', () => {
     it('should set air conditioner mode to cool', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/mode')
         .send({ mode: 'cool' });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.mode).toBe('cool');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'setMode', 'cool');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'setMode', 'cool');
     });
 
     it('should set air conditioner mode to heat', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/mode')
         .send({ mode: 'heat' });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.mode).toBe('heat');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'setMode', 'heat');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'setMode', 'heat');
     });
 
     it('should return 400 for invalid mode', async () => {
@@ -133,7 +146,6 @@ describe('Air Conditioner Control Routes', () => {
 
     it('should accept all valid modes', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const validModes = ['cool', 'heat', 'dry', 'auto', 'fan'];
       
@@ -142,7 +154,7 @@ describe('Air Conditioner Control Routes', () => {
           .post('/api/devices/aircon-001/aircon/mode')
           .send({ mode });
 
-        expect(response.status).toBe(200);
+        expect(response.status).toBe(202);
         expect(response.body.success).toBe(true);
         expect(response.body.data.mode).toBe(mode);
       }
@@ -152,40 +164,37 @@ describe('Air Conditioner Control Routes', () => {
   describe('POST /api/devices/:deviceId/aircon/temperature', () => {
     it('should set air conditioner temperature to 22', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/temperature')
         .send({ temperature: 22 });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.temperature).toBe(22);
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'setTemperature', '22');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'setTemperature', 22);
     });
 
     it('should accept temperature at minimum boundary (16)', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/temperature')
         .send({ temperature: 16 });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.temperature).toBe(16);
     });
 
     it('should accept temperature at maximum boundary (30)', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/temperature')
         .send({ temperature: 30 });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.temperature).toBe(30);
     });
@@ -221,6 +230,42 @@ describe('Air Conditioner Control Routes', () => {
     });
   });
 
+  describe('POST /api/devices/:deviceId/aircon/fan', () => {
+    it('should set air conditioner fan speed', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
+
+      const response = await request(app)
+        .post('/api/devices/aircon-001/aircon/fan')
+        .send({ fanSpeed: 'high' });
+
+      expect(response.status).toBe(202);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.fanSpeed).toBe('high');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'setFanSpeed', 'high');
+    });
+
+    it('should return 400 for invalid fan speed', async () => {
+      const response = await request(app)
+        .post('/api/devices/aircon-001/aircon/fan')
+        .send({ fanSpeed: 'turbo' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockCommandQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for non air conditioner devices', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue({ ...mockAirconDevice, deviceType: 'Light' });
+
+      const response = await request(app)
+        .post('/api/devices/aircon-001/aircon/fan')
+        .send({ fanSpeed: 'low' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
+    });
+  });
+
   describe('POST /api/devices/:deviceId/aircon/toggle', () => {
     it('should toggle air conditioner from off to on', async () => {
       const offDevice = {
@@ -228,16 +273,15 @@ describe('Air Conditioner Control Routes', () => {
         properties: { ...mockAirconDevice.properties, power: 'off' as const }
       };
       mockDeviceService.getDeviceById.mockResolvedValue(offDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/toggle');
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.previousState).toBe('off');
       expect(response.body.data.newState).toBe('on');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'turnOn');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'turnOn', undefined);
     });
 
     it('should toggle air conditioner from on to off', async () => {
@@ -246,31 +290,29 @@ describe('Air Conditioner Control Routes', () => {
         properties: { ...mockAirconDevice.properties, power: 'on' as const }
       };
       mockDeviceService.getDeviceById.mockResolvedValue(onDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/toggle');
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.previousState).toBe('on');
       expect(response.body.data.newState).toBe('off');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'turnOff');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'turnOff', undefined);
     });
 
     it('should handle device with no properties', async () => {
       const deviceWithoutProps = { ...mockAirconDevice, properties: undefined };
       mockDeviceService.getDeviceById.mockResolvedValue(deviceWithoutProps);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/toggle');
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.previousState).toBe('off'); // Default to off
       expect(response.body.data.newState).toBe('on');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('aircon-001', 'turnOn');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('aircon-001', 'turnOn', undefined);
     });
   });
 
@@ -287,9 +329,9 @@ describe('Air Conditioner Control Routes', () => {
       expect(response.body.error.code).toBe('INTERNAL_ERROR');
     });
 
-    it('should handle control device errors', async () => {
+    it('should handle command queue errors', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockAirconDevice);
-      mockDeviceService.controlDevice.mockRejectedValue(new Error('Control failed'));
+      mockCommandQueue.enqueue.mockRejectedValueOnce(new Error('Queue failed'));
 
       const response = await request(app)
         .post('/api/devices/aircon-001/aircon/power')
@@ -0,0 +1,103 @@
+/**
+ * Bot control routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { deviceRoutes } from '../device.routes';
+import { deviceService, DeviceServiceError } from '../../services/device.service';
+import { commandQueueService } from '../../services/command-queue.service';
+import { Device } from '../../models/device';
+
+// Mock device service
+jest.mock('../../services/device.service', () => {
+  const actual = jest.requireActual('../../services/device.service');
+  return {
+    ...actual,
+    deviceService: {
+      getDeviceById: jest.fn()
+    }
+  };
+});
+const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
+
+// Mock command queue service
+jest.mock('../../services/command-queue.service', () => ({
+  commandQueueService: {
+    enqueue: jest.fn(async (deviceId: string, command: string, parameter?: any) => ({
+      id: 'cmd-1',
+      deviceId,
+      command,
+      parameter,
+      status: 'queued',
+      createdAt: new Date('2024-01-01T12:00:00Z'),
+      updatedAt: new Date('2024-01-01T12:00:00Z')
+    }))
+  }
+}));
+const mockCommandQueue = commandQueueService as jest.Mocked<typeof commandQueueService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/devices', deviceRoutes);
+
+describe('Bot Control Routes', () => {
+  const mockBotDevice: Device = {
+    deviceId: 'bot-001',
+    deviceName: 'コーヒーメーカー',
+    deviceType: 'Bot',
+    status: 'online',
+    hubDeviceId: 'hub-001',
+    enableCloudService: true,
+    isInfraredRemote: false,
+    properties: {
+      power: 'off',
+      battery: 80,
+      mode: 'switch'
+    },
+    lastUpdated: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDeviceService.getDeviceById.mockResolvedValue(mockBotDevice);
+  });
+
+  it.each([
+    ['press', 'press'],
+    ['on', 'turnOn'],
+    ['off', 'turnOff']
+  ])('should send %s to the bot as %s', async (action, command) => {
+    const response = await request(app)
+      .post(`/api/devices/bot-001/bot/${action}`);
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toMatchObject({ deviceId: 'bot-001', command, action });
+    expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('bot-001', command, undefined);
+  });
+
+  it('should return 400 for non-bot devices', async () => {
+    mockDeviceService.getDeviceById.mockResolvedValue({
+      ...mockBotDevice,
+      deviceType: 'Plug',
+      properties: { power: 'off' }
+    });
+
+    const response = await request(app)
+      .post('/api/devices/bot-001/bot/press');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
+    expect(mockCommandQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should return 503 when the device does not accept commands', async () => {
+    mockCommandQueue.enqueue.mockRejectedValueOnce(new DeviceServiceError('Device type Bot is not controllable', 'CONTROL_ERROR'));
+
+    const response = await request(app)
+      .post('/api/devices/bot-001/bot/press');
+
+    expect(response.status).toBe(503);
+    expect(response.body.error.code).toBe('CONTROL_ERROR');
+  });
+});
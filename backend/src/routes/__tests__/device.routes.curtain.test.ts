@@ -0,0 +1,143 @@
+/**
+ * Curtain control routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { deviceRoutes } from '../device.routes';
+import { deviceService, DeviceServiceError } from '../../services/device.service';
+import { commandQueueService } from '../../services/command-queue.service';
+import { Device } from '../../models/device';
+
+// Mock device service
+jest.mock('../../services/device.service', () => {
+  const actual = jest.requireActual('../../services/device.service');
+  return {
+    ...actual,
+    deviceService: {
+      getDeviceById: jest.fn()
+    }
+  };
+});
+const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
+
+// Mock command queue service
+jest.mock('../../services/command-queue.service', () => ({
+  commandQueueService: {
+    enqueue: jest.fn(async (deviceId: string, command: string, parameter?: any) => ({
+      id: 'cmd-1',
+      deviceId,
+      command,
+      parameter,
+      status: 'queued',
+      createdAt: new Date('2024-01-01T12:00:00Z'),
+      updatedAt: new Date('2024-01-01T12:00:00Z')
+    }))
+  }
+}));
+const mockCommandQueue = commandQueueService as jest.Mocked<typeof commandQueueService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/devices', deviceRoutes);
+
+describe('Curtain Control Routes', () => {
+  const mockCurtainDevice: Device = {
+    deviceId: 'curtain-001',
+    deviceName: '寝室カーテン',
+    deviceType: 'Curtain',
+    status: 'online',
+    hubDeviceId: 'hub-001',
+    enableCloudService: true,
+    isInfraredRemote: false,
+    properties: {
+      position: 100,
+      moving: false,
+      battery: 90
+    },
+    lastUpdated: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDeviceService.getDeviceById.mockResolvedValue(mockCurtainDevice);
+  });
+
+  describe('POST /api/devices/:deviceId/curtain/open|close|pause', () => {
+    it.each([
+      ['open', 'turnOn'],
+      ['close', 'turnOff'],
+      ['pause', 'pause']
+    ])('should %s the curtain with %s', async (action, command) => {
+      const response = await request(app)
+        .post(`/api/devices/curtain-001/curtain/${action}`);
+
+      expect(response.status).toBe(202);
+      expect(response.body.data).toMatchObject({ deviceId: 'curtain-001', command, action });
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('curtain-001', command, undefined);
+    });
+
+    it('should return 400 for non-curtain devices', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue({
+        ...mockCurtainDevice,
+        deviceType: 'Light',
+        properties: { power: 'off' }
+      });
+
+      const response = await request(app)
+        .post('/api/devices/curtain-001/curtain/open');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
+      expect(mockCommandQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown devices', async () => {
+      mockDeviceService.getDeviceById.mockRejectedValue(
+        new DeviceServiceError('Device with ID missing not found', 'DEVICE_NOT_FOUND')
+      );
+
+      const response = await request(app)
+        .post('/api/devices/missing/curtain/close');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('DEVICE_NOT_FOUND');
+    });
+  });
+
+  describe('POST /api/devices/:deviceId/curtain/position', () => {
+    it('should move the curtain to the requested position', async () => {
+      const response = await request(app)
+        .post('/api/devices/curtain-001/curtain/position')
+        .send({ position: 40 });
+
+      expect(response.status).toBe(202);
+      expect(response.body.data.position).toBe(40);
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('curtain-001', 'setPosition', '0,ff,40');
+    });
+
+    it.each([[-1], [101], [12.5], ['50'], [undefined]])(
+      'should return 400 for invalid position %p',
+      async (position) => {
+        const response = await request(app)
+          .post('/api/devices/curtain-001/curtain/position')
+          .send({ position });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+        expect(mockCommandQueue.enqueue).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should return 503 when the device does not accept commands', async () => {
+      mockCommandQueue.enqueue.mockRejectedValueOnce(new DeviceServiceError('Device type Curtain is not controllable', 'CONTROL_ERROR'));
+
+      const response = await request(app)
+        .post('/api/devices/curtain-001/curtain/position')
+        .send({ position: 0 });
+
+      expect(response.status).toBe(503);
+      expect(response.body.error.code).toBe('CONTROL_ERROR');
+    });
+  });
+});
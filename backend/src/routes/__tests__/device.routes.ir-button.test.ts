@@ -0,0 +1,121 @@
+/**
+ * IR button routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { deviceRoutes } from '../device.routes';
+import { deviceService } from '../../services/device.service';
+import { irButtonService } from '../../services/ir-button.service';
+import { commandQueueService } from '../../services/command-queue.service';
+import { Device } from '../../models/device';
+
+// Mock device service
+jest.mock('../../services/device.service', () => {
+  const actual = jest.requireActual('../../services/device.service');
+  return {
+    ...actual,
+    deviceService: {
+      getDeviceById: jest.fn(),
+      sendCustomizeCommand: jest.fn()
+    }
+  };
+});
+const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/devices', deviceRoutes);
+
+describe('IR Button Routes', () => {
+  const mockRemoteDevice: Device = {
+    deviceId: 'ir-001',
+    deviceName: 'DIYプロジェクター',
+    deviceType: 'Unknown',
+    status: 'online',
+    hubDeviceId: 'hub-001',
+    enableCloudService: true,
+    isInfraredRemote: true,
+    remoteType: 'DIY Projector',
+    properties: {},
+    lastUpdated: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    irButtonService.setButtons('ir-001', []);
+    mockDeviceService.getDeviceById.mockResolvedValue(mockRemoteDevice);
+    mockDeviceService.sendCustomizeCommand.mockResolvedValue();
+  });
+
+  describe('PUT /api/devices/:deviceId/ir/buttons', () => {
+    it('should register button names', async () => {
+      const response = await request(app)
+        .put('/api/devices/ir-001/ir/buttons')
+        .send({ buttons: ['Input', 'Zoom'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.buttons).toEqual(['Input', 'Zoom']);
+
+      const list = await request(app).get('/api/devices/ir-001/ir/buttons');
+      expect(list.body.data).toEqual({ deviceId: 'ir-001', buttons: ['Input', 'Zoom'], count: 2 });
+    });
+
+    it('should return 400 for invalid button names', async () => {
+      const response = await request(app)
+        .put('/api/devices/ir-001/ir/buttons')
+        .send({ buttons: ['Input', 'Input'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 400 for devices that are not IR remotes', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue({ ...mockRemoteDevice, isInfraredRemote: false });
+
+      const response = await request(app)
+        .put('/api/devices/ir-001/ir/buttons')
+        .send({ buttons: ['Input'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
+    });
+  });
+
+  describe('POST /api/devices/:deviceId/ir/button', () => {
+    it('should queue a registered button as a customize command', async () => {
+      irButtonService.setButtons('ir-001', ['Input']);
+
+      const response = await request(app)
+        .post('/api/devices/ir-001/ir/button')
+        .send({ button: 'Input' });
+
+      expect(response.status).toBe(202);
+      expect(response.headers.location).toBe(`/api/commands/${response.body.data.commandId}`);
+      expect(response.body.data).toMatchObject({ deviceId: 'ir-001', command: 'Input', commandType: 'customize', status: 'queued' });
+
+      await commandQueueService.waitForIdle();
+      expect(mockDeviceService.sendCustomizeCommand).toHaveBeenCalledWith('ir-001', 'Input');
+      expect(commandQueueService.getCommand(response.body.data.commandId).status).toBe('succeeded');
+    });
+
+    it('should return 404 for buttons that are not registered', async () => {
+      const response = await request(app)
+        .post('/api/devices/ir-001/ir/button')
+        .send({ button: 'Input' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('BUTTON_NOT_FOUND');
+      expect(mockDeviceService.sendCustomizeCommand).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the button is missing', async () => {
+      const response = await request(app)
+        .post('/api/devices/ir-001/ir/button')
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * TV, fan, speaker and projector remote routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { deviceRoutes } from '../device.routes';
+import { deviceService, DeviceServiceError } from '../../services/device.service';
+import { commandQueueService } from '../../services/command-queue.service';
+import { Device } from '../../models/device';
+
+// Mock device service
+jest.mock('../../services/device.service', () => {
+  const actual = jest.requireActual('../../services/device.service');
+  return {
+    ...actual,
+    deviceService: {
+      getDeviceById: jest.fn()
+    }
+  };
+});
+const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
+
+// Mock command queue service
+jest.mock('../../services/command-queue.service', () => ({
+  commandQueueService: {
+    enqueue: jest.fn(async (deviceId: string, command: string, parameter?: any) => ({
+      id: 'cmd-1',
+      deviceId,
+      command,
+      parameter,
+      status: 'queued',
+      createdAt: new Date('2024-01-01T12:00:00Z'),
+      updatedAt: new Date('2024-01-01T12:00:00Z')
+    }))
+  }
+}));
+const mockCommandQueue = commandQueueService as jest.Mocked<typeof commandQueueService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/devices', deviceRoutes);
+
+describe('IR Remote Routes', () => {
+  const createRemote = (deviceType: Device['deviceType'], remoteType: string): Device => ({
+    deviceId: 'ir-001',
+    deviceName: 'リビング',
+    deviceType,
+    status: 'online',
+    hubDeviceId: 'hub-001',
+    enableCloudService: true,
+    isInfraredRemote: true,
+    remoteType,
+    properties: { power: 'off' },
+    lastUpdated: new Date()
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([
+    ['tv/volume-up', 'TV', 'volumeAdd'],
+    ['tv/channel-down', 'TV', 'channelSub'],
+    ['fan/swing', 'Fan', 'swing'],
+    ['fan/middle', 'Fan', 'middleSpeed'],
+    ['speaker/mute', 'Speaker', 'setMute'],
+    ['speaker/fast-forward', 'Speaker', 'FastForward'],
+    ['projector/on', 'Projector', 'turnOn']
+  ] as const)('POST %s should send %s', async (path, deviceType, command) => {
+    mockDeviceService.getDeviceById.mockResolvedValue(createRemote(deviceType, deviceType));
+
+    const response = await request(app).post(`/api/devices/ir-001/${path}`);
+
+    expect(response.status).toBe(202);
+    expect(response.body.data.command).toBe(command);
+    expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('ir-001', command, undefined);
+  });
+
+  it('should return 400 when the device type does not match the route', async () => {
+    mockDeviceService.getDeviceById.mockResolvedValue(createRemote('Fan', 'Fan'));
+
+    const response = await request(app).post('/api/devices/ir-001/tv/on');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
+    expect(mockCommandQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should return 503 when the device does not accept commands', async () => {
+    mockDeviceService.getDeviceById.mockResolvedValue(createRemote('Speaker', 'DVD'));
+    mockCommandQueue.enqueue.mockRejectedValueOnce(new DeviceServiceError('Device type Speaker is not controllable', 'CONTROL_ERROR'));
+
+    const response = await request(app).post('/api/devices/ir-001/speaker/play');
+
+    expect(response.status).toBe(503);
+    expect(response.body.error.code).toBe('CONTROL_ERROR');
+  });
+
+  describe('POST /api/devices/:deviceId/tv/channel', () => {
+    it('should switch to the channel', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue(createRemote('TV', 'Set Top Box'));
+
+      const response = await request(app)
+        .post('/api/devices/ir-001/tv/channel')
+        .send({ channel: 12 });
+
+      expect(response.status).toBe(202);
+      expect(response.body.data.channel).toBe(12);
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('ir-001', 'SetChannel', 12);
+    });
+
+    it.each([0, 1000, 2.5, '5'])('should return 400 for channel %p', async (channel) => {
+      const response = await request(app)
+        .post('/api/devices/ir-001/tv/channel')
+        .send({ channel });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
@@ -6,12 +6,29 @@ import request from 'supertest';
 import express from 'express';
 import { deviceRoutes } from '../device.routes';
 import { deviceService } from '../../services/device.service';
+import { commandQueueService } from '../../services/command-queue.service';
 import { Device } from '../../models/device';
 
 // Mock the device service
 jest.mock('../../services/device.service');
 const mockDeviceService = deviceService as jest.Mocked<typeof deviceService>;
 
+// Mock command queue service
+jest.mock('../../services/command-queue.service', () => ({
+  commandQueueService: {
+    enqueue: jest.fn(async (deviceId: string, command: string, parameter?: any) => ({
+      id: 'cmd-1',
+      deviceId,
+      command,
+      parameter,
+      status: 'queued',
+      createdAt: new Date('2024-01-01T12:00:00Z'),
+      updatedAt: new Date('2024-01-01T12:00:00Z')
+    }))
+  }
+}));
+const mockCommandQueue = commandQueueService as jest.Mocked<typeof commandQueueService>;
+
 const app = express();
 app.use(express.json());
 app.use('/api/devices', deviceRoutes);
@@ -51,33 +68,31 @@ describe('Light Control API Endpoints', () => {
   describe('POST /api/devices/:deviceId/light/toggle', () => {
     it('should toggle light from off to on', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockLightDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/light-001/light/toggle')
-        .expect(200);
+        .expect(202);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.command).toBe('turnOn');
       expect(response.body.data.previousState).toBe('off');
       expect(response.body.data.newState).toBe('on');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('light-001', 'turnOn');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-001', 'turnOn', undefined);
     });
 
     it('should toggle light from on to off', async () => {
       const onLightDevice = { ...mockLightDevice, properties: { power: 'on' as const, brightness: 75 } };
       mockDeviceService.getDeviceById.mockResolvedValue(onLightDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/light-001/light/toggle')
-        .expect(200);
+        .expect(202);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.command).toBe('turnOff');
       expect(response.body.data.previousState).toBe('on');
       expect(response.body.data.newState).toBe('off');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('light-001', 'turnOff');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-001', 'turnOff', undefined);
     });
 
     it('should return error for non-light device', async () => {
@@ -102,9 +117,9 @@ describe('Light Control API Endpoints', () => {
       expect(response.body.success).toBe(false);
     });
 
-    it('should handle control device error', async () => {
+    it('should handle command queue errors', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockLightDevice);
-      mockDeviceService.controlDevice.mockRejectedValue(new Error('Control failed'));
+      mockCommandQueue.enqueue.mockRejectedValueOnce(new Error('Queue failed'));
 
       const response = await request(app)
         .post('/api/devices/light-001/light/toggle')
@@ -117,17 +132,18 @@ describe('Light Control API Endpoints', () => {
   describe('POST /api/devices/:deviceId/light/brightness', () => {
     it('should set brightness successfully', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockLightDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/light-001/light/brightness')
         .send({ brightness: 75 })
-        .expect(200);
+        .expect(202);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.command).toBe('setBrightness');
       expect(response.body.data.brightness).toBe(75);
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('light-001', 'setBrightness', '75');
+      expect(response.body.data).toMatchObject({ commandId: 'cmd-1', status: 'queued' });
+      expect(response.headers.location).toBe('/api/commands/cmd-1');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-001', 'setBrightness', '75');
     });
 
     it('should validate brightness range - too low', async () => {
@@ -177,32 +193,30 @@ describe('Light Control API Endpoints', () => {
   describe('POST /api/devices/:deviceId/light/power', () => {
     it('should turn light on', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockLightDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/light-001/light/power')
         .send({ power: 'on' })
-        .expect(200);
+        .expect(202);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.command).toBe('turnOn');
       expect(response.body.data.power).toBe('on');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('light-001', 'turnOn');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-001', 'turnOn', undefined);
     });
 
     it('should turn light off', async () => {
       mockDeviceService.getDeviceById.mockResolvedValue(mockLightDevice);
-      mockDeviceService.controlDevice.mockResolvedValue();
 
       const response = await request(app)
         .post('/api/devices/light-001/light/power')
         .send({ power: 'off' })
-        .expect(200);
+        .expect(202);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.command).toBe('turnOff');
       expect(response.body.data.power).toBe('off');
-      expect(mockDeviceService.controlDevice).toHaveBeenCalledWith('light-001', 'turnOff');
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-001', 'turnOff', undefined);
     });
 
     it('should validate power value', async () => {
@@ -228,4 +242,82 @@ describe('Light Control API Endpoints', () => {
       expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
     });
   });
-});
\ No newline at end of file
+
+  describe('POST /api/devices/:deviceId/light/color', () => {
+    it('should set the color as red:green:blue', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue(mockLightDevice);
+
+      const response = await request(app)
+        .post('/api/devices/light-001/light/color')
+        .send({ red: 255, green: 128, blue: 0 })
+        .expect(202);
+
+      expect(response.body.data.command).toBe('setColor');
+      expect(response.body.data.color).toEqual({ red: 255, green: 128, blue: 0 });
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-001', 'setColor', '255:128:0');
+    });
+
+    it.each([
+      { red: 256, green: 0, blue: 0 },
+      { red: -1, green: 0, blue: 0 },
+      { red: 10.5, green: 0, blue: 0 },
+      { red: '255', green: 0, blue: 0 },
+      { red: 255, green: 0 }
+    ])('should return 400 for %p', async (body) => {
+      const response = await request(app)
+        .post('/api/devices/light-001/light/color')
+        .send(body)
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockCommandQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for IR lights', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue({ ...mockLightDevice, isInfraredRemote: true });
+
+      const response = await request(app)
+        .post('/api/devices/light-001/light/color')
+        .send({ red: 255, green: 255, blue: 255 })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
+      expect(mockCommandQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/devices/:deviceId/light/color-temperature', () => {
+    it('should set the color temperature in Kelvin', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue(mockLightDevice);
+
+      const response = await request(app)
+        .post('/api/devices/light-001/light/color-temperature')
+        .send({ colorTemperature: 4000 })
+        .expect(202);
+
+      expect(response.body.data.command).toBe('setColorTemperature');
+      expect(response.body.data.colorTemperature).toBe(4000);
+      expect(mockCommandQueue.enqueue).toHaveBeenCalledWith('light-001', 'setColorTemperature', '4000');
+    });
+
+    it.each([2699, 6501, 3000.5, '4000'])('should return 400 for %p', async (colorTemperature) => {
+      const response = await request(app)
+        .post('/api/devices/light-001/light/color-temperature')
+        .send({ colorTemperature })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 400 for non-light devices', async () => {
+      mockDeviceService.getDeviceById.mockResolvedValue(mockNonLightDevice);
+
+      const response = await request(app)
+        .post('/api/devices/hub-001/light/color-temperature')
+        .send({ colorTemperature: 4000 })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_DEVICE_TYPE');
+    });
+  });
+});
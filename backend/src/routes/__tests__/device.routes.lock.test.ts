@@ -0,0 +1,148 @@
+/**
+ * Lock routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { deviceRoutes } from '../device.routes';
+import { lockService, LockServiceError } from '../../services/lock.service';
+import { DeviceServiceError } from '../../services/device.service';
+
+// Mock lock service
+jest.mock('../../services/lock.service', () => {
+  const actual = jest.requireActual('../../services/lock.service');
+  return {
+    ...actual,
+    lockService: {
+      requestConfirmation: jest.fn(),
+      execute: jest.fn(),
+      getAuditLog: jest.fn()
+    }
+  };
+});
+const mockLockService = lockService as jest.Mocked<typeof lockService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/devices', deviceRoutes);
+
+describe('Lock Routes', () => {
+  const timestamp = new Date('2024-01-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/devices/:deviceId/lock/confirmation', () => {
+    it('should issue a confirmation token', async () => {
+      mockLockService.requestConfirmation.mockResolvedValue({
+        token: 'token-1',
+        deviceId: 'lock-001',
+        action: 'unlock',
+        expiresAt: timestamp
+      });
+
+      const response = await request(app)
+        .post('/api/devices/lock-001/lock/confirmation')
+        .send({ action: 'unlock' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({
+        deviceId: 'lock-001',
+        action: 'unlock',
+        confirmationToken: 'token-1',
+        expiresAt: timestamp.toISOString()
+      });
+      expect(mockLockService.requestConfirmation).toHaveBeenCalledWith('lock-001', 'unlock');
+    });
+
+    it('should return 400 for invalid actions and non-lock devices', async () => {
+      mockLockService.requestConfirmation.mockRejectedValueOnce(
+        new LockServiceError('Action must be either "lock" or "unlock"', 'VALIDATION_ERROR')
+      );
+      mockLockService.requestConfirmation.mockRejectedValueOnce(
+        new LockServiceError('Device bot-001 is not a lock', 'INVALID_DEVICE_TYPE')
+      );
+
+      const invalidAction = await request(app).post('/api/devices/lock-001/lock/confirmation').send({ action: 'open' });
+      const invalidDevice = await request(app).post('/api/devices/bot-001/lock/confirmation').send({ action: 'lock' });
+
+      expect(invalidAction.status).toBe(400);
+      expect(invalidAction.body.error.code).toBe('VALIDATION_ERROR');
+      expect(invalidDevice.status).toBe(400);
+      expect(invalidDevice.body.error.code).toBe('INVALID_DEVICE_TYPE');
+    });
+
+    it('should return 404 for unknown devices', async () => {
+      mockLockService.requestConfirmation.mockRejectedValue(
+        new DeviceServiceError('Device not found', 'DEVICE_NOT_FOUND')
+      );
+
+      const response = await request(app).post('/api/devices/missing/lock/confirmation').send({ action: 'lock' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe.each(['lock', 'unlock'] as const)('POST /api/devices/:deviceId/%s', (action) => {
+    it('should send the confirmed command', async () => {
+      mockLockService.execute.mockResolvedValue({
+        id: 'audit-1',
+        deviceId: 'lock-001',
+        deviceName: 'Front Door',
+        action,
+        result: 'success',
+        timestamp
+      });
+
+      const response = await request(app)
+        .post(`/api/devices/lock-001/${action}`)
+        .send({ confirmationToken: 'token-1' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ deviceId: 'lock-001', command: action, auditId: 'audit-1' });
+      expect(mockLockService.execute).toHaveBeenCalledWith('lock-001', action, 'token-1');
+    });
+
+    it('should return 403 without a valid confirmation token', async () => {
+      mockLockService.execute.mockRejectedValue(
+        new LockServiceError('Confirmation token is missing', 'INVALID_CONFIRMATION')
+      );
+
+      const response = await request(app).post(`/api/devices/lock-001/${action}`).send({});
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('INVALID_CONFIRMATION');
+    });
+  });
+
+  it('should return 503 when the lock does not respond', async () => {
+    mockLockService.execute.mockRejectedValue(new DeviceServiceError('Lock is offline', 'CONTROL_ERROR'));
+
+    const response = await request(app).post('/api/devices/lock-001/unlock').send({ confirmationToken: 'token-1' });
+
+    expect(response.status).toBe(503);
+  });
+
+  describe('GET /api/devices/:deviceId/lock/audit', () => {
+    it('should return the audit log of the device', async () => {
+      mockLockService.getAuditLog.mockReturnValue([
+        { id: 'audit-1', deviceId: 'lock-001', deviceName: 'Front Door', action: 'lock', result: 'success', timestamp }
+      ]);
+
+      const response = await request(app).get('/api/devices/lock-001/lock/audit?limit=10');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.count).toBe(1);
+      expect(response.body.data.entries[0].timestamp).toBe(timestamp.toISOString());
+      expect(mockLockService.getAuditLog).toHaveBeenCalledWith({ deviceId: 'lock-001', limit: 10 });
+    });
+
+    it.each(['0', '501', 'abc'])('should return 400 for limit %s', async (limit) => {
+      const response = await request(app).get(`/api/devices/lock-001/lock/audit?limit=${limit}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for energy API endpoints
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { energyRoutes } from '../energy.routes';
+import { energyHistoryService } from '../../services/energy-history.service';
+
+jest.mock('../../services/device.service', () => ({
+  deviceService: { getAllDevices: jest.fn(), updateDeviceStatus: jest.fn() }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/energy', energyRoutes);
+
+describe('Energy API Endpoints', () => {
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+  beforeEach(() => {
+    energyHistoryService.clearHistory();
+    energyHistoryService.addReading({ timestamp: minutesAgo(20), deviceId: 'plug-1', watts: 1200 });
+    energyHistoryService.addReading({ timestamp: minutesAgo(10), deviceId: 'plug-1', watts: 1200, voltage: 100 });
+  });
+
+  it('should return the energy summary of every plug', async () => {
+    const response = await request(app).get('/api/energy').expect(200);
+
+    expect(response.body.data.count).toBe(1);
+    expect(response.body.data.plugs[0]).toMatchObject({
+      deviceId: 'plug-1',
+      latest: { deviceId: 'plug-1', watts: 1200, voltage: 100 }
+    });
+    expect(typeof response.body.data.plugs[0].latest.timestamp).toBe('string');
+  });
+
+  it('should return the power history of a plug', async () => {
+    const response = await request(app)
+      .get('/api/energy/plug-1/history')
+      .query({ period: '1h' })
+      .expect(200);
+
+    expect(response.body.data.period).toBe('1h');
+    expect(response.body.data.totalReadings).toBe(2);
+  });
+
+  it('should reject unknown periods', async () => {
+    const response = await request(app)
+      .get('/api/energy/plug-1/history')
+      .query({ period: '30d' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('INVALID_PERIOD');
+  });
+
+  it('should return daily and monthly totals', async () => {
+    const daily = await request(app).get('/api/energy/plug-1/daily').query({ days: 7 }).expect(200);
+    const monthly = await request(app).get('/api/energy/plug-1/monthly').expect(200);
+
+    // 1200 W for 10 minutes = 0.2 kWh
+    expect(daily.body.data.totalKWh).toBeCloseTo(0.2);
+    expect(monthly.body.data.totalKWh).toBeCloseTo(0.2);
+    expect(monthly.body.data.months[0].month).toMatch(/^\d{4}-\d{2}$/);
+  });
+
+  it('should reject invalid day counts', async () => {
+    const response = await request(app)
+      .get('/api/energy/plug-1/daily')
+      .query({ days: 0 })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+});
@@ -6,6 +6,7 @@ import request from 'supertest';
 import express from 'express';
 import { environmentRoutes } from '../environment.routes';
 import { EnvironmentData } from '../../models/environment';
+import { environmentHistoryService } from '../../services/environment-history.service';
 
 // Mock the environment service
 jest.mock('../../services/environment.service', () => ({
@@ -66,6 +67,38 @@ describe('Environment Routes', () => {
       expect(mockGetCurrentEnvironmentData).toHaveBeenCalledTimes(1);
     });
 
+    it('should return data of the requested sensor', async () => {
+      const mockData: EnvironmentData = {
+        temperature: 21,
+        humidity: 45,
+        light: 0,
+        timestamp: new Date('2023-12-01T10:00:00Z'),
+        deviceId: 'meter-1',
+        deviceName: 'Bedroom Meter'
+      };
+
+      mockGetCurrentEnvironmentData.mockResolvedValue(mockData);
+
+      const response = await request(app)
+        .get('/api/environment?deviceId=meter-1')
+        .expect(200);
+
+      expect(response.body.data.deviceId).toBe('meter-1');
+      expect(response.body.data.deviceName).toBe('Bedroom Meter');
+      expect(mockGetCurrentEnvironmentData).toHaveBeenCalledWith('meter-1');
+    });
+
+    it('should handle SENSOR_NOT_FOUND error', async () => {
+      const error = new MockEnvironmentServiceError('Environment sensor unknown not found', 'SENSOR_NOT_FOUND');
+      mockGetCurrentEnvironmentData.mockRejectedValue(error);
+
+      const response = await request(app)
+        .get('/api/environment?deviceId=unknown')
+        .expect(404);
+
+      expect(response.body.error.code).toBe('SENSOR_NOT_FOUND');
+    });
+
     it('should handle HUB_NOT_FOUND error', async () => {
       const error = new MockEnvironmentServiceError('No SwitchBot Hub 2 device found', 'HUB_NOT_FOUND');
       mockGetCurrentEnvironmentData.mockRejectedValue(error);
@@ -153,6 +186,93 @@ describe('Environment Routes', () => {
     });
   });
 
+  describe('GET /api/environment/history/range', () => {
+    afterEach(() => {
+      environmentHistoryService.clearHistory();
+    });
+
+    it('should return bucketed data for a custom range', async () => {
+      const from = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      const to = new Date();
+      environmentHistoryService.addDataPoint({
+        temperature: 21,
+        humidity: 45,
+        light: 300,
+        timestamp: new Date(from.getTime() + 10 * 60 * 1000)
+      });
+
+      const response = await request(app)
+        .get('/api/environment/history/range')
+        .query({ from: from.toISOString(), to: to.toISOString(), bucketMinutes: 30 })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.from).toBe(from.toISOString());
+      expect(response.body.data.bucketMinutes).toBe(30);
+      expect(response.body.data.source).toBe('raw');
+      expect(response.body.data.totalPoints).toBe(1);
+      expect(response.body.data.dataPoints[0].temperature).toBe(21);
+      expect(response.body.data.statistics.temperature.max).toBe(21);
+    });
+
+    it('should reject an invalid range', async () => {
+      const response = await request(app)
+        .get('/api/environment/history/range')
+        .query({ from: '2024-01-03T00:00:00Z', to: '2024-01-02T00:00:00Z' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('INVALID_RANGE');
+    });
+  });
+
+  describe('GET /api/environment/history/export', () => {
+    beforeEach(() => {
+      const base = Date.now() - 60 * 60 * 1000;
+      environmentHistoryService.addDataPoint({ temperature: 21, humidity: 45, light: 300, timestamp: new Date(base), deviceId: 'hub-1' });
+      environmentHistoryService.addDataPoint({ temperature: 18, humidity: 60, light: 0, timestamp: new Date(base + 60 * 1000), deviceId: 'meter-1' });
+    });
+
+    afterEach(() => {
+      environmentHistoryService.clearHistory();
+    });
+
+    it('should export all sensors as CSV by default', async () => {
+      const response = await request(app)
+        .get('/api/environment/history/export')
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toMatch(/attachment; filename="environment-history-.*\.csv"/);
+
+      const lines = response.text.replace(/^\uFEFF/, '').trim().split('\r\n');
+      expect(lines[0]).toBe('timestamp,deviceId,temperature,humidity,light,temperatureMin,temperatureMax,humidityMin,humidityMax,lightMin,lightMax,co2,co2Min,co2Max,sampleCount');
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toContain(',hub-1,21,45,300,');
+      expect(lines[2]).toContain(',meter-1,18,60,0,');
+    });
+
+    it('should export a single sensor as JSON', async () => {
+      const response = await request(app)
+        .get('/api/environment/history/export')
+        .query({ format: 'json', deviceId: 'meter-1' })
+        .expect(200);
+
+      const rows = JSON.parse(response.text);
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ deviceId: 'meter-1', temperature: 18, sampleCount: 1, temperatureMin: null });
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await request(app)
+        .get('/api/environment/history/export')
+        .query({ format: 'xml' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_FORMAT');
+    });
+  });
+
   describe('GET /api/environment/test', () => {
     it('should return connection status when working', async () => {
       mockTestConnection.mockResolvedValue(true);
@@ -0,0 +1,73 @@
+/**
+ * API quota routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { quotaRoutes } from '../quota.routes';
+import { switchBotClient } from '../../utils/switchbot-client';
+
+jest.mock('../../utils/switchbot-client', () => ({
+  switchBotClient: { getQuotaUsage: jest.fn(), getSchedulerStats: jest.fn() }
+}));
+const mockClient = switchBotClient as jest.Mocked<typeof switchBotClient>;
+
+const app = express();
+app.use('/api/quota', quotaRoutes);
+
+describe('Quota Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the API usage of the current day', async () => {
+    const resetAt = new Date('2024-01-02T00:00:00Z');
+    mockClient.getQuotaUsage.mockReturnValue({
+      date: '2024-01-01',
+      used: 1200,
+      limit: 10000,
+      remaining: 8800,
+      reserved: 500,
+      resetAt
+    });
+
+    const response = await request(app).get('/api/quota');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual({
+      date: '2024-01-01',
+      used: 1200,
+      limit: 10000,
+      remaining: 8800,
+      reserved: 500,
+      resetAt: resetAt.toISOString()
+    });
+  });
+
+  it('should return 500 when the usage cannot be read', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockClient.getQuotaUsage.mockImplementation(() => {
+      throw new Error('boom');
+    });
+
+    const response = await request(app).get('/api/quota');
+
+    expect(response.status).toBe(500);
+    expect(response.body.error.code).toBe('INTERNAL_ERROR');
+  });
+
+  it('should return the request queue statistics', async () => {
+    const lane = { queued: 0, dispatched: 3, averageWaitMs: 1200, maxWaitMs: 4000 };
+    mockClient.getSchedulerStats.mockReturnValue({
+      lanes: { interactive: lane, read: lane, background: { ...lane, queued: 2 } },
+      inFlightReads: 1,
+      coalescedReads: 5
+    });
+
+    const response = await request(app).get('/api/quota/queue');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.lanes.background.queued).toBe(2);
+    expect(response.body.data.coalescedReads).toBe(5);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for scene API endpoints
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { sceneRoutes } from '../scene.routes';
+import { sceneService } from '../../services/scene.service';
+import { deviceService } from '../../services/device.service';
+import { switchBotAPI } from '../../utils/switchbot-api';
+
+jest.mock('../../services/device.service', () => ({
+  deviceService: { controlDevice: jest.fn().mockResolvedValue(undefined) }
+}));
+
+jest.mock('../../utils/switchbot-api', () => ({
+  switchBotAPI: {
+    getScenes: jest.fn(),
+    executeScene: jest.fn()
+  }
+}));
+
+const mockSwitchBotAPI = switchBotAPI as jest.Mocked<typeof switchBotAPI>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/scenes', sceneRoutes);
+
+describe('Scene API Endpoints', () => {
+  const sceneBody = {
+    name: 'Movie night',
+    steps: [
+      { deviceId: 'light-1', command: 'setBrightness', parameter: 20 },
+      { deviceId: 'ac-1', command: 'turnOn' }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSwitchBotAPI.getScenes.mockResolvedValue({
+      statusCode: 100,
+      body: [{ sceneId: 'T02-20200804130110', sceneName: 'Close Office Devices' }],
+      message: 'success'
+    });
+    mockSwitchBotAPI.executeScene.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+  });
+
+  afterEach(() => {
+    sceneService.getScenes().forEach(scene => sceneService.deleteScene(scene.id));
+  });
+
+  it('should create and list scenes', async () => {
+    const created = await request(app)
+      .post('/api/scenes')
+      .send(sceneBody)
+      .expect(201);
+
+    expect(created.body.data.id).toMatch(/^scene-/);
+    expect(created.body.data.lastExecutedAt).toBeNull();
+    expect(created.body.data.estimatedDurationMs).toBe(1000);
+
+    const list = await request(app).get('/api/scenes').expect(200);
+    expect(list.body.data.count).toBe(1);
+    expect(list.body.data.scenes[0].name).toBe('Movie night');
+  });
+
+  it('should reject invalid scenes with 400', async () => {
+    const response = await request(app)
+      .post('/api/scenes')
+      .send({ name: 'Empty', steps: [] })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should execute a scene', async () => {
+    const { id } = sceneService.createScene(sceneBody);
+
+    const response = await request(app)
+      .post(`/api/scenes/${id}/execute`)
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ sceneId: id, sceneName: 'Movie night', success: true });
+    expect(response.body.data.steps).toHaveLength(2);
+    expect(deviceService.controlDevice).toHaveBeenCalledWith('ac-1', 'turnOn', undefined);
+  });
+
+  it('should return 404 for unknown local scenes', async () => {
+    const response = await request(app)
+      .get('/api/scenes/missing')
+      .expect(404);
+
+    expect(response.body.error.code).toBe('SCENE_NOT_FOUND');
+  });
+
+  it('should list cloud scenes next to local scenes', async () => {
+    const response = await request(app)
+      .get('/api/scenes')
+      .query({ refresh: 'true' })
+      .expect(200);
+
+    expect(response.body.data.cloudScenes).toEqual([
+      { sceneId: 'T02-20200804130110', sceneName: 'Close Office Devices', isRunning: false }
+    ]);
+    expect(response.body.data.cloudError).toBeNull();
+  });
+
+  it('should still list local scenes when cloud scenes fail', async () => {
+    sceneService.createScene(sceneBody);
+    mockSwitchBotAPI.getScenes.mockRejectedValue(new Error('Network error'));
+
+    const response = await request(app)
+      .get('/api/scenes')
+      .query({ refresh: 'true' })
+      .expect(200);
+
+    expect(response.body.data.count).toBe(1);
+    expect(response.body.data.cloudScenes).toEqual([]);
+    expect(response.body.data.cloudError).toContain('Network error');
+  });
+
+  it('should execute cloud scenes by scene ID', async () => {
+    const response = await request(app)
+      .post('/api/scenes/T02-20200804130110/execute')
+      .expect(200);
+
+    expect(mockSwitchBotAPI.executeScene).toHaveBeenCalledWith('T02-20200804130110');
+    expect(response.body.data).toMatchObject({ sceneId: 'T02-20200804130110', source: 'cloud', success: true });
+  });
+
+  it('should return 502 when a cloud scene fails', async () => {
+    mockSwitchBotAPI.executeScene.mockRejectedValue(new Error('unknown scene'));
+
+    const response = await request(app)
+      .post('/api/scenes/T02-20200804130110/execute')
+      .expect(502);
+
+    expect(response.body.error.code).toBe('CLOUD_SCENE_ERROR');
+  });
+
+  it('should return 404 for scene IDs that are neither local nor cloud scenes', async () => {
+    const response = await request(app)
+      .post('/api/scenes/unknown/execute')
+      .expect(404);
+
+    expect(response.body.error.code).toBe('SCENE_NOT_FOUND');
+    expect(mockSwitchBotAPI.executeScene).not.toHaveBeenCalled();
+  });
+});
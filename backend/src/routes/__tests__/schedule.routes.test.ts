@@ -0,0 +1,88 @@
+/**
+ * Tests for device schedule API endpoints
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { scheduleRoutes } from '../schedule.routes';
+import { schedulerService } from '../../services/scheduler.service';
+
+jest.mock('../../services/device.service', () => ({
+  deviceService: { controlDevice: jest.fn().mockResolvedValue(undefined) }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/schedules', scheduleRoutes);
+
+describe('Schedule API Endpoints', () => {
+  const scheduleBody = {
+    name: 'Morning light',
+    deviceId: 'light-1',
+    weekdays: [1, 2, 3, 4, 5],
+    time: '07:00',
+    actions: [{ command: 'turnOn' }, { command: 'setBrightness', parameter: 60 }]
+  };
+
+  afterEach(() => {
+    schedulerService.getSchedules().forEach(schedule => schedulerService.deleteSchedule(schedule.id));
+  });
+
+  it('should create and list schedules', async () => {
+    const created = await request(app)
+      .post('/api/schedules')
+      .send(scheduleBody)
+      .expect(201);
+
+    expect(created.body.success).toBe(true);
+    expect(created.body.data.id).toMatch(/^schedule-/);
+    expect(created.body.data.lastRunAt).toBeNull();
+    expect(typeof created.body.data.nextRunAt).toBe('string');
+
+    const list = await request(app).get('/api/schedules').expect(200);
+    expect(list.body.data.count).toBe(1);
+    expect(list.body.data.schedules[0].name).toBe('Morning light');
+  });
+
+  it('should filter schedules by device', async () => {
+    schedulerService.createSchedule(scheduleBody);
+    schedulerService.createSchedule({ ...scheduleBody, deviceId: 'plug-1' });
+
+    const response = await request(app)
+      .get('/api/schedules')
+      .query({ deviceId: 'plug-1' })
+      .expect(200);
+
+    expect(response.body.data.count).toBe(1);
+    expect(response.body.data.schedules[0].deviceId).toBe('plug-1');
+  });
+
+  it('should reject invalid schedules with 400', async () => {
+    const response = await request(app)
+      .post('/api/schedules')
+      .send({ ...scheduleBody, time: '25:00' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should update, disable and delete a schedule', async () => {
+    const { id } = schedulerService.createSchedule(scheduleBody);
+
+    const updated = await request(app)
+      .put(`/api/schedules/${id}`)
+      .send({ time: '06:30' })
+      .expect(200);
+    expect(updated.body.data.time).toBe('06:30');
+
+    const disabled = await request(app).post(`/api/schedules/${id}/disable`).expect(200);
+    expect(disabled.body.data.enabled).toBe(false);
+    expect(disabled.body.data.nextRunAt).toBeNull();
+
+    const enabled = await request(app).post(`/api/schedules/${id}/enable`).expect(200);
+    expect(enabled.body.data.enabled).toBe(true);
+
+    await request(app).delete(`/api/schedules/${id}`).expect(200);
+    await request(app).get(`/api/schedules/${id}`).expect(404);
+  });
+});
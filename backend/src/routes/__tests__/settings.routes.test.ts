@@ -27,7 +27,8 @@ describe('Settings Routes', () => {
         dataUpdateInterval: 30,
         alertThresholds: {
           temperature: { min: 18, max: 28 },
-          humidity: { min: 30, max: 70 }
+          humidity: { min: 30, max: 70 },
+          co2: { warning: 1000, critical: 1500 }
         },
         notifications: {
           enabled: true,
@@ -76,7 +77,8 @@ describe('Settings Routes', () => {
         dataUpdateInterval: 60,
         alertThresholds: {
           temperature: { min: 18, max: 28 },
-          humidity: { min: 30, max: 70 }
+          humidity: { min: 30, max: 70 },
+          co2: { warning: 1000, critical: 1500 }
         },
         notifications: {
           enabled: true,
@@ -135,7 +137,8 @@ describe('Settings Routes', () => {
         dataUpdateInterval: 30,
         alertThresholds: {
           temperature: { min: 18, max: 28 },
-          humidity: { min: 30, max: 70 }
+          humidity: { min: 30, max: 70 },
+          co2: { warning: 1000, critical: 1500 }
         },
         notifications: {
           enabled: true,
@@ -195,7 +198,8 @@ describe('Settings Routes', () => {
     it('should return current alert thresholds', async () => {
       const thresholds = {
         temperature: { min: 18, max: 28 },
-        humidity: { min: 30, max: 70 }
+        humidity: { min: 30, max: 70 },
+        co2: { warning: 1000, critical: 1500 }
       };
 
       mockSettingsService.getAlertThresholds.mockReturnValue(thresholds);
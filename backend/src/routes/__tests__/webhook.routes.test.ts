@@ -0,0 +1,131 @@
+/**
+ * Webhook routes tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { webhookRoutes } from '../webhook.routes';
+import { webhookService, WebhookServiceError } from '../../services/webhook.service';
+
+// Mock webhook service
+jest.mock('../../services/webhook.service', () => {
+  const actual = jest.requireActual('../../services/webhook.service');
+  return {
+    ...actual,
+    webhookService: {
+      handleEvent: jest.fn(),
+      getStatus: jest.fn(),
+      getWebhookUrls: jest.fn(),
+      setupWebhook: jest.fn(),
+      deleteWebhook: jest.fn()
+    }
+  };
+});
+const mockWebhookService = webhookService as jest.Mocked<typeof webhookService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/webhook', webhookRoutes);
+
+describe('Webhook Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/webhook/switchbot', () => {
+    const payload = {
+      eventType: 'changeReport',
+      eventVersion: '1',
+      context: { deviceType: 'WoPresence', deviceMac: '01:00:5e:90:10:00', detectionState: 'DETECTED' }
+    };
+
+    it('should pass the event and token to the webhook service', async () => {
+      mockWebhookService.handleEvent.mockReturnValue({ handled: true, deviceId: '01005E901000' });
+
+      const response = await request(app)
+        .post('/api/webhook/switchbot?token=secret')
+        .send(payload);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ handled: true, deviceId: '01005E901000' });
+      expect(mockWebhookService.handleEvent).toHaveBeenCalledWith(payload, 'secret');
+    });
+
+    it('should return 400 for invalid payloads and 401 for invalid tokens', async () => {
+      mockWebhookService.handleEvent.mockImplementationOnce(() => {
+        throw new WebhookServiceError('Payload is not a SwitchBot webhook event', 'VALIDATION_ERROR');
+      });
+      mockWebhookService.handleEvent.mockImplementationOnce(() => {
+        throw new WebhookServiceError('Webhook token is missing or invalid', 'UNAUTHORIZED');
+      });
+
+      const invalid = await request(app).post('/api/webhook/switchbot').send({});
+      const unauthorized = await request(app).post('/api/webhook/switchbot').send(payload);
+
+      expect(invalid.status).toBe(400);
+      expect(unauthorized.status).toBe(401);
+      expect(unauthorized.body.error.code).toBe('UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/webhook', () => {
+    it('should return the registered URLs and receiver statistics', async () => {
+      const lastEventAt = new Date('2024-01-01T12:00:00Z');
+      mockWebhookService.getWebhookUrls.mockResolvedValue(['https://example.com/api/webhook/switchbot']);
+      mockWebhookService.getStatus.mockReturnValue({ receivedEvents: 3, lastEventAt });
+
+      const response = await request(app).get('/api/webhook');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({
+        urls: ['https://example.com/api/webhook/switchbot'],
+        receivedEvents: 3,
+        lastEventAt: lastEventAt.toISOString()
+      });
+    });
+
+    it('should return 502 when SwitchBot cannot be reached', async () => {
+      mockWebhookService.getWebhookUrls.mockRejectedValue(new WebhookServiceError('Failed to query webhook', 'API_ERROR'));
+
+      const response = await request(app).get('/api/webhook');
+
+      expect(response.status).toBe(502);
+    });
+  });
+
+  describe('POST /api/webhook', () => {
+    it('should register the webhook URL', async () => {
+      mockWebhookService.setupWebhook.mockResolvedValue('https://example.com/api/webhook/switchbot');
+
+      const response = await request(app)
+        .post('/api/webhook')
+        .send({ url: 'https://example.com/api/webhook/switchbot' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.url).toBe('https://example.com/api/webhook/switchbot');
+      expect(mockWebhookService.setupWebhook).toHaveBeenCalledWith('https://example.com/api/webhook/switchbot');
+    });
+
+    it('should return 400 for invalid URLs', async () => {
+      mockWebhookService.setupWebhook.mockRejectedValue(new WebhookServiceError('url must be an http(s) URL', 'VALIDATION_ERROR'));
+
+      const response = await request(app).post('/api/webhook').send({ url: 'nope' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('DELETE /api/webhook', () => {
+    it('should delete the webhook URL', async () => {
+      mockWebhookService.deleteWebhook.mockResolvedValue('https://example.com/api/webhook/switchbot');
+
+      const response = await request(app)
+        .delete('/api/webhook')
+        .send({ url: 'https://example.com/api/webhook/switchbot' });
+
+      expect(response.status).toBe(200);
+      expect(mockWebhookService.deleteWebhook).toHaveBeenCalledWith('https://example.com/api/webhook/switchbot');
+    });
+  });
+});
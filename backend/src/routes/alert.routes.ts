@@ -4,7 +4,9 @@
 
 import { Router, Request, Response } from 'express';
 import { alertService, AlertServiceError } from '../services/alert.service';
-import { AlertThresholds } from '../models/alert';
+import { Alert, AlertThresholds } from '../models/alert';
+import { parseHistoryRange } from '../services/environment-history.service';
+import { ExportColumn, EXPORT_FORMATS, exportFilename, isExportFormat, streamExport } from '../utils/export';
 
 const router = Router();
 
@@ -85,6 +87,76 @@ router.get('/history', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Columns of the alert history export
+ */
+const ALERT_EXPORT_COLUMNS: ExportColumn<Alert>[] = [
+  { key: 'timestamp', value: alert => alert.timestamp.toISOString() },
+  { key: 'id', value: alert => alert.id },
+  { key: 'deviceId', value: alert => alert.deviceId },
+  { key: 'deviceName', value: alert => alert.deviceName },
+  { key: 'type', value: alert => alert.type },
+  { key: 'severity', value: alert => alert.severity },
+  { key: 'condition', value: alert => alert.condition },
+  { key: 'value', value: alert => alert.value },
+  { key: 'threshold', value: alert => alert.threshold },
+  { key: 'isActive', value: alert => alert.isActive },
+  { key: 'message', value: alert => alert.message }
+];
+
+/**
+ * GET /api/alerts/history/export
+ * Download alert history as CSV or JSON
+ * Query: format (csv | json, default csv)
+ *        from, to (optional, ISO 8601) - range to export; defaults to the whole history
+ */
+router.get('/history/export', async (req: Request, res: Response) => {
+  try {
+    const format = req.query.format ?? 'csv';
+
+    if (!isExportFormat(format)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_FORMAT',
+          message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`
+        }
+      });
+    }
+
+    const validation = parseHistoryRange(
+      req.query.from ?? new Date(0).toISOString(),
+      req.query.to ?? new Date().toISOString()
+    );
+    if (!validation.isValid || !validation.query) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_RANGE',
+          message: validation.errors.join(', ')
+        }
+      });
+    }
+
+    const history = alertService.getAlertHistoryInRange(validation.query.from, validation.query.to);
+    streamExport(res, format, exportFilename('alert-history'), ALERT_EXPORT_COLUMNS, history);
+  } catch (error) {
+    console.error('Alert history export error:', error);
+
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'EXPORT_ERROR',
+        message: 'Failed to export alert history'
+      }
+    });
+  }
+});
+
 /**
  * GET /api/alerts/statistics
  * Get alert statistics
@@ -165,7 +237,11 @@ router.put('/thresholds', async (req: Request, res: Response) => {
       });
     }
 
-    alertService.updateThresholds(thresholds);
+    // CO2 levels are optional and keep their current values when omitted
+    alertService.updateThresholds({
+      ...thresholds,
+      co2: thresholds.co2 ?? alertService.getThresholds().co2
+    });
     
     res.json({
       success: true,
@@ -0,0 +1,242 @@
+/**
+ * Automation rule API routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { automationService, AutomationServiceError } from '../services/automation.service';
+import { AutomationRule, AutomationExecution } from '../models/automation';
+
+const router = Router();
+
+/**
+ * GET /api/automations
+ * Get all automation rules
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const rules = automationService.getRules();
+
+    res.json({
+      success: true,
+      data: {
+        rules: rules.map(serializeRule),
+        count: rules.length
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve automation rules');
+  }
+});
+
+/**
+ * GET /api/automations/log
+ * Get the automation execution log (most recent first)
+ * Query: limit (optional) - maximum number of entries
+ */
+router.get('/log', (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+    const executions = automationService.getExecutionLog(limit);
+
+    res.json({
+      success: true,
+      data: {
+        executions: executions.map(serializeExecution),
+        count: executions.length
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve automation execution log');
+  }
+});
+
+/**
+ * GET /api/automations/:ruleId
+ * Get a single automation rule
+ */
+router.get('/:ruleId', (req: Request, res: Response) => {
+  try {
+    const rule = automationService.getRule(req.params.ruleId);
+
+    res.json({
+      success: true,
+      data: serializeRule(rule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve automation rule');
+  }
+});
+
+/**
+ * POST /api/automations
+ * Create an automation rule
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request body must contain a rule definition'
+        }
+      });
+    }
+
+    const rule = automationService.createRule(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: serializeRule(rule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to create automation rule');
+  }
+});
+
+/**
+ * PUT /api/automations/:ruleId
+ * Update an automation rule (partial update)
+ */
+router.put('/:ruleId', (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request body must contain rule updates'
+        }
+      });
+    }
+
+    const rule = automationService.updateRule(req.params.ruleId, req.body);
+
+    res.json({
+      success: true,
+      data: serializeRule(rule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to update automation rule');
+  }
+});
+
+/**
+ * POST /api/automations/:ruleId/enable
+ * Enable an automation rule
+ */
+router.post('/:ruleId/enable', (req: Request, res: Response) => {
+  try {
+    const rule = automationService.setRuleEnabled(req.params.ruleId, true);
+
+    res.json({
+      success: true,
+      data: serializeRule(rule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to enable automation rule');
+  }
+});
+
+/**
+ * POST /api/automations/:ruleId/disable
+ * Disable an automation rule
+ */
+router.post('/:ruleId/disable', (req: Request, res: Response) => {
+  try {
+    const rule = automationService.setRuleEnabled(req.params.ruleId, false);
+
+    res.json({
+      success: true,
+      data: serializeRule(rule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to disable automation rule');
+  }
+});
+
+/**
+ * DELETE /api/automations/:ruleId
+ * Delete an automation rule
+ */
+router.delete('/:ruleId', (req: Request, res: Response) => {
+  try {
+    automationService.deleteRule(req.params.ruleId);
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Automation rule deleted successfully',
+        ruleId: req.params.ruleId
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete automation rule');
+  }
+});
+
+/**
+ * Convert a rule to its JSON representation
+ */
+function serializeRule(rule: AutomationRule) {
+  return {
+    ...rule,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+    lastTriggeredAt: rule.lastTriggeredAt ? rule.lastTriggeredAt.toISOString() : null
+  };
+}
+
+/**
+ * Convert an execution log entry to its JSON representation
+ */
+function serializeExecution(execution: AutomationExecution) {
+  return {
+    ...execution,
+    timestamp: execution.timestamp.toISOString()
+  };
+}
+
+/**
+ * Send an error response for a failed automation request
+ */
+function handleError(res: Response, error: unknown, fallbackMessage: string): void {
+  console.error(`${fallbackMessage}:`, error);
+
+  if (error instanceof AutomationServiceError) {
+    res.status(getStatusCodeForError(error.code)).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * Map error codes to HTTP status codes
+ */
+function getStatusCodeForError(errorCode: string): number {
+  switch (errorCode) {
+    case 'RULE_NOT_FOUND':
+      return 404;
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'FILE_ERROR':
+    case 'UNKNOWN_ERROR':
+    default:
+      return 500;
+  }
+}
+
+export { router as automationRoutes };
@@ -0,0 +1,47 @@
+/**
+ * Device command status routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { commandQueueService, CommandQueueServiceError } from '../services/command-queue.service';
+
+const router = Router();
+
+/**
+ * GET /api/commands/:commandId
+ * Get the status of a command queued with POST /api/devices/:deviceId/control
+ * status: queued | sending | succeeded | failed; statusCode is the code reported by SwitchBot
+ */
+router.get('/:commandId', (req: Request, res: Response) => {
+  try {
+    const command = commandQueueService.getCommand(req.params.commandId);
+
+    res.json({
+      success: true,
+      data: command
+    });
+  } catch (error) {
+    console.error(`Failed to get command ${req.params.commandId}:`, error);
+
+    if (error instanceof CommandQueueServiceError) {
+      res.status(error.code === 'COMMAND_NOT_FOUND' ? 404 : 400).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to get command status'
+      }
+    });
+  }
+});
+
+export { router as commandRoutes };
@@ -4,7 +4,14 @@
 
 import { Router, Request, Response } from 'express';
 import { deviceService, DeviceServiceError } from '../services/device.service';
+import { irButtonService, IRButtonServiceError } from '../services/ir-button.service';
+import { lockService, LockServiceError } from '../services/lock.service';
+import { commandQueueService } from '../services/command-queue.service';
 import { DeviceFilterOptions, DeviceType, DeviceStatus } from '../models/device';
+import { IRRemoteDeviceType, MAX_TV_CHANNEL } from '../models/ir-remote';
+import { formatLightColor, isValidColorTemperature, isValidColorValue } from '../models/light';
+import { LockAction } from '../models/lock';
+import { DeviceCommand } from '../models/command';
 
 const router = Router();
 
@@ -279,7 +286,9 @@ router.put('/:deviceId/status', async (req: Request, res: Response) => {
 
 /**
  * POST /api/devices/:deviceId/control
- * Control device
+ * Queue a device command
+ * Responds with 202 and the queued command as soon as it is accepted; follow it
+ * with GET /api/commands/:commandId or the commandStatus WebSocket event.
  */
 router.post('/:deviceId/control', async (req: Request, res: Response) => {
   try {
@@ -297,17 +306,17 @@ router.post('/:deviceId/control', async (req: Request, res: Response) => {
       });
     }
     
-    await deviceService.controlDevice(deviceId, command, parameter);
+    const queued = await commandQueueService.enqueue(deviceId, command, parameter);
     
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command,
-        parameter,
-        timestamp: new Date().toISOString()
-      }
-    });
+    res.status(202)
+      .location(`/api/commands/${queued.id}`)
+      .json({
+        success: true,
+        data: {
+          commandId: queued.id,
+          ...queued
+        }
+      });
   } catch (error) {
     console.error(`Device control error for ${req.params.deviceId}:`, error);
     
@@ -332,6 +341,40 @@ router.post('/:deviceId/control', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Queue a command of a device-specific route and respond with 202
+ * The response carries the command ID next to the fields of the route, like /control.
+ */
+async function sendQueuedCommand(
+  res: Response,
+  deviceId: string,
+  details: Record<string, unknown>,
+  command: string,
+  parameter?: any
+): Promise<void> {
+  const queued = await commandQueueService.enqueue(deviceId, command, parameter);
+  respondQueued(res, queued, details);
+}
+
+/**
+ * Respond with 202 and the status resource of a queued command
+ */
+function respondQueued(res: Response, queued: DeviceCommand, details: Record<string, unknown>): void {
+  res.status(202)
+    .location(`/api/commands/${queued.id}`)
+    .json({
+      success: true,
+      data: {
+        commandId: queued.id,
+        status: queued.status,
+        deviceId: queued.deviceId,
+        command: queued.command,
+        ...details,
+        timestamp: queued.createdAt.toISOString()
+      }
+    });
+}
+
 /**
  * POST /api/devices/:deviceId/test
  * Test device connectivity
@@ -389,18 +432,10 @@ router.post('/:deviceId/light/toggle', async (req: Request, res: Response) => {
     const currentPower = lightProperties?.power || 'off';
     const command = currentPower === 'on' ? 'turnOff' : 'turnOn';
     
-    await deviceService.controlDevice(deviceId, command);
-    
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command,
-        previousState: currentPower,
-        newState: currentPower === 'on' ? 'off' : 'on',
-        timestamp: new Date().toISOString()
-      }
-    });
+    await sendQueuedCommand(res, deviceId, {
+      previousState: currentPower,
+      newState: currentPower === 'on' ? 'off' : 'on'
+    }, command);
   } catch (error) {
     console.error(`Light toggle error for ${req.params.deviceId}:`, error);
     
@@ -459,17 +494,7 @@ router.post('/:deviceId/light/brightness', async (req: Request, res: Response) =
     }
     
     // Set brightness
-    await deviceService.controlDevice(deviceId, 'setBrightness', brightness.toString());
-    
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command: 'setBrightness',
-        brightness,
-        timestamp: new Date().toISOString()
-      }
-    });
+    await sendQueuedCommand(res, deviceId, { brightness }, 'setBrightness', brightness.toString());
   } catch (error) {
     console.error(`Light brightness control error for ${req.params.deviceId}:`, error);
     
@@ -529,17 +554,7 @@ router.post('/:deviceId/light/power', async (req: Request, res: Response) => {
     
     // Set power state
     const command = power === 'on' ? 'turnOn' : 'turnOff';
-    await deviceService.controlDevice(deviceId, command);
-    
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command,
-        power,
-        timestamp: new Date().toISOString()
-      }
-    });
+    await sendQueuedCommand(res, deviceId, { power }, command);
   } catch (error) {
     console.error(`Light power control error for ${req.params.deviceId}:`, error);
     
@@ -564,6 +579,125 @@ router.post('/:deviceId/light/power', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/devices/:deviceId/light/color
+ * Set the color of a Color Bulb or Strip Light (red/green/blue 0-255)
+ */
+router.post('/:deviceId/light/color', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const { red, green, blue } = req.body;
+    
+    // Validate color values
+    if (![red, green, blue].every(isValidColorValue)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Red, green and blue must be integers between 0 and 255'
+        }
+      });
+    }
+    
+    // Get device to validate type
+    const device = await deviceService.getDeviceById(deviceId);
+    
+    if (device.deviceType !== 'Light' || device.isInfraredRemote) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DEVICE_TYPE',
+          message: 'Device is not a color light'
+        }
+      });
+    }
+    
+    // Set color
+    const color = { red, green, blue };
+    await sendQueuedCommand(res, deviceId, { color }, 'setColor', formatLightColor(color));
+  } catch (error) {
+    console.error(`Light color control error for ${req.params.deviceId}:`, error);
+    
+    if (error instanceof DeviceServiceError) {
+      const statusCode = getStatusCodeForError(error.code);
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while setting light color'
+        }
+      });
+    }
+  }
+});
+
+/**
+ * POST /api/devices/:deviceId/light/color-temperature
+ * Set the color temperature of a Color Bulb or Strip Light (2700-6500K)
+ */
+router.post('/:deviceId/light/color-temperature', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const { colorTemperature } = req.body;
+    
+    // Validate color temperature value
+    if (!isValidColorTemperature(colorTemperature)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Color temperature must be an integer between 2700 and 6500'
+        }
+      });
+    }
+    
+    // Get device to validate type
+    const device = await deviceService.getDeviceById(deviceId);
+    
+    if (device.deviceType !== 'Light' || device.isInfraredRemote) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DEVICE_TYPE',
+          message: 'Device is not a color light'
+        }
+      });
+    }
+    
+    // Set color temperature
+    await sendQueuedCommand(res, deviceId, { colorTemperature }, 'setColorTemperature', colorTemperature.toString());
+  } catch (error) {
+    console.error(`Light color temperature control error for ${req.params.deviceId}:`, error);
+    
+    if (error instanceof DeviceServiceError) {
+      const statusCode = getStatusCodeForError(error.code);
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while setting light color temperature'
+        }
+      });
+    }
+  }
+});
+
 /**
  * POST /api/devices/:deviceId/aircon/power
  * Set air conditioner power state (on/off)
@@ -599,17 +733,7 @@ router.post('/:deviceId/aircon/power', async (req: Request, res: Response) => {
     
     // Set power state
     const command = power === 'on' ? 'turnOn' : 'turnOff';
-    await deviceService.controlDevice(deviceId, command);
-    
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command,
-        power,
-        timestamp: new Date().toISOString()
-      }
-    });
+    await sendQueuedCommand(res, deviceId, { power }, command);
   } catch (error) {
     console.error(`Air conditioner power control error for ${req.params.deviceId}:`, error);
     
@@ -669,17 +793,7 @@ router.post('/:deviceId/aircon/mode', async (req: Request, res: Response) => {
     }
     
     // Set operation mode
-    await deviceService.controlDevice(deviceId, 'setMode', mode);
-    
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command: 'setMode',
-        mode,
-        timestamp: new Date().toISOString()
-      }
-    });
+    await sendQueuedCommand(res, deviceId, { mode }, 'setMode', mode);
   } catch (error) {
     console.error(`Air conditioner mode control error for ${req.params.deviceId}:`, error);
     
@@ -738,17 +852,7 @@ router.post('/:deviceId/aircon/temperature', async (req: Request, res: Response)
     }
     
     // Set target temperature
-    await deviceService.controlDevice(deviceId, 'setTemperature', temperature);
-    
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command: 'setTemperature',
-        temperature,
-        timestamp: new Date().toISOString()
-      }
-    });
+    await sendQueuedCommand(res, deviceId, { temperature }, 'setTemperature', temperature);
   } catch (error) {
     console.error(`Air conditioner temperature control error for ${req.params.deviceId}:`, error);
     
@@ -773,6 +877,66 @@ router.post('/:deviceId/aircon/temperature', async (req: Request, res: Response)
   }
 });
 
+/**
+ * POST /api/devices/:deviceId/aircon/fan
+ * Set air conditioner fan speed
+ */
+router.post('/:deviceId/aircon/fan', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const { fanSpeed } = req.body;
+    
+    // Validate fan speed value
+    const validFanSpeeds = ['auto', 'low', 'medium', 'high'];
+    if (!validFanSpeeds.includes(fanSpeed)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Fan speed must be one of: ${validFanSpeeds.join(', ')}`
+        }
+      });
+    }
+    
+    // Get device to validate type
+    const device = await deviceService.getDeviceById(deviceId);
+    
+    if (device.deviceType !== 'Air Conditioner') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DEVICE_TYPE',
+          message: 'Device is not an air conditioner'
+        }
+      });
+    }
+    
+    // Set fan speed
+    await sendQueuedCommand(res, deviceId, { fanSpeed }, 'setFanSpeed', fanSpeed);
+  } catch (error) {
+    console.error(`Air conditioner fan speed control error for ${req.params.deviceId}:`, error);
+    
+    if (error instanceof DeviceServiceError) {
+      const statusCode = getStatusCodeForError(error.code);
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while setting air conditioner fan speed'
+        }
+      });
+    }
+  }
+});
+
 /**
  * POST /api/devices/:deviceId/aircon/toggle
  * Toggle air conditioner power (ON/OFF)
@@ -800,20 +964,369 @@ router.post('/:deviceId/aircon/toggle', async (req: Request, res: Response) => {
     const currentPower = airconProperties?.power || 'off';
     const command = currentPower === 'on' ? 'turnOff' : 'turnOn';
     
-    await deviceService.controlDevice(deviceId, command);
+    await sendQueuedCommand(res, deviceId, {
+      previousState: currentPower,
+      newState: currentPower === 'on' ? 'off' : 'on'
+    }, command);
+  } catch (error) {
+    console.error(`Air conditioner toggle error for ${req.params.deviceId}:`, error);
     
-    res.json({
-      success: true,
-      data: {
-        deviceId,
-        command,
-        previousState: currentPower,
-        newState: currentPower === 'on' ? 'off' : 'on',
-        timestamp: new Date().toISOString()
+    if (error instanceof DeviceServiceError) {
+      const statusCode = getStatusCodeForError(error.code);
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while toggling air conditioner'
+        }
+      });
+    }
+  }
+});
+
+/**
+ * Curtain actions mapped to SwitchBot commands
+ */
+const CURTAIN_COMMANDS: Record<'open' | 'close' | 'pause', string> = {
+  open: 'turnOn',
+  close: 'turnOff',
+  pause: 'pause'
+};
+
+/**
+ * POST /api/devices/:deviceId/curtain/open
+ * POST /api/devices/:deviceId/curtain/close
+ * POST /api/devices/:deviceId/curtain/pause
+ * Open, close or stop a curtain
+ */
+(Object.keys(CURTAIN_COMMANDS) as Array<keyof typeof CURTAIN_COMMANDS>).forEach(action => {
+  router.post(`/:deviceId/curtain/${action}`, async (req: Request, res: Response) => {
+    try {
+      const { deviceId } = req.params;
+      
+      // Get device to validate type
+      const device = await deviceService.getDeviceById(deviceId);
+      
+      if (device.deviceType !== 'Curtain') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_DEVICE_TYPE',
+            message: 'Device is not a curtain'
+          }
+        });
+      }
+      
+      const command = CURTAIN_COMMANDS[action];
+      await sendQueuedCommand(res, deviceId, { action }, command);
+    } catch (error) {
+      console.error(`Curtain ${action} error for ${req.params.deviceId}:`, error);
+      
+      if (error instanceof DeviceServiceError) {
+        const statusCode = getStatusCodeForError(error.code);
+        res.status(statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: `An unexpected error occurred while trying to ${action} the curtain`
+          }
+        });
+      }
+    }
+  });
+});
+
+/**
+ * POST /api/devices/:deviceId/curtain/position
+ * Move curtain to a position (0 = open, 100 = closed)
+ */
+router.post('/:deviceId/curtain/position', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const { position } = req.body;
+    
+    // Validate position value
+    if (typeof position !== 'number' || !Number.isInteger(position) || position < 0 || position > 100) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Position must be an integer between 0 and 100'
+        }
+      });
+    }
+    
+    // Get device to validate type
+    const device = await deviceService.getDeviceById(deviceId);
+    
+    if (device.deviceType !== 'Curtain') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DEVICE_TYPE',
+          message: 'Device is not a curtain'
+        }
+      });
+    }
+    
+    // index 0, default speed mode, target position
+    await sendQueuedCommand(res, deviceId, { position }, 'setPosition', `0,ff,${position}`);
+  } catch (error) {
+    console.error(`Curtain position control error for ${req.params.deviceId}:`, error);
+    
+    if (error instanceof DeviceServiceError) {
+      const statusCode = getStatusCodeForError(error.code);
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while setting curtain position'
+        }
+      });
+    }
+  }
+});
+
+/**
+ * Bot actions mapped to SwitchBot commands
+ */
+const BOT_COMMANDS: Record<'press' | 'on' | 'off', string> = {
+  press: 'press',
+  on: 'turnOn',
+  off: 'turnOff'
+};
+
+/**
+ * POST /api/devices/:deviceId/bot/press
+ * POST /api/devices/:deviceId/bot/on
+ * POST /api/devices/:deviceId/bot/off
+ * Press a bot, or switch it on/off (switch mode)
+ */
+(Object.keys(BOT_COMMANDS) as Array<keyof typeof BOT_COMMANDS>).forEach(action => {
+  router.post(`/:deviceId/bot/${action}`, async (req: Request, res: Response) => {
+    try {
+      const { deviceId } = req.params;
+      
+      // Get device to validate type
+      const device = await deviceService.getDeviceById(deviceId);
+      
+      if (device.deviceType !== 'Bot') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_DEVICE_TYPE',
+            message: 'Device is not a bot'
+          }
+        });
+      }
+      
+      const command = BOT_COMMANDS[action];
+      await sendQueuedCommand(res, deviceId, { action }, command);
+    } catch (error) {
+      console.error(`Bot ${action} error for ${req.params.deviceId}:`, error);
+      
+      if (error instanceof DeviceServiceError) {
+        const statusCode = getStatusCodeForError(error.code);
+        res.status(statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: `An unexpected error occurred while sending ${action} to the bot`
+          }
+        });
+      }
+    }
+  });
+});
+
+/**
+ * IR remote actions mapped to SwitchBot commands, per route prefix
+ */
+const IR_REMOTE_ROUTES: Array<{
+  prefix: string;
+  deviceType: IRRemoteDeviceType;
+  label: string;
+  commands: Record<string, string>;
+}> = [
+  {
+    prefix: 'tv',
+    deviceType: 'TV',
+    label: 'TV',
+    commands: {
+      on: 'turnOn',
+      off: 'turnOff',
+      'volume-up': 'volumeAdd',
+      'volume-down': 'volumeSub',
+      'channel-up': 'channelAdd',
+      'channel-down': 'channelSub'
+    }
+  },
+  {
+    prefix: 'fan',
+    deviceType: 'Fan',
+    label: 'fan',
+    commands: {
+      on: 'turnOn',
+      off: 'turnOff',
+      swing: 'swing',
+      timer: 'timer',
+      low: 'lowSpeed',
+      middle: 'middleSpeed',
+      high: 'highSpeed'
+    }
+  },
+  {
+    prefix: 'speaker',
+    deviceType: 'Speaker',
+    label: 'speaker',
+    commands: {
+      on: 'turnOn',
+      off: 'turnOff',
+      mute: 'setMute',
+      play: 'Play',
+      pause: 'Pause',
+      stop: 'Stop',
+      next: 'Next',
+      previous: 'Previous',
+      'fast-forward': 'FastForward',
+      rewind: 'Rewind',
+      'volume-up': 'volumeAdd',
+      'volume-down': 'volumeSub'
+    }
+  },
+  {
+    prefix: 'projector',
+    deviceType: 'Projector',
+    label: 'projector',
+    commands: {
+      on: 'turnOn',
+      off: 'turnOff'
+    }
+  }
+];
+
+/**
+ * POST /api/devices/:deviceId/tv/{on|off|volume-up|volume-down|channel-up|channel-down}
+ * POST /api/devices/:deviceId/fan/{on|off|swing|timer|low|middle|high}
+ * POST /api/devices/:deviceId/speaker/{on|off|mute|play|pause|stop|next|previous|fast-forward|rewind|volume-up|volume-down}
+ * POST /api/devices/:deviceId/projector/{on|off}
+ * Send a button of a TV, fan, speaker or projector IR remote
+ */
+IR_REMOTE_ROUTES.forEach(({ prefix, deviceType, label, commands }) => {
+  Object.entries(commands).forEach(([action, command]) => {
+    router.post(`/:deviceId/${prefix}/${action}`, async (req: Request, res: Response) => {
+      try {
+        const { deviceId } = req.params;
+        
+        // Get device to validate type
+        const device = await deviceService.getDeviceById(deviceId);
+        
+        if (device.deviceType !== deviceType) {
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_DEVICE_TYPE',
+              message: `Device is not a ${label}`
+            }
+          });
+        }
+        
+        await sendQueuedCommand(res, deviceId, { action }, command);
+      } catch (error) {
+        console.error(`${label} ${action} error for ${req.params.deviceId}:`, error);
+        
+        if (error instanceof DeviceServiceError) {
+          const statusCode = getStatusCodeForError(error.code);
+          res.status(statusCode).json({
+            success: false,
+            error: {
+              code: error.code,
+              message: error.message
+            }
+          });
+        } else {
+          res.status(500).json({
+            success: false,
+            error: {
+              code: 'INTERNAL_ERROR',
+              message: `An unexpected error occurred while sending ${action} to the ${label}`
+            }
+          });
+        }
       }
     });
+  });
+});
+
+/**
+ * POST /api/devices/:deviceId/tv/channel
+ * Switch a TV, IPTV/Streamer or Set Top Box to a channel
+ * Body: { channel: number } - 1-999
+ */
+router.post('/:deviceId/tv/channel', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const { channel } = req.body;
+    
+    // Validate channel value
+    if (!Number.isInteger(channel) || channel < 1 || channel > MAX_TV_CHANNEL) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Channel must be an integer between 1 and ${MAX_TV_CHANNEL}`
+        }
+      });
+    }
+    
+    // Get device to validate type
+    const device = await deviceService.getDeviceById(deviceId);
+    
+    if (device.deviceType !== 'TV') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DEVICE_TYPE',
+          message: 'Device is not a TV'
+        }
+      });
+    }
+    
+    await sendQueuedCommand(res, deviceId, { channel }, 'SetChannel', channel);
   } catch (error) {
-    console.error(`Air conditioner toggle error for ${req.params.deviceId}:`, error);
+    console.error(`TV channel error for ${req.params.deviceId}:`, error);
     
     if (error instanceof DeviceServiceError) {
       const statusCode = getStatusCodeForError(error.code);
@@ -829,13 +1342,273 @@ router.post('/:deviceId/aircon/toggle', async (req: Request, res: Response) => {
         success: false,
         error: {
           code: 'INTERNAL_ERROR',
-          message: 'An unexpected error occurred while toggling air conditioner'
+          message: 'An unexpected error occurred while setting the TV channel'
         }
       });
     }
   }
 });
 
+/**
+ * Get a device and check that it is an infrared remote
+ * Sends a 400 INVALID_DEVICE_TYPE response and returns false otherwise.
+ */
+async function ensureInfraredRemote(deviceId: string, res: Response): Promise<boolean> {
+  const device = await deviceService.getDeviceById(deviceId);
+
+  if (!device.isInfraredRemote) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_DEVICE_TYPE',
+        message: 'Device is not an infrared remote'
+      }
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Send the error response of an IR button route
+ */
+function handleIRButtonError(res: Response, error: unknown, message: string): void {
+  if (error instanceof DeviceServiceError) {
+    res.status(getStatusCodeForError(error.code)).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+  } else if (error instanceof IRButtonServiceError) {
+    const statusCode = error.code === 'VALIDATION_ERROR' ? 400 : error.code === 'BUTTON_NOT_FOUND' ? 404 : 500;
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message
+      }
+    });
+  }
+}
+
+/**
+ * GET /api/devices/:deviceId/ir/buttons
+ * Get the learned button names registered for an IR remote
+ */
+router.get('/:deviceId/ir/buttons', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+
+    if (!(await ensureInfraredRemote(deviceId, res))) {
+      return;
+    }
+
+    const buttons = irButtonService.getButtons(deviceId);
+
+    res.json({
+      success: true,
+      data: {
+        deviceId,
+        buttons,
+        count: buttons.length
+      }
+    });
+  } catch (error) {
+    console.error(`IR button retrieval error for ${req.params.deviceId}:`, error);
+    handleIRButtonError(res, error, 'An unexpected error occurred while retrieving IR buttons');
+  }
+});
+
+/**
+ * PUT /api/devices/:deviceId/ir/buttons
+ * Replace the learned button names of an IR remote
+ * Body: { buttons: string[] } - names as learned in the SwitchBot app
+ */
+router.put('/:deviceId/ir/buttons', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+
+    if (!(await ensureInfraredRemote(deviceId, res))) {
+      return;
+    }
+
+    const catalog = irButtonService.setButtons(deviceId, req.body?.buttons);
+
+    res.json({
+      success: true,
+      data: {
+        deviceId,
+        buttons: catalog.buttons,
+        count: catalog.buttons.length,
+        updatedAt: catalog.updatedAt.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error(`IR button update error for ${req.params.deviceId}:`, error);
+    handleIRButtonError(res, error, 'An unexpected error occurred while updating IR buttons');
+  }
+});
+
+/**
+ * POST /api/devices/:deviceId/ir/button
+ * Send a learned button of an IR remote (commandType 'customize')
+ * Body: { button: string } - a button registered for the device
+ */
+router.post('/:deviceId/ir/button', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const { button } = req.body;
+
+    if (typeof button !== 'string' || button.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'button must be a non-empty string'
+        }
+      });
+    }
+
+    if (!(await ensureInfraredRemote(deviceId, res))) {
+      return;
+    }
+
+    irButtonService.assertButton(deviceId, button);
+
+    const queued = await commandQueueService.enqueue(deviceId, button, undefined, 'customize');
+    respondQueued(res, queued, { commandType: 'customize' });
+  } catch (error) {
+    console.error(`IR button error for ${req.params.deviceId}:`, error);
+    handleIRButtonError(res, error, 'An unexpected error occurred while sending the IR button');
+  }
+});
+
+/**
+ * Send the error response of a lock route
+ */
+function handleLockError(res: Response, error: unknown, message: string): void {
+  if (error instanceof DeviceServiceError) {
+    res.status(getStatusCodeForError(error.code)).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+  } else if (error instanceof LockServiceError) {
+    const statusCode = error.code === 'INVALID_CONFIRMATION' ? 403 : 400;
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message
+      }
+    });
+  }
+}
+
+/**
+ * POST /api/devices/:deviceId/lock/confirmation
+ * Issue a single-use confirmation token for locking or unlocking
+ * Body: { action: 'lock' | 'unlock' }
+ */
+router.post('/:deviceId/lock/confirmation', async (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const confirmation = await lockService.requestConfirmation(deviceId, req.body.action);
+
+    res.json({
+      success: true,
+      data: {
+        deviceId,
+        action: confirmation.action,
+        confirmationToken: confirmation.token,
+        expiresAt: confirmation.expiresAt.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error(`Lock confirmation error for ${req.params.deviceId}:`, error);
+    handleLockError(res, error, 'An unexpected error occurred while issuing the lock confirmation');
+  }
+});
+
+/**
+ * POST /api/devices/:deviceId/lock and /api/devices/:deviceId/unlock
+ * Lock or unlock a Lock / Lock Pro
+ * Body: { confirmationToken: string } - issued by /lock/confirmation for the same action
+ */
+(['lock', 'unlock'] as LockAction[]).forEach(action => {
+  router.post(`/:deviceId/${action}`, async (req: Request, res: Response) => {
+    try {
+      const { deviceId } = req.params;
+      const entry = await lockService.execute(deviceId, action, req.body.confirmationToken);
+
+      res.json({
+        success: true,
+        data: {
+          deviceId,
+          command: action,
+          auditId: entry.id,
+          timestamp: entry.timestamp.toISOString()
+        }
+      });
+    } catch (error) {
+      console.error(`Lock ${action} error for ${req.params.deviceId}:`, error);
+      handleLockError(res, error, `An unexpected error occurred while trying to ${action} the device`);
+    }
+  });
+});
+
+/**
+ * GET /api/devices/:deviceId/lock/audit
+ * Get the lock audit log of a device, newest first
+ * Query: limit (1-500, default 50)
+ */
+router.get('/:deviceId/lock/audit', (req: Request, res: Response) => {
+  const { deviceId } = req.params;
+  const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'limit must be an integer between 1 and 500'
+      }
+    });
+  }
+
+  const entries = lockService.getAuditLog({ deviceId, limit });
+
+  res.json({
+    success: true,
+    data: {
+      deviceId,
+      entries,
+      count: entries.length
+    }
+  });
+});
+
 /**
  * DELETE /api/devices/cache
  * Clear device cache
@@ -0,0 +1,231 @@
+/**
+ * Energy monitoring API routes (Plug / Plug Mini)
+ */
+
+import { Router, Request, Response } from 'express';
+import { energyHistoryService, PlugEnergySummary } from '../services/energy-history.service';
+import { PowerReading, DailyEnergy, ENERGY_PERIODS, isEnergyPeriod } from '../models/energy';
+
+const router = Router();
+
+/**
+ * Maximum number of days / months a totals query may return
+ */
+const MAX_DAYS = 400;
+const MAX_MONTHS = 13;
+
+/**
+ * GET /api/energy
+ * Get today's and this month's energy usage of every plug
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const plugs = energyHistoryService.getSummaries();
+
+    res.json({
+      success: true,
+      data: {
+        plugs: plugs.map(serializeSummary),
+        count: plugs.length
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve energy summary');
+  }
+});
+
+/**
+ * GET /api/energy/status
+ * Get energy sampling status
+ */
+router.get('/status', (req: Request, res: Response) => {
+  try {
+    const status = energyHistoryService.getStatus();
+
+    res.json({
+      success: true,
+      data: {
+        ...status,
+        lastSampleAt: status.lastSampleAt ? status.lastSampleAt.toISOString() : null
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve energy sampling status');
+  }
+});
+
+/**
+ * GET /api/energy/:deviceId/history
+ * Get the power readings of a plug
+ * Query: period (optional, default 24h) - one of ENERGY_PERIODS
+ */
+router.get('/:deviceId/history', (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const period = typeof req.query.period === 'string' ? req.query.period : '24h';
+
+    if (!isEnergyPeriod(period)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_PERIOD',
+          message: `Period must be one of: ${ENERGY_PERIODS.join(', ')}`
+        }
+      });
+    }
+
+    const readings = energyHistoryService.getReadings(deviceId, period);
+
+    res.json({
+      success: true,
+      data: {
+        deviceId,
+        period,
+        readings: readings.map(serializeReading),
+        totalReadings: readings.length
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve power history');
+  }
+});
+
+/**
+ * GET /api/energy/:deviceId/daily
+ * Get the daily kWh totals of a plug
+ * Query: days (optional, default 30)
+ */
+router.get('/:deviceId/daily', (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const days = parseCount(req.query.days, 30, MAX_DAYS);
+
+    if (days === null) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `days must be an integer between 1 and ${MAX_DAYS}`
+        }
+      });
+    }
+
+    const totals = energyHistoryService.getDailyTotals(deviceId, days);
+
+    res.json({
+      success: true,
+      data: {
+        deviceId,
+        days: totals.map(serializeDailyEnergy),
+        totalKWh: roundKWh(totals.reduce((sum, day) => sum + day.kWh, 0))
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve daily energy totals');
+  }
+});
+
+/**
+ * GET /api/energy/:deviceId/monthly
+ * Get the monthly kWh totals of a plug
+ * Query: months (optional, default 12)
+ */
+router.get('/:deviceId/monthly', (req: Request, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    const months = parseCount(req.query.months, 12, MAX_MONTHS);
+
+    if (months === null) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `months must be an integer between 1 and ${MAX_MONTHS}`
+        }
+      });
+    }
+
+    const totals = energyHistoryService.getMonthlyTotals(deviceId, months);
+
+    res.json({
+      success: true,
+      data: {
+        deviceId,
+        months: totals.map(month => ({ ...month, kWh: roundKWh(month.kWh) })),
+        totalKWh: roundKWh(totals.reduce((sum, month) => sum + month.kWh, 0))
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve monthly energy totals');
+  }
+});
+
+/**
+ * Parse an optional positive count query parameter
+ * Returns null when the value is invalid
+ */
+function parseCount(value: unknown, defaultValue: number, max: number): number | null {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 1 && count <= max ? count : null;
+}
+
+/**
+ * Round a kWh value for display (Wh precision)
+ */
+function roundKWh(kWh: number): number {
+  return Math.round(kWh * 1000) / 1000;
+}
+
+/**
+ * Convert a power reading into its JSON representation
+ */
+function serializeReading(reading: PowerReading) {
+  return {
+    ...reading,
+    timestamp: reading.timestamp.toISOString()
+  };
+}
+
+/**
+ * Convert a daily total into its JSON representation
+ */
+function serializeDailyEnergy(day: DailyEnergy) {
+  return {
+    ...day,
+    timestamp: day.timestamp.toISOString(),
+    kWh: roundKWh(day.kWh)
+  };
+}
+
+/**
+ * Convert a plug summary into its JSON representation
+ */
+function serializeSummary(summary: PlugEnergySummary) {
+  return {
+    deviceId: summary.deviceId,
+    latest: summary.latest ? serializeReading(summary.latest) : null,
+    todayKWh: roundKWh(summary.todayKWh),
+    monthKWh: roundKWh(summary.monthKWh)
+  };
+}
+
+/**
+ * Send an error response for a failed energy request
+ */
+function handleError(res: Response, error: unknown, fallbackMessage: string): void {
+  console.error(`${fallbackMessage}:`, error);
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'ENERGY_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+export { router as energyRoutes };
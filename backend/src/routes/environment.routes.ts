@@ -4,18 +4,29 @@
 
 import { Router, Request, Response } from 'express';
 import { environmentService, EnvironmentServiceError } from '../services/environment.service';
-import { environmentHistoryService, TimePeriod } from '../services/environment-history.service';
+import {
+  environmentHistoryService,
+  TimePeriod,
+  TIME_PERIODS,
+  isTimePeriod,
+  parseHistoryRange,
+  calculateStatistics,
+  HistoricalDataPoint
+} from '../services/environment-history.service';
 import { EnvironmentData } from '../models/environment';
+import { ExportColumn, EXPORT_FORMATS, exportFilename, isExportFormat, streamExport } from '../utils/export';
 
 const router = Router();
 
 /**
  * GET /api/environment
  * Get current environment data from SwitchBot Hub 2
+ * Query: deviceId (optional) - read a specific sensor instead of the primary hub
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const environmentData: EnvironmentData = await environmentService.getCurrentEnvironmentData();
+    const deviceId = typeof req.query.deviceId === 'string' && req.query.deviceId ? req.query.deviceId : undefined;
+    const environmentData: EnvironmentData = await environmentService.getCurrentEnvironmentData(deviceId);
     
     res.json({
       success: true,
@@ -23,7 +34,11 @@ router.get('/', async (req: Request, res: Response) => {
         temperature: environmentData.temperature,
         humidity: environmentData.humidity,
         light: environmentData.light,
-        timestamp: environmentData.timestamp.toISOString()
+        co2: environmentData.co2,
+        battery: environmentData.battery,
+        timestamp: environmentData.timestamp.toISOString(),
+        deviceId: environmentData.deviceId,
+        deviceName: environmentData.deviceName
       }
     });
   } catch (error) {
@@ -52,6 +67,54 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/environment/sensors
+ * Get all climate sensors with their latest recorded data
+ */
+router.get('/sensors', async (req: Request, res: Response) => {
+  try {
+    const sensors = await environmentService.getSensors();
+
+    res.json({
+      success: true,
+      data: sensors.map(sensor => {
+        const latest = environmentHistoryService.getLatestDataPoint(sensor.deviceId);
+        return {
+          ...sensor,
+          latest: latest ? {
+            temperature: latest.temperature,
+            humidity: latest.humidity,
+            light: latest.light,
+            co2: latest.co2,
+            timestamp: latest.timestamp.toISOString()
+          } : null
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Environment sensor list retrieval error:', error);
+
+    if (error instanceof EnvironmentServiceError) {
+      const statusCode = getStatusCodeForError(error.code);
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while retrieving environment sensors'
+        }
+      });
+    }
+  }
+});
+
 /**
  * GET /api/environment/history/status
  * Get history service status and debug information
@@ -170,39 +233,166 @@ router.get('/history/debug', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Columns of the environment history export
+ */
+const HISTORY_EXPORT_COLUMNS: ExportColumn<HistoricalDataPoint>[] = [
+  { key: 'timestamp', value: point => point.timestamp.toISOString() },
+  { key: 'deviceId', value: point => point.deviceId },
+  { key: 'temperature', value: point => point.temperature },
+  { key: 'humidity', value: point => point.humidity },
+  { key: 'light', value: point => point.light },
+  { key: 'temperatureMin', value: point => point.temperatureMin },
+  { key: 'temperatureMax', value: point => point.temperatureMax },
+  { key: 'humidityMin', value: point => point.humidityMin },
+  { key: 'humidityMax', value: point => point.humidityMax },
+  { key: 'lightMin', value: point => point.lightMin },
+  { key: 'lightMax', value: point => point.lightMax },
+  { key: 'co2', value: point => point.co2 },
+  { key: 'co2Min', value: point => point.co2Min },
+  { key: 'co2Max', value: point => point.co2Max },
+  { key: 'sampleCount', value: point => point.sampleCount }
+];
+
+/**
+ * GET /api/environment/history/export
+ * Download stored environment history as CSV or JSON
+ * Query: format (csv | json, default csv)
+ *        from, to (optional, ISO 8601) - range to export; defaults to all retained data
+ *        deviceId (optional) - sensor to export; all sensors when omitted
+ */
+router.get('/history/export', (req: Request, res: Response) => {
+  try {
+    const format = req.query.format ?? 'csv';
+    const deviceId = typeof req.query.deviceId === 'string' && req.query.deviceId ? req.query.deviceId : undefined;
+
+    if (!isExportFormat(format)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_FORMAT',
+          message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`
+        }
+      });
+    }
+
+    const validation = parseHistoryRange(
+      req.query.from ?? new Date(0).toISOString(),
+      req.query.to ?? new Date().toISOString()
+    );
+    if (!validation.isValid || !validation.query) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_RANGE',
+          message: validation.errors.join(', ')
+        }
+      });
+    }
+
+    const dataPoints = environmentHistoryService.getDataPointsInRange(
+      validation.query.from,
+      validation.query.to,
+      deviceId
+    );
+    streamExport(res, format, exportFilename('environment-history'), HISTORY_EXPORT_COLUMNS, dataPoints);
+  } catch (error) {
+    console.error('History export error:', error);
+
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'EXPORT_ERROR',
+        message: 'Failed to export historical data'
+      }
+    });
+  }
+});
+
+/**
+ * GET /api/environment/history/range
+ * Get historical environment data between two timestamps
+ * Query: from, to (ISO 8601) - range to read
+ *        bucketMinutes (optional) - bucket size; chosen by the server when omitted
+ *        deviceId (optional) - sensor to read history for (defaults to the primary sensor)
+ */
+router.get('/history/range', (req: Request, res: Response) => {
+  try {
+    const deviceId = typeof req.query.deviceId === 'string' && req.query.deviceId ? req.query.deviceId : undefined;
+    const validation = parseHistoryRange(req.query.from, req.query.to, req.query.bucketMinutes);
+
+    if (!validation.isValid || !validation.query) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_RANGE',
+          message: validation.errors.join(', ')
+        }
+      });
+    }
+
+    const result = environmentHistoryService.getHistoricalDataInRange(validation.query, deviceId);
+
+    res.json({
+      success: true,
+      data: {
+        from: result.from.toISOString(),
+        to: result.to.toISOString(),
+        bucketMinutes: result.bucketMinutes,
+        source: result.source,
+        deviceId: deviceId || null,
+        dataPoints: result.dataPoints.map(serializeDataPoint),
+        statistics: calculateStatistics(result.dataPoints),
+        totalPoints: result.dataPoints.length
+      }
+    });
+  } catch (error) {
+    console.error('History range retrieval error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'HISTORY_ERROR',
+        message: 'Failed to retrieve historical data'
+      }
+    });
+  }
+});
+
 /**
  * GET /api/environment/history/:period
  * Get historical environment data for specified time period
+ * Query: deviceId (optional) - sensor to read history for (defaults to the primary sensor)
  */
 router.get('/history/:period', async (req: Request, res: Response) => {
   try {
     const period = req.params.period as TimePeriod;
+    const deviceId = typeof req.query.deviceId === 'string' && req.query.deviceId ? req.query.deviceId : undefined;
     
     // Validate period parameter
-    if (!['1h', '6h', '12h'].includes(period)) {
+    if (!isTimePeriod(period)) {
       return res.status(400).json({
         success: false,
         error: {
           code: 'INVALID_PERIOD',
-          message: 'Period must be one of: 1h, 6h, 12h'
+          message: `Period must be one of: ${TIME_PERIODS.join(', ')}`
         }
       });
     }
 
-    const historyData = environmentHistoryService.getHistoricalData(period);
-    const statistics = environmentHistoryService.getDataStatistics(period);
+    const historyData = environmentHistoryService.getHistoricalData(period, deviceId);
+    const statistics = environmentHistoryService.getDataStatistics(period, deviceId);
     
     res.json({
       success: true,
       data: {
         period,
-        dataPoints: historyData.map(point => ({
-          temperature: point.temperature,
-          humidity: point.humidity,
-          light: point.light,
-          timestamp: point.timestamp.toISOString(),
-          sampleCount: point.sampleCount
-        })),
+        deviceId: deviceId || null,
+        dataPoints: historyData.map(serializeDataPoint),
         statistics,
         totalPoints: historyData.length
       }
@@ -335,12 +525,35 @@ router.get('/test', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Convert a historical data point to its JSON representation
+ */
+function serializeDataPoint(point: HistoricalDataPoint) {
+  return {
+    temperature: point.temperature,
+    humidity: point.humidity,
+    light: point.light,
+    timestamp: point.timestamp.toISOString(),
+    sampleCount: point.sampleCount,
+    temperatureMin: point.temperatureMin,
+    temperatureMax: point.temperatureMax,
+    humidityMin: point.humidityMin,
+    humidityMax: point.humidityMax,
+    lightMin: point.lightMin,
+    lightMax: point.lightMax,
+    co2: point.co2,
+    co2Min: point.co2Min,
+    co2Max: point.co2Max
+  };
+}
+
 /**
  * Map error codes to HTTP status codes
  */
 function getStatusCodeForError(errorCode: string): number {
   switch (errorCode) {
     case 'HUB_NOT_FOUND':
+    case 'SENSOR_NOT_FOUND':
       return 404;
     case 'VALIDATION_ERROR':
       return 422;
@@ -0,0 +1,60 @@
+/**
+ * SwitchBot API quota routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { switchBotClient } from '../utils/switchbot-client';
+
+const router = Router();
+
+/**
+ * GET /api/quota
+ * Get the SwitchBot API usage of the current day
+ * reserved is the part of the quota environment polling leaves to device commands.
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const usage = switchBotClient.getQuotaUsage();
+
+    res.json({
+      success: true,
+      data: {
+        ...usage,
+        resetAt: usage.resetAt.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Failed to get API quota usage:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to get API quota usage'
+      }
+    });
+  }
+});
+
+/**
+ * GET /api/quota/queue
+ * Get queue depth and wait times of the request lanes (interactive, read, background)
+ */
+router.get('/queue', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: switchBotClient.getSchedulerStats()
+    });
+  } catch (error) {
+    console.error('Failed to get request queue statistics:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to get request queue statistics'
+      }
+    });
+  }
+});
+
+export { router as quotaRoutes };
@@ -0,0 +1,248 @@
+/**
+ * Scene API routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { sceneService, SceneServiceError } from '../services/scene.service';
+import { Scene, SceneExecution, CloudScene, estimateSceneDuration } from '../models/scene';
+import { INTERACTIVE_REQUEST_INTERVAL_MS } from '../utils/request-scheduler';
+
+const router = Router();
+
+/**
+ * GET /api/scenes
+ * Get all local scenes and the manual scenes of the SwitchBot account
+ * Query: refresh (optional) - bypass the cloud scene cache
+ * Local scenes are returned even when the cloud scenes cannot be fetched.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const scenes = sceneService.getScenes();
+
+    let cloudScenes: CloudScene[] = [];
+    let cloudError: string | null = null;
+    try {
+      cloudScenes = await sceneService.getCloudScenes(req.query.refresh === 'true');
+    } catch (error) {
+      console.warn('Failed to retrieve cloud scenes:', error);
+      cloudError = error instanceof Error ? error.message : 'Failed to retrieve cloud scenes';
+    }
+
+    res.json({
+      success: true,
+      data: {
+        scenes: scenes.map(serializeScene),
+        count: scenes.length,
+        cloudScenes: cloudScenes.map(scene => ({
+          ...scene,
+          isRunning: sceneService.isSceneRunning(scene.sceneId)
+        })),
+        cloudError
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve scenes');
+  }
+});
+
+/**
+ * GET /api/scenes/:sceneId
+ * Get a single scene
+ */
+router.get('/:sceneId', (req: Request, res: Response) => {
+  try {
+    const scene = sceneService.getScene(req.params.sceneId);
+
+    res.json({
+      success: true,
+      data: serializeScene(scene)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve scene');
+  }
+});
+
+/**
+ * POST /api/scenes
+ * Create a scene
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request body must contain a scene definition'
+        }
+      });
+    }
+
+    const scene = sceneService.createScene(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: serializeScene(scene)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to create scene');
+  }
+});
+
+/**
+ * PUT /api/scenes/:sceneId
+ * Update a scene (partial update)
+ */
+router.put('/:sceneId', (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request body must contain scene updates'
+        }
+      });
+    }
+
+    const scene = sceneService.updateScene(req.params.sceneId, req.body);
+
+    res.json({
+      success: true,
+      data: serializeScene(scene)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to update scene');
+  }
+});
+
+/**
+ * DELETE /api/scenes/:sceneId
+ * Delete a scene
+ */
+router.delete('/:sceneId', (req: Request, res: Response) => {
+  try {
+    sceneService.deleteScene(req.params.sceneId);
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Scene deleted successfully',
+        sceneId: req.params.sceneId
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete scene');
+  }
+});
+
+/**
+ * POST /api/scenes/:sceneId/execute
+ * Execute a local scene and wait until all of its steps were sent, or
+ * execute a manual scene of the SwitchBot account when no local scene has this ID
+ */
+router.post('/:sceneId/execute', async (req: Request, res: Response) => {
+  try {
+    const { sceneId } = req.params;
+
+    if (!sceneService.hasScene(sceneId)) {
+      const execution = await sceneService.executeCloudScene(sceneId);
+
+      return res.json({
+        success: true,
+        data: {
+          ...execution,
+          source: 'cloud',
+          executedAt: execution.executedAt.toISOString()
+        }
+      });
+    }
+
+    const execution = await sceneService.executeScene(sceneId);
+
+    res.json({
+      success: true,
+      data: serializeExecution(execution)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to execute scene');
+  }
+});
+
+/**
+ * Convert a scene to its JSON representation
+ */
+function serializeScene(scene: Scene) {
+  return {
+    ...scene,
+    createdAt: scene.createdAt.toISOString(),
+    updatedAt: scene.updatedAt.toISOString(),
+    lastExecutedAt: scene.lastExecutedAt ? scene.lastExecutedAt.toISOString() : null,
+    estimatedDurationMs: estimateSceneDuration(scene.steps, INTERACTIVE_REQUEST_INTERVAL_MS),
+    isRunning: sceneService.isSceneRunning(scene.id)
+  };
+}
+
+/**
+ * Convert a scene execution to its JSON representation
+ */
+function serializeExecution(execution: SceneExecution) {
+  return {
+    ...execution,
+    source: 'local',
+    startedAt: execution.startedAt.toISOString(),
+    finishedAt: execution.finishedAt.toISOString(),
+    steps: execution.steps.map(step => ({
+      ...step,
+      executedAt: step.executedAt.toISOString()
+    }))
+  };
+}
+
+/**
+ * Send an error response for a failed scene request
+ */
+function handleError(res: Response, error: unknown, fallbackMessage: string): void {
+  console.error(`${fallbackMessage}:`, error);
+
+  if (error instanceof SceneServiceError) {
+    res.status(getStatusCodeForError(error.code)).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * Map error codes to HTTP status codes
+ */
+function getStatusCodeForError(errorCode: string): number {
+  switch (errorCode) {
+    case 'SCENE_NOT_FOUND':
+      return 404;
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'SCENE_BUSY':
+      return 409;
+    case 'CLOUD_SCENE_ERROR':
+      return 502; // Bad Gateway - external API error
+    case 'FILE_ERROR':
+    case 'UNKNOWN_ERROR':
+    default:
+      return 500;
+  }
+}
+
+export { router as sceneRoutes };
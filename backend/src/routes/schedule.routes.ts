@@ -0,0 +1,216 @@
+/**
+ * Device schedule API routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { schedulerService, SchedulerServiceError } from '../services/scheduler.service';
+import { DeviceSchedule } from '../models/schedule';
+
+const router = Router();
+
+/**
+ * GET /api/schedules
+ * Get all schedules
+ * Query: deviceId (optional) - only schedules of this device
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const deviceId = req.query.deviceId as string | undefined;
+    const schedules = schedulerService.getSchedules(deviceId);
+
+    res.json({
+      success: true,
+      data: {
+        schedules: schedules.map(serializeSchedule),
+        count: schedules.length
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve schedules');
+  }
+});
+
+/**
+ * GET /api/schedules/:scheduleId
+ * Get a single schedule
+ */
+router.get('/:scheduleId', (req: Request, res: Response) => {
+  try {
+    const schedule = schedulerService.getSchedule(req.params.scheduleId);
+
+    res.json({
+      success: true,
+      data: serializeSchedule(schedule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to retrieve schedule');
+  }
+});
+
+/**
+ * POST /api/schedules
+ * Create a schedule
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request body must contain a schedule definition'
+        }
+      });
+    }
+
+    const schedule = schedulerService.createSchedule(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: serializeSchedule(schedule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to create schedule');
+  }
+});
+
+/**
+ * PUT /api/schedules/:scheduleId
+ * Update a schedule (partial update)
+ */
+router.put('/:scheduleId', (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Request body must contain schedule updates'
+        }
+      });
+    }
+
+    const schedule = schedulerService.updateSchedule(req.params.scheduleId, req.body);
+
+    res.json({
+      success: true,
+      data: serializeSchedule(schedule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to update schedule');
+  }
+});
+
+/**
+ * POST /api/schedules/:scheduleId/enable
+ * Enable a schedule
+ */
+router.post('/:scheduleId/enable', (req: Request, res: Response) => {
+  try {
+    const schedule = schedulerService.setScheduleEnabled(req.params.scheduleId, true);
+
+    res.json({
+      success: true,
+      data: serializeSchedule(schedule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to enable schedule');
+  }
+});
+
+/**
+ * POST /api/schedules/:scheduleId/disable
+ * Disable a schedule
+ */
+router.post('/:scheduleId/disable', (req: Request, res: Response) => {
+  try {
+    const schedule = schedulerService.setScheduleEnabled(req.params.scheduleId, false);
+
+    res.json({
+      success: true,
+      data: serializeSchedule(schedule)
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to disable schedule');
+  }
+});
+
+/**
+ * DELETE /api/schedules/:scheduleId
+ * Delete a schedule
+ */
+router.delete('/:scheduleId', (req: Request, res: Response) => {
+  try {
+    schedulerService.deleteSchedule(req.params.scheduleId);
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Schedule deleted successfully',
+        scheduleId: req.params.scheduleId
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete schedule');
+  }
+});
+
+/**
+ * Convert a schedule to its JSON representation
+ */
+function serializeSchedule(schedule: DeviceSchedule) {
+  return {
+    ...schedule,
+    createdAt: schedule.createdAt.toISOString(),
+    updatedAt: schedule.updatedAt.toISOString(),
+    lastRunAt: schedule.lastRunAt ? schedule.lastRunAt.toISOString() : null,
+    lastResult: schedule.lastResult
+      ? { ...schedule.lastResult, timestamp: schedule.lastResult.timestamp.toISOString() }
+      : null,
+    nextRunAt: schedule.nextRunAt ? schedule.nextRunAt.toISOString() : null
+  };
+}
+
+/**
+ * Send an error response for a failed schedule request
+ */
+function handleError(res: Response, error: unknown, fallbackMessage: string): void {
+  console.error(`${fallbackMessage}:`, error);
+
+  if (error instanceof SchedulerServiceError) {
+    res.status(getStatusCodeForError(error.code)).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * Map error codes to HTTP status codes
+ */
+function getStatusCodeForError(errorCode: string): number {
+  switch (errorCode) {
+    case 'SCHEDULE_NOT_FOUND':
+      return 404;
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'FILE_ERROR':
+    case 'UNKNOWN_ERROR':
+    default:
+      return 500;
+  }
+}
+
+export { router as scheduleRoutes };
@@ -5,7 +5,6 @@
 import { Router, Request, Response } from 'express';
 import { settingsService, SettingsServiceError } from '../services/settings.service';
 import { webSocketService } from '../index';
-import { webSocketService } from '../index';
 
 const router = Router();
 
@@ -0,0 +1,137 @@
+/**
+ * SwitchBot webhook API routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { webhookService, WebhookServiceError } from '../services/webhook.service';
+
+const router = Router();
+
+/**
+ * POST /api/webhook/switchbot
+ * Receive a device state change pushed by SwitchBot
+ * Query: token - must match SWITCHBOT_WEBHOOK_TOKEN (the receiver answers 503 while no token is configured)
+ * Events for other event types or unknown devices are acknowledged but not applied.
+ */
+router.post('/switchbot', (req: Request, res: Response) => {
+  try {
+    const result = webhookService.handleEvent(req.body, req.query.token);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to handle webhook event');
+  }
+});
+
+/**
+ * GET /api/webhook
+ * Get the webhook URLs registered for the SwitchBot account and receiver statistics
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const urls = await webhookService.getWebhookUrls();
+    const status = webhookService.getStatus();
+
+    res.json({
+      success: true,
+      data: {
+        urls,
+        receivedEvents: status.receivedEvents,
+        lastEventAt: status.lastEventAt ? status.lastEventAt.toISOString() : null
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to query webhook');
+  }
+});
+
+/**
+ * POST /api/webhook
+ * Register the webhook URL of the SwitchBot account
+ * Body: { url: string } - public URL of POST /api/webhook/switchbot
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const url = await webhookService.setupWebhook(req.body?.url);
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Webhook registered successfully',
+        url
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to set up webhook');
+  }
+});
+
+/**
+ * DELETE /api/webhook
+ * Remove a webhook URL of the SwitchBot account
+ * Body: { url: string }
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  try {
+    const url = await webhookService.deleteWebhook(req.body?.url);
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Webhook deleted successfully',
+        url
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete webhook');
+  }
+});
+
+/**
+ * Send an error response for a failed webhook request
+ */
+function handleError(res: Response, error: unknown, fallbackMessage: string): void {
+  console.error(`${fallbackMessage}:`, error);
+
+  if (error instanceof WebhookServiceError) {
+    res.status(getStatusCodeForError(error.code)).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+}
+
+/**
+ * Map error codes to HTTP status codes
+ */
+function getStatusCodeForError(errorCode: string): number {
+  switch (errorCode) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'UNAUTHORIZED':
+      return 401;
+    case 'RECEIVER_DISABLED':
+      return 503; // Service Unavailable - no webhook token configured
+    case 'API_ERROR':
+      return 502; // Bad Gateway - external API error
+    default:
+      return 500;
+  }
+}
+
+export { router as webhookRoutes };
@@ -24,7 +24,8 @@ describe('AlertService', () => {
     it('should update thresholds with valid values', () => {
       const newThresholds = {
         temperature: { min: 15, max: 25 },
-        humidity: { min: 35, max: 65 }
+        humidity: { min: 35, max: 65 },
+        co2: { warning: 1000, critical: 1500 }
       };
 
       alertService.updateThresholds(newThresholds);
@@ -34,7 +35,8 @@ describe('AlertService', () => {
     it('should throw error for invalid thresholds', () => {
       const invalidThresholds = {
         temperature: { min: 25, max: 20 }, // min > max
-        humidity: { min: 30, max: 70 }
+        humidity: { min: 30, max: 70 },
+        co2: { warning: 1000, critical: 1500 }
       };
 
       expect(() => {
@@ -90,6 +92,28 @@ describe('AlertService', () => {
       expect(alerts[0].value).toBe(40);
       expect(alerts[0].severity).toBe('critical'); // Should be critical now
     });
+
+    it('should track alerts separately for each sensor', () => {
+      const livingRoom = { ...mockEnvironmentData, temperature: 35, deviceId: 'hub-1', deviceName: 'Living Room' };
+      const bedroom = { ...mockEnvironmentData, temperature: 35, deviceId: 'meter-1', deviceName: 'Bedroom' };
+
+      alertService.checkEnvironmentData(livingRoom);
+      const alerts = alertService.checkEnvironmentData(bedroom);
+
+      expect(alerts).toHaveLength(2);
+      expect(alerts.map(alert => alert.deviceId).sort()).toEqual(['hub-1', 'meter-1']);
+      expect(alerts.find(alert => alert.deviceId === 'meter-1')!.message).toContain('[Bedroom]');
+    });
+
+    it('should only deactivate alerts of the sensor that returned to normal', () => {
+      alertService.checkEnvironmentData({ ...mockEnvironmentData, temperature: 35, deviceId: 'hub-1' });
+      alertService.checkEnvironmentData({ ...mockEnvironmentData, temperature: 35, deviceId: 'meter-1' });
+
+      const alerts = alertService.checkEnvironmentData({ ...mockEnvironmentData, temperature: 25, deviceId: 'hub-1' });
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].deviceId).toBe('meter-1');
+    });
   });
 
   describe('getActiveAlerts', () => {
@@ -191,6 +215,33 @@ describe('AlertService', () => {
     });
   });
 
+  describe('getAlertHistoryInRange', () => {
+    it('should return history entries within the range in chronological order', () => {
+      const base = new Date('2024-01-02T00:00:00Z').getTime();
+      [0, 2, 4].forEach(hours => {
+        alertService.checkEnvironmentData({
+          temperature: 35,
+          humidity: 50,
+          light: 500,
+          timestamp: new Date(base + hours * 60 * 60 * 1000)
+        });
+        alertService.clearAllAlerts();
+      });
+
+      const history = alertService.getAlertHistoryInRange(
+        new Date(base + 60 * 60 * 1000),
+        new Date(base + 5 * 60 * 60 * 1000)
+      );
+
+      const times = history.map(alert => alert.timestamp.getTime());
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+      expect(Array.from(new Set(times))).toEqual([
+        base + 2 * 60 * 60 * 1000,
+        base + 4 * 60 * 60 * 1000
+      ]);
+    });
+  });
+
   describe('getAlertStatistics', () => {
     it('should return correct statistics', () => {
       const abnormalData: EnvironmentData = {
@@ -223,7 +274,8 @@ describe('AlertService', () => {
       alertService.checkEnvironmentData(abnormalData);
       alertService.updateThresholds({
         temperature: { min: 15, max: 25 },
-        humidity: { min: 35, max: 65 }
+        humidity: { min: 35, max: 65 },
+        co2: { warning: 1000, critical: 1500 }
       });
 
       // Reset
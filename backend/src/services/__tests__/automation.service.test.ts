@@ -0,0 +1,281 @@
+/**
+ * Tests for Automation service
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AutomationService, AutomationServiceError } from '../automation.service';
+import { AutomationRuleInput } from '../../models/automation';
+import { EnvironmentData } from '../../models/environment';
+
+jest.mock('../device.service', () => ({
+  deviceService: { controlDevice: jest.fn() }
+}));
+jest.mock('../environment.service', () => ({
+  environmentService: { getAllEnvironmentData: jest.fn() }
+}));
+
+describe('AutomationService', () => {
+  const controlDevice = jest.fn();
+  let service: AutomationService;
+
+  const coolingRule: AutomationRuleInput = {
+    name: 'Cool down living room',
+    conditions: [{ metric: 'temperature', operator: 'above', value: 28, durationMinutes: 10 }],
+    actions: [{ deviceId: 'ac-1', command: 'setAll', parameter: '26,2,1,on' }],
+    cooldownMinutes: 30
+  };
+
+  const base = new Date('2024-07-01T12:00:00Z').getTime();
+  const reading = (minutes: number, temperature: number, deviceId?: string): EnvironmentData => ({
+    temperature,
+    humidity: 50,
+    light: 300,
+    timestamp: new Date(base + minutes * 60 * 1000),
+    deviceId
+  });
+
+  beforeEach(() => {
+    controlDevice.mockReset();
+    controlDevice.mockResolvedValue(undefined);
+    service = new AutomationService(null, { controlDevice });
+  });
+
+  describe('rule management', () => {
+    it('should create rules with defaults', () => {
+      const rule = service.createRule({ ...coolingRule, cooldownMinutes: undefined });
+
+      expect(rule.id).toMatch(/^rule-/);
+      expect(rule.enabled).toBe(true);
+      expect(rule.cooldownMinutes).toBe(30);
+      expect(service.getRules()).toHaveLength(1);
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() => service.createRule({ ...coolingRule, conditions: [] })).toThrow(AutomationServiceError);
+      expect(() => service.createRule({
+        ...coolingRule,
+        conditions: [{ metric: 'pressure' as any, operator: 'above', value: 1, durationMinutes: 0 }]
+      })).toThrow('conditions[0].metric');
+      expect(() => service.createRule({ ...coolingRule, actions: [{ deviceId: '', command: 'turnOn' }] }))
+        .toThrow('actions[0].deviceId');
+    });
+
+    it('should update, disable and delete rules', () => {
+      const rule = service.createRule(coolingRule);
+
+      expect(service.updateRule(rule.id, { name: 'Renamed' }).name).toBe('Renamed');
+      expect(service.setRuleEnabled(rule.id, false).enabled).toBe(false);
+
+      service.deleteRule(rule.id);
+      expect(service.getRules()).toEqual([]);
+    });
+
+    it('should throw RULE_NOT_FOUND for unknown rules', () => {
+      expect(() => service.getRule('missing')).toThrow(
+        expect.objectContaining({ code: 'RULE_NOT_FOUND' })
+      );
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should trigger only after the condition held for its duration', async () => {
+      service.createRule(coolingRule);
+
+      expect(await service.evaluate(reading(0, 29))).toEqual([]);
+      expect(await service.evaluate(reading(5, 30))).toEqual([]);
+      const executions = await service.evaluate(reading(10, 30));
+
+      expect(executions).toHaveLength(1);
+      expect(executions[0].success).toBe(true);
+      expect(controlDevice).toHaveBeenCalledWith('ac-1', 'setAll', '26,2,1,on');
+    });
+
+    it('should restart the duration when the condition stops holding', async () => {
+      service.createRule(coolingRule);
+
+      await service.evaluate(reading(0, 29));
+      await service.evaluate(reading(5, 27));
+      expect(await service.evaluate(reading(10, 29))).toEqual([]);
+      expect(await service.evaluate(reading(20, 29))).toHaveLength(1);
+    });
+
+    it('should respect the cooldown between executions', async () => {
+      service.createRule({ ...coolingRule, conditions: [{ ...coolingRule.conditions[0], durationMinutes: 0 }] });
+
+      expect(await service.evaluate(reading(0, 30))).toHaveLength(1);
+      expect(await service.evaluate(reading(10, 30))).toEqual([]);
+      expect(await service.evaluate(reading(30, 30))).toHaveLength(1);
+      expect(controlDevice).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip disabled rules', async () => {
+      const rule = service.createRule({ ...coolingRule, conditions: [{ ...coolingRule.conditions[0], durationMinutes: 0 }] });
+      service.setRuleEnabled(rule.id, false);
+
+      expect(await service.evaluate(reading(0, 30))).toEqual([]);
+      expect(controlDevice).not.toHaveBeenCalled();
+    });
+
+    it('should only watch the configured sensor', async () => {
+      service.createRule({
+        ...coolingRule,
+        conditions: [{ ...coolingRule.conditions[0], durationMinutes: 0, sensorId: 'meter-1' }]
+      });
+
+      expect(await service.evaluate(reading(0, 30, 'hub-1'))).toEqual([]);
+      expect(await service.evaluate(reading(1, 30, 'meter-1'))).toHaveLength(1);
+    });
+
+    it('should require all conditions to hold', async () => {
+      service.createRule({
+        ...coolingRule,
+        conditions: [
+          { metric: 'temperature', operator: 'above', value: 28, durationMinutes: 0 },
+          { metric: 'humidity', operator: 'above', value: 60, durationMinutes: 0 }
+        ]
+      });
+
+      expect(await service.evaluate(reading(0, 30))).toEqual([]);
+      expect(await service.evaluate({ ...reading(1, 30), humidity: 70 })).toHaveLength(1);
+    });
+
+    it('should log failed actions and keep running the remaining ones', async () => {
+      controlDevice.mockRejectedValueOnce(new Error('Device offline'));
+      service.createRule({
+        ...coolingRule,
+        conditions: [{ ...coolingRule.conditions[0], durationMinutes: 0 }],
+        actions: [
+          { deviceId: 'ac-1', command: 'turnOn' },
+          { deviceId: 'fan-1', command: 'turnOn' }
+        ]
+      });
+
+      const [execution] = await service.evaluate(reading(0, 30));
+
+      expect(execution.success).toBe(false);
+      expect(execution.actions[0]).toMatchObject({ success: false, error: 'Device offline' });
+      expect(execution.actions[1]).toMatchObject({ deviceId: 'fan-1', success: true });
+      expect(service.getExecutionLog()).toHaveLength(1);
+      expect(service.getExecutionLog()[0].ruleName).toBe('Cool down living room');
+    });
+  });
+
+  describe('sampler', () => {
+    const getAllEnvironmentData = jest.fn();
+    const instantRule = { ...coolingRule, conditions: [{ ...coolingRule.conditions[0], durationMinutes: 0 }] };
+    const quota = { getUsage: jest.fn() };
+    // Every sensor read costs one request per sensor
+    const requests = {
+      countRequests: async <T>(task: () => Promise<T>) => {
+        const result = await task();
+        return { result, requests: Array.isArray(result) ? result.length : 0 };
+      }
+    };
+
+    beforeEach(() => {
+      getAllEnvironmentData.mockReset();
+      quota.getUsage.mockReset();
+      service = new AutomationService(null, { controlDevice }, { getAllEnvironmentData }, quota, requests);
+    });
+
+    afterEach(() => {
+      service.stop();
+      jest.useRealTimers();
+    });
+
+    it('should read the sensors itself and report executions to listeners', async () => {
+      const listener = jest.fn();
+      getAllEnvironmentData.mockResolvedValue([reading(0, 30)]);
+      service.createRule(instantRule);
+      service.onExecution(listener);
+
+      const executions = await service.sampleAll(new Date(base));
+
+      expect(getAllEnvironmentData).toHaveBeenCalledWith('background');
+      expect(executions).toHaveLength(1);
+      expect(listener).toHaveBeenCalledWith(executions[0]);
+    });
+
+    it('should reuse readings polled elsewhere while they are fresh', async () => {
+      service.createRule(instantRule);
+      service.recordReadings([reading(0, 30)], new Date(base));
+
+      const executions = await service.sampleAll(new Date(base + 10 * 1000));
+
+      expect(getAllEnvironmentData).not.toHaveBeenCalled();
+      expect(executions).toHaveLength(1);
+    });
+
+    it('should not read the sensors without enabled rules', async () => {
+      service.setRuleEnabled(service.createRule(instantRule).id, false);
+
+      expect(await service.sampleAll()).toEqual([]);
+      expect(getAllEnvironmentData).not.toHaveBeenCalled();
+    });
+
+    it('should stretch the check interval when the daily API budget runs low', async () => {
+      jest.useFakeTimers();
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000);
+      // After the first check: two sensors and four calls left for the hour until the reset
+      quota.getUsage
+        .mockReturnValueOnce({ date: '2024-07-01', used: 0, limit: 10000, remaining: 10000, reserved: 500, resetAt })
+        .mockReturnValue({ date: '2024-07-01', used: 9504, limit: 10000, remaining: 496, reserved: 492, resetAt });
+      getAllEnvironmentData.mockResolvedValue([reading(0, 20, 'meter-1'), reading(0, 20, 'meter-2')]);
+      service.createRule(instantRule);
+
+      service.start(60 * 1000);
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      expect(getAllEnvironmentData).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(29 * 60 * 1000);
+      expect(getAllEnvironmentData).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      expect(getAllEnvironmentData).toHaveBeenCalledTimes(2);
+    });
+
+    it('should survive sensor failures', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      getAllEnvironmentData.mockRejectedValue(new Error('Hub offline'));
+      service.createRule(instantRule);
+
+      expect(await service.sampleAll()).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('persistent storage', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'automation-service-'));
+      filePath = path.join(tempDir, 'automation-rules.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should restore rules and cooldowns after a restart', async () => {
+      const first = new AutomationService(filePath, { controlDevice });
+      first.createRule({ ...coolingRule, conditions: [{ ...coolingRule.conditions[0], durationMinutes: 0 }] });
+      await first.evaluate(reading(0, 30));
+
+      const restarted = new AutomationService(filePath, { controlDevice });
+      const [rule] = restarted.getRules();
+
+      expect(rule.name).toBe('Cool down living room');
+      expect(rule.createdAt).toBeInstanceOf(Date);
+      expect(rule.lastTriggeredAt).toEqual(new Date(base));
+      expect(await restarted.evaluate(reading(10, 30))).toEqual([]);
+    });
+
+    it('should start without rules when the file is unreadable', () => {
+      fs.writeFileSync(filePath, '{ not json');
+
+      expect(new AutomationService(filePath, { controlDevice }).getRules()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for command queue service
+ */
+
+import { CommandQueueService, CommandQueueServiceError } from '../command-queue.service';
+import { DeviceServiceError } from '../device.service';
+import { Device } from '../../models/device';
+import { DeviceCommand } from '../../models/command';
+import { SwitchBotAPIError } from '../../utils/switchbot-api';
+
+jest.mock('../device.service', () => {
+  const actual = jest.requireActual('../device.service');
+  return {
+    ...actual,
+    deviceService: {}
+  };
+});
+
+describe('CommandQueueService', () => {
+  const light: Device = {
+    deviceId: 'light-1',
+    deviceName: 'Living Light',
+    deviceType: 'Light',
+    status: 'online',
+    lastUpdated: new Date()
+  };
+  const devices = {
+    getDeviceById: jest.fn(),
+    assertControllable: jest.fn(),
+    controlDevice: jest.fn(),
+    sendCustomizeCommand: jest.fn()
+  };
+  let service: CommandQueueService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    devices.getDeviceById.mockResolvedValue(light);
+    devices.controlDevice.mockResolvedValue(undefined);
+    devices.sendCustomizeCommand.mockResolvedValue(undefined);
+    service = new CommandQueueService(devices);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept a command as queued and execute it in the background', async () => {
+    const statuses: DeviceCommand[] = [];
+    service.onStatusChange(command => statuses.push(command));
+
+    const queued = await service.enqueue('light-1', 'turnOn');
+
+    expect(queued).toMatchObject({ deviceId: 'light-1', command: 'turnOn', status: 'queued' });
+    expect(queued.id).toMatch(/^cmd-/);
+
+    await service.waitForIdle();
+
+    expect(devices.controlDevice).toHaveBeenCalledWith('light-1', 'turnOn', undefined);
+    expect(statuses.map(command => command.status)).toEqual(['queued', 'sending', 'succeeded']);
+    expect(service.getCommand(queued.id)).toMatchObject({ status: 'succeeded', statusCode: 100 });
+    expect(service.getCommand(queued.id).completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should send learned IR buttons as customize commands', async () => {
+    devices.getDeviceById.mockResolvedValue({ ...light, deviceId: 'ir-1', deviceType: 'Unknown', isInfraredRemote: true });
+
+    const queued = await service.enqueue('ir-1', 'Input', undefined, 'customize');
+    await service.waitForIdle();
+
+    expect(queued.commandType).toBe('customize');
+    expect(devices.assertControllable).not.toHaveBeenCalled();
+    expect(devices.sendCustomizeCommand).toHaveBeenCalledWith('ir-1', 'Input');
+    expect(devices.controlDevice).not.toHaveBeenCalled();
+    expect(service.getCommand(queued.id).status).toBe('succeeded');
+  });
+
+  it('should reject customize commands for devices that are not IR remotes', async () => {
+    await expect(service.enqueue('light-1', 'Input', undefined, 'customize'))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(devices.sendCustomizeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should report failures with the SwitchBot status code', async () => {
+    devices.controlDevice.mockRejectedValue(new DeviceServiceError(
+      'Failed to control device: Device offline',
+      'CONTROL_ERROR',
+      new SwitchBotAPIError('Device offline', 161)
+    ));
+
+    const queued = await service.enqueue('light-1', 'turnOn');
+    await service.waitForIdle();
+
+    expect(service.getCommand(queued.id)).toMatchObject({
+      status: 'failed',
+      statusCode: 161,
+      error: { code: 'CONTROL_ERROR', message: 'Failed to control device: Device offline' }
+    });
+  });
+
+  it('should run the commands of a device in order', async () => {
+    const order: string[] = [];
+    let finishFirst: () => void = () => undefined;
+    devices.controlDevice.mockImplementationOnce(() => new Promise<void>(resolve => {
+      finishFirst = () => {
+        order.push('turnOn');
+        resolve();
+      };
+    }));
+    devices.controlDevice.mockImplementationOnce(async (_id: string, command: string) => {
+      order.push(command);
+    });
+
+    await service.enqueue('light-1', 'turnOn');
+    const second = await service.enqueue('light-1', 'setBrightness', 50);
+    await Promise.resolve();
+
+    expect(service.getCommand(second.id).status).toBe('queued');
+
+    finishFirst();
+    await service.waitForIdle();
+
+    expect(order).toEqual(['turnOn', 'setBrightness']);
+  });
+
+  it('should reject unknown and uncontrollable devices without queueing', async () => {
+    devices.getDeviceById.mockRejectedValueOnce(new DeviceServiceError('Device missing not found', 'DEVICE_NOT_FOUND'));
+    devices.assertControllable.mockImplementationOnce(() => {
+      throw new DeviceServiceError('Locks can only be locked or unlocked with a confirmation token', 'VALIDATION_ERROR');
+    });
+
+    await expect(service.enqueue('missing', 'turnOn')).rejects.toMatchObject({ code: 'DEVICE_NOT_FOUND' });
+    await expect(service.enqueue('lock-1', 'unlock')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(service.enqueue('light-1', '')).rejects.toThrow(CommandQueueServiceError);
+    expect(devices.controlDevice).not.toHaveBeenCalled();
+  });
+
+  it('should throw COMMAND_NOT_FOUND for unknown command IDs', () => {
+    expect(() => service.getCommand('cmd-missing')).toThrow(expect.objectContaining({ code: 'COMMAND_NOT_FOUND' }));
+  });
+
+  it('should keep notifying other listeners when one fails and stop after removal', async () => {
+    const listener = jest.fn();
+    service.onStatusChange(() => {
+      throw new Error('boom');
+    });
+    const remove = service.onStatusChange(listener);
+
+    await service.enqueue('light-1', 'turnOn');
+    await service.waitForIdle();
+    remove();
+    await service.enqueue('light-1', 'turnOff');
+    await service.waitForIdle();
+
+    expect(listener.mock.calls.map(([command]) => command.status)).toEqual(['queued', 'sending', 'succeeded']);
+  });
+});
@@ -216,7 +216,92 @@ describe('DeviceService', () => {
         colorTemperature: undefined,
         color: undefined
       });
-      expect(mockSwitchBotAPI.getDeviceStatus).toHaveBeenCalledWith('light-001');
+      expect(mockSwitchBotAPI.getDeviceStatus).toHaveBeenCalledWith('light-001', 'read');
+    });
+
+    it('should parse the color and color temperature of color lights', async () => {
+      mockSwitchBotAPI.getDeviceStatus.mockResolvedValue({
+        statusCode: 100,
+        body: {
+          power: 'on',
+          brightness: 100,
+          color: '255:128:0',
+          colorTemperature: 4000
+        },
+        message: 'success'
+      });
+
+      const device = await deviceService.updateDeviceStatus('light-001');
+
+      expect(device.properties).toEqual({
+        power: 'on',
+        brightness: 100,
+        colorTemperature: 4000,
+        color: { red: 255, green: 128, blue: 0 }
+      });
+    });
+
+    it('should parse curtain slide position, movement and battery', async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        ...mockDeviceListResponse,
+        body: {
+          ...mockDeviceListResponse.body,
+          deviceList: [
+            ...mockDeviceListResponse.body.deviceList,
+            {
+              deviceId: 'curtain-001',
+              deviceName: 'Bedroom Curtain',
+              deviceType: 'Curtain',
+              enableCloudService: true,
+              hubDeviceId: 'hub-001'
+            }
+          ]
+        }
+      });
+      await deviceService.getAllDevices(true);
+      mockSwitchBotAPI.getDeviceStatus.mockResolvedValue({
+        statusCode: 100,
+        body: { slidePosition: 35, moving: true, battery: 82, calibrate: true },
+        message: 'success'
+      });
+
+      const device = await deviceService.updateDeviceStatus('curtain-001');
+
+      expect(device.properties).toEqual({
+        position: 35,
+        moving: true,
+        battery: 82,
+        calibrate: true
+      });
+    });
+
+    it('should parse bot battery and device mode', async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        ...mockDeviceListResponse,
+        body: {
+          ...mockDeviceListResponse.body,
+          deviceList: [
+            ...mockDeviceListResponse.body.deviceList,
+            {
+              deviceId: 'bot-001',
+              deviceName: 'Coffee Maker Bot',
+              deviceType: 'Bot',
+              enableCloudService: true,
+              hubDeviceId: 'hub-001'
+            }
+          ]
+        }
+      });
+      await deviceService.getAllDevices(true);
+      mockSwitchBotAPI.getDeviceStatus.mockResolvedValue({
+        statusCode: 100,
+        body: { power: 'on', battery: 15, deviceMode: 'switchMode' },
+        message: 'success'
+      });
+
+      const device = await deviceService.updateDeviceStatus('bot-001');
+
+      expect(device.properties).toEqual({ power: 'on', battery: 15, mode: 'switch' });
     });
 
     it('should mark device as offline on status update failure', async () => {
@@ -262,6 +347,247 @@ describe('DeviceService', () => {
 
       await expect(deviceService.controlDevice('light-001', 'turnOn')).rejects.toThrow(DeviceServiceError);
     });
+
+    describe('IR air conditioner', () => {
+      beforeEach(() => {
+        mockSwitchBotAPI.sendDeviceCommand.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+      });
+
+      it('should send the full tracked state with setAll', async () => {
+        await deviceService.controlDevice('ac-001', 'setTemperature', 22);
+        await deviceService.controlDevice('ac-001', 'setMode', 'cool');
+
+        expect(mockSwitchBotAPI.sendDeviceCommand).toHaveBeenNthCalledWith(1, 'ac-001', 'setAll', '22,1,1,on');
+        expect(mockSwitchBotAPI.sendDeviceCommand).toHaveBeenNthCalledWith(2, 'ac-001', 'setAll', '22,2,1,on');
+
+        await deviceService.controlDevice('ac-001', 'turnOff');
+        expect(mockSwitchBotAPI.sendDeviceCommand).toHaveBeenLastCalledWith('ac-001', 'setAll', '22,2,1,off');
+      });
+
+      it('should keep the tracked state across cache refreshes', async () => {
+        await deviceService.controlDevice('ac-001', 'setMode', 'heat');
+        await deviceService.getAllDevices(true);
+
+        const device = await deviceService.getDeviceById('ac-001');
+        expect(device.properties).toEqual({ power: 'on', mode: 'heat', temperature: 25, fanSpeed: 'auto' });
+      });
+
+      it('should reject invalid values without changing the state', async () => {
+        await expect(deviceService.controlDevice('ac-001', 'setTemperature', 35)).rejects.toMatchObject({
+          code: 'VALIDATION_ERROR'
+        });
+
+        expect(mockSwitchBotAPI.sendDeviceCommand).not.toHaveBeenCalled();
+        const device = await deviceService.getDeviceById('ac-001');
+        expect(device.properties).toEqual({ power: 'off', mode: 'auto', temperature: 25, fanSpeed: 'auto' });
+      });
+
+      it('should not change the state when the command fails', async () => {
+        mockSwitchBotAPI.sendDeviceCommand.mockRejectedValue(new Error('Control failed'));
+
+        await expect(deviceService.controlDevice('ac-001', 'turnOn')).rejects.toThrow(DeviceServiceError);
+
+        const device = await deviceService.getDeviceById('ac-001');
+        expect(device.properties).toMatchObject({ power: 'off' });
+      });
+    });
+  });
+
+  describe('IR remote commands', () => {
+    beforeEach(async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        ...mockDeviceListResponse,
+        body: {
+          deviceList: [],
+          infraredRemoteList: [
+            { deviceId: 'tv-001', deviceName: 'Living TV', remoteType: 'TV', hubDeviceId: 'hub-001' },
+            { deviceId: 'fan-001', deviceName: 'Bedroom Fan', remoteType: 'Fan', hubDeviceId: 'hub-001' },
+            { deviceId: 'light-ir-001', deviceName: 'Hall Light', remoteType: 'Light', hubDeviceId: 'hub-001' }
+          ]
+        }
+      });
+      mockSwitchBotAPI.sendDeviceCommand.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+      await deviceService.getAllDevices(); // Populate cache
+    });
+
+    it('should send SetChannel with the channel and track it', async () => {
+      await deviceService.controlDevice('tv-001', 'SetChannel', 8);
+      await deviceService.controlDevice('tv-001', 'channelAdd');
+
+      expect(mockSwitchBotAPI.sendDeviceCommand).toHaveBeenNthCalledWith(1, 'tv-001', 'SetChannel', '8');
+      expect(mockSwitchBotAPI.sendDeviceCommand).toHaveBeenNthCalledWith(2, 'tv-001', 'channelAdd', undefined);
+      expect((await deviceService.getDeviceById('tv-001')).properties).toEqual({ power: 'on', channel: 9 });
+    });
+
+    it('should track the fan speed', async () => {
+      await deviceService.controlDevice('fan-001', 'highSpeed');
+
+      expect((await deviceService.getDeviceById('fan-001')).properties).toEqual({ power: 'on', speed: 'high' });
+    });
+
+    it('should reject commands of other remote types', async () => {
+      await expect(deviceService.controlDevice('fan-001', 'SetChannel', 8)).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR'
+      });
+      expect(mockSwitchBotAPI.sendDeviceCommand).not.toHaveBeenCalled();
+    });
+
+    it('should reject color commands for IR lights', async () => {
+      await expect(deviceService.controlDevice('light-ir-001', 'setColorTemperature', '4000')).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR'
+      });
+      await expect(deviceService.controlDevice('light-ir-001', 'setColor', '255:0:0')).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR'
+      });
+      expect(mockSwitchBotAPI.sendDeviceCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('locks', () => {
+    beforeEach(async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        ...mockDeviceListResponse,
+        body: {
+          deviceList: [
+            { deviceId: 'lock-001', deviceName: 'Front Door', deviceType: 'Smart Lock Pro', enableCloudService: true, hubDeviceId: 'hub-001' }
+          ],
+          infraredRemoteList: []
+        }
+      });
+      mockSwitchBotAPI.sendDeviceCommand.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+      await deviceService.getAllDevices(); // Populate cache
+    });
+
+    it('should parse lock state, door state and battery', async () => {
+      mockSwitchBotAPI.getDeviceStatus.mockResolvedValue({
+        statusCode: 100,
+        body: { lockState: 'unlocked', doorState: 'opened', battery: 80 },
+        message: 'success'
+      });
+
+      const device = await deviceService.updateDeviceStatus('lock-001');
+
+      expect(device.properties).toEqual({ lockState: 'unlocked', doorState: 'opened', battery: 80 });
+    });
+
+    it('should send lock and unlock through controlLock', async () => {
+      await deviceService.controlLock('lock-001', 'unlock');
+
+      expect(mockSwitchBotAPI.sendDeviceCommand).toHaveBeenCalledWith('lock-001', 'unlock');
+    });
+
+    it('should not operate locks through controlDevice', async () => {
+      await expect(deviceService.controlDevice('lock-001', 'unlock')).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR'
+      });
+      expect(mockSwitchBotAPI.sendDeviceCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('meters', () => {
+    it('should parse temperature, humidity, CO2 and battery', async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        ...mockDeviceListResponse,
+        body: {
+          deviceList: [
+            { deviceId: 'meter-001', deviceName: 'Study', deviceType: 'MeterPro(CO2)', enableCloudService: true, hubDeviceId: 'hub-001' }
+          ],
+          infraredRemoteList: []
+        }
+      });
+      mockSwitchBotAPI.getDeviceStatus.mockResolvedValue({
+        statusCode: 100,
+        body: { temperature: 0, humidity: 45, CO2: 920, battery: 70 },
+        message: 'success'
+      });
+      await deviceService.getAllDevices(); // Populate cache
+
+      const device = await deviceService.updateDeviceStatus('meter-001');
+
+      expect(device.deviceType).toBe('Meter');
+      expect(device.properties).toEqual({ temperature: 0, humidity: 45, co2: 920, battery: 70 });
+    });
+  });
+
+  describe('applyStateChange', () => {
+    beforeEach(async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        ...mockDeviceListResponse,
+        body: {
+          deviceList: [
+            { deviceId: 'lock-001', deviceName: 'Front Door', deviceType: 'Smart Lock', enableCloudService: true, hubDeviceId: 'hub-001' }
+          ],
+          infraredRemoteList: []
+        }
+      });
+      await deviceService.getAllDevices(); // Populate cache
+    });
+
+    it('should merge webhook state changes into the cached device', async () => {
+      mockSwitchBotAPI.getDeviceStatus.mockResolvedValue({
+        statusCode: 100,
+        body: { lockState: 'locked', doorState: 'closed', battery: 90 },
+        message: 'success'
+      });
+      await deviceService.updateDeviceStatus('lock-001');
+      const timestamp = new Date('2024-01-01T12:00:00Z');
+
+      const device = deviceService.applyStateChange('lock-001', { lockState: 'UNLOCKED' }, timestamp);
+
+      expect(device!.properties).toEqual({ lockState: 'unlocked', doorState: 'closed', battery: 90 });
+      expect(device!.lastUpdated).toEqual(timestamp);
+      expect((await deviceService.getDeviceById('lock-001')).properties).toEqual(device!.properties);
+    });
+
+    it('should keep properties the event did not report', async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        ...mockDeviceListResponse,
+        body: {
+          deviceList: [
+            { deviceId: 'curtain-001', deviceName: 'Curtain', deviceType: 'Curtain3', enableCloudService: true, hubDeviceId: 'hub-001' }
+          ],
+          infraredRemoteList: []
+        }
+      });
+      deviceService.clearCache();
+      await deviceService.getAllDevices();
+      mockSwitchBotAPI.getDeviceStatus.mockResolvedValue({
+        statusCode: 100,
+        body: { slidePosition: 80, moving: false, battery: 90, calibrate: true },
+        message: 'success'
+      });
+      await deviceService.updateDeviceStatus('curtain-001');
+
+      const device = deviceService.applyStateChange('curtain-001', { battery: 85 });
+
+      expect(device!.properties).toEqual({ position: 80, moving: false, battery: 85, calibrate: true });
+    });
+
+    it('should ignore devices that are not cached', () => {
+      expect(deviceService.applyStateChange('unknown-001', { power: 'on' })).toBeNull();
+    });
+  });
+
+  describe('sendCustomizeCommand', () => {
+    beforeEach(async () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue(mockDeviceListResponse);
+      await deviceService.getAllDevices(); // Populate cache
+    });
+
+    it('should send learned buttons with commandType customize', async () => {
+      mockSwitchBotAPI.sendDeviceCommand.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+
+      await deviceService.sendCustomizeCommand('ac-001', 'Powerful');
+
+      expect(mockSwitchBotAPI.sendDeviceCommand).toHaveBeenCalledWith('ac-001', 'Powerful', 'default', 'customize');
+    });
+
+    it('should reject devices that are not IR remotes', async () => {
+      await expect(deviceService.sendCustomizeCommand('light-001', 'Powerful')).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR'
+      });
+      expect(mockSwitchBotAPI.sendDeviceCommand).not.toHaveBeenCalled();
+    });
   });
 
   describe('testDeviceConnectivity', () => {
@@ -0,0 +1,179 @@
+/**
+ * Tests for Energy history service
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnergyHistoryService } from '../energy-history.service';
+import { JsonlHistoryStore } from '../history-store';
+import { PowerReading, DailyEnergy, energyBetween } from '../../models/energy';
+import { Device } from '../../models/device';
+
+jest.mock('../device.service', () => ({
+  deviceService: { getAllDevices: jest.fn(), updateDeviceStatus: jest.fn() }
+}));
+
+describe('EnergyHistoryService', () => {
+  const devices = { getAllDevices: jest.fn(), updateDeviceStatus: jest.fn() };
+  let service: EnergyHistoryService;
+
+  const at = (hours: number, minutes: number = 0) => {
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  const reading = (timestamp: Date, watts: number, deviceId: string = 'plug-1'): PowerReading => ({
+    timestamp,
+    deviceId,
+    watts
+  });
+
+  const plug = (deviceId: string, properties: any): Device => ({
+    deviceId,
+    deviceName: deviceId,
+    deviceType: 'Plug',
+    status: 'online',
+    enableCloudService: true,
+    properties,
+    lastUpdated: new Date()
+  });
+
+  beforeEach(() => {
+    devices.getAllDevices.mockReset();
+    devices.updateDeviceStatus.mockReset();
+    service = new EnergyHistoryService({}, undefined, undefined, devices);
+  });
+
+  describe('energyBetween', () => {
+    it('should integrate power with the trapezoidal rule', () => {
+      expect(energyBetween(reading(at(10), 100), reading(at(10, 30), 300))).toBeCloseTo(0.1);
+    });
+
+    it('should ignore gaps longer than the integration limit', () => {
+      expect(energyBetween(reading(at(10), 100), reading(at(11), 100))).toBe(0);
+    });
+  });
+
+  describe('addReading', () => {
+    it('should accumulate daily totals per plug', () => {
+      service.addReading(reading(at(10), 1000));
+      service.addReading(reading(at(10, 15), 1000));
+      service.addReading(reading(at(10, 30), 1000));
+      service.addReading(reading(at(10), 50, 'plug-2'));
+
+      const [today] = service.getDailyTotals('plug-1', 1);
+      expect(today.kWh).toBeCloseTo(0.5);
+      expect(today.sampleCount).toBe(3);
+      expect(service.getLatestReading('plug-1')?.watts).toBe(1000);
+      expect(service.getSummaries().map(summary => summary.deviceId)).toEqual(['plug-1', 'plug-2']);
+    });
+
+    it('should ignore out-of-order readings', () => {
+      service.addReading(reading(at(10, 15), 100));
+      service.addReading(reading(at(10), 100));
+
+      expect(service.getReadings('plug-1', '24h')).toHaveLength(1);
+    });
+
+    it('should sum daily totals into months', () => {
+      service.addReading(reading(at(1), 600));
+      service.addReading(reading(at(1, 10), 600));
+
+      const [month] = service.getMonthlyTotals('plug-1', 1);
+      expect(month.kWh).toBeCloseTo(0.1);
+      expect(month.days).toBe(1);
+    });
+  });
+
+  describe('sampleAll', () => {
+    it('should record the power of every plug and skip failing ones', async () => {
+      devices.getAllDevices.mockResolvedValue([
+        plug('plug-1', { power: 'on' }),
+        plug('plug-2', { power: 'on' }),
+        { ...plug('light-1', {}), deviceType: 'Light' }
+      ]);
+      devices.updateDeviceStatus
+        .mockResolvedValueOnce(plug('plug-1', { power: 'on', power_consumption: 42.5, voltage: 100.2, current: 0.43 }))
+        .mockRejectedValueOnce(new Error('Device offline'));
+
+      const recorded = await service.sampleAll(at(9));
+
+      expect(recorded).toBe(1);
+      expect(devices.updateDeviceStatus).toHaveBeenCalledTimes(2);
+      expect(devices.updateDeviceStatus).toHaveBeenCalledWith('plug-1', 'background');
+      expect(service.getLatestReading('plug-1')).toEqual({
+        timestamp: at(9),
+        deviceId: 'plug-1',
+        watts: 42.5,
+        voltage: 100.2,
+        current: 0.43
+      });
+      expect(service.getStatus().lastSampleAt).toEqual(at(9));
+    });
+
+    it('should never throw when devices cannot be listed', async () => {
+      devices.getAllDevices.mockRejectedValue(new Error('Network error'));
+
+      await expect(service.sampleAll()).resolves.toBe(0);
+    });
+  });
+
+  describe('start', () => {
+    afterEach(() => {
+      service.stop();
+      jest.useRealTimers();
+    });
+
+    it('should stretch the sampling interval when the daily API budget runs low', async () => {
+      jest.useFakeTimers();
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000);
+      const quota = {
+        getUsage: jest.fn(() => ({ date: '2024-01-01', used: 9502, limit: 10000, remaining: 498, reserved: 496, resetAt }))
+      };
+      const requests = { countRequests: async <T>(task: () => Promise<T>) => ({ result: await task(), requests: 1 }) };
+      devices.getAllDevices.mockResolvedValue([]);
+      service = new EnergyHistoryService({}, undefined, undefined, devices, quota, requests);
+
+      service.start(60 * 1000);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(devices.getAllDevices).toHaveBeenCalledTimes(1);
+
+      // Two calls left for an hour: one sample every 30 minutes
+      await jest.advanceTimersByTimeAsync(29 * 60 * 1000);
+      expect(devices.getAllDevices).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      expect(devices.getAllDevices).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('persistent storage', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'energy-history-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should restore readings and daily totals after a restart', () => {
+      const createService = () => new EnergyHistoryService(
+        {},
+        new JsonlHistoryStore<PowerReading>(path.join(tempDir, 'energy.jsonl'), record => record.deviceId),
+        new JsonlHistoryStore<DailyEnergy>(path.join(tempDir, 'energy.daily.jsonl'), record => record.deviceId),
+        devices
+      );
+      const first = createService();
+      first.addReading(reading(at(10), 1000));
+      first.addReading(reading(at(10, 30), 1000));
+
+      const restored = createService();
+
+      expect(restored.getReadings('plug-1', '24h')).toHaveLength(2);
+      expect(restored.getDailyTotals('plug-1', 1)[0].kWh).toBeCloseTo(0.5);
+    });
+  });
+});
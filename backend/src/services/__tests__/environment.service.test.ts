@@ -57,7 +57,7 @@ describe('EnvironmentService', () => {
       expect(result.light).toBe(500);
       expect(result.timestamp).toBeInstanceOf(Date);
       expect(mockSwitchBotAPI.getDevices).toHaveBeenCalledTimes(1);
-      expect(mockSwitchBotAPI.getDeviceStatus).toHaveBeenCalledWith('hub-123');
+      expect(mockSwitchBotAPI.getDeviceStatus).toHaveBeenCalledWith('hub-123', 'read');
     });
 
     it('should cache hub device ID for subsequent calls', async () => {
@@ -316,4 +316,163 @@ describe('EnvironmentService', () => {
       expect(mockSwitchBotAPI.getDevices).toHaveBeenCalledTimes(2);
     });
   });
-});
\ No newline at end of file
+
+  describe('multiple sensors', () => {
+    const mockMultiSensorDevices = () => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        statusCode: 100,
+        body: {
+          deviceList: [
+            {
+              deviceId: 'meter-1',
+              deviceName: 'Bedroom Meter',
+              deviceType: 'Meter',
+              enableCloudService: true,
+              hubDeviceId: 'hub-123'
+            },
+            {
+              deviceId: 'hub-123',
+              deviceName: 'Living Room Hub',
+              deviceType: 'Hub 2',
+              enableCloudService: true,
+              hubDeviceId: 'hub-123'
+            },
+            {
+              deviceId: 'light-123',
+              deviceName: 'Living Room Light',
+              deviceType: 'Color Bulb',
+              enableCloudService: true,
+              hubDeviceId: 'hub-123'
+            }
+          ],
+          infraredRemoteList: []
+        },
+        message: 'success'
+      });
+
+      mockSwitchBotAPI.getDeviceStatus.mockImplementation(async (deviceId: string) => ({
+        statusCode: 100,
+        body: deviceId === 'hub-123'
+          ? { temperature: 25.5, humidity: 60, lightLevel: 500 }
+          : { temperature: 21, humidity: 45 },
+        message: 'success'
+      }));
+    };
+
+    it('should list climate sensors with hubs first', async () => {
+      mockMultiSensorDevices();
+
+      const sensors = await environmentService.getSensors();
+
+      expect(sensors).toEqual([
+        { deviceId: 'hub-123', deviceName: 'Living Room Hub', deviceType: 'Hub 2', hasLightSensor: true, hasCO2Sensor: false },
+        { deviceId: 'meter-1', deviceName: 'Bedroom Meter', deviceType: 'Meter', hasLightSensor: false, hasCO2Sensor: false }
+      ]);
+    });
+
+    it('should use the hub as the primary sensor', async () => {
+      mockMultiSensorDevices();
+
+      const result = await environmentService.getCurrentEnvironmentData();
+
+      expect(result.deviceId).toBe('hub-123');
+      expect(result.deviceName).toBe('Living Room Hub');
+      expect(mockSwitchBotAPI.getDeviceStatus).toHaveBeenCalledWith('hub-123', 'read');
+    });
+
+    it('should read a specific sensor by device ID', async () => {
+      mockMultiSensorDevices();
+
+      const result = await environmentService.getCurrentEnvironmentData('meter-1');
+
+      expect(result.deviceId).toBe('meter-1');
+      expect(result.temperature).toBe(21);
+      expect(result.light).toBe(0);
+    });
+
+    it('should throw SENSOR_NOT_FOUND for unknown device IDs', async () => {
+      mockMultiSensorDevices();
+
+      await expect(environmentService.getCurrentEnvironmentData('light-123'))
+        .rejects
+        .toMatchObject({ code: 'SENSOR_NOT_FOUND' });
+    });
+
+    it('should read all sensors', async () => {
+      mockMultiSensorDevices();
+
+      const results = await environmentService.getAllEnvironmentData();
+
+      expect(results.map(data => data.deviceId)).toEqual(['hub-123', 'meter-1']);
+      expect(mockSwitchBotAPI.getDevices).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip sensors that fail to respond', async () => {
+      mockMultiSensorDevices();
+      mockSwitchBotAPI.getDeviceStatus.mockImplementation(async (deviceId: string) => {
+        if (deviceId === 'hub-123') {
+          throw new SwitchBotAPIError('Device not responding', 500);
+        }
+        return { statusCode: 100, body: { temperature: 21, humidity: 45 }, message: 'success' };
+      });
+
+      const results = await environmentService.getAllEnvironmentData();
+
+      expect(results).toHaveLength(1);
+      expect(results[0].deviceId).toBe('meter-1');
+    });
+
+    it('should throw when every sensor fails', async () => {
+      mockMultiSensorDevices();
+      mockSwitchBotAPI.getDeviceStatus.mockRejectedValue(
+        new SwitchBotAPIError('Device not responding', 500)
+      );
+
+      await expect(environmentService.getAllEnvironmentData())
+        .rejects
+        .toThrow('Failed to retrieve environment data from SwitchBot Hub');
+    });
+  });
+
+  describe('meters', () => {
+    const mockMeters = (co2Status: Record<string, unknown>) => {
+      mockSwitchBotAPI.getDevices.mockResolvedValue({
+        statusCode: 100,
+        body: {
+          deviceList: [
+            { deviceId: 'outdoor-1', deviceName: 'Balcony', deviceType: 'WoIOSensor', enableCloudService: true, hubDeviceId: 'hub-123' },
+            { deviceId: 'co2-1', deviceName: 'Study', deviceType: 'MeterPro(CO2)', enableCloudService: true, hubDeviceId: 'hub-123' }
+          ],
+          infraredRemoteList: []
+        },
+        message: 'success'
+      });
+
+      mockSwitchBotAPI.getDeviceStatus.mockImplementation(async (deviceId: string) => ({
+        statusCode: 100,
+        body: deviceId === 'co2-1' ? co2Status : { temperature: 8.5, humidity: 80, battery: 100 },
+        message: 'success'
+      }));
+    };
+
+    it('should read outdoor and CO2 meters with battery and CO2', async () => {
+      mockMeters({ temperature: 23, humidity: 50, CO2: 850, battery: 64 });
+
+      const results = await environmentService.getAllEnvironmentData();
+
+      expect(results).toEqual([
+        expect.objectContaining({ deviceId: 'outdoor-1', temperature: 8.5, battery: 100, hasLightSensor: false }),
+        expect.objectContaining({ deviceId: 'co2-1', co2: 850, battery: 64 })
+      ]);
+      expect(results[0].co2).toBeUndefined();
+    });
+
+    it('should reject CO2 meters that do not report CO2', async () => {
+      mockMeters({ temperature: 23, humidity: 50 });
+
+      await expect(environmentService.getCurrentEnvironmentData('co2-1'))
+        .rejects
+        .toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+});
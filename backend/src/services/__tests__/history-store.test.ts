@@ -0,0 +1,164 @@
+/**
+ * Tests for history storage backends
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryHistoryStore, JsonlHistoryStore, createHistoryStore } from '../history-store';
+
+interface TestRecord {
+  timestamp: Date;
+  deviceId: string;
+  value: number;
+}
+
+describe('history stores', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-store-'));
+    filePath = path.join(tempDir, 'nested', 'history.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('InMemoryHistoryStore', () => {
+    it('should never return persisted records', () => {
+      const store = new InMemoryHistoryStore<TestRecord>();
+      store.append({ timestamp: new Date(), deviceId: 'a', value: 1 });
+
+      expect(store.load()).toEqual([]);
+      expect(store.shouldCompact()).toBe(false);
+      expect(store.type).toBe('memory');
+    });
+  });
+
+  describe('JsonlHistoryStore', () => {
+    it('should return an empty list when the file does not exist', () => {
+      const store = new JsonlHistoryStore<TestRecord>(filePath);
+      expect(store.load()).toEqual([]);
+    });
+
+    it('should replay appended and replaced records', () => {
+      const store = new JsonlHistoryStore<TestRecord>(filePath);
+      const timestamp = new Date('2024-01-01T00:00:00Z');
+
+      store.append({ timestamp, deviceId: 'a', value: 1 });
+      store.replaceLast({ timestamp, deviceId: 'a', value: 2 });
+      store.append({ timestamp: new Date('2024-01-01T00:10:00Z'), deviceId: 'a', value: 3 });
+
+      const loaded = new JsonlHistoryStore<TestRecord>(filePath).load();
+      expect(loaded.map(record => record.value)).toEqual([2, 3]);
+      expect(loaded[0].timestamp).toEqual(timestamp);
+    });
+
+    it('should replace the latest record of the same series only', () => {
+      const keyOf = (record: TestRecord) => record.deviceId;
+      const store = new JsonlHistoryStore<TestRecord>(filePath, keyOf);
+
+      store.append({ timestamp: new Date('2024-01-01T00:00:00Z'), deviceId: 'a', value: 1 });
+      store.append({ timestamp: new Date('2024-01-01T00:00:00Z'), deviceId: 'b', value: 10 });
+      store.replaceLast({ timestamp: new Date('2024-01-01T00:01:00Z'), deviceId: 'a', value: 2 });
+
+      const loaded = new JsonlHistoryStore<TestRecord>(filePath, keyOf).load();
+      expect(loaded.map(record => `${record.deviceId}:${record.value}`)).toEqual(['a:2', 'b:10']);
+    });
+
+    it('should skip corrupted lines', () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, [
+        JSON.stringify({ op: 'append', record: { timestamp: '2024-01-01T00:00:00Z', deviceId: 'a', value: 1 } }),
+        '{"op":"append","rec',
+        JSON.stringify({ op: 'append', record: { timestamp: 'not a date', deviceId: 'a', value: 2 } })
+      ].join('\n'));
+
+      const loaded = new JsonlHistoryStore<TestRecord>(filePath).load();
+      expect(loaded).toHaveLength(1);
+      expect(loaded[0].value).toBe(1);
+    });
+
+    it('should cut off a partially written last line before appending', () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, [
+        JSON.stringify({ op: 'append', record: { timestamp: '2024-01-01T00:00:00Z', deviceId: 'a', value: 1 } }),
+        '{"op":"append","rec'
+      ].join('\n'));
+
+      const store = new JsonlHistoryStore<TestRecord>(filePath);
+      expect(store.load()).toHaveLength(1);
+      store.append({ timestamp: new Date('2024-01-01T00:10:00Z'), deviceId: 'a', value: 2 });
+
+      const loaded = new JsonlHistoryStore<TestRecord>(filePath).load();
+      expect(loaded.map(record => record.value)).toEqual([1, 2]);
+    });
+
+    it('should keep a complete last line without its newline', () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({ op: 'append', record: { timestamp: '2024-01-01T00:00:00Z', deviceId: 'a', value: 1 } }));
+
+      const store = new JsonlHistoryStore<TestRecord>(filePath);
+      store.load();
+      store.append({ timestamp: new Date('2024-01-01T00:10:00Z'), deviceId: 'a', value: 2 });
+
+      const loaded = new JsonlHistoryStore<TestRecord>(filePath).load();
+      expect(loaded.map(record => record.value)).toEqual([1, 2]);
+    });
+
+    it('should rewrite the file with the given records', () => {
+      const store = new JsonlHistoryStore<TestRecord>(filePath);
+      store.append({ timestamp: new Date('2024-01-01T00:00:00Z'), deviceId: 'a', value: 1 });
+      store.append({ timestamp: new Date('2024-01-01T00:10:00Z'), deviceId: 'a', value: 2 });
+
+      store.rewrite([{ timestamp: new Date('2024-01-01T00:10:00Z'), deviceId: 'a', value: 2 }]);
+
+      const loaded = new JsonlHistoryStore<TestRecord>(filePath).load();
+      expect(loaded.map(record => record.value)).toEqual([2]);
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['history.jsonl']);
+    });
+
+    it('should request compaction after many replaced records', () => {
+      const store = new JsonlHistoryStore<TestRecord>(filePath);
+      store.append({ timestamp: new Date(), deviceId: 'a', value: 0 });
+
+      for (let i = 0; i < 1000; i++) {
+        store.replaceLast({ timestamp: new Date(), deviceId: 'a', value: i });
+      }
+
+      expect(store.shouldCompact()).toBe(true);
+      store.rewrite(store.load());
+      expect(store.shouldCompact()).toBe(false);
+    });
+
+    it('should request compaction once most appended records were trimmed', () => {
+      const store = new JsonlHistoryStore<TestRecord>(filePath);
+
+      for (let i = 0; i < 1001; i++) {
+        store.append({ timestamp: new Date(), deviceId: 'a', value: i });
+      }
+
+      expect(store.shouldCompact()).toBe(false);
+      expect(store.shouldCompact(1001)).toBe(false);
+      expect(store.shouldCompact(100)).toBe(true);
+    });
+  });
+
+  describe('createHistoryStore', () => {
+    it('should create the requested store type', () => {
+      expect(createHistoryStore<TestRecord>('memory', filePath)).toBeInstanceOf(InMemoryHistoryStore);
+      expect(createHistoryStore<TestRecord>('file', filePath)).toBeInstanceOf(JsonlHistoryStore);
+    });
+  });
+});
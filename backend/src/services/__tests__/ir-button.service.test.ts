@@ -0,0 +1,82 @@
+/**
+ * Tests for IR button service
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IRButtonService, IRButtonServiceError } from '../ir-button.service';
+
+describe('IRButtonService', () => {
+  let service: IRButtonService;
+
+  beforeEach(() => {
+    service = new IRButtonService(null);
+  });
+
+  describe('setButtons', () => {
+    it('should store trimmed button names per device', () => {
+      const catalog = service.setButtons('ir-1', [' Input ', 'Mute']);
+
+      expect(catalog.buttons).toEqual(['Input', 'Mute']);
+      expect(service.getButtons('ir-1')).toEqual(['Input', 'Mute']);
+      expect(service.getButtons('ir-2')).toEqual([]);
+    });
+
+    it('should remove the device when the list is empty', () => {
+      service.setButtons('ir-1', ['Input']);
+      service.setButtons('ir-1', []);
+
+      expect(service.getButtons('ir-1')).toEqual([]);
+    });
+
+    it.each([
+      ['not an array', 'Input'],
+      ['empty names', ['']],
+      ['duplicate names', ['Input', ' Input']],
+      ['too long names', ['x'.repeat(51)]]
+    ])('should reject %s', (_, buttons) => {
+      expect(() => service.setButtons('ir-1', buttons as any)).toThrow(IRButtonServiceError);
+      expect(service.getButtons('ir-1')).toEqual([]);
+    });
+  });
+
+  describe('assertButton', () => {
+    it('should accept a registered button', () => {
+      service.setButtons('ir-1', ['Input']);
+
+      expect(() => service.assertButton('ir-1', 'Input')).not.toThrow();
+    });
+
+    it('should reject buttons that are not registered', () => {
+      expect(() => service.assertButton('ir-1', 'Input')).toThrow(IRButtonServiceError);
+      expect(() => service.assertButton('ir-1', 'Input')).toThrow('Button "Input" is not registered for device ir-1');
+    });
+  });
+
+  describe('persistent storage', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ir-button-service-'));
+      filePath = path.join(tempDir, 'ir-buttons.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should restore buttons after a restart', () => {
+      new IRButtonService(filePath).setButtons('ir-1', ['Input', 'Mute']);
+
+      expect(new IRButtonService(filePath).getButtons('ir-1')).toEqual(['Input', 'Mute']);
+    });
+
+    it('should start without buttons when the file is unreadable', () => {
+      fs.writeFileSync(filePath, '{ not json');
+
+      expect(new IRButtonService(filePath).getButtons('ir-1')).toEqual([]);
+    });
+  });
+});
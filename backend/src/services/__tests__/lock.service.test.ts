@@ -0,0 +1,131 @@
+/**
+ * Tests for lock service
+ */
+
+import { LockService, LockServiceError } from '../lock.service';
+import { InMemoryHistoryStore } from '../history-store';
+import { Device } from '../../models/device';
+import { LockAuditEntry } from '../../models/lock';
+import { DeviceServiceError } from '../device.service';
+
+jest.mock('../device.service', () => {
+  const actual = jest.requireActual('../device.service');
+  return {
+    ...actual,
+    deviceService: { getDeviceById: jest.fn(), controlLock: jest.fn() }
+  };
+});
+
+describe('LockService', () => {
+  const lock: Device = {
+    deviceId: 'lock-001',
+    deviceName: 'Front Door',
+    deviceType: 'Lock',
+    status: 'online',
+    properties: { lockState: 'locked', doorState: 'closed' },
+    lastUpdated: new Date()
+  };
+  const getDeviceById = jest.fn();
+  const controlLock = jest.fn();
+  let service: LockService;
+
+  beforeEach(() => {
+    getDeviceById.mockReset();
+    controlLock.mockReset();
+    getDeviceById.mockResolvedValue(lock);
+    controlLock.mockResolvedValue(undefined);
+    service = new LockService({ getDeviceById, controlLock });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should unlock with a confirmation token and record the audit entry', async () => {
+    const confirmation = await service.requestConfirmation('lock-001', 'unlock');
+    const entry = await service.execute('lock-001', 'unlock', confirmation.token);
+
+    expect(controlLock).toHaveBeenCalledWith('lock-001', 'unlock');
+    expect(entry).toMatchObject({ deviceId: 'lock-001', deviceName: 'Front Door', action: 'unlock', result: 'success' });
+    expect(service.getAuditLog({ deviceId: 'lock-001' })).toEqual([entry]);
+  });
+
+  it('should only accept a token once', async () => {
+    const confirmation = await service.requestConfirmation('lock-001', 'lock');
+    await service.execute('lock-001', 'lock', confirmation.token);
+
+    await expect(service.execute('lock-001', 'lock', confirmation.token)).rejects.toMatchObject({
+      code: 'INVALID_CONFIRMATION'
+    });
+    expect(controlLock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['unknown', 'not-a-token']
+  ])('should reject and audit a %s token', async (_, token) => {
+    await expect(service.execute('lock-001', 'unlock', token)).rejects.toBeInstanceOf(LockServiceError);
+
+    expect(controlLock).not.toHaveBeenCalled();
+    expect(service.getAuditLog()).toEqual([expect.objectContaining({ action: 'unlock', result: 'rejected' })]);
+  });
+
+  it('should reject a token issued for another action', async () => {
+    const confirmation = await service.requestConfirmation('lock-001', 'lock');
+
+    await expect(service.execute('lock-001', 'unlock', confirmation.token)).rejects.toMatchObject({
+      code: 'INVALID_CONFIRMATION'
+    });
+    expect(controlLock).not.toHaveBeenCalled();
+  });
+
+  it('should reject an expired token', async () => {
+    jest.useFakeTimers();
+    service = new LockService({ getDeviceById, controlLock }, undefined, { confirmationTtlMs: 1000 });
+    const confirmation = await service.requestConfirmation('lock-001', 'unlock');
+
+    jest.advanceTimersByTime(1001);
+
+    await expect(service.execute('lock-001', 'unlock', confirmation.token)).rejects.toMatchObject({
+      code: 'INVALID_CONFIRMATION'
+    });
+  });
+
+  it('should audit failed commands and rethrow the error', async () => {
+    controlLock.mockRejectedValue(new DeviceServiceError('Lock is offline', 'CONTROL_ERROR'));
+    const confirmation = await service.requestConfirmation('lock-001', 'lock');
+
+    await expect(service.execute('lock-001', 'lock', confirmation.token)).rejects.toMatchObject({
+      code: 'CONTROL_ERROR'
+    });
+    expect(service.getAuditLog()[0]).toMatchObject({ result: 'failed', message: 'Lock is offline' });
+  });
+
+  it('should reject devices that are not locks and invalid actions', async () => {
+    getDeviceById.mockResolvedValue({ ...lock, deviceType: 'Bot' });
+
+    await expect(service.requestConfirmation('lock-001', 'lock')).rejects.toMatchObject({
+      code: 'INVALID_DEVICE_TYPE'
+    });
+    await expect(service.requestConfirmation('lock-001', 'open' as any)).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR'
+    });
+  });
+
+  it('should persist the audit log and keep only the newest entries', async () => {
+    const store = new InMemoryHistoryStore<LockAuditEntry>();
+    const append = jest.spyOn(store, 'append');
+    const rewrite = jest.spyOn(store, 'rewrite');
+    service = new LockService({ getDeviceById, controlLock }, store, { maxAuditEntries: 2 });
+
+    for (const action of ['lock', 'unlock', 'lock'] as const) {
+      const confirmation = await service.requestConfirmation('lock-001', action);
+      await service.execute('lock-001', action, confirmation.token);
+    }
+
+    expect(append).toHaveBeenCalledTimes(3);
+    expect(rewrite).toHaveBeenCalledTimes(1);
+    expect(service.getAuditLog().map(entry => entry.action)).toEqual(['lock', 'unlock']);
+    expect(service.getAuditLog({ limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Tests for Scene service
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SceneService, SceneServiceError } from '../scene.service';
+import { SceneInput, estimateSceneDuration } from '../../models/scene';
+
+jest.mock('../device.service', () => ({
+  deviceService: { controlDevice: jest.fn() }
+}));
+
+jest.mock('../../utils/switchbot-api', () => ({
+  switchBotAPI: { getScenes: jest.fn(), executeScene: jest.fn() }
+}));
+
+describe('SceneService', () => {
+  const controlDevice = jest.fn();
+  const delay = jest.fn();
+  const cloudApi = { getScenes: jest.fn(), executeScene: jest.fn() };
+  let service: SceneService;
+
+  const eveningScene: SceneInput = {
+    name: 'Evening',
+    icon: '🌙',
+    steps: [
+      { deviceId: 'light-1', command: 'turnOn' },
+      { deviceId: 'light-1', command: 'setBrightness', parameter: 40 },
+      { deviceId: 'ac-1', command: 'setAll', parameter: '26,2,1,on', delayMs: 5000 }
+    ]
+  };
+
+  beforeEach(() => {
+    controlDevice.mockReset();
+    controlDevice.mockResolvedValue(undefined);
+    delay.mockReset();
+    delay.mockResolvedValue(undefined);
+    cloudApi.getScenes.mockReset();
+    cloudApi.getScenes.mockResolvedValue({
+      statusCode: 100,
+      body: [{ sceneId: 'T02-1', sceneName: 'Close Office Devices' }],
+      message: 'success'
+    });
+    cloudApi.executeScene.mockReset();
+    cloudApi.executeScene.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+    service = new SceneService(null, { controlDevice }, delay, cloudApi);
+  });
+
+  describe('scene management', () => {
+    it('should create, update and delete scenes', () => {
+      const scene = service.createScene(eveningScene);
+
+      expect(scene.id).toMatch(/^scene-/);
+      expect(scene.steps).toHaveLength(3);
+      expect(service.updateScene(scene.id, { name: 'Night' }).name).toBe('Night');
+
+      service.deleteScene(scene.id);
+      expect(service.getScenes()).toEqual([]);
+    });
+
+    it('should reject invalid scenes', () => {
+      expect(() => service.createScene({ ...eveningScene, steps: [] })).toThrow(SceneServiceError);
+      expect(() => service.createScene({
+        ...eveningScene,
+        steps: [{ deviceId: 'light-1', command: 'turnOn', delayMs: -1 }]
+      })).toThrow('steps[0].delayMs');
+      expect(() => service.createScene({ ...eveningScene, steps: [{ deviceId: '', command: 'turnOn' }] }))
+        .toThrow('steps[0].deviceId');
+    });
+
+    it('should throw SCENE_NOT_FOUND for unknown scenes', async () => {
+      await expect(service.executeScene('missing')).rejects.toMatchObject({ code: 'SCENE_NOT_FOUND' });
+    });
+  });
+
+  describe('executeScene', () => {
+    it('should send the steps in order and honour delays', async () => {
+      const scene = service.createScene(eveningScene);
+
+      const execution = await service.executeScene(scene.id);
+
+      expect(execution.success).toBe(true);
+      expect(controlDevice.mock.calls).toEqual([
+        ['light-1', 'turnOn', undefined],
+        ['light-1', 'setBrightness', 40],
+        ['ac-1', 'setAll', '26,2,1,on']
+      ]);
+      expect(delay).toHaveBeenCalledTimes(1);
+      expect(delay).toHaveBeenCalledWith(5000);
+      expect(service.getScene(scene.id).lastExecutedAt).toEqual(execution.finishedAt);
+    });
+
+    it('should record failed steps and keep running the remaining ones', async () => {
+      controlDevice.mockRejectedValueOnce(new Error('Device offline'));
+      const scene = service.createScene(eveningScene);
+
+      const execution = await service.executeScene(scene.id);
+
+      expect(execution.success).toBe(false);
+      expect(execution.steps[0]).toMatchObject({ success: false, error: 'Device offline' });
+      expect(execution.steps[2]).toMatchObject({ deviceId: 'ac-1', success: true });
+    });
+
+    it('should reject a second execution of a running scene', async () => {
+      let release: () => void = () => undefined;
+      controlDevice.mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+      const scene = service.createScene(eveningScene);
+
+      const first = service.executeScene(scene.id);
+      expect(service.isSceneRunning(scene.id)).toBe(true);
+      await expect(service.executeScene(scene.id)).rejects.toMatchObject({ code: 'SCENE_BUSY' });
+
+      release();
+      await first;
+      expect(service.isSceneRunning(scene.id)).toBe(false);
+    });
+
+    it('should run different scenes one after another', async () => {
+      let release: () => void = () => undefined;
+      controlDevice.mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+      const first = service.createScene({ name: 'First', steps: [{ deviceId: 'light-1', command: 'turnOn' }] });
+      const second = service.createScene({ name: 'Second', steps: [{ deviceId: 'plug-1', command: 'turnOn' }] });
+
+      const firstRun = service.executeScene(first.id);
+      const secondRun = service.executeScene(second.id);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(controlDevice).toHaveBeenCalledTimes(1);
+
+      release();
+      await Promise.all([firstRun, secondRun]);
+      expect(controlDevice.mock.calls.map(call => call[0])).toEqual(['light-1', 'plug-1']);
+    });
+  });
+
+  describe('cloud scenes', () => {
+    it('should cache the cloud scene list', async () => {
+      expect(await service.getCloudScenes()).toEqual([{ sceneId: 'T02-1', sceneName: 'Close Office Devices' }]);
+      await service.getCloudScenes();
+      expect(cloudApi.getScenes).toHaveBeenCalledTimes(1);
+
+      await service.getCloudScenes(true);
+      expect(cloudApi.getScenes).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wrap API failures in CLOUD_SCENE_ERROR', async () => {
+      cloudApi.getScenes.mockRejectedValue(new Error('Network error'));
+      await expect(service.getCloudScenes()).rejects.toMatchObject({ code: 'CLOUD_SCENE_ERROR' });
+      await expect(service.executeCloudScene('T02-1')).rejects.toMatchObject({ code: 'CLOUD_SCENE_ERROR' });
+
+      cloudApi.getScenes.mockResolvedValue({
+        statusCode: 100,
+        body: [{ sceneId: 'T02-1', sceneName: 'Close Office Devices' }],
+        message: 'success'
+      });
+      cloudApi.executeScene.mockRejectedValue(new Error('unknown scene'));
+      await expect(service.executeCloudScene('T02-1')).rejects.toMatchObject({ code: 'CLOUD_SCENE_ERROR' });
+      expect(service.isSceneRunning('T02-1')).toBe(false);
+    });
+
+    it('should reject scene IDs that are not in the cloud scene list', async () => {
+      await expect(service.executeCloudScene('T02-unknown')).rejects.toMatchObject({ code: 'SCENE_NOT_FOUND' });
+      expect(cloudApi.executeScene).not.toHaveBeenCalled();
+      expect(cloudApi.getScenes).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh a cached scene list once for scenes created since', async () => {
+      await service.getCloudScenes();
+      cloudApi.getScenes.mockResolvedValue({
+        statusCode: 100,
+        body: [{ sceneId: 'T02-1', sceneName: 'Close Office Devices' }, { sceneId: 'T02-2', sceneName: 'Good Night' }],
+        message: 'success'
+      });
+
+      expect(await service.executeCloudScene('T02-2')).toMatchObject({ sceneId: 'T02-2', sceneName: 'Good Night' });
+      expect(cloudApi.getScenes).toHaveBeenCalledTimes(2);
+
+      await expect(service.executeCloudScene('T02-unknown')).rejects.toMatchObject({ code: 'SCENE_NOT_FOUND' });
+      expect(cloudApi.getScenes).toHaveBeenCalledTimes(3);
+      expect(cloudApi.executeScene).toHaveBeenCalledTimes(1);
+    });
+
+    it('should execute cloud scenes after running local scenes', async () => {
+      let release: () => void = () => undefined;
+      controlDevice.mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+      await service.getCloudScenes();
+      const local = service.createScene({ name: 'Local', steps: [{ deviceId: 'light-1', command: 'turnOn' }] });
+
+      const localRun = service.executeScene(local.id);
+      const cloudRun = service.executeCloudScene('T02-1');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(cloudApi.executeScene).not.toHaveBeenCalled();
+
+      release();
+      await localRun;
+      expect(await cloudRun).toMatchObject({ sceneId: 'T02-1', sceneName: 'Close Office Devices', success: true });
+    });
+  });
+
+  describe('estimateSceneDuration', () => {
+    it('should space steps by at least the request interval', () => {
+      expect(estimateSceneDuration(eveningScene.steps, 10000)).toBe(20000);
+      expect(estimateSceneDuration([{ deviceId: 'a', command: 'turnOn', delayMs: 3000 }], 10000)).toBe(3000);
+    });
+  });
+
+  describe('persistent storage', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scene-service-'));
+      filePath = path.join(tempDir, 'scenes.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should restore scenes after a restart', async () => {
+      const first = new SceneService(filePath, { controlDevice }, delay);
+      const created = first.createScene(eveningScene);
+      await first.executeScene(created.id);
+
+      const [scene] = new SceneService(filePath, { controlDevice }, delay).getScenes();
+
+      expect(scene.name).toBe('Evening');
+      expect(scene.steps).toEqual(eveningScene.steps);
+      expect(scene.lastExecutedAt).toBeInstanceOf(Date);
+    });
+
+    it('should start without scenes when the file is unreadable', () => {
+      fs.writeFileSync(filePath, '{ not json');
+
+      expect(new SceneService(filePath, { controlDevice }, delay).getScenes()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for Scheduler service
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SchedulerService, SchedulerServiceError } from '../scheduler.service';
+import { DeviceScheduleInput, WEEKDAYS, calculateNextRun } from '../../models/schedule';
+
+jest.mock('../device.service', () => ({
+  deviceService: { controlDevice: jest.fn() }
+}));
+
+describe('SchedulerService', () => {
+  const controlDevice = jest.fn();
+  let service: SchedulerService;
+
+  const morningLight: DeviceScheduleInput = {
+    name: 'Morning light',
+    deviceId: 'light-1',
+    weekdays: WEEKDAYS,
+    time: '07:00',
+    actions: [
+      { command: 'turnOn' },
+      { command: 'setBrightness', parameter: 60 }
+    ]
+  };
+
+  // Local times so the tests do not depend on the machine's time zone
+  const monday0630 = new Date(2024, 6, 1, 6, 30);   // Mon 1 Jul 2024
+  const monday0700 = new Date(2024, 6, 1, 7, 0);
+  const friday0800 = new Date(2024, 6, 5, 8, 0);    // Fri 5 Jul 2024
+
+  beforeEach(() => {
+    controlDevice.mockReset();
+    controlDevice.mockResolvedValue(undefined);
+    service = new SchedulerService(null, { controlDevice });
+  });
+
+  describe('calculateNextRun', () => {
+    it('should return today when the time is still ahead', () => {
+      expect(calculateNextRun(morningLight, monday0630)).toEqual(monday0700);
+    });
+
+    it('should move to the next selected weekday', () => {
+      expect(calculateNextRun(morningLight, monday0700)).toEqual(new Date(2024, 6, 2, 7, 0));
+      expect(calculateNextRun(morningLight, friday0800)).toEqual(new Date(2024, 6, 8, 7, 0));
+    });
+
+    it('should wrap to the same weekday a week later', () => {
+      expect(calculateNextRun({ weekdays: [1], time: '07:00' }, monday0700)).toEqual(new Date(2024, 6, 8, 7, 0));
+    });
+  });
+
+  describe('schedule management', () => {
+    it('should create schedules with a next run', () => {
+      const schedule = service.createSchedule({ ...morningLight, weekdays: [5, 1, 1, 3] });
+
+      expect(schedule.id).toMatch(/^schedule-/);
+      expect(schedule.enabled).toBe(true);
+      expect(schedule.weekdays).toEqual([1, 3, 5]);
+      expect(schedule.nextRunAt).toBeInstanceOf(Date);
+      expect(service.getSchedules()).toHaveLength(1);
+    });
+
+    it('should reject invalid schedules', () => {
+      expect(() => service.createSchedule({ ...morningLight, time: '7:00' })).toThrow(SchedulerServiceError);
+      expect(() => service.createSchedule({ ...morningLight, weekdays: [7] })).toThrow('weekdays');
+      expect(() => service.createSchedule({ ...morningLight, actions: [{ command: '' }] }))
+        .toThrow('actions[0].command');
+    });
+
+    it('should filter schedules by device', () => {
+      service.createSchedule(morningLight);
+      service.createSchedule({ ...morningLight, deviceId: 'plug-1', actions: [{ command: 'turnOff' }] });
+
+      expect(service.getSchedules('plug-1')).toHaveLength(1);
+      expect(service.getSchedules('plug-1')[0].actions[0].command).toBe('turnOff');
+    });
+
+    it('should clear the next run while disabled', () => {
+      const schedule = service.createSchedule(morningLight);
+
+      expect(service.setScheduleEnabled(schedule.id, false).nextRunAt).toBeUndefined();
+      expect(service.setScheduleEnabled(schedule.id, true).nextRunAt).toBeInstanceOf(Date);
+    });
+
+    it('should throw SCHEDULE_NOT_FOUND for unknown schedules', () => {
+      expect(() => service.deleteSchedule('missing')).toThrow(
+        expect.objectContaining({ code: 'SCHEDULE_NOT_FOUND' })
+      );
+    });
+  });
+
+  describe('runDueSchedules', () => {
+    const createAt = (input: DeviceScheduleInput, now: Date) => {
+      jest.useFakeTimers().setSystemTime(now);
+      try {
+        return service.createSchedule(input);
+      } finally {
+        jest.useRealTimers();
+      }
+    };
+
+    it('should send the actions in order once the run is due', async () => {
+      createAt(morningLight, monday0630);
+
+      expect(await service.runDueSchedules(new Date(2024, 6, 1, 6, 59))).toEqual([]);
+      const [ran] = await service.runDueSchedules(monday0700);
+
+      expect(controlDevice.mock.calls).toEqual([
+        ['light-1', 'turnOn', undefined],
+        ['light-1', 'setBrightness', 60]
+      ]);
+      expect(ran.lastRunAt).toEqual(monday0700);
+      expect(ran.lastResult).toMatchObject({ success: true });
+      expect(ran.nextRunAt).toEqual(new Date(2024, 6, 2, 7, 0));
+    });
+
+    it('should run each occurrence only once', async () => {
+      createAt(morningLight, monday0630);
+
+      await service.runDueSchedules(monday0700);
+      expect(await service.runDueSchedules(new Date(2024, 6, 1, 7, 0, 30))).toEqual([]);
+      expect(controlDevice).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip disabled schedules', async () => {
+      const schedule = createAt(morningLight, monday0630);
+      service.setScheduleEnabled(schedule.id, false);
+
+      expect(await service.runDueSchedules(monday0700)).toEqual([]);
+      expect(controlDevice).not.toHaveBeenCalled();
+    });
+
+    it('should record failures and still advance the next run', async () => {
+      controlDevice.mockRejectedValueOnce(new Error('Device offline'));
+      createAt(morningLight, monday0630);
+
+      const [ran] = await service.runDueSchedules(monday0700);
+
+      expect(ran.lastResult).toMatchObject({ success: false, error: 'Device offline' });
+      expect(ran.nextRunAt).toEqual(new Date(2024, 6, 2, 7, 0));
+      expect(controlDevice).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('persistent storage', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-service-'));
+      filePath = path.join(tempDir, 'schedules.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should restore schedules after a restart', () => {
+      const first = new SchedulerService(filePath, { controlDevice });
+      first.createSchedule(morningLight);
+
+      const restarted = new SchedulerService(filePath, { controlDevice });
+      const [schedule] = restarted.getSchedules();
+
+      expect(schedule.name).toBe('Morning light');
+      expect(schedule.createdAt).toBeInstanceOf(Date);
+      expect(schedule.actions).toEqual(morningLight.actions);
+      expect(schedule.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should start without schedules when the file is unreadable', () => {
+      fs.writeFileSync(filePath, '{ not json');
+
+      expect(new SchedulerService(filePath, { controlDevice }).getSchedules()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for Settings service
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SettingsService, SettingsServiceError, SETTINGS_SCHEMA_VERSION } from '../settings.service';
+import { DEFAULT_SETTINGS } from '../../models/settings';
+
+describe('SettingsService', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-service-'));
+    filePath = path.join(tempDir, 'settings.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const readSettingsFile = () => JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  describe('memory mode', () => {
+    it('should start with default settings and not touch the file system', () => {
+      const service = new SettingsService();
+
+      expect(service.getSettings()).toEqual(DEFAULT_SETTINGS);
+      service.updateSettings({ dataUpdateInterval: 120 });
+      expect(service.getDataUpdateInterval()).toBe(120);
+      expect(fs.readdirSync(tempDir)).toHaveLength(0);
+    });
+
+    it('should not expose internal state to callers', () => {
+      const service = new SettingsService();
+      const settings = service.getSettings();
+
+      settings.alertThresholds.temperature.max = 99;
+      expect(service.getAlertThresholds().temperature.max).toBe(DEFAULT_SETTINGS.alertThresholds.temperature.max);
+    });
+  });
+
+  describe('file mode', () => {
+    it('should use defaults when the settings file does not exist', () => {
+      const service = new SettingsService(filePath);
+
+      expect(service.getSettings()).toEqual(DEFAULT_SETTINGS);
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should persist updates with the schema version', () => {
+      const service = new SettingsService(filePath);
+      service.updateSettings({
+        dataUpdateInterval: 90,
+        alertThresholds: {
+          temperature: { min: 16, max: 26 },
+          humidity: { min: 35, max: 65 },
+          co2: { warning: 1000, critical: 1500 }
+        }
+      });
+
+      const stored = readSettingsFile();
+      expect(stored.schemaVersion).toBe(SETTINGS_SCHEMA_VERSION);
+      expect(stored.dataUpdateInterval).toBe(90);
+      expect(stored.alertThresholds.temperature).toEqual({ min: 16, max: 26 });
+      expect(fs.readdirSync(tempDir)).toEqual(['settings.json']);
+    });
+
+    it('should restore persisted settings after a restart', () => {
+      new SettingsService(filePath).updateSettings({
+        dataUpdateInterval: 45,
+        notifications: { enabled: false, sound: false }
+      });
+
+      const restarted = new SettingsService(filePath);
+      expect(restarted.getDataUpdateInterval()).toBe(45);
+      expect(restarted.getSettings().notifications).toEqual({ enabled: false, sound: false });
+    });
+
+    it('should persist a reset to defaults', () => {
+      const service = new SettingsService(filePath);
+      service.updateSettings({ dataUpdateInterval: 200 });
+      service.resetSettings();
+
+      expect(new SettingsService(filePath).getSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should migrate unversioned settings files', () => {
+      fs.writeFileSync(filePath, JSON.stringify({
+        dataUpdateInterval: 30,
+        alertThresholds: {
+          temperature: { min: 18, max: 28 }
+        }
+      }));
+
+      const service = new SettingsService(filePath);
+
+      expect(service.getDataUpdateInterval()).toBe(30);
+      expect(service.getSettings().alertThresholds.humidity).toEqual(DEFAULT_SETTINGS.alertThresholds.humidity);
+      expect(service.getSettings().notifications).toEqual(DEFAULT_SETTINGS.notifications);
+
+      const stored = readSettingsFile();
+      expect(stored.schemaVersion).toBe(SETTINGS_SCHEMA_VERSION);
+      expect(stored.alertThresholds.humidity).toEqual(DEFAULT_SETTINGS.alertThresholds.humidity);
+    });
+
+    it('should fall back to defaults and keep a backup of unreadable files', () => {
+      fs.writeFileSync(filePath, '{ "dataUpdateInterval": ');
+
+      const service = new SettingsService(filePath);
+
+      expect(service.getSettings()).toEqual(DEFAULT_SETTINGS);
+      expect(fs.readdirSync(tempDir).some(name => name.endsWith('.bak'))).toBe(true);
+    });
+
+    it('should fall back to defaults when stored values are invalid', () => {
+      fs.writeFileSync(filePath, JSON.stringify({
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        dataUpdateInterval: 1
+      }));
+
+      const service = new SettingsService(filePath);
+      expect(service.getSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should keep the previous settings when the file cannot be written', () => {
+      const service = new SettingsService(path.join(tempDir, 'settings.json'));
+      fs.mkdirSync(filePath);
+
+      expect(() => service.updateSettings({ dataUpdateInterval: 90 })).toThrow(SettingsServiceError);
+      expect(service.getDataUpdateInterval()).toBe(DEFAULT_SETTINGS.dataUpdateInterval);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for webhook service
+ */
+
+import { WebhookService, WebhookServiceError } from '../webhook.service';
+import { Device } from '../../models/device';
+import { SwitchBotAPIError } from '../../utils/switchbot-api';
+
+jest.mock('../device.service', () => {
+  const actual = jest.requireActual('../device.service');
+  return {
+    ...actual,
+    deviceService: { applyStateChange: jest.fn() }
+  };
+});
+
+describe('WebhookService', () => {
+  const lock: Device = {
+    deviceId: 'C1A2B3C4D5E6',
+    deviceName: 'Front Door',
+    deviceType: 'Lock',
+    status: 'online',
+    properties: { lockState: 'unlocked' },
+    lastUpdated: new Date()
+  };
+  const applyStateChange = jest.fn();
+  const api = {
+    setupWebhook: jest.fn(),
+    queryWebhook: jest.fn(),
+    deleteWebhook: jest.fn()
+  };
+  const token = 'secret';
+  let service: WebhookService;
+
+  const lockEvent = (context: Record<string, unknown> = {}) => ({
+    eventType: 'changeReport',
+    eventVersion: '1',
+    context: {
+      deviceType: 'WoLock',
+      deviceMac: 'c1:a2:b3:c4:d5:e6',
+      lockState: 'LOCKED',
+      timeOfSample: 1704110400000,
+      ...context
+    }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    applyStateChange.mockReturnValue(lock);
+    service = new WebhookService({ applyStateChange }, api, token);
+  });
+
+  it('should apply state changes to the device identified by its MAC address', () => {
+    const listener = jest.fn();
+    service.onDeviceUpdate(listener);
+
+    const result = service.handleEvent(lockEvent(), token);
+
+    expect(result).toEqual({ handled: true, deviceId: 'C1A2B3C4D5E6' });
+    expect(applyStateChange).toHaveBeenCalledWith(
+      'C1A2B3C4D5E6',
+      { lockState: 'LOCKED' },
+      new Date(1704110400000)
+    );
+    expect(listener).toHaveBeenCalledWith(lock);
+    expect(service.getStatus().receivedEvents).toBe(1);
+  });
+
+  it('should convert plug power and Fahrenheit temperatures to the status API format', () => {
+    service.handleEvent({
+      eventType: 'changeReport',
+      context: { deviceType: 'WoPlugJP', deviceMac: '01:00:5e:90:10:00', powerState: 'ON' }
+    }, token);
+    service.handleEvent({
+      eventType: 'changeReport',
+      context: { deviceType: 'WoMeter', deviceMac: '01:00:5e:90:10:01', temperature: 77, humidity: 40, scale: 'FAHRENHEIT' }
+    }, token);
+
+    expect(applyStateChange).toHaveBeenNthCalledWith(1, '01005E901000', { power: 'on' }, expect.any(Date));
+    expect(applyStateChange).toHaveBeenNthCalledWith(2, '01005E901001', { temperature: 25, humidity: 40 }, expect.any(Date));
+  });
+
+  it('should not notify listeners for unknown devices and other event types', () => {
+    const listener = jest.fn();
+    service.onDeviceUpdate(listener);
+    applyStateChange.mockReturnValue(null);
+
+    expect(service.handleEvent(lockEvent(), token)).toEqual({ handled: false, deviceId: 'C1A2B3C4D5E6' });
+    expect(service.handleEvent({ ...lockEvent(), eventType: 'deviceAdded' }, token)).toEqual({ handled: false });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying removed listeners', () => {
+    const listener = jest.fn();
+    const remove = service.onDeviceUpdate(listener);
+    remove();
+
+    service.handleEvent(lockEvent(), token);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['null', null],
+    ['missing context', { eventType: 'changeReport' }],
+    ['missing MAC', { eventType: 'changeReport', context: { deviceType: 'WoLock' } }]
+  ])('should reject invalid payloads (%s)', (_, payload) => {
+    expect(() => service.handleEvent(payload, token)).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+    expect(applyStateChange).not.toHaveBeenCalled();
+  });
+
+  it('should require the configured token', () => {
+    expect(() => service.handleEvent(lockEvent())).toThrow(expect.objectContaining({ code: 'UNAUTHORIZED' }));
+    expect(() => service.handleEvent(lockEvent(), 'wrong')).toThrow(expect.objectContaining({ code: 'UNAUTHORIZED' }));
+    expect(service.handleEvent(lockEvent(), 'secret').handled).toBe(true);
+  });
+
+  it('should refuse events and registration while no token is configured', async () => {
+    service = new WebhookService({ applyStateChange }, api, '');
+
+    expect(() => service.handleEvent(lockEvent(), '')).toThrow(expect.objectContaining({ code: 'RECEIVER_DISABLED' }));
+    await expect(service.setupWebhook('https://example.com/hook')).rejects.toMatchObject({ code: 'RECEIVER_DISABLED' });
+    expect(applyStateChange).not.toHaveBeenCalled();
+    expect(api.setupWebhook).not.toHaveBeenCalled();
+  });
+
+  describe('webhook management', () => {
+    it('should register, list and delete the webhook URL', async () => {
+      api.setupWebhook.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+      api.queryWebhook.mockResolvedValue({ statusCode: 100, body: { urls: ['https://example.com/hook?token=secret'] }, message: 'success' });
+      api.deleteWebhook.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+
+      await service.setupWebhook('https://example.com/hook?token=secret');
+      const urls = await service.getWebhookUrls();
+      await service.deleteWebhook('https://example.com/hook?token=secret');
+
+      expect(api.setupWebhook).toHaveBeenCalledWith('https://example.com/hook?token=secret');
+      expect(urls).toEqual(['https://example.com/hook?token=secret']);
+      expect(api.deleteWebhook).toHaveBeenCalledWith('https://example.com/hook?token=secret');
+    });
+
+    it('should add the configured token to URLs without one', async () => {
+      api.setupWebhook.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+
+      expect(await service.setupWebhook('https://example.com/hook?source=hub')).toBe('https://example.com/hook?source=hub&token=secret');
+      expect(api.setupWebhook).toHaveBeenCalledWith('https://example.com/hook?source=hub&token=secret');
+    });
+
+    it('should reject URLs carrying a different token', async () => {
+      await expect(service.setupWebhook('https://example.com/hook?token=other')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      expect(api.setupWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid URLs without calling the API', async () => {
+      await expect(service.setupWebhook('ftp://example.com')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      await expect(service.deleteWebhook(undefined)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      expect(api.setupWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should wrap SwitchBot API errors', async () => {
+      api.setupWebhook.mockRejectedValue(new SwitchBotAPIError('Failed to set up webhook: invalid url', 190));
+
+      await expect(service.setupWebhook('https://example.com/hook')).rejects.toMatchObject({ code: 'API_ERROR' });
+    });
+  });
+});
@@ -51,7 +51,7 @@ describe('WebSocketService', () => {
     
     // Mock environment service
     mockEnvironmentService = environmentService as jest.Mocked<typeof environmentService>;
-    mockEnvironmentService.getCurrentEnvironmentData.mockResolvedValue(mockEnvironmentData);
+    mockEnvironmentService.getAllEnvironmentData.mockResolvedValue([mockEnvironmentData]);
 
     // Create WebSocket service with test configuration
     webSocketService = new WebSocketService(io, {
@@ -125,20 +125,20 @@ describe('WebSocketService', () => {
     it('should manually trigger environment data update', async () => {
       await webSocketService.triggerUpdate();
       
-      expect(mockEnvironmentService.getCurrentEnvironmentData).toHaveBeenCalled();
+      expect(mockEnvironmentService.getAllEnvironmentData).toHaveBeenCalledWith('background');
       
       const status = webSocketService.getStatus();
       expect(status.lastUpdate).toBeDefined();
     });
 
     it('should handle errors during manual trigger', async () => {
-      mockEnvironmentService.getCurrentEnvironmentData.mockRejectedValueOnce(
+      mockEnvironmentService.getAllEnvironmentData.mockRejectedValueOnce(
         new Error('API Error')
       );
 
       await webSocketService.triggerUpdate();
       
-      expect(mockEnvironmentService.getCurrentEnvironmentData).toHaveBeenCalled();
+      expect(mockEnvironmentService.getAllEnvironmentData).toHaveBeenCalled();
       // Should not throw, but handle error gracefully
     });
   });
@@ -161,6 +161,38 @@ describe('WebSocketService', () => {
       expect(typeof status.retryCount).toBe('number');
     });
 
+    it('should report a stretched interval when the daily API budget runs low', () => {
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000);
+      const quota = {
+        getUsage: jest.fn(() => ({ date: '2024-01-01', used: 9500, limit: 10000, remaining: 500, reserved: 500, resetAt }))
+      };
+      const limitedService = new WebSocketService(io, { updateInterval: 1000 }, quota);
+
+      const status = limitedService.getStatus();
+
+      expect(status.budgetLimited).toBe(true);
+      expect(status.effectiveUpdateInterval).toBeGreaterThan(status.updateInterval);
+      limitedService.shutdown();
+    });
+
+    it('should budget polling by the requests of the poll only', async () => {
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000);
+      const quota = {
+        getUsage: jest.fn(() => ({ date: '2024-01-01', used: 9000, limit: 10000, remaining: 1000, reserved: 500, resetAt }))
+      };
+      const requests = { countRequests: async <T>(task: () => Promise<T>) => ({ result: await task(), requests: 50 }) };
+      const countRequests = jest.spyOn(requests, 'countRequests');
+      const countingService = new WebSocketService(io, { updateInterval: 1000 }, quota, requests);
+
+      await countingService.triggerUpdate();
+
+      // 500 calls left for an hour at 50 calls per poll: one poll every 6 minutes
+      expect(countRequests).toHaveBeenCalledTimes(1);
+      expect(countingService.getStatus().effectiveUpdateInterval).toBeGreaterThan(350000);
+      expect(countingService.getStatus().effectiveUpdateInterval).toBeLessThanOrEqual(360000);
+      countingService.shutdown();
+    });
+
     it('should update last update timestamp after successful data fetch', async () => {
       const statusBefore = webSocketService.getStatus();
       expect(statusBefore.lastUpdate).toBeNull();
@@ -176,20 +208,20 @@ describe('WebSocketService', () => {
   describe('Error Handling', () => {
     it('should handle environment service errors gracefully', async () => {
       const error = new Error('SwitchBot API Error');
-      mockEnvironmentService.getCurrentEnvironmentData.mockRejectedValueOnce(error);
+      mockEnvironmentService.getAllEnvironmentData.mockRejectedValueOnce(error);
 
       // Should not throw
       await expect(webSocketService.triggerUpdate()).resolves.not.toThrow();
       
-      expect(mockEnvironmentService.getCurrentEnvironmentData).toHaveBeenCalled();
+      expect(mockEnvironmentService.getAllEnvironmentData).toHaveBeenCalled();
     });
 
     it('should reset retry count on successful data fetch', async () => {
       // First, simulate some failures to increase retry count
-      mockEnvironmentService.getCurrentEnvironmentData
+      mockEnvironmentService.getAllEnvironmentData
         .mockRejectedValueOnce(new Error('Error 1'))
         .mockRejectedValueOnce(new Error('Error 2'))
-        .mockResolvedValueOnce(mockEnvironmentData);
+        .mockResolvedValueOnce([mockEnvironmentData]);
 
       // Trigger multiple updates
       await webSocketService.triggerUpdate(); // Should fail
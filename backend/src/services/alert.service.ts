@@ -4,7 +4,7 @@
 
 import { Alert, AlertThresholds, AlertGenerator, AlertThresholdValidator, DEFAULT_ALERT_THRESHOLDS } from '../models/alert';
 import { EnvironmentData } from '../models/environment';
-import { settingsService } from './settings.service';
+import { settingsService, SettingsServiceError } from './settings.service';
 
 /**
  * Alert service error class
@@ -24,7 +24,6 @@ export class AlertServiceError extends Error {
  * Alert service class
  */
 export class AlertService {
-  private thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS;
   private activeAlerts: Map<string, Alert> = new Map();
   private alertHistory: Alert[] = [];
   private readonly MAX_HISTORY_SIZE = 100;
@@ -42,6 +41,10 @@ export class AlertService {
       humidity: {
         min: settings.alertThresholds.humidity.min,
         max: settings.alertThresholds.humidity.max
+      },
+      co2: {
+        warning: settings.alertThresholds.co2.warning,
+        critical: settings.alertThresholds.co2.critical
       }
     };
   }
@@ -54,7 +57,7 @@ export class AlertService {
   }
 
   /**
-   * Update alert thresholds
+   * Update alert thresholds (persisted through the settings service)
    */
   updateThresholds(newThresholds: AlertThresholds): void {
     const validation = AlertThresholdValidator.validate(newThresholds);
@@ -66,7 +69,27 @@ export class AlertService {
       );
     }
 
-    this.thresholds = { ...newThresholds };
+    this.saveThresholdsToSettings(newThresholds);
+  }
+
+  /**
+   * Store thresholds in application settings
+   */
+  private saveThresholdsToSettings(thresholds: AlertThresholds): void {
+    try {
+      settingsService.updateSettings({
+        alertThresholds: {
+          temperature: { ...thresholds.temperature },
+          humidity: { ...thresholds.humidity },
+          co2: { ...thresholds.co2 }
+        }
+      });
+    } catch (error) {
+      if (error instanceof SettingsServiceError) {
+        throw new AlertServiceError(error.message, error.code, error);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -108,6 +131,13 @@ export class AlertService {
     return limit ? history.slice(0, limit) : history;
   }
 
+  /**
+   * Get alert history entries between two timestamps in chronological order
+   */
+  getAlertHistoryInRange(from: Date, to: Date): Alert[] {
+    return this.alertHistory.filter(alert => alert.timestamp >= from && alert.timestamp < to);
+  }
+
   /**
    * Dismiss an active alert
    */
@@ -153,6 +183,7 @@ export class AlertService {
     totalToday: number;
     temperatureAlerts: number;
     humidityAlerts: number;
+    co2Alerts: number;
   } {
     const activeCount = this.activeAlerts.size;
     const today = new Date();
@@ -166,7 +197,8 @@ export class AlertService {
       activeCount,
       totalToday: todayAlerts.length,
       temperatureAlerts: todayAlerts.filter(alert => alert.type === 'temperature').length,
-      humidityAlerts: todayAlerts.filter(alert => alert.type === 'humidity').length
+      humidityAlerts: todayAlerts.filter(alert => alert.type === 'humidity').length,
+      co2Alerts: todayAlerts.filter(alert => alert.type === 'co2').length
     };
   }
 
@@ -174,14 +206,16 @@ export class AlertService {
    * Update active alerts based on new alerts and current environment data
    */
   private updateActiveAlerts(newAlerts: Alert[], environmentData: EnvironmentData): void {
-    // Create a set of current alert types for quick lookup
-    const currentAlertTypes = new Set(newAlerts.map(alert => `${alert.type}-${alert.condition}`));
+    // Create a set of current alert keys for quick lookup
+    const currentAlertKeys = new Set(newAlerts.map(alert => this.getAlertKey(alert)));
     
-    // Deactivate alerts that are no longer triggered
+    // Deactivate alerts of this sensor that are no longer triggered
     for (const [alertKey, existingAlert] of this.activeAlerts.entries()) {
-      const alertTypeKey = `${existingAlert.type}-${existingAlert.condition}`;
-      
-      if (!currentAlertTypes.has(alertTypeKey)) {
+      if (existingAlert.deviceId !== environmentData.deviceId) {
+        continue;
+      }
+
+      if (!currentAlertKeys.has(alertKey)) {
         // Alert condition is no longer met, deactivate it
         existingAlert.isActive = false;
         this.addToHistory(existingAlert);
@@ -191,7 +225,7 @@ export class AlertService {
     
     // Add new alerts
     for (const newAlert of newAlerts) {
-      const alertKey = `${newAlert.type}-${newAlert.condition}`;
+      const alertKey = this.getAlertKey(newAlert);
       
       // Only add if we don't already have an active alert of this type
       if (!this.activeAlerts.has(alertKey)) {
@@ -208,6 +242,14 @@ export class AlertService {
     }
   }
 
+  /**
+   * Key of an active alert (one per sensor, type and condition)
+   */
+  private getAlertKey(alert: Alert): string {
+    const typeKey = `${alert.type}-${alert.condition}`;
+    return alert.deviceId ? `${alert.deviceId}:${typeKey}` : typeKey;
+  }
+
   /**
    * Add alert to history
    */
@@ -224,7 +266,7 @@ export class AlertService {
    * Reset service state (useful for testing)
    */
   reset(): void {
-    this.thresholds = DEFAULT_ALERT_THRESHOLDS;
+    this.saveThresholdsToSettings(DEFAULT_ALERT_THRESHOLDS);
     this.activeAlerts.clear();
     this.alertHistory = [];
   }
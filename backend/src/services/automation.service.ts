@@ -0,0 +1,619 @@
+/**
+ * Automation service for SwitchBot Dashboard
+ * Evaluates automation rules against environment readings and sends the
+ * configured device commands when a rule triggers. Rules are checked by a
+ * server-side sampler, so they keep running while no dashboard is open. Rules
+ * are persisted to a JSON file when a file path is configured; the execution
+ * log is kept in memory.
+ */
+
+import fs from 'fs';
+import { EnvironmentData } from '../models/environment';
+import {
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationExecution,
+  AutomationActionResult,
+  AutomationRuleValidator,
+  DEFAULT_COOLDOWN_MINUTES,
+  isConditionMet
+} from '../models/automation';
+import { config as appConfig } from '../config';
+import { writeFileAtomic } from '../utils/file-storage';
+import { apiQuotaTracker, ApiQuotaTracker, budgetedPollInterval } from '../utils/api-quota';
+import { switchBotClient, RequestCounter } from '../utils/switchbot-client';
+import { deviceService, DeviceService } from './device.service';
+import { environmentService, EnvironmentService } from './environment.service';
+
+/**
+ * Current schema version of the persisted rules file
+ */
+export const AUTOMATION_SCHEMA_VERSION = 1;
+
+/**
+ * Default interval between two rule checks of the sampler
+ */
+export const DEFAULT_AUTOMATION_SAMPLE_INTERVAL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Device control used to execute rule actions
+ */
+export type AutomationDeviceController = Pick<DeviceService, 'controlDevice'>;
+
+/**
+ * Sensor access used by the sampler
+ */
+export type AutomationSensorSource = Pick<EnvironmentService, 'getAllEnvironmentData'>;
+
+/**
+ * Listener called with every rule execution triggered by the sampler
+ */
+export type AutomationExecutionListener = (execution: AutomationExecution) => void;
+
+/**
+ * Automation service error types
+ */
+export type AutomationServiceErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'RULE_NOT_FOUND'
+  | 'FILE_ERROR'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Automation service error class
+ */
+export class AutomationServiceError extends Error {
+  constructor(
+    message: string,
+    public code: AutomationServiceErrorCode,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'AutomationServiceError';
+  }
+}
+
+/**
+ * Automation service class
+ */
+export class AutomationService {
+  private rules: AutomationRule[] = [];
+  private executionLog: AutomationExecution[] = [];
+  // Since when each condition has been met, keyed by rule, condition index and sensor
+  private conditionSince: Map<string, Date> = new Map();
+  private runningRules: Set<string> = new Set();
+  private listeners: Set<AutomationExecutionListener> = new Set();
+  private latestReadings: EnvironmentData[] = [];
+  private latestReadingsAt: number | null = null;
+  private sampleIntervalMs: number = DEFAULT_AUTOMATION_SAMPLE_INTERVAL_MS;
+  private timer: NodeJS.Timeout | null = null;
+  private isSampling: boolean = false;
+  private callsPerSample: number = 1; // Estimate until the first sensor read has been measured
+  private readonly filePath: string | null;
+  private readonly controller: AutomationDeviceController;
+  private readonly sensors: AutomationSensorSource;
+  private readonly quota: Pick<ApiQuotaTracker, 'getUsage'>;
+  private readonly requests: RequestCounter;
+  private readonly MAX_LOG_SIZE = 200;
+
+  /**
+   * @param filePath Path of the rules file, or null to keep rules in memory only
+   * @param controller Device control used to execute actions
+   * @param sensors Sensor access used by the sampler
+   * @param quota Daily API usage the sampling interval is budgeted against
+   * @param requests Counter of the requests a sensor read sends
+   */
+  constructor(
+    filePath: string | null = null,
+    controller: AutomationDeviceController = deviceService,
+    sensors: AutomationSensorSource = environmentService,
+    quota: Pick<ApiQuotaTracker, 'getUsage'> = apiQuotaTracker,
+    requests: RequestCounter = switchBotClient
+  ) {
+    this.filePath = filePath;
+    this.controller = controller;
+    this.sensors = sensors;
+    this.quota = quota;
+    this.requests = requests;
+
+    if (this.filePath) {
+      this.loadFromFile(this.filePath);
+    }
+  }
+
+  /**
+   * Get all rules
+   */
+  getRules(): AutomationRule[] {
+    return this.rules.map(cloneRule);
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  getRule(ruleId: string): AutomationRule {
+    return cloneRule(this.findRule(ruleId));
+  }
+
+  /**
+   * Create a new rule
+   */
+  createRule(input: AutomationRuleInput): AutomationRule {
+    this.validateInput(input);
+
+    const now = new Date();
+    const rule: AutomationRule = {
+      id: `rule-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: input.name.trim(),
+      enabled: input.enabled ?? true,
+      conditions: input.conditions.map(condition => ({ ...condition })),
+      actions: input.actions.map(action => ({ ...action })),
+      cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.saveRules([...this.rules, rule]);
+    console.log(`Automation rule created: ${rule.name} (${rule.id})`);
+    return cloneRule(rule);
+  }
+
+  /**
+   * Update an existing rule (partial update)
+   */
+  updateRule(ruleId: string, updates: Partial<AutomationRuleInput>): AutomationRule {
+    const existing = this.findRule(ruleId);
+    const merged: AutomationRuleInput = {
+      name: updates.name ?? existing.name,
+      enabled: updates.enabled ?? existing.enabled,
+      conditions: updates.conditions ?? existing.conditions,
+      actions: updates.actions ?? existing.actions,
+      cooldownMinutes: updates.cooldownMinutes ?? existing.cooldownMinutes
+    };
+    this.validateInput(merged);
+
+    const updated: AutomationRule = {
+      ...existing,
+      name: merged.name.trim(),
+      enabled: merged.enabled ?? existing.enabled,
+      conditions: merged.conditions.map(condition => ({ ...condition })),
+      actions: merged.actions.map(action => ({ ...action })),
+      cooldownMinutes: merged.cooldownMinutes ?? existing.cooldownMinutes,
+      updatedAt: new Date()
+    };
+
+    this.saveRules(this.rules.map(rule => (rule.id === ruleId ? updated : rule)));
+    this.clearConditionState(ruleId);
+    console.log(`Automation rule updated: ${updated.name} (${ruleId})`);
+    return cloneRule(updated);
+  }
+
+  /**
+   * Enable or disable a rule
+   */
+  setRuleEnabled(ruleId: string, enabled: boolean): AutomationRule {
+    return this.updateRule(ruleId, { enabled });
+  }
+
+  /**
+   * Delete a rule
+   */
+  deleteRule(ruleId: string): void {
+    const rule = this.findRule(ruleId);
+    this.saveRules(this.rules.filter(existing => existing.id !== ruleId));
+    this.clearConditionState(ruleId);
+    console.log(`Automation rule deleted: ${rule.name} (${ruleId})`);
+  }
+
+  /**
+   * Get the execution log (most recent first)
+   */
+  getExecutionLog(limit?: number): AutomationExecution[] {
+    const log = [...this.executionLog].reverse();
+    return limit ? log.slice(0, limit) : log;
+  }
+
+  /**
+   * Evaluate all enabled rules against an environment reading
+   * Returns the executions that were triggered by this reading. Never throws,
+   * so a failing rule cannot interrupt the polling loop.
+   */
+  async evaluate(data: EnvironmentData): Promise<AutomationExecution[]> {
+    const executions: AutomationExecution[] = [];
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+
+      try {
+        this.updateConditionState(rule, data);
+
+        if (!this.isRuleSatisfied(rule, data.timestamp) ||
+            this.isCoolingDown(rule, data.timestamp) ||
+            this.runningRules.has(rule.id)) {
+          continue;
+        }
+
+        executions.push(await this.executeRule(rule, data));
+      } catch (error) {
+        console.error(`Failed to evaluate automation rule ${rule.name} (${rule.id}):`, error);
+      }
+    }
+
+    return executions;
+  }
+
+  /**
+   * Remember readings polled elsewhere (the WebSocket updates)
+   * The sampler uses them instead of reading the sensors again while they are
+   * younger than its interval, so an open dashboard costs no extra API calls.
+   */
+  recordReadings(readings: EnvironmentData[], now: Date = new Date()): void {
+    this.latestReadings = readings;
+    this.latestReadingsAt = now.getTime();
+  }
+
+  /**
+   * Check all enabled rules against the current sensor readings
+   * Sensors are only read while at least one rule is enabled. Executions are
+   * reported to the listeners; overlapping checks are skipped.
+   */
+  async sampleAll(now: Date = new Date()): Promise<AutomationExecution[]> {
+    if (this.isSampling || !this.rules.some(rule => rule.enabled)) {
+      return [];
+    }
+
+    this.isSampling = true;
+    const executions: AutomationExecution[] = [];
+    try {
+      const fresh = this.latestReadingsAt !== null && now.getTime() - this.latestReadingsAt < this.sampleIntervalMs;
+      const readings = fresh ? this.latestReadings : await this.readSensors();
+
+      for (const data of readings) {
+        for (const execution of await this.evaluate(data)) {
+          executions.push(execution);
+          this.notify(execution);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to read sensors for automation rules:', error);
+    } finally {
+      this.isSampling = false;
+    }
+
+    return executions;
+  }
+
+  /**
+   * Start checking rules periodically
+   * The interval stretches like the environment polling when the daily API budget runs low.
+   */
+  start(intervalMs: number = DEFAULT_AUTOMATION_SAMPLE_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`Automation sampler started (interval ${intervalMs}ms)`);
+    this.sampleIntervalMs = intervalMs;
+    this.scheduleNextSample();
+  }
+
+  /**
+   * Stop checking rules
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      console.log('Automation sampler stopped');
+    }
+  }
+
+  /**
+   * Register a listener for rule executions triggered by the sampler
+   * Returns a function that removes the listener.
+   */
+  onExecution(listener: AutomationExecutionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read all sensors and measure the requests the read sends
+   * Rule checks yield to commands and reads a user is waiting for.
+   */
+  private async readSensors(): Promise<EnvironmentData[]> {
+    const { result: readings, requests } = await this.requests.countRequests(
+      () => this.sensors.getAllEnvironmentData('background')
+    );
+    if (requests > 0) {
+      this.callsPerSample = requests;
+    }
+    return readings;
+  }
+
+  /**
+   * Schedule the next rule check within the daily API budget
+   */
+  private scheduleNextSample(): void {
+    const interval = budgetedPollInterval(this.sampleIntervalMs, this.callsPerSample, this.quota.getUsage());
+    if (interval > this.sampleIntervalMs) {
+      console.warn(`Daily API budget is running low, next automation check in ${Math.round(interval / 1000)}s`);
+    }
+
+    const timer = setTimeout(async () => {
+      await this.sampleAll();
+
+      // Skip when the sampler was stopped (or restarted) during the check
+      if (this.timer === timer) {
+        this.scheduleNextSample();
+      }
+    }, interval);
+    this.timer = timer;
+  }
+
+  private notify(execution: AutomationExecution): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(execution);
+      } catch (error) {
+        console.error('Automation execution listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Get service status
+   */
+  getStatus(): { ruleCount: number; enabledRuleCount: number; executionCount: number; storageType: string } {
+    return {
+      ruleCount: this.rules.length,
+      enabledRuleCount: this.rules.filter(rule => rule.enabled).length,
+      executionCount: this.executionLog.length,
+      storageType: this.filePath ? 'file' : 'memory'
+    };
+  }
+
+  /**
+   * Track since when each condition of a rule has been met for the reading's sensor
+   */
+  private updateConditionState(rule: AutomationRule, data: EnvironmentData): void {
+    const sensorKey = data.deviceId || 'default';
+
+    rule.conditions.forEach((condition, index) => {
+      if (condition.sensorId && condition.sensorId !== data.deviceId) {
+        return;
+      }
+
+      const key = `${rule.id}:${index}:${sensorKey}`;
+      if (isConditionMet(condition, data[condition.metric])) {
+        if (!this.conditionSince.has(key)) {
+          this.conditionSince.set(key, data.timestamp);
+        }
+      } else {
+        this.conditionSince.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Check whether every condition of a rule has been met for its full duration
+   * A condition without a sensor is met when any sensor meets it.
+   */
+  private isRuleSatisfied(rule: AutomationRule, now: Date): boolean {
+    return rule.conditions.every((condition, index) => {
+      const prefix = `${rule.id}:${index}:`;
+      const requiredSince = now.getTime() - condition.durationMinutes * 60 * 1000;
+
+      for (const [key, since] of this.conditionSince.entries()) {
+        if (key.startsWith(prefix) && since.getTime() <= requiredSince) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Check whether a rule triggered within its cooldown period
+   */
+  private isCoolingDown(rule: AutomationRule, now: Date): boolean {
+    if (!rule.lastTriggeredAt) {
+      return false;
+    }
+    return now.getTime() - rule.lastTriggeredAt.getTime() < rule.cooldownMinutes * 60 * 1000;
+  }
+
+  /**
+   * Run the actions of a triggered rule in order and record the execution
+   */
+  private async executeRule(rule: AutomationRule, data: EnvironmentData): Promise<AutomationExecution> {
+    console.log(`Automation rule triggered: ${rule.name} (${rule.id})`);
+    this.runningRules.add(rule.id);
+    rule.lastTriggeredAt = data.timestamp;
+
+    const results: AutomationActionResult[] = [];
+    try {
+      for (const action of rule.actions) {
+        try {
+          await this.controller.controlDevice(action.deviceId, action.command, action.parameter);
+          results.push({ ...action, success: true });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`Automation action ${action.command} on ${action.deviceId} failed:`, error);
+          results.push({ ...action, success: false, error: message });
+        }
+      }
+    } finally {
+      this.runningRules.delete(rule.id);
+    }
+
+    const execution: AutomationExecution = {
+      id: `exec-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      timestamp: new Date(),
+      success: results.every(result => result.success),
+      trigger: {
+        sensorId: data.deviceId,
+        temperature: data.temperature,
+        humidity: data.humidity,
+        light: data.light
+      },
+      actions: results
+    };
+    this.addToLog(execution);
+
+    // Persist lastTriggeredAt so cooldowns survive restarts
+    try {
+      this.saveToFile(this.rules);
+    } catch (error) {
+      console.error('Failed to persist automation rule state:', error);
+    }
+
+    return execution;
+  }
+
+  /**
+   * Add an execution to the log, keeping the log size bounded
+   */
+  private addToLog(execution: AutomationExecution): void {
+    this.executionLog.push(execution);
+    if (this.executionLog.length > this.MAX_LOG_SIZE) {
+      this.executionLog = this.executionLog.slice(-this.MAX_LOG_SIZE);
+    }
+  }
+
+  /**
+   * Forget the condition tracking of a rule
+   */
+  private clearConditionState(ruleId: string): void {
+    for (const key of Array.from(this.conditionSince.keys())) {
+      if (key.startsWith(`${ruleId}:`)) {
+        this.conditionSince.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Find a rule by ID or throw RULE_NOT_FOUND
+   */
+  private findRule(ruleId: string): AutomationRule {
+    const rule = this.rules.find(existing => existing.id === ruleId);
+    if (!rule) {
+      throw new AutomationServiceError(`Automation rule ${ruleId} not found`, 'RULE_NOT_FOUND');
+    }
+    return rule;
+  }
+
+  /**
+   * Validate rule input or throw VALIDATION_ERROR
+   */
+  private validateInput(input: Partial<AutomationRuleInput>): void {
+    const validation = AutomationRuleValidator.validate(input);
+    if (!validation.isValid) {
+      throw new AutomationServiceError(
+        `Automation rule validation failed: ${validation.errors.join(', ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Persist rules and apply them only after a successful save
+   */
+  private saveRules(rules: AutomationRule[]): void {
+    this.saveToFile(rules);
+    this.rules = rules;
+  }
+
+  /**
+   * Load rules from the rules file
+   */
+  private loadFromFile(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      console.log(`Automation rules file ${filePath} not found, starting without rules`);
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const storedRules: any[] = Array.isArray(raw?.rules) ? raw.rules : [];
+
+      for (const stored of storedRules) {
+        const validation = AutomationRuleValidator.validate(stored);
+        if (!stored.id || !validation.isValid) {
+          console.warn(`Skipping invalid automation rule ${stored?.id}: ${validation.errors.join(', ')}`);
+          continue;
+        }
+        this.rules.push(deserializeRule(stored));
+      }
+
+      console.log(`Loaded ${this.rules.length} automation rules from ${filePath}`);
+    } catch (error) {
+      console.error(`Failed to read automation rules file ${filePath}, starting without rules:`, error);
+      this.rules = [];
+    }
+  }
+
+  /**
+   * Persist rules to the rules file (no-op when running in memory)
+   */
+  private saveToFile(rules: AutomationRule[]): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const persisted = {
+      schemaVersion: AUTOMATION_SCHEMA_VERSION,
+      rules
+    };
+
+    try {
+      writeFileAtomic(this.filePath, `${JSON.stringify(persisted, null, 2)}\n`);
+    } catch (error) {
+      throw new AutomationServiceError(
+        `Failed to save automation rules to ${this.filePath}`,
+        'FILE_ERROR',
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Convert a stored rule back into a typed rule
+ */
+function deserializeRule(stored: any): AutomationRule {
+  const rule: AutomationRule = {
+    id: stored.id,
+    name: stored.name,
+    enabled: stored.enabled ?? true,
+    conditions: stored.conditions,
+    actions: stored.actions,
+    cooldownMinutes: stored.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt)
+  };
+  if (stored.lastTriggeredAt) {
+    rule.lastTriggeredAt = new Date(stored.lastTriggeredAt);
+  }
+  return rule;
+}
+
+/**
+ * Create a deep copy of a rule so callers cannot mutate internal state
+ */
+function cloneRule(rule: AutomationRule): AutomationRule {
+  return {
+    ...rule,
+    conditions: rule.conditions.map(condition => ({ ...condition })),
+    actions: rule.actions.map(action => ({ ...action }))
+  };
+}
+
+// Export singleton instance
+export const automationService = new AutomationService(
+  appConfig.automation.storage === 'file' ? appConfig.automation.filePath : null
+);
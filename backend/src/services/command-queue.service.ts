@@ -0,0 +1,220 @@
+/**
+ * Command queue service for SwitchBot Dashboard
+ * Device commands are accepted immediately and executed in the background, one
+ * after another per device, so an HTTP request never waits for the request
+ * scheduler and retries. Every status change is reported to listeners (the
+ * WebSocket service forwards them to browsers as commandStatus events).
+ */
+
+import { DeviceCommand, SWITCHBOT_SUCCESS_STATUS_CODE, isCommandFinished } from '../models/command';
+import { CommandType, SwitchBotAPIError } from '../utils/switchbot-api';
+import { deviceService, DeviceService, DeviceServiceError } from './device.service';
+
+/**
+ * Device control used to execute queued commands
+ */
+export type CommandDeviceController = Pick<
+  DeviceService,
+  'getDeviceById' | 'assertControllable' | 'controlDevice' | 'sendCustomizeCommand'
+>;
+
+/**
+ * Listener called with every status change of a command
+ */
+export type CommandStatusListener = (command: DeviceCommand) => void;
+
+/**
+ * Number of commands kept for status queries; the oldest finished ones are dropped first
+ */
+export const MAX_TRACKED_COMMANDS = 500;
+
+/**
+ * Command queue service error types
+ */
+export type CommandQueueServiceErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'COMMAND_NOT_FOUND';
+
+/**
+ * Command queue service error class
+ */
+export class CommandQueueServiceError extends Error {
+  constructor(
+    message: string,
+    public code: CommandQueueServiceErrorCode,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'CommandQueueServiceError';
+  }
+}
+
+/**
+ * Command queue service class
+ */
+export class CommandQueueService {
+  private commands: Map<string, DeviceCommand> = new Map();
+  private deviceQueues: Map<string, Promise<void>> = new Map();
+  private listeners: Set<CommandStatusListener> = new Set();
+  private readonly devices: CommandDeviceController;
+
+  /**
+   * @param devices Device control used to execute commands
+   */
+  constructor(devices: CommandDeviceController = deviceService) {
+    this.devices = devices;
+  }
+
+  /**
+   * Queue a command for a device
+   * Unknown and uncontrollable devices are rejected right away (DeviceServiceError);
+   * failures of the command itself are reported through its status.
+   * With commandType 'customize' the command is the name of a button learned by an IR remote.
+   */
+  async enqueue(
+    deviceId: string,
+    command: unknown,
+    parameter?: any,
+    commandType: CommandType = 'command'
+  ): Promise<DeviceCommand> {
+    if (typeof command !== 'string' || command.trim() === '') {
+      throw new CommandQueueServiceError('Command is required and must be a string', 'VALIDATION_ERROR');
+    }
+
+    const device = await this.devices.getDeviceById(deviceId);
+    if (commandType === 'customize') {
+      // Learned buttons can be sent to IR remotes of any type
+      if (!device.isInfraredRemote) {
+        throw new DeviceServiceError(`Device ${deviceId} is not an infrared remote`, 'VALIDATION_ERROR');
+      }
+    } else {
+      this.devices.assertControllable(device);
+    }
+
+    const now = new Date();
+    const entry: DeviceCommand = {
+      id: `cmd-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      deviceId,
+      command,
+      parameter,
+      commandType,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.commands.set(entry.id, entry);
+    this.pruneCommands();
+    this.notify(entry);
+
+    // Commands of the same device run in the order they were sent
+    const previous = this.deviceQueues.get(deviceId) ?? Promise.resolve();
+    const run = previous.then(() => this.execute(entry));
+    this.deviceQueues.set(deviceId, run);
+    run.then(() => {
+      if (this.deviceQueues.get(deviceId) === run) {
+        this.deviceQueues.delete(deviceId);
+      }
+    });
+
+    return { ...entry };
+  }
+
+  /**
+   * Get a command by ID
+   */
+  getCommand(commandId: string): DeviceCommand {
+    const command = this.commands.get(commandId);
+    if (!command) {
+      throw new CommandQueueServiceError(`Command ${commandId} not found`, 'COMMAND_NOT_FOUND');
+    }
+    return { ...command };
+  }
+
+  /**
+   * Register a listener for command status changes
+   * Returns a function that removes the listener.
+   */
+  onStatusChange(listener: CommandStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wait until every queued command has finished
+   */
+  async waitForIdle(): Promise<void> {
+    while (this.deviceQueues.size > 0) {
+      await Promise.all(this.deviceQueues.values());
+    }
+  }
+
+  private async execute(entry: DeviceCommand): Promise<void> {
+    this.update(entry, { status: 'sending' });
+
+    try {
+      if (entry.commandType === 'customize') {
+        await this.devices.sendCustomizeCommand(entry.deviceId, entry.command);
+      } else {
+        await this.devices.controlDevice(entry.deviceId, entry.command, entry.parameter);
+      }
+      this.update(entry, {
+        status: 'succeeded',
+        statusCode: SWITCHBOT_SUCCESS_STATUS_CODE,
+        completedAt: new Date()
+      });
+    } catch (error) {
+      this.update(entry, {
+        status: 'failed',
+        statusCode: getSwitchBotStatusCode(error),
+        error: {
+          code: error instanceof DeviceServiceError ? error.code : 'UNKNOWN_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred while controlling device'
+        },
+        completedAt: new Date()
+      });
+    }
+  }
+
+  private update(entry: DeviceCommand, changes: Partial<DeviceCommand>): void {
+    Object.assign(entry, changes, { updatedAt: new Date() });
+    this.notify(entry);
+  }
+
+  private notify(entry: DeviceCommand): void {
+    for (const listener of this.listeners) {
+      try {
+        listener({ ...entry });
+      } catch (error) {
+        console.error('Command status listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Drop the oldest finished commands beyond MAX_TRACKED_COMMANDS
+   */
+  private pruneCommands(): void {
+    for (const [id, command] of this.commands) {
+      if (this.commands.size <= MAX_TRACKED_COMMANDS) {
+        return;
+      }
+      if (isCommandFinished(command)) {
+        this.commands.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Extract the status code SwitchBot reported for a failed command
+ */
+function getSwitchBotStatusCode(error: unknown): number | undefined {
+  const cause = error instanceof DeviceServiceError ? error.originalError : error;
+  return cause instanceof SwitchBotAPIError ? cause.statusCode : undefined;
+}
+
+// Export singleton instance
+export const commandQueueService = new CommandQueueService();
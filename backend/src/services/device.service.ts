@@ -3,6 +3,7 @@
  */
 
 import { switchBotAPI, SwitchBotAPIError } from '../utils/switchbot-api';
+import { RequestPriority } from '../utils/request-scheduler';
 import { 
   Device, 
   DeviceValidator, 
@@ -12,8 +13,24 @@ import {
   DeviceStatus,
   LightProperties,
   AirConditionerProperties,
-  HubProperties
+  HubProperties,
+  CurtainProperties,
+  PlugProperties,
+  BotProperties,
+  TVProperties,
+  FanProperties,
+  LockProperties,
+  MeterProperties
 } from '../models/device';
+import {
+  AirConditionerCommandError,
+  DEFAULT_AIR_CONDITIONER_STATE,
+  applyAirConditionerCommand,
+  buildSetAllParameter
+} from '../models/air-conditioner';
+import { IR_REMOTE_COMMANDS, MAX_TV_CHANNEL } from '../models/ir-remote';
+import { parseLightColor } from '../models/light';
+import { LockAction } from '../models/lock';
 
 /**
  * Device service error types
@@ -40,6 +57,17 @@ export class DeviceServiceError extends Error {
   }
 }
 
+/**
+ * Status fields whose parsed property has a different name
+ */
+const STATUS_FIELD_PROPERTIES: Record<string, string> = {
+  slidePosition: 'position',
+  electricCurrent: 'current',
+  weight: 'power_consumption',
+  CO2: 'co2',
+  deviceMode: 'mode'
+};
+
 /**
  * Device service class
  */
@@ -64,6 +92,13 @@ export class DeviceService {
       const devices: Device[] = [];
       const validationErrors: string[] = [];
 
+      // IR devices cannot report their state, so keep the state tracked before the refresh
+      const previousIRProperties = new Map(
+        this.devices
+          .filter(device => device.isInfraredRemote && device.properties)
+          .map(device => [device.deviceId, device.properties])
+      );
+
       // Process regular devices
       for (const rawDevice of response.body.deviceList) {
         const validation = DeviceValidator.validateSwitchBotDevice(rawDevice);
@@ -78,8 +113,9 @@ export class DeviceService {
       for (const rawDevice of response.body.infraredRemoteList) {
         const validation = DeviceValidator.validateInfraredRemoteDevice(rawDevice);
         if (validation.isValid && validation.device) {
-          // Set default properties for IR devices
-          validation.device.properties = this.getDefaultPropertiesForIRDevice(validation.device.deviceType);
+          // Restore tracked properties for IR devices, or set defaults for new ones
+          validation.device.properties = previousIRProperties.get(validation.device.deviceId)
+            ?? this.getDefaultPropertiesForIRDevice(validation.device.deviceType);
           validation.device.status = 'online'; // Assume IR devices are online if they exist
           devices.push(validation.device);
         } else {
@@ -167,8 +203,9 @@ export class DeviceService {
 
   /**
    * Update device status
+   * @param priority Lane of the status request ('background' for periodic sampling)
    */
-  async updateDeviceStatus(deviceId: string): Promise<Device> {
+  async updateDeviceStatus(deviceId: string, priority: RequestPriority = 'read'): Promise<Device> {
     try {
       const device = await this.getDeviceById(deviceId);
       
@@ -198,7 +235,7 @@ export class DeviceService {
       }
       
       console.log(`Updating status for device: ${device.deviceName} (${deviceId})`);
-      const statusResponse = await switchBotAPI.getDeviceStatus(deviceId);
+      const statusResponse = await switchBotAPI.getDeviceStatus(deviceId, priority);
       
       // Update device properties based on type
       device.properties = this.parseDeviceProperties(device.deviceType, statusResponse.body);
@@ -246,12 +283,12 @@ export class DeviceService {
       
       console.log(`Controlling device: ${device.deviceName} (${deviceId}) - Command: ${command}`);
       
-      // Validate that device is controllable
-      if (!DeviceValidator.isControllableDevice(device.deviceType)) {
-        throw new DeviceServiceError(
-          `Device type ${device.deviceType} is not controllable`,
-          'CONTROL_ERROR'
-        );
+      this.assertControllable(device);
+      
+      // IR air conditioners always receive their full state with setAll
+      if (device.isInfraredRemote && device.deviceType === 'Air Conditioner') {
+        await this.controlIRAirConditioner(device, command, parameter);
+        return;
       }
       
       // Map commands for IR devices to supported API commands
@@ -301,6 +338,113 @@ export class DeviceService {
     }
   }
 
+  /**
+   * Check that a device accepts commands through controlDevice
+   */
+  assertControllable(device: Device): void {
+    if (!DeviceValidator.isControllableDevice(device.deviceType)) {
+      throw new DeviceServiceError(
+        `Device type ${device.deviceType} is not controllable`,
+        'CONTROL_ERROR'
+      );
+    }
+
+    // Locks are only operated through the confirmed lock routes (see lock.service)
+    if (device.deviceType === 'Lock') {
+      throw new DeviceServiceError(
+        'Locks can only be locked or unlocked with a confirmation token',
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Lock or unlock a Lock / Lock Pro
+   * Callers are responsible for confirming the action; use lockService instead of calling this directly.
+   */
+  async controlLock(deviceId: string, action: LockAction): Promise<void> {
+    try {
+      const device = await this.getDeviceById(deviceId);
+
+      if (device.deviceType !== 'Lock') {
+        throw new DeviceServiceError(
+          `Device ${deviceId} is not a lock`,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      console.log(`Sending ${action} to lock ${device.deviceName} (${deviceId})`);
+      await switchBotAPI.sendDeviceCommand(deviceId, action);
+
+      setTimeout(() => {
+        this.updateDeviceStatus(deviceId).catch(error => {
+          console.warn(`Failed to update lock status after ${action}: ${error.message}`);
+        });
+      }, 1000); // Wait 1 second before updating status
+
+    } catch (error) {
+      console.error(`Failed to ${action} device ${deviceId}:`, error);
+
+      if (error instanceof DeviceServiceError) {
+        throw error;
+      }
+
+      if (error instanceof SwitchBotAPIError) {
+        throw new DeviceServiceError(
+          `Failed to ${action}: ${error.message}`,
+          'CONTROL_ERROR',
+          error
+        );
+      }
+
+      throw new DeviceServiceError(
+        `Unknown error occurred while sending ${action} to device ${deviceId}`,
+        'UNKNOWN_ERROR',
+        error
+      );
+    }
+  }
+
+  /**
+   * Send a button learned by an IR remote (commandType 'customize')
+   */
+  async sendCustomizeCommand(deviceId: string, buttonName: string): Promise<void> {
+    try {
+      const device = await this.getDeviceById(deviceId);
+
+      if (!device.isInfraredRemote) {
+        throw new DeviceServiceError(
+          `Device ${deviceId} is not an infrared remote`,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      console.log(`Sending learned button "${buttonName}" to IR device ${device.deviceName} (${deviceId})`);
+      await switchBotAPI.sendDeviceCommand(deviceId, buttonName, 'default', 'customize');
+
+    } catch (error) {
+      console.error(`Failed to send learned button to device ${deviceId}:`, error);
+
+      if (error instanceof DeviceServiceError) {
+        throw error;
+      }
+
+      if (error instanceof SwitchBotAPIError) {
+        throw new DeviceServiceError(
+          `Failed to send learned button: ${error.message}`,
+          'CONTROL_ERROR',
+          error
+        );
+      }
+
+      throw new DeviceServiceError(
+        `Unknown error occurred while sending learned button to device ${deviceId}`,
+        'UNKNOWN_ERROR',
+        error
+      );
+    }
+  }
+
   /**
    * Test device connectivity
    */
@@ -337,7 +481,9 @@ export class DeviceService {
     };
     
     // Count devices by type
-    const deviceTypes: DeviceType[] = ['Light', 'Air Conditioner', 'Hub', 'Bot', 'Curtain', 'Plug', 'Unknown'];
+    const deviceTypes: DeviceType[] = [
+      'Light', 'Air Conditioner', 'Hub', 'Bot', 'Curtain', 'Plug', 'TV', 'Fan', 'Speaker', 'Projector', 'Lock', 'Keypad', 'Meter', 'Unknown'
+    ];
     deviceTypes.forEach(type => {
       stats.byType[type] = devices.filter(d => d.deviceType === type).length;
     });
@@ -345,6 +491,32 @@ export class DeviceService {
     return stats;
   }
 
+  /**
+   * Apply a state change pushed by a SwitchBot webhook to the cached device
+   * The status is parsed like a status API response and only the properties of the
+   * reported fields are merged, since events only carry the fields that changed. Returns null when
+   * the device is not in the cache.
+   */
+  applyStateChange(deviceId: string, status: Record<string, unknown>, timestamp: Date = new Date()): Device | null {
+    const device = this.devices.find(d => d.deviceId === deviceId);
+    if (!device || device.isInfraredRemote) {
+      return null;
+    }
+
+    // Parsers fill defaults for missing fields; only merge what the event reported
+    const reported = new Set(Object.keys(status).map(field => STATUS_FIELD_PROPERTIES[field] ?? field));
+    const parsed = this.parseDeviceProperties(device.deviceType, status);
+    const changed = Object.fromEntries(
+      Object.entries(parsed).filter(([key, value]) => reported.has(key) && value !== undefined)
+    );
+
+    device.properties = { ...(device.properties || {}), ...changed } as Device['properties'];
+    device.status = 'online';
+    device.lastUpdated = timestamp;
+
+    return device;
+  }
+
   /**
    * Clear device cache
    */
@@ -378,6 +550,16 @@ export class DeviceService {
         return this.parseAirConditionerProperties(statusBody);
       case 'Hub':
         return this.parseHubProperties(statusBody);
+      case 'Bot':
+        return this.parseBotProperties(statusBody);
+      case 'Curtain':
+        return this.parseCurtainProperties(statusBody);
+      case 'Plug':
+        return this.parsePlugProperties(statusBody);
+      case 'Lock':
+        return this.parseLockProperties(statusBody);
+      case 'Meter':
+        return this.parseMeterProperties(statusBody);
       default:
         return statusBody;
     }
@@ -391,11 +573,7 @@ export class DeviceService {
       power: statusBody.power === 'on' ? 'on' : 'off',
       brightness: statusBody.brightness || undefined,
       colorTemperature: statusBody.colorTemperature || undefined,
-      color: statusBody.color ? {
-        red: statusBody.color.red || 0,
-        green: statusBody.color.green || 0,
-        blue: statusBody.color.blue || 0
-      } : undefined
+      color: parseLightColor(statusBody.color)
     };
   }
 
@@ -423,6 +601,89 @@ export class DeviceService {
     };
   }
 
+  /**
+   * Parse meter device properties
+   * Only the CO2 Meter reports CO2 (as "CO2" in the status response).
+   */
+  private parseMeterProperties(statusBody: any): MeterProperties {
+    return {
+      temperature: typeof statusBody.temperature === 'number' ? statusBody.temperature : undefined,
+      humidity: typeof statusBody.humidity === 'number' ? statusBody.humidity : undefined,
+      co2: typeof statusBody.CO2 === 'number' ? statusBody.CO2 : undefined,
+      battery: typeof statusBody.battery === 'number' ? statusBody.battery : undefined
+    };
+  }
+
+  /**
+   * Parse bot device properties
+   */
+  private parseBotProperties(statusBody: any): BotProperties {
+    const modes: Record<string, BotProperties['mode']> = {
+      pressMode: 'press',
+      switchMode: 'switch',
+      customizeMode: 'customize'
+    };
+
+    return {
+      power: statusBody.power === 'on' ? 'on' : 'off',
+      battery: typeof statusBody.battery === 'number' ? statusBody.battery : undefined,
+      mode: modes[statusBody.deviceMode]
+    };
+  }
+
+  /**
+   * Parse lock device properties
+   * doorState is only reported once the door sensor is calibrated in the SwitchBot app.
+   */
+  private parseLockProperties(statusBody: any): LockProperties {
+    const lockStates: Record<string, LockProperties['lockState']> = {
+      locked: 'locked',
+      unlocked: 'unlocked',
+      jammed: 'jammed'
+    };
+    const doorStates: Record<string, LockProperties['doorState']> = {
+      opened: 'opened',
+      open: 'opened',
+      closed: 'closed',
+      close: 'closed'
+    };
+
+    return {
+      lockState: lockStates[String(statusBody.lockState).toLowerCase()] || 'unknown',
+      doorState: doorStates[String(statusBody.doorState).toLowerCase()],
+      battery: typeof statusBody.battery === 'number' ? statusBody.battery : undefined
+    };
+  }
+
+  /**
+   * Parse curtain device properties
+   */
+  private parseCurtainProperties(statusBody: any): CurtainProperties {
+    return {
+      position: typeof statusBody.slidePosition === 'number' ? statusBody.slidePosition : 0,
+      moving: statusBody.moving === true,
+      battery: typeof statusBody.battery === 'number' ? statusBody.battery : undefined,
+      calibrate: typeof statusBody.calibrate === 'boolean' ? statusBody.calibrate : undefined
+    };
+  }
+
+  /**
+   * Parse plug device properties
+   * Plug Mini reports the power draw as "weight" (W) and the current as "electricCurrent" (A)
+   */
+  private parsePlugProperties(statusBody: any): PlugProperties {
+    const toNumber = (value: any): number | undefined =>
+      typeof value === 'number' && isFinite(value) ? value : undefined;
+
+    return {
+      power: statusBody.power === 'on' ? 'on' : 'off',
+      voltage: toNumber(statusBody.voltage),
+      current: toNumber(statusBody.electricCurrent),
+      power_consumption: toNumber(statusBody.weight),
+      electricityOfDay: toNumber(statusBody.electricityOfDay)
+    };
+  }
+
   /**
    * Get default properties for infrared remote devices
    */
@@ -434,12 +695,12 @@ export class DeviceService {
           brightness: 50
         } as LightProperties;
       case 'Air Conditioner':
-        return {
-          power: 'off',
-          mode: 'auto',
-          temperature: 25,
-          fanSpeed: 'auto'
-        } as AirConditionerProperties;
+        return { ...DEFAULT_AIR_CONDITIONER_STATE };
+      case 'TV':
+      case 'Fan':
+      case 'Speaker':
+      case 'Projector':
+        return { power: 'off' };
       default:
         return {};
     }
@@ -467,53 +728,66 @@ export class DeviceService {
             } else {
               return { mappedCommand: 'brightnessDown' };
             }
+          case 'setColor':
           case 'setColorTemperature':
-            // For IR lights, color temperature control might not be available
-            // Return the original command and let the API handle it
-            return { mappedCommand: 'setColor', mappedParameter: { temperature: parameter } };
+            // IR lights only have the buttons of their remote
+            throw new DeviceServiceError(
+              `IR lights do not support ${command}`,
+              'VALIDATION_ERROR'
+            );
           default:
             return { mappedCommand: command, mappedParameter: parameter };
         }
-      case 'Air Conditioner':
-        switch (command) {
-          case 'turnOn':
-            return { mappedCommand: 'turnOn' };
-          case 'turnOff':
-            return { mappedCommand: 'turnOff' };
-          case 'setMode':
-            // For IR AC, try the simplest possible approach
-            const mode = parameter;
-            if (!['cool', 'heat', 'dry', 'auto', 'fan'].includes(mode)) {
-              throw new DeviceServiceError(`Unsupported AC mode: ${mode}`, 'CONTROL_ERROR');
-            }
-            
-            console.log(`IR AC mode change: ${mode} - trying power toggle as workaround`);
-            
-            // Since mode control is not working, use power toggle as a workaround
-            // This at least provides some interaction with the device
-            return { mappedCommand: 'turnOn' };
-            
-          case 'setTemperature':
-            // For IR AC, try the simplest possible approach
-            const temp = typeof parameter === 'number' ? parameter : parseInt(parameter);
-            if (temp < 16 || temp > 30) {
-              throw new DeviceServiceError('Temperature must be between 16 and 30 degrees', 'CONTROL_ERROR');
-            }
-            
-            console.log(`IR AC temperature change: ${temp} - trying power toggle as workaround`);
-            
-            // Since temperature control is not working, use power toggle as a workaround
-            // This at least provides some interaction with the device
-            return { mappedCommand: 'turnOn' };
-            
-          default:
-            return { mappedCommand: command, mappedParameter: parameter };
+      case 'TV':
+      case 'Fan':
+      case 'Speaker':
+      case 'Projector':
+        if (!IR_REMOTE_COMMANDS[deviceType].includes(command)) {
+          throw new DeviceServiceError(
+            `Command ${command} is not supported by ${deviceType} remotes`,
+            'VALIDATION_ERROR'
+          );
+        }
+        if (command === 'SetChannel') {
+          const channel = typeof parameter === 'number' ? parameter : parseInt(parameter, 10);
+          if (!Number.isInteger(channel) || channel < 1 || channel > MAX_TV_CHANNEL) {
+            throw new DeviceServiceError(
+              `Channel must be an integer between 1 and ${MAX_TV_CHANNEL}`,
+              'VALIDATION_ERROR'
+            );
+          }
+          return { mappedCommand: command, mappedParameter: String(channel) };
         }
+        return { mappedCommand: command };
       default:
         return { mappedCommand: command, mappedParameter: parameter };
     }
   }
 
+  /**
+   * Control an IR air conditioner by sending its full tracked state with setAll
+   * The tracked state only changes once the command has been sent successfully.
+   */
+  private async controlIRAirConditioner(device: Device, command: string, parameter?: any): Promise<void> {
+    const currentState = (device.properties as AirConditionerProperties) ?? DEFAULT_AIR_CONDITIONER_STATE;
+
+    let nextState: AirConditionerProperties;
+    try {
+      nextState = applyAirConditionerCommand(currentState, command, parameter);
+    } catch (error) {
+      if (error instanceof AirConditionerCommandError) {
+        throw new DeviceServiceError(error.message, 'VALIDATION_ERROR', error);
+      }
+      throw error;
+    }
+
+    await switchBotAPI.sendDeviceCommand(device.deviceId, 'setAll', buildSetAllParameter(nextState));
+
+    device.properties = nextState;
+    device.lastUpdated = new Date();
+    console.log(`Updated local state for IR device ${device.deviceName}:`, device.properties);
+  }
+
   /**
    * Update local state for IR devices based on control commands
    */
@@ -538,44 +812,62 @@ export class DeviceService {
               lightProps.power = 'on'; // Assume turning on when setting brightness
             }
             break;
-          case 'setColorTemperature':
-            if (parameter !== undefined) {
-              lightProps.colorTemperature = typeof parameter === 'number' ? parameter : parseInt(parameter);
-              lightProps.power = 'on'; // Assume turning on when setting color temperature
-            }
-            break;
         }
         break;
 
-      case 'Air Conditioner':
-        const acProps = device.properties as AirConditionerProperties;
-        switch (command) {
-          case 'turnOn':
-            acProps.power = 'on';
-            break;
-          case 'turnOff':
-            acProps.power = 'off';
-            break;
-          case 'setMode':
-            if (parameter) {
-              acProps.mode = parameter;
-              acProps.power = 'on'; // Assume turning on when setting mode
-            }
-            break;
-          case 'setTemperature':
-            if (parameter !== undefined) {
-              acProps.temperature = typeof parameter === 'number' ? parameter : parseInt(parameter);
-              acProps.power = 'on'; // Assume turning on when setting temperature
-            }
-            break;
-        }
+      case 'TV':
+      case 'Fan':
+      case 'Speaker':
+      case 'Projector':
+        this.updateIRRemoteLocalState(device.properties as TVProperties & FanProperties, command, parameter);
         break;
     }
 
     device.lastUpdated = new Date();
     console.log(`Updated local state for IR device ${device.deviceName}:`, device.properties);
   }
+
+  /**
+   * Update the tracked state of TV, fan, speaker and projector remotes
+   * Commands are validated per remote type before they are sent, so each command only reaches its own type.
+   */
+  private updateIRRemoteLocalState(properties: TVProperties & FanProperties, command: string, parameter?: any): void {
+    switch (command) {
+      case 'turnOn':
+        properties.power = 'on';
+        break;
+      case 'turnOff':
+        properties.power = 'off';
+        break;
+      case 'SetChannel':
+        properties.channel = typeof parameter === 'number' ? parameter : parseInt(parameter, 10);
+        properties.power = 'on';
+        break;
+      case 'channelAdd':
+        if (properties.channel !== undefined) {
+          properties.channel = Math.min(MAX_TV_CHANNEL, properties.channel + 1);
+        }
+        break;
+      case 'channelSub':
+        if (properties.channel !== undefined) {
+          properties.channel = Math.max(1, properties.channel - 1);
+        }
+        break;
+      case 'lowSpeed':
+        properties.speed = 'low';
+        properties.power = 'on';
+        break;
+      case 'middleSpeed':
+        properties.speed = 'middle';
+        properties.power = 'on';
+        break;
+      case 'highSpeed':
+        properties.speed = 'high';
+        properties.power = 'on';
+        break;
+    }
+  }
 }
 
 // Export singleton instance
-export const deviceService = new DeviceService();
\ No newline at end of file
+export const deviceService = new DeviceService();
@@ -0,0 +1,488 @@
+/**
+ * Energy history service for SwitchBot Dashboard
+ * Samples the power readings of Plug / Plug Mini devices and keeps them per plug,
+ * together with daily kWh totals, backed by pluggable history stores.
+ */
+
+import {
+  PowerReading,
+  DailyEnergy,
+  MonthlyEnergy,
+  EnergyPeriod,
+  ENERGY_PERIOD_HOURS,
+  energyBetween,
+  startOfDay,
+  monthKeyOf
+} from '../models/energy';
+import { PlugProperties } from '../models/device';
+import { config as appConfig } from '../config';
+import { HistoryStore, InMemoryHistoryStore, createHistoryStore } from './history-store';
+import { deviceService, DeviceService } from './device.service';
+import { apiQuotaTracker, ApiQuotaTracker, budgetedPollInterval } from '../utils/api-quota';
+import { switchBotClient, RequestCounter } from '../utils/switchbot-client';
+
+/**
+ * Default interval between two power samples
+ */
+export const DEFAULT_ENERGY_SAMPLE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Device access used to sample plugs
+ */
+export type EnergyDeviceSource = Pick<DeviceService, 'getAllDevices' | 'updateDeviceStatus'>;
+
+/**
+ * Energy summary of a single plug
+ */
+export interface PlugEnergySummary {
+  deviceId: string;
+  latest: PowerReading | null;
+  todayKWh: number;
+  monthKWh: number;
+}
+
+/**
+ * Energy history service configuration
+ */
+interface EnergyHistoryConfig {
+  retentionHours: number;      // Retention of raw power readings
+  dailyRetentionDays: number;  // Retention of daily kWh totals
+}
+
+/**
+ * Energy history service class
+ */
+export class EnergyHistoryService {
+  private readings: Map<string, PowerReading[]> = new Map();
+  private daily: Map<string, DailyEnergy[]> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private isSampling: boolean = false;
+  private lastSampleAt: Date | null = null;
+  private sampleIntervalMs: number = DEFAULT_ENERGY_SAMPLE_INTERVAL_MS;
+  private callsPerSample: number = 1; // Estimate until the first sample has been measured
+  private readonly config: EnergyHistoryConfig;
+  private readonly store: HistoryStore<PowerReading>;
+  private readonly dailyStore: HistoryStore<DailyEnergy>;
+  private readonly devices: EnergyDeviceSource;
+  private readonly quota: Pick<ApiQuotaTracker, 'getUsage'>;
+  private readonly requests: RequestCounter;
+
+  /**
+   * @param config Retention settings
+   * @param store Store of the raw power readings
+   * @param dailyStore Store of the daily kWh totals
+   * @param devices Device access used to sample plugs
+   * @param quota Daily API usage the sampling interval is budgeted against
+   * @param requests Counter of the requests a sample sends
+   */
+  constructor(
+    config: Partial<EnergyHistoryConfig> = {},
+    store?: HistoryStore<PowerReading>,
+    dailyStore?: HistoryStore<DailyEnergy>,
+    devices: EnergyDeviceSource = deviceService,
+    quota: Pick<ApiQuotaTracker, 'getUsage'> = apiQuotaTracker,
+    requests: RequestCounter = switchBotClient
+  ) {
+    this.config = {
+      retentionHours: config.retentionHours || 24 * 7,
+      dailyRetentionDays: config.dailyRetentionDays || 400
+    };
+    this.store = store || new InMemoryHistoryStore<PowerReading>();
+    this.dailyStore = dailyStore || new InMemoryHistoryStore<DailyEnergy>();
+    this.devices = devices;
+    this.quota = quota;
+    this.requests = requests;
+
+    this.loadFromStores();
+  }
+
+  /**
+   * Restore persisted readings and daily totals
+   */
+  private loadFromStores(): void {
+    try {
+      for (const reading of this.store.load()) {
+        this.getOrCreate(this.readings, reading.deviceId).push(reading);
+      }
+    } catch (error) {
+      console.error('Failed to load energy history from store, starting empty:', error);
+      this.readings.clear();
+    }
+
+    try {
+      for (const day of this.dailyStore.load()) {
+        this.getOrCreate(this.daily, day.deviceId).push(day);
+      }
+    } catch (error) {
+      console.error('Failed to load daily energy totals from store, starting empty:', error);
+      this.daily.clear();
+    }
+
+    if (this.cleanupOldReadings()) {
+      this.persistReadings();
+    }
+    if (this.cleanupOldDailyTotals()) {
+      this.persistDailyTotals();
+    }
+  }
+
+  /**
+   * Add a power reading and fold the energy used since the previous reading into the daily total
+   * Readings older than the latest reading of the same plug are ignored.
+   */
+  addReading(reading: PowerReading): void {
+    const readings = this.getOrCreate(this.readings, reading.deviceId);
+    const previous = readings[readings.length - 1];
+
+    if (previous && reading.timestamp <= previous.timestamp) {
+      console.warn(`Ignoring out-of-order power reading for ${reading.deviceId} at ${reading.timestamp.toISOString()}`);
+      return;
+    }
+
+    readings.push(reading);
+    this.persist(() => this.store.append(reading));
+
+    // Energy of an interval is counted on the day the interval ends
+    this.addToDailyTotal(reading.deviceId, reading.timestamp, previous ? energyBetween(previous, reading) : 0);
+
+    if (this.cleanupOldReadings() || this.store.shouldCompact()) {
+      this.persistReadings();
+    }
+    if (this.cleanupOldDailyTotals() || this.dailyStore.shouldCompact()) {
+      this.persistDailyTotals();
+    }
+  }
+
+  /**
+   * Get the power readings of a plug for a time period
+   */
+  getReadings(deviceId: string, period: EnergyPeriod, now: Date = new Date()): PowerReading[] {
+    const startTime = new Date(now.getTime() - ENERGY_PERIOD_HOURS[period] * 60 * 60 * 1000);
+    return (this.readings.get(deviceId) || []).filter(reading => reading.timestamp >= startTime);
+  }
+
+  /**
+   * Get the most recent power reading of a plug
+   */
+  getLatestReading(deviceId: string): PowerReading | null {
+    const readings = this.readings.get(deviceId) || [];
+    return readings[readings.length - 1] || null;
+  }
+
+  /**
+   * Get the daily kWh totals of a plug for the last days (including today)
+   */
+  getDailyTotals(deviceId: string, days: number = 30, now: Date = new Date()): DailyEnergy[] {
+    const firstDay = startOfDay(now);
+    firstDay.setDate(firstDay.getDate() - (days - 1));
+    return (this.daily.get(deviceId) || []).filter(day => day.timestamp >= firstDay);
+  }
+
+  /**
+   * Get the monthly kWh totals of a plug for the last months (including this month)
+   */
+  getMonthlyTotals(deviceId: string, months: number = 12, now: Date = new Date()): MonthlyEnergy[] {
+    const firstMonth = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+    const totals = new Map<string, MonthlyEnergy>();
+
+    for (const day of this.daily.get(deviceId) || []) {
+      if (day.timestamp < firstMonth) continue;
+
+      const month = monthKeyOf(day.timestamp);
+      const total = totals.get(month) || { month, deviceId, kWh: 0, days: 0 };
+      total.kWh += day.kWh;
+      total.days++;
+      totals.set(month, total);
+    }
+
+    return Array.from(totals.values());
+  }
+
+  /**
+   * Get the energy summary of every plug with readings
+   */
+  getSummaries(now: Date = new Date()): PlugEnergySummary[] {
+    const deviceIds = new Set([...this.readings.keys(), ...this.daily.keys()]);
+    const today = startOfDay(now).getTime();
+    const month = monthKeyOf(now);
+
+    return Array.from(deviceIds).map(deviceId => {
+      const days = this.daily.get(deviceId) || [];
+      return {
+        deviceId,
+        latest: this.getLatestReading(deviceId),
+        todayKWh: days.find(day => day.timestamp.getTime() === today)?.kWh || 0,
+        monthKWh: days
+          .filter(day => monthKeyOf(day.timestamp) === month)
+          .reduce((sum, day) => sum + day.kWh, 0)
+      };
+    });
+  }
+
+  /**
+   * Fetch the status of every plug and record its power reading
+   * Never throws; returns the number of readings recorded.
+   */
+  async sampleAll(now: Date = new Date()): Promise<number> {
+    if (this.isSampling) {
+      return 0;
+    }
+
+    this.isSampling = true;
+
+    try {
+      const { result: recorded, requests } = await this.requests.countRequests(() => this.samplePlugs(now));
+      if (requests > 0) {
+        this.callsPerSample = requests;
+      }
+      return recorded;
+    } finally {
+      this.isSampling = false;
+    }
+  }
+
+  /**
+   * Start sampling plugs periodically
+   * The interval stretches like the environment polling when the daily API budget runs low.
+   */
+  start(intervalMs: number = DEFAULT_ENERGY_SAMPLE_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`Energy sampling started (interval ${intervalMs}ms)`);
+    this.sampleIntervalMs = intervalMs;
+    this.sampleAll();
+    this.scheduleNextSample();
+  }
+
+  /**
+   * Stop sampling plugs
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      console.log('Energy sampling stopped');
+    }
+  }
+
+  /**
+   * Clear the history of a plug, or of all plugs
+   */
+  clearHistory(deviceId?: string): void {
+    if (deviceId) {
+      this.readings.delete(deviceId);
+      this.daily.delete(deviceId);
+    } else {
+      this.readings.clear();
+      this.daily.clear();
+    }
+    this.persistReadings();
+    this.persistDailyTotals();
+  }
+
+  /**
+   * Get service status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    lastSampleAt: Date | null;
+    storageType: string;
+    plugs: { deviceId: string; readingCount: number; dayCount: number }[];
+  } {
+    const deviceIds = new Set([...this.readings.keys(), ...this.daily.keys()]);
+
+    return {
+      isRunning: this.timer !== null,
+      lastSampleAt: this.lastSampleAt,
+      storageType: this.store.type,
+      plugs: Array.from(deviceIds).map(deviceId => ({
+        deviceId,
+        readingCount: (this.readings.get(deviceId) || []).length,
+        dayCount: (this.daily.get(deviceId) || []).length
+      }))
+    };
+  }
+
+  /**
+   * Schedule the next sample within the daily API budget
+   */
+  private scheduleNextSample(): void {
+    const interval = budgetedPollInterval(this.sampleIntervalMs, this.callsPerSample, this.quota.getUsage());
+    if (interval > this.sampleIntervalMs) {
+      console.warn(`Daily API budget is running low, next energy sample in ${Math.round(interval / 1000)}s`);
+    }
+
+    const timer = setTimeout(async () => {
+      await this.sampleAll();
+
+      // Skip when sampling was stopped (or restarted) during the sample
+      if (this.timer === timer) {
+        this.scheduleNextSample();
+      }
+    }, interval);
+    this.timer = timer;
+  }
+
+  /**
+   * Record the power reading of every plug
+   */
+  private async samplePlugs(now: Date): Promise<number> {
+    let recorded = 0;
+
+    try {
+      const devices = await this.devices.getAllDevices();
+      const plugs = devices.filter(device => device.deviceType === 'Plug' && !device.isInfraredRemote);
+
+      for (const plug of plugs) {
+        try {
+          const device = await this.devices.updateDeviceStatus(plug.deviceId, 'background');
+          const properties = device.properties as PlugProperties | undefined;
+
+          if (typeof properties?.power_consumption !== 'number') {
+            continue;
+          }
+
+          const reading: PowerReading = {
+            timestamp: now,
+            deviceId: plug.deviceId,
+            watts: properties.power_consumption
+          };
+          if (typeof properties.voltage === 'number') {
+            reading.voltage = properties.voltage;
+          }
+          if (typeof properties.current === 'number') {
+            reading.current = properties.current;
+          }
+
+          this.addReading(reading);
+          recorded++;
+        } catch (error) {
+          console.warn(`Failed to sample power of plug ${plug.deviceId}:`, error);
+        }
+      }
+
+      this.lastSampleAt = now;
+    } catch (error) {
+      console.error('Failed to list devices for energy sampling:', error);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Add energy to the daily total of the day containing a timestamp
+   */
+  private addToDailyTotal(deviceId: string, timestamp: Date, kWh: number): void {
+    const days = this.getOrCreate(this.daily, deviceId);
+    const start = startOfDay(timestamp);
+    const lastDay = days[days.length - 1];
+
+    if (lastDay && lastDay.timestamp.getTime() === start.getTime()) {
+      lastDay.kWh += kWh;
+      lastDay.sampleCount++;
+      this.persist(() => this.dailyStore.replaceLast(lastDay));
+      return;
+    }
+
+    const day: DailyEnergy = { timestamp: start, deviceId, kWh, sampleCount: 1 };
+    days.push(day);
+    this.persist(() => this.dailyStore.append(day));
+  }
+
+  /**
+   * Drop readings older than the retention period
+   * Returns true if any readings were removed
+   */
+  private cleanupOldReadings(): boolean {
+    const cutoffTime = new Date(Date.now() - this.config.retentionHours * 60 * 60 * 1000);
+    return this.removeBefore(this.readings, cutoffTime);
+  }
+
+  /**
+   * Drop daily totals older than the daily retention period
+   * Returns true if any totals were removed
+   */
+  private cleanupOldDailyTotals(): boolean {
+    const cutoffDay = startOfDay(new Date());
+    cutoffDay.setDate(cutoffDay.getDate() - this.config.dailyRetentionDays);
+    return this.removeBefore(this.daily, cutoffDay);
+  }
+
+  /**
+   * Remove records before a cutoff time from every series of a map
+   */
+  private removeBefore<T extends { timestamp: Date }>(seriesMap: Map<string, T[]>, cutoffTime: Date): boolean {
+    let removed = false;
+
+    for (const [key, records] of seriesMap.entries()) {
+      const remaining = records.filter(record => record.timestamp >= cutoffTime);
+      if (remaining.length === 0) {
+        seriesMap.delete(key);
+        removed = true;
+      } else if (remaining.length !== records.length) {
+        seriesMap.set(key, remaining);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Get or create the series of a plug
+   */
+  private getOrCreate<T>(seriesMap: Map<string, T[]>, deviceId: string): T[] {
+    let series = seriesMap.get(deviceId);
+    if (!series) {
+      series = [];
+      seriesMap.set(deviceId, series);
+    }
+    return series;
+  }
+
+  /**
+   * Run a store write, logging failures instead of interrupting sampling
+   */
+  private persist(write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      console.error('Failed to persist energy history:', error);
+    }
+  }
+
+  /**
+   * Rewrite the reading store with the current in-memory readings
+   */
+  private persistReadings(): void {
+    const readings = Array.from(this.readings.values()).flat();
+    this.persist(() => this.store.rewrite(readings));
+  }
+
+  /**
+   * Rewrite the daily store with the current in-memory totals
+   */
+  private persistDailyTotals(): void {
+    const days = Array.from(this.daily.values()).flat();
+    this.persist(() => this.dailyStore.rewrite(days));
+  }
+}
+
+/**
+ * Series key of an energy record
+ */
+function plugKeyOf(record: { deviceId: string }): string {
+  return record.deviceId;
+}
+
+// Export singleton instance
+export const energyHistoryService = new EnergyHistoryService(
+  {},
+  createHistoryStore<PowerReading>(appConfig.energy.storage, appConfig.energy.filePath, plugKeyOf),
+  createHistoryStore<DailyEnergy>(
+    appConfig.energy.storage,
+    appConfig.energy.filePath.replace(/(\.jsonl)?$/, '.daily.jsonl'),
+    plugKeyOf
+  )
+);
@@ -1,20 +1,148 @@
 /**
  * Environment data history service for SwitchBot Dashboard
- * Manages in-memory storage of historical environment data
+ * Keeps historical environment data in memory per sensor, backed by a pluggable history store
  */
 
 import { EnvironmentData } from '../models/environment';
+import { config as appConfig } from '../config';
+import { HistoryStore, InMemoryHistoryStore, createHistoryStore } from './history-store';
 
 /**
  * Time period options for data retrieval
  */
-export type TimePeriod = '1h' | '6h' | '12h';
+export type TimePeriod = '1h' | '6h' | '12h' | '24h' | '7d' | '30d';
+
+/**
+ * Rollup resolutions maintained alongside the raw data points
+ */
+export type RollupResolution = 'hour' | 'day';
+
+/**
+ * Duration and data source of each time period
+ * Short periods read the raw data points, long periods read pre-computed rollups.
+ */
+const PERIOD_CONFIG: Record<TimePeriod, { durationHours: number; source: 'raw' | RollupResolution }> = {
+  '1h': { durationHours: 1, source: 'raw' },
+  '6h': { durationHours: 6, source: 'raw' },
+  '12h': { durationHours: 12, source: 'raw' },
+  '24h': { durationHours: 24, source: 'raw' },
+  '7d': { durationHours: 24 * 7, source: 'hour' },
+  '30d': { durationHours: 24 * 30, source: 'day' }
+};
+
+/**
+ * All supported time periods
+ */
+export const TIME_PERIODS = Object.keys(PERIOD_CONFIG) as TimePeriod[];
+
+/**
+ * Check whether a value is a supported time period
+ */
+export function isTimePeriod(value: string): value is TimePeriod {
+  return TIME_PERIODS.includes(value as TimePeriod);
+}
+
+const ROLLUP_RESOLUTIONS: RollupResolution[] = ['hour', 'day'];
+
+/**
+ * Bucket sizes (in minutes) the server picks from for custom range queries
+ */
+export const RANGE_BUCKET_MINUTES = [1, 5, 15, 30, 60, 180, 360, 720, 1440];
+
+/**
+ * Maximum number of buckets a custom range query may produce
+ */
+export const MAX_RANGE_BUCKETS = 2000;
+
+/**
+ * Number of buckets the server aims for when no bucket size is requested
+ */
+const TARGET_RANGE_BUCKETS = 200;
+
+/**
+ * Custom time range query
+ */
+export interface HistoryRangeQuery {
+  from: Date;
+  to: Date;
+  bucketMinutes?: number;
+}
+
+/**
+ * Result of a custom time range query
+ */
+export interface HistoryRangeResult {
+  from: Date;
+  to: Date;
+  bucketMinutes: number;
+  source: 'raw' | RollupResolution;
+  dataPoints: HistoricalDataPoint[];
+}
+
+/**
+ * Parse and validate raw custom range parameters (query string or WebSocket payload)
+ */
+export function parseHistoryRange(
+  rawFrom: unknown,
+  rawTo: unknown,
+  rawBucketMinutes?: unknown
+): { isValid: boolean; errors: string[]; query?: HistoryRangeQuery } {
+  const errors: string[] = [];
+  const from = parseDate(rawFrom);
+  const to = parseDate(rawTo);
+
+  if (!from) {
+    errors.push('from must be a valid ISO 8601 date');
+  }
+  if (!to) {
+    errors.push('to must be a valid ISO 8601 date');
+  }
+  if (from && to && from >= to) {
+    errors.push('from must be earlier than to');
+  }
+
+  let bucketMinutes: number | undefined;
+  if (rawBucketMinutes !== undefined && rawBucketMinutes !== null && rawBucketMinutes !== '') {
+    bucketMinutes = Number(rawBucketMinutes);
+    if (!Number.isInteger(bucketMinutes) || bucketMinutes < 1) {
+      errors.push('bucketMinutes must be a positive integer');
+    } else if (from && to && countBuckets(from, to, bucketMinutes) > MAX_RANGE_BUCKETS) {
+      errors.push(`Range would produce more than ${MAX_RANGE_BUCKETS} buckets, use a larger bucketMinutes`);
+    }
+  }
+
+  if (errors.length > 0 || !from || !to) {
+    return { isValid: false, errors };
+  }
+
+  const query: HistoryRangeQuery = { from, to };
+  if (bucketMinutes !== undefined) {
+    query.bucketMinutes = bucketMinutes;
+  }
+  return { isValid: true, errors, query };
+}
+
+/**
+ * Pick the smallest standard bucket size that keeps a range near the target bucket count
+ * Ranges too long for daily buckets get multi-day buckets so that MAX_RANGE_BUCKETS is never exceeded.
+ */
+export function chooseBucketMinutes(from: Date, to: Date): number {
+  const size = RANGE_BUCKET_MINUTES.find(minutes => countBuckets(from, to, minutes) <= TARGET_RANGE_BUCKETS);
+  if (size !== undefined) {
+    return size;
+  }
+
+  const dayMinutes = 24 * 60;
+  return Math.max(1, Math.ceil(countBuckets(from, to, dayMinutes) / MAX_RANGE_BUCKETS)) * dayMinutes;
+}
 
 /**
  * Historical data point with aggregated values
+ * Rollup buckets use the same shape, with the timestamp set to the bucket start.
  */
 export interface HistoricalDataPoint {
   timestamp: Date;
+  deviceId?: string;
   temperature: number;
   humidity: number;
   light: number;
@@ -25,31 +153,127 @@ export interface HistoricalDataPoint {
   humidityMax?: number;
   lightMin?: number;
   lightMax?: number;
+  // CO2 (ppm) is only recorded for CO2 Meters
+  co2?: number;
+  co2Min?: number;
+  co2Max?: number;
   sampleCount?: number;
 }
 
+/**
+ * Min/max/average statistics of historical data
+ */
+export interface HistoryStatistics {
+  temperature: { min: number; max: number; avg: number };
+  humidity: { min: number; max: number; avg: number };
+  light: { min: number; max: number; avg: number };
+  co2?: { min: number; max: number; avg: number };
+  dataPointCount: number;
+}
+
 /**
  * History service configuration
  */
 interface HistoryConfig {
-  maxDataPoints: number;        // Maximum data points to keep in memory
+  maxDataPoints: number;        // Maximum data points to keep in memory per sensor
   aggregationInterval: number;  // Interval for data aggregation in minutes
   retentionPeriod: number;     // Data retention period in hours
 }
 
+/**
+ * Series key used for data without a source device ID
+ */
+const DEFAULT_SERIES_KEY = 'default';
+
+/**
+ * Series key of a data point
+ */
+function seriesKeyOf(point: { deviceId?: string }): string {
+  return point.deviceId || DEFAULT_SERIES_KEY;
+}
+
 /**
  * Environment data history service
+ * Data points are stored in one series per sensor. Methods that take an optional
+ * deviceId fall back to the first sensor that reported data.
  */
 export class EnvironmentHistoryService {
-  private dataPoints: HistoricalDataPoint[] = [];
+  private series: Map<string, HistoricalDataPoint[]> = new Map();
+  private rollups: Record<RollupResolution, Map<string, HistoricalDataPoint[]>> = {
+    hour: new Map(),
+    day: new Map()
+  };
   private config: HistoryConfig;
-
-  constructor(config: Partial<HistoryConfig> = {}) {
+  private store: HistoryStore<HistoricalDataPoint>;
+  private rollupStores: Record<RollupResolution, HistoryStore<HistoricalDataPoint>>;
+
+  constructor(
+    config: Partial<HistoryConfig> = {},
+    store?: HistoryStore<HistoricalDataPoint>,
+    rollupStores: Partial<Record<RollupResolution, HistoryStore<HistoricalDataPoint>>> = {}
+  ) {
     this.config = {
       maxDataPoints: config.maxDataPoints || 8640, // ~30 days at 5min intervals
       aggregationInterval: config.aggregationInterval || (process.env.NODE_ENV === 'development' ? 0.1 : 2), // 6 seconds in dev, 2 minutes in prod
       retentionPeriod: config.retentionPeriod || 24 * 30 // 30 days
     };
+    this.store = store || new InMemoryHistoryStore<HistoricalDataPoint>();
+    this.rollupStores = {
+      hour: rollupStores.hour || new InMemoryHistoryStore<HistoricalDataPoint>(),
+      day: rollupStores.day || new InMemoryHistoryStore<HistoricalDataPoint>()
+    };
+
+    this.loadFromStore();
+    this.loadRollupsFromStores();
+  }
+
+  /**
+   * Restore persisted data points from the history store
+   */
+  private loadFromStore(): void {
+    try {
+      for (const point of this.store.load()) {
+        this.getOrCreateSeries(seriesKeyOf(point)).push(point);
+      }
+    } catch (error) {
+      console.error('Failed to load environment history from store, starting empty:', error);
+      this.series.clear();
+      return;
+    }
+
+    // Drop anything that expired while the server was down
+    const removedOld = this.cleanupOldData();
+    const removedExcess = this.enforceMaxDataPoints();
+    if (removedOld || removedExcess) {
+      this.persistAll();
+    }
+  }
+
+  /**
+   * Restore persisted rollups, rebuilding them from raw data when none were stored yet
+   */
+  private loadRollupsFromStores(): void {
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      const rollupSeries = this.rollups[resolution];
+      let loaded: HistoricalDataPoint[] = [];
+
+      try {
+        loaded = this.rollupStores[resolution].load();
+      } catch (error) {
+        console.error(`Failed to load ${resolution} rollups from store, rebuilding from raw data:`, error);
+      }
+
+      for (const bucket of loaded) {
+        this.getOrCreateSeriesIn(rollupSeries, seriesKeyOf(bucket)).push(bucket);
+      }
+
+      if (loaded.length === 0 && this.series.size > 0) {
+        this.rebuildRollups(resolution);
+        this.persistRollups(resolution);
+      } else if (this.cleanupOldRollups(resolution)) {
+        this.persistRollups(resolution);
+      }
+    }
   }
 
   /**
@@ -63,116 +287,177 @@ export class EnvironmentHistoryService {
       light: data.light,
       sampleCount: 1
     };
+    if (data.deviceId) {
+      historicalPoint.deviceId = data.deviceId;
+    }
+    if (data.co2 !== undefined) {
+      historicalPoint.co2 = data.co2;
+    }
 
-    // Check if we should aggregate with the last point
-    const lastPoint = this.dataPoints[this.dataPoints.length - 1];
+    // Check if we should aggregate with the last point of the same sensor
+    const dataPoints = this.getOrCreateSeries(seriesKeyOf(data));
+    const lastPoint = dataPoints[dataPoints.length - 1];
     const shouldAggregate = this.shouldAggregateWithLastPoint(data.timestamp, lastPoint);
 
+    // Fold the raw sample into the hourly and daily rollups
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      this.addToRollup(resolution, seriesKeyOf(data), { ...historicalPoint });
+    }
+
     if (shouldAggregate && lastPoint) {
       // Aggregate with the last point
       const timeDiff = (data.timestamp.getTime() - lastPoint.timestamp.getTime()) / (1000 * 60);
       console.log(`Aggregating data point at ${data.timestamp.toISOString()} with last point at ${lastPoint.timestamp.toISOString()} (${timeDiff.toFixed(1)} min diff, threshold: ${this.config.aggregationInterval} min)`);
       this.aggregateDataPoint(lastPoint, historicalPoint);
+      this.persist(() => this.store.replaceLast(lastPoint));
     } else {
       // Add as new point
       const timeDiff = lastPoint ? (data.timestamp.getTime() - lastPoint.timestamp.getTime()) / (1000 * 60) : 0;
-      console.log(`Adding new data point at ${data.timestamp.toISOString()}. Total points: ${this.dataPoints.length + 1}. Time diff: ${timeDiff.toFixed(1)} min`);
-      this.dataPoints.push(historicalPoint);
+      console.log(`Adding new data point at ${data.timestamp.toISOString()}. Total points: ${dataPoints.length + 1}. Time diff: ${timeDiff.toFixed(1)} min`);
+      dataPoints.push(historicalPoint);
+      this.persist(() => this.store.append(historicalPoint));
     }
 
-    // Clean up old data
+    // Clean up old data and ensure we don't exceed max data points.
+    // Trimmed points stay in the file until it is compacted, so a full
+    // rewrite is not triggered on every sample once the limits are reached.
     this.cleanupOldData();
+    this.enforceMaxDataPoints();
 
-    // Ensure we don't exceed max data points
-    if (this.dataPoints.length > this.config.maxDataPoints) {
-      this.dataPoints = this.dataPoints.slice(-this.config.maxDataPoints);
+    if (this.store.shouldCompact(this.countDataPoints())) {
+      this.persistAll();
+    }
+
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      if (this.cleanupOldRollups(resolution) || this.rollupStores[resolution].shouldCompact()) {
+        this.persistRollups(resolution);
+      }
     }
   }
 
   /**
    * Get historical data for specified time period
    */
-  getHistoricalData(period: TimePeriod): HistoricalDataPoint[] {
+  getHistoricalData(period: TimePeriod, deviceId?: string): HistoricalDataPoint[] {
     const now = new Date();
-    let startTime: Date;
-
-    switch (period) {
-      case '1h':
-        startTime = new Date(now.getTime() - 1 * 60 * 60 * 1000);
-        break;
-      case '6h':
-        startTime = new Date(now.getTime() - 6 * 60 * 60 * 1000);
-        break;
-      case '12h':
-        startTime = new Date(now.getTime() - 12 * 60 * 60 * 1000);
-        break;
-      default:
-        startTime = new Date(now.getTime() - 1 * 60 * 60 * 1000);
+    const periodConfig = PERIOD_CONFIG[period] || PERIOD_CONFIG['1h'];
+    const startTime = new Date(now.getTime() - periodConfig.durationHours * 60 * 60 * 1000);
+
+    // Long periods are served from pre-computed rollups
+    if (periodConfig.source !== 'raw') {
+      const resolution = periodConfig.source;
+      const buckets = this.getSeriesIn(this.rollups[resolution], deviceId).filter(
+        bucket => bucketEnd(bucket.timestamp, resolution) > startTime && bucket.timestamp <= now
+      );
+      console.log(`Getting ${resolution} rollups for ${period}: ${buckets.length} buckets found since ${startTime.toISOString()}`);
+      return buckets;
     }
 
     // Filter data points within the time period
-    const filteredData = this.dataPoints.filter(
+    const dataPoints = this.getSeries(deviceId);
+    const filteredData = dataPoints.filter(
       point => point.timestamp >= startTime && point.timestamp <= now
     );
 
     console.log(`Getting historical data for ${period}: ${filteredData.length} points found between ${startTime.toISOString()} and ${now.toISOString()}`);
-    console.log(`Total data points in memory: ${this.dataPoints.length}`);
+    console.log(`Total data points in memory: ${dataPoints.length}`);
 
     // For longer periods, we might want to further aggregate the data
     return this.optimizeDataForPeriod(filteredData, period);
   }
 
   /**
-   * Get latest data point
+   * Get historical data between two timestamps, aggregated into fixed-size buckets
+   * Bucket sizes of whole days or hours are served from the rollups, smaller ones
+   * from the raw data points. The server picks a bucket size when none is requested.
+   */
+  getHistoricalDataInRange(query: HistoryRangeQuery, deviceId?: string): HistoryRangeResult {
+    const { from, to } = query;
+    const bucketMinutes = query.bucketMinutes ?? chooseBucketMinutes(from, to);
+    const source: 'raw' | RollupResolution =
+      bucketMinutes % (24 * 60) === 0 ? 'day' : bucketMinutes % 60 === 0 ? 'hour' : 'raw';
+
+    // Rollup buckets are grouped from the start of the rollup bucket containing "from";
+    // the first bucket is labelled with "from" so that no timestamp precedes the range
+    const origin = source === 'raw' ? from : bucketStart(from, source);
+    const points = source === 'raw'
+      ? this.getSeries(deviceId).filter(point => point.timestamp >= from && point.timestamp < to)
+      : this.getSeriesIn(this.rollups[source], deviceId).filter(
+        bucket => bucket.timestamp >= origin && bucket.timestamp < to
+      );
+
+    const bucketMs = bucketMinutes * 60 * 1000;
+    const dataPoints: HistoricalDataPoint[] = [];
+    let currentIndex = -1;
+
+    for (const point of points) {
+      const index = Math.floor((point.timestamp.getTime() - origin.getTime()) / bucketMs);
+      if (index === currentIndex) {
+        mergeIntoBucket(dataPoints[dataPoints.length - 1], point);
+      } else {
+        dataPoints.push(createBucket(new Date(origin.getTime() + index * bucketMs), point));
+        currentIndex = index;
+      }
+    }
+
+    if (dataPoints.length > 0 && dataPoints[0].timestamp < from) {
+      dataPoints[0].timestamp = new Date(from);
+    }
+
+    console.log(`Getting ${source} history between ${from.toISOString()} and ${to.toISOString()}: ${dataPoints.length} buckets of ${bucketMinutes} min`);
+    return { from, to, bucketMinutes, source, dataPoints };
+  }
+
+  /**
+   * Get the stored raw data points between two timestamps in chronological order
+   * Used for exports; without a deviceId the data points of all sensors are returned.
    */
-  getLatestDataPoint(): HistoricalDataPoint | null {
-    return this.dataPoints.length > 0 ? this.dataPoints[this.dataPoints.length - 1] : null;
+  getDataPointsInRange(from: Date, to: Date, deviceId?: string): HistoricalDataPoint[] {
+    const dataPoints = deviceId ? this.getSeries(deviceId) : this.getAllDataPoints();
+    return dataPoints
+      .filter(point => point.timestamp >= from && point.timestamp < to)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
   /**
-   * Get data statistics for a time period
+   * Get latest data point
    */
-  getDataStatistics(period: TimePeriod): {
-    temperature: { min: number; max: number; avg: number };
-    humidity: { min: number; max: number; avg: number };
-    light: { min: number; max: number; avg: number };
-    dataPointCount: number;
-  } | null {
-    const data = this.getHistoricalData(period);
-    
-    if (data.length === 0) {
-      return null;
-    }
+  getLatestDataPoint(deviceId?: string): HistoricalDataPoint | null {
+    const dataPoints = this.getSeries(deviceId);
+    return dataPoints.length > 0 ? dataPoints[dataPoints.length - 1] : null;
+  }
 
-    const temperatures = data.map(d => d.temperature);
-    const humidities = data.map(d => d.humidity);
-    const lights = data.map(d => d.light);
+  /**
+   * Get the device IDs of all sensors with historical data
+   */
+  getSensorIds(): string[] {
+    return Array.from(this.series.keys()).filter(key => key !== DEFAULT_SERIES_KEY);
+  }
 
-    return {
-      temperature: {
-        min: Math.min(...temperatures),
-        max: Math.max(...temperatures),
-        avg: temperatures.reduce((sum, val) => sum + val, 0) / temperatures.length
-      },
-      humidity: {
-        min: Math.min(...humidities),
-        max: Math.max(...humidities),
-        avg: humidities.reduce((sum, val) => sum + val, 0) / humidities.length
-      },
-      light: {
-        min: Math.min(...lights),
-        max: Math.max(...lights),
-        avg: lights.reduce((sum, val) => sum + val, 0) / lights.length
-      },
-      dataPointCount: data.length
-    };
+  /**
+   * Get data statistics for a time period
+   */
+  getDataStatistics(period: TimePeriod, deviceId?: string): HistoryStatistics | null {
+    return calculateStatistics(this.getHistoricalData(period, deviceId));
   }
 
   /**
-   * Clear all historical data
+   * Clear historical data of one sensor, or of all sensors when no ID is given
    */
-  clearHistory(): void {
-    this.dataPoints = [];
+  clearHistory(deviceId?: string): void {
+    const seriesMaps = [this.series, ...ROLLUP_RESOLUTIONS.map(resolution => this.rollups[resolution])];
+    for (const seriesMap of seriesMaps) {
+      if (deviceId) {
+        seriesMap.delete(deviceId);
+      } else {
+        seriesMap.clear();
+      }
+    }
+
+    this.persistAll();
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      this.persistRollups(resolution);
+    }
   }
 
   /**
@@ -183,24 +468,171 @@ export class EnvironmentHistoryService {
     oldestDataPoint: Date | null;
     newestDataPoint: Date | null;
     memoryUsageEstimate: string;
+    storageType: string;
+    sensors: { deviceId: string; dataPointCount: number }[];
+    rollups: Record<RollupResolution, number>;
   } {
-    const oldestPoint = this.dataPoints.length > 0 ? this.dataPoints[0].timestamp : null;
-    const newestPoint = this.dataPoints.length > 0 ? this.dataPoints[this.dataPoints.length - 1].timestamp : null;
+    const dataPoints = this.getAllDataPoints();
+    const timestamps = dataPoints.map(point => point.timestamp.getTime());
+    const oldestPoint = timestamps.length > 0 ? new Date(Math.min(...timestamps)) : null;
+    const newestPoint = timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null;
     
     // Rough estimate of memory usage (each data point is approximately 200 bytes)
-    const estimatedBytes = this.dataPoints.length * 200;
+    const estimatedBytes = dataPoints.length * 200;
     const memoryUsageEstimate = estimatedBytes > 1024 * 1024 
       ? `${(estimatedBytes / (1024 * 1024)).toFixed(2)} MB`
       : `${(estimatedBytes / 1024).toFixed(2)} KB`;
 
     return {
-      dataPointCount: this.dataPoints.length,
+      dataPointCount: dataPoints.length,
       oldestDataPoint: oldestPoint,
       newestDataPoint: newestPoint,
-      memoryUsageEstimate
+      memoryUsageEstimate,
+      storageType: this.store.type,
+      sensors: Array.from(this.series.entries()).map(([deviceId, points]) => ({
+        deviceId,
+        dataPointCount: points.length
+      })),
+      rollups: {
+        hour: Array.from(this.rollups.hour.values()).reduce((sum, buckets) => sum + buckets.length, 0),
+        day: Array.from(this.rollups.day.values()).reduce((sum, buckets) => sum + buckets.length, 0)
+      }
     };
   }
 
+  /**
+   * Get the series of a sensor, or of the first sensor when no ID is given
+   */
+  private getSeries(deviceId?: string): HistoricalDataPoint[] {
+    return this.getSeriesIn(this.series, deviceId);
+  }
+
+  /**
+   * Get a series from a series map, defaulting to the first sensor of the raw data
+   */
+  private getSeriesIn(seriesMap: Map<string, HistoricalDataPoint[]>, deviceId?: string): HistoricalDataPoint[] {
+    const key = deviceId || this.series.keys().next().value;
+    if (key === undefined) {
+      return [];
+    }
+    return seriesMap.get(key) || [];
+  }
+
+  /**
+   * Get the series for a key, creating it if needed
+   */
+  private getOrCreateSeries(key: string): HistoricalDataPoint[] {
+    return this.getOrCreateSeriesIn(this.series, key);
+  }
+
+  /**
+   * Get a series from a series map, creating it if needed
+   */
+  private getOrCreateSeriesIn(seriesMap: Map<string, HistoricalDataPoint[]>, key: string): HistoricalDataPoint[] {
+    let dataPoints = seriesMap.get(key);
+    if (!dataPoints) {
+      dataPoints = [];
+      seriesMap.set(key, dataPoints);
+    }
+    return dataPoints;
+  }
+
+  /**
+   * Fold a data point into the rollup bucket it belongs to
+   */
+  private addToRollup(resolution: RollupResolution, key: string, point: HistoricalDataPoint): void {
+    const buckets = this.getOrCreateSeriesIn(this.rollups[resolution], key);
+    const store = this.rollupStores[resolution];
+    const start = bucketStart(point.timestamp, resolution);
+    const lastBucket = buckets[buckets.length - 1];
+
+    if (lastBucket && lastBucket.timestamp.getTime() === start.getTime()) {
+      mergeIntoBucket(lastBucket, point);
+      this.persist(() => store.replaceLast(lastBucket));
+      return;
+    }
+
+    if (!lastBucket || lastBucket.timestamp < start) {
+      const bucket = createBucket(start, point);
+      buckets.push(bucket);
+      this.persist(() => store.append(bucket));
+      return;
+    }
+
+    // Out-of-order data: update or insert the bucket in place and rewrite the store
+    const existingBucket = buckets.find(bucket => bucket.timestamp.getTime() === start.getTime());
+    if (existingBucket) {
+      mergeIntoBucket(existingBucket, point);
+    } else {
+      buckets.push(createBucket(start, point));
+      buckets.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+    this.persistRollups(resolution);
+  }
+
+  /**
+   * Recompute all rollups of a resolution from the raw data points
+   */
+  private rebuildRollups(resolution: RollupResolution): void {
+    this.rollups[resolution].clear();
+
+    for (const [key, dataPoints] of this.series.entries()) {
+      const buckets: HistoricalDataPoint[] = [];
+      for (const point of dataPoints) {
+        const start = bucketStart(point.timestamp, resolution);
+        const lastBucket = buckets[buckets.length - 1];
+        if (lastBucket && lastBucket.timestamp.getTime() === start.getTime()) {
+          mergeIntoBucket(lastBucket, point);
+        } else {
+          buckets.push(createBucket(start, point));
+        }
+      }
+      this.rollups[resolution].set(key, buckets);
+    }
+
+    console.log(`Rebuilt ${resolution} rollups from raw history data`);
+  }
+
+  /**
+   * Drop rollup buckets that ended before the retention period
+   * Returns true if any buckets were removed
+   */
+  private cleanupOldRollups(resolution: RollupResolution): boolean {
+    const cutoffTime = new Date(Date.now() - this.config.retentionPeriod * 60 * 60 * 1000);
+    let removed = false;
+
+    for (const [key, buckets] of this.rollups[resolution].entries()) {
+      const remaining = buckets.filter(bucket => bucketEnd(bucket.timestamp, resolution) > cutoffTime);
+      if (remaining.length !== buckets.length) {
+        if (remaining.length === 0) {
+          this.rollups[resolution].delete(key);
+        } else {
+          this.rollups[resolution].set(key, remaining);
+        }
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Get data points of all sensors
+   */
+  private getAllDataPoints(): HistoricalDataPoint[] {
+    return Array.from(this.series.values()).flat();
+  }
+
+  /**
+   * Count the data points of all sensors
+   */
+  private countDataPoints(): number {
+    let count = 0;
+    for (const dataPoints of this.series.values()) {
+      count += dataPoints.length;
+    }
+    return count;
+  }
+
   /**
    * Check if new data should be aggregated with the last point
    */
@@ -263,6 +695,8 @@ export class EnvironmentHistoryService {
       newPoint.light
     );
 
+    mergeCO2(existingPoint, newPoint, existingSamples, newSamples);
+
     // Update timestamp to the latest and sample count
     existingPoint.timestamp = newPoint.timestamp;
     existingPoint.sampleCount = totalSamples;
@@ -270,14 +704,69 @@ export class EnvironmentHistoryService {
 
   /**
    * Clean up data points older than retention period
+   * Returns true if any data points were removed
    */
-  private cleanupOldData(): void {
+  private cleanupOldData(): boolean {
     const cutoffTime = new Date(Date.now() - this.config.retentionPeriod * 60 * 60 * 1000);
-    this.dataPoints = this.dataPoints.filter(point => point.timestamp >= cutoffTime);
+    let removed = false;
+
+    for (const [key, dataPoints] of this.series.entries()) {
+      const remaining = dataPoints.filter(point => point.timestamp >= cutoffTime);
+      if (remaining.length === 0) {
+        this.series.delete(key);
+        removed = true;
+      } else if (remaining.length !== dataPoints.length) {
+        this.series.set(key, remaining);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Trim data points beyond the configured maximum
+   * Returns true if any data points were removed
+   */
+  private enforceMaxDataPoints(): boolean {
+    let removed = false;
+
+    for (const [key, dataPoints] of this.series.entries()) {
+      if (dataPoints.length > this.config.maxDataPoints) {
+        this.series.set(key, dataPoints.slice(-this.config.maxDataPoints));
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Run a store write, logging failures instead of interrupting data collection
+   */
+  private persist(write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      console.error('Failed to persist environment history:', error);
+    }
   }
 
   /**
-   * Optimize data for display based on time period
+   * Rewrite the store with the current in-memory data points
+   */
+  private persistAll(): void {
+    this.persist(() => this.store.rewrite(this.getAllDataPoints()));
+  }
+
+  /**
+   * Rewrite a rollup store with the current in-memory buckets
+   */
+  private persistRollups(resolution: RollupResolution): void {
+    const buckets = Array.from(this.rollups[resolution].values()).flat();
+    this.persist(() => this.rollupStores[resolution].rewrite(buckets));
+  }
+
+  /**
+   * Optimize raw data for display based on time period
    */
   private optimizeDataForPeriod(data: HistoricalDataPoint[], period: TimePeriod): HistoricalDataPoint[] {
     // For longer periods, we might want to reduce the number of data points for better performance
@@ -329,10 +818,203 @@ export class EnvironmentHistoryService {
       humidityMax: Math.max(...chunk.map(p => p.humidityMax || p.humidity)),
       lightMin: Math.min(...chunk.map(p => p.lightMin || p.light)),
       lightMax: Math.max(...chunk.map(p => p.lightMax || p.light)),
+      ...aggregateCO2(chunk),
       sampleCount: totalSamples
     };
   }
 }
 
+/**
+ * Min/max/average statistics of data points
+ * Rollup buckets carry the true extremes of their samples.
+ */
+export function calculateStatistics(data: HistoricalDataPoint[]): HistoryStatistics | null {
+  if (data.length === 0) {
+    return null;
+  }
+
+  const temperatures = data.map(d => d.temperature);
+  const humidities = data.map(d => d.humidity);
+  const lights = data.map(d => d.light);
+  const co2Points = data.filter(d => d.co2 !== undefined);
+
+  return {
+    temperature: {
+      min: Math.min(...data.map(d => d.temperatureMin ?? d.temperature)),
+      max: Math.max(...data.map(d => d.temperatureMax ?? d.temperature)),
+      avg: temperatures.reduce((sum, val) => sum + val, 0) / temperatures.length
+    },
+    humidity: {
+      min: Math.min(...data.map(d => d.humidityMin ?? d.humidity)),
+      max: Math.max(...data.map(d => d.humidityMax ?? d.humidity)),
+      avg: humidities.reduce((sum, val) => sum + val, 0) / humidities.length
+    },
+    light: {
+      min: Math.min(...data.map(d => d.lightMin ?? d.light)),
+      max: Math.max(...data.map(d => d.lightMax ?? d.light)),
+      avg: lights.reduce((sum, val) => sum + val, 0) / lights.length
+    },
+    ...(co2Points.length > 0 ? {
+      co2: {
+        min: Math.min(...co2Points.map(d => d.co2Min ?? d.co2!)),
+        max: Math.max(...co2Points.map(d => d.co2Max ?? d.co2!)),
+        avg: co2Points.reduce((sum, d) => sum + d.co2!, 0) / co2Points.length
+      }
+    } : {}),
+    dataPointCount: data.length
+  };
+}
+
+/**
+ * Fold the CO2 reading of a data point into another point (sample-weighted average, running min/max)
+ */
+function mergeCO2(target: HistoricalDataPoint, point: HistoricalDataPoint, targetSamples: number, pointSamples: number): void {
+  if (point.co2 === undefined) {
+    return;
+  }
+
+  if (target.co2 === undefined) {
+    target.co2 = point.co2;
+    target.co2Min = point.co2Min ?? point.co2;
+    target.co2Max = point.co2Max ?? point.co2;
+    return;
+  }
+
+  target.co2Min = Math.min(target.co2Min ?? target.co2, point.co2Min ?? point.co2);
+  target.co2Max = Math.max(target.co2Max ?? target.co2, point.co2Max ?? point.co2);
+  target.co2 = (target.co2 * targetSamples + point.co2 * pointSamples) / (targetSamples + pointSamples);
+}
+
+/**
+ * Aggregated CO2 values of a chunk of data points, empty when none of them has CO2
+ */
+function aggregateCO2(chunk: HistoricalDataPoint[]): Pick<HistoricalDataPoint, 'co2' | 'co2Min' | 'co2Max'> {
+  const points = chunk.filter(point => point.co2 !== undefined);
+  if (points.length === 0) {
+    return {};
+  }
+
+  const samples = points.reduce((sum, point) => sum + (point.sampleCount || 1), 0);
+  return {
+    co2: points.reduce((sum, point) => sum + point.co2! * (point.sampleCount || 1), 0) / samples,
+    co2Min: Math.min(...points.map(point => point.co2Min ?? point.co2!)),
+    co2Max: Math.max(...points.map(point => point.co2Max ?? point.co2!))
+  };
+}
+
+/**
+ * Parse a date from an ISO string or timestamp, returning null when invalid
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Number of buckets of a given size needed to cover a range
+ */
+function countBuckets(from: Date, to: Date, bucketMinutes: number): number {
+  return Math.ceil((to.getTime() - from.getTime()) / (bucketMinutes * 60 * 1000));
+}
+
+/**
+ * Start of the rollup bucket containing a timestamp (local time)
+ */
+function bucketStart(timestamp: Date, resolution: RollupResolution): Date {
+  const start = new Date(timestamp);
+  if (resolution === 'hour') {
+    start.setMinutes(0, 0, 0);
+  } else {
+    start.setHours(0, 0, 0, 0);
+  }
+  return start;
+}
+
+/**
+ * End (exclusive) of the rollup bucket starting at a timestamp
+ */
+function bucketEnd(start: Date, resolution: RollupResolution): Date {
+  const end = new Date(start);
+  if (resolution === 'hour') {
+    end.setHours(end.getHours() + 1);
+  } else {
+    end.setDate(end.getDate() + 1);
+  }
+  return end;
+}
+
+/**
+ * Create a rollup bucket from its first data point
+ */
+function createBucket(start: Date, point: HistoricalDataPoint): HistoricalDataPoint {
+  const bucket: HistoricalDataPoint = {
+    timestamp: start,
+    temperature: point.temperature,
+    humidity: point.humidity,
+    light: point.light,
+    temperatureMin: point.temperatureMin ?? point.temperature,
+    temperatureMax: point.temperatureMax ?? point.temperature,
+    humidityMin: point.humidityMin ?? point.humidity,
+    humidityMax: point.humidityMax ?? point.humidity,
+    lightMin: point.lightMin ?? point.light,
+    lightMax: point.lightMax ?? point.light,
+    sampleCount: point.sampleCount || 1
+  };
+  if (point.deviceId) {
+    bucket.deviceId = point.deviceId;
+  }
+  mergeCO2(bucket, point, 0, point.sampleCount || 1);
+  return bucket;
+}
+
+/**
+ * Merge a data point into a rollup bucket (sample-weighted averages, running min/max)
+ */
+function mergeIntoBucket(bucket: HistoricalDataPoint, point: HistoricalDataPoint): void {
+  const bucketSamples = bucket.sampleCount || 1;
+  const pointSamples = point.sampleCount || 1;
+  const totalSamples = bucketSamples + pointSamples;
+
+  bucket.temperature = (bucket.temperature * bucketSamples + point.temperature * pointSamples) / totalSamples;
+  bucket.humidity = (bucket.humidity * bucketSamples + point.humidity * pointSamples) / totalSamples;
+  bucket.light = (bucket.light * bucketSamples + point.light * pointSamples) / totalSamples;
+
+  bucket.temperatureMin = Math.min(bucket.temperatureMin ?? bucket.temperature, point.temperatureMin ?? point.temperature);
+  bucket.temperatureMax = Math.max(bucket.temperatureMax ?? bucket.temperature, point.temperatureMax ?? point.temperature);
+  bucket.humidityMin = Math.min(bucket.humidityMin ?? bucket.humidity, point.humidityMin ?? point.humidity);
+  bucket.humidityMax = Math.max(bucket.humidityMax ?? bucket.humidity, point.humidityMax ?? point.humidity);
+  bucket.lightMin = Math.min(bucket.lightMin ?? bucket.light, point.lightMin ?? point.light);
+  bucket.lightMax = Math.max(bucket.lightMax ?? bucket.light, point.lightMax ?? point.light);
+  mergeCO2(bucket, point, bucketSamples, pointSamples);
+
+  bucket.sampleCount = totalSamples;
+}
+
+/**
+ * File path of a rollup store next to the raw history file
+ */
+function rollupFilePath(filePath: string, resolution: RollupResolution): string {
+  const suffix = resolution === 'hour' ? 'hourly' : 'daily';
+  return filePath.replace(/(\.jsonl)?$/, `.${suffix}.jsonl`);
+}
+
 // Export singleton instance
-export const environmentHistoryService = new EnvironmentHistoryService();
\ No newline at end of file
+export const environmentHistoryService = new EnvironmentHistoryService(
+  {},
+  createHistoryStore<HistoricalDataPoint>(appConfig.history.storage, appConfig.history.filePath, seriesKeyOf),
+  {
+    hour: createHistoryStore<HistoricalDataPoint>(
+      appConfig.history.storage,
+      rollupFilePath(appConfig.history.filePath, 'hour'),
+      seriesKeyOf
+    ),
+    day: createHistoryStore<HistoricalDataPoint>(
+      appConfig.history.storage,
+      rollupFilePath(appConfig.history.filePath, 'day'),
+      seriesKeyOf
+    )
+  }
+);
\ No newline at end of file
@@ -3,7 +3,16 @@
  */
 
 import { switchBotAPI, SwitchBotAPIError } from '../utils/switchbot-api';
-import { EnvironmentData, EnvironmentDataValidator, RawEnvironmentData } from '../models/environment';
+import { RequestPriority } from '../utils/request-scheduler';
+import {
+  EnvironmentData,
+  EnvironmentDataValidator,
+  EnvironmentSensor,
+  RawEnvironmentData,
+  CLIMATE_SENSOR_DEVICE_TYPES,
+  CO2_SENSOR_DEVICE_TYPES,
+  LIGHT_SENSOR_DEVICE_TYPES
+} from '../models/environment';
 
 /**
  * Service error class
@@ -23,33 +32,42 @@ export class EnvironmentServiceError extends Error {
  * Environment data service
  */
 export class EnvironmentService {
-  private hubDeviceId: string | null = null;
+  private sensors: EnvironmentSensor[] | null = null;
 
   /**
-   * Find and cache Hub 2 device ID
+   * Find and cache all climate-capable devices (Hub 2, Meter, ...)
+   * Hubs are listed first so that the primary sensor stays the same as before
+   * multi-sensor support was added.
    */
-  private async findHubDevice(): Promise<string> {
-    if (this.hubDeviceId) {
-      return this.hubDeviceId;
+  private async findSensors(): Promise<EnvironmentSensor[]> {
+    if (this.sensors) {
+      return this.sensors;
     }
 
     try {
       const deviceList = await switchBotAPI.getDevices();
-      
-      // Look for Hub 2 device
-      const hubDevice = deviceList.body.deviceList.find(
-        device => device.deviceType === 'Hub 2' || device.deviceType === 'Hub'
-      );
 
-      if (!hubDevice) {
+      const sensors = deviceList.body.deviceList
+        .filter(device => CLIMATE_SENSOR_DEVICE_TYPES.includes(device.deviceType))
+        .map(device => ({
+          deviceId: device.deviceId,
+          deviceName: device.deviceName,
+          deviceType: device.deviceType,
+          hasLightSensor: LIGHT_SENSOR_DEVICE_TYPES.includes(device.deviceType),
+          hasCO2Sensor: CO2_SENSOR_DEVICE_TYPES.includes(device.deviceType)
+        }))
+        .sort((a, b) => Number(isHubDevice(b.deviceType)) - Number(isHubDevice(a.deviceType)));
+
+      if (sensors.length === 0) {
         throw new EnvironmentServiceError(
-          'No SwitchBot Hub 2 device found. Please ensure your Hub 2 is properly connected.',
+          'No SwitchBot Hub 2 device found. Please ensure your Hub 2 or Meter is properly connected.',
           'HUB_NOT_FOUND'
         );
       }
 
-      this.hubDeviceId = hubDevice.deviceId;
-      return this.hubDeviceId;
+      this.sensors = sensors;
+      console.log(`Found ${sensors.length} environment sensors: ${sensors.map(sensor => sensor.deviceName).join(', ')}`);
+      return this.sensors;
     } catch (error) {
       if (error instanceof SwitchBotAPIError) {
         throw new EnvironmentServiceError(
@@ -63,53 +81,131 @@ export class EnvironmentService {
   }
 
   /**
-   * Get current environment data from Hub 2
+   * Find a sensor by device ID, or the primary sensor when no ID is given
+   */
+  private async findSensor(deviceId?: string): Promise<EnvironmentSensor> {
+    const sensors = await this.findSensors();
+
+    if (!deviceId) {
+      return sensors[0];
+    }
+
+    const sensor = sensors.find(candidate => candidate.deviceId === deviceId);
+    if (!sensor) {
+      throw new EnvironmentServiceError(
+        `Environment sensor ${deviceId} not found`,
+        'SENSOR_NOT_FOUND'
+      );
+    }
+
+    return sensor;
+  }
+
+  /**
+   * Get all environment sensors
    */
-  async getCurrentEnvironmentData(): Promise<EnvironmentData> {
+  async getSensors(): Promise<EnvironmentSensor[]> {
     try {
-      // Find Hub device if not cached
-      const hubDeviceId = await this.findHubDevice();
-
-      // Get device status from SwitchBot API
-      const statusResponse = await switchBotAPI.getDeviceStatus(hubDeviceId);
-      
-      // Extract raw environment data
-      const rawData: RawEnvironmentData = {
-        temperature: statusResponse.body.temperature,
-        humidity: statusResponse.body.humidity,
-        lightLevel: statusResponse.body.lightLevel
-      };
-
-      // Validate the data
-      const validationResult = EnvironmentDataValidator.validate(rawData);
-      
-      if (!validationResult.isValid) {
-        throw new EnvironmentServiceError(
-          `Invalid environment data: ${validationResult.errors.join(', ')}`,
-          'VALIDATION_ERROR'
-        );
-      }
+      return [...await this.findSensors()];
+    } catch (error) {
+      throw this.wrapError(error, 'Unexpected error while retrieving environment sensors');
+    }
+  }
 
-      return validationResult.data!;
+  /**
+   * Get current environment data from a sensor (the primary Hub 2 by default)
+   */
+  async getCurrentEnvironmentData(deviceId?: string): Promise<EnvironmentData> {
+    try {
+      const sensor = await this.findSensor(deviceId);
+      return await this.readSensor(sensor, 'read');
     } catch (error) {
-      if (error instanceof EnvironmentServiceError) {
-        throw error;
+      throw this.wrapError(error, 'Unexpected error while retrieving environment data');
+    }
+  }
+
+  /**
+   * Get current environment data from every sensor
+   * Sensors that fail to respond are skipped; an error is thrown only if all of them fail.
+   * @param priority Lane of the status requests ('background' for periodic polling)
+   */
+  async getAllEnvironmentData(priority: RequestPriority = 'read'): Promise<EnvironmentData[]> {
+    try {
+      const sensors = await this.findSensors();
+      const results: EnvironmentData[] = [];
+      let firstError: unknown = null;
+
+      // Read sensors one after another; the API client rate-limits requests anyway
+      for (const sensor of sensors) {
+        try {
+          results.push(await this.readSensor(sensor, priority));
+        } catch (error) {
+          console.error(`Failed to read environment sensor ${sensor.deviceName} (${sensor.deviceId}):`, error);
+          firstError = firstError || error;
+        }
       }
-      
-      if (error instanceof SwitchBotAPIError) {
-        throw new EnvironmentServiceError(
-          'Failed to retrieve environment data from SwitchBot Hub',
-          'API_ERROR',
-          error
-        );
+
+      if (results.length === 0 && firstError) {
+        throw firstError;
       }
 
+      return results;
+    } catch (error) {
+      throw this.wrapError(error, 'Unexpected error while retrieving environment data');
+    }
+  }
+
+  /**
+   * Read and validate the current status of a single sensor
+   */
+  private async readSensor(sensor: EnvironmentSensor, priority: RequestPriority): Promise<EnvironmentData> {
+    // Get device status from SwitchBot API
+    const statusResponse = await switchBotAPI.getDeviceStatus(sensor.deviceId, priority);
+
+    // Extract raw environment data
+    const rawData: RawEnvironmentData = {
+      temperature: statusResponse.body.temperature,
+      humidity: statusResponse.body.humidity,
+      lightLevel: statusResponse.body.lightLevel,
+      CO2: statusResponse.body.CO2,
+      battery: statusResponse.body.battery
+    };
+
+    // Validate the data
+    const validationResult = EnvironmentDataValidator.validate(rawData, sensor.hasLightSensor, sensor.hasCO2Sensor);
+
+    if (!validationResult.isValid) {
       throw new EnvironmentServiceError(
-        'Unexpected error while retrieving environment data',
-        'UNKNOWN_ERROR',
+        `Invalid environment data: ${validationResult.errors.join(', ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    return {
+      ...validationResult.data!,
+      deviceId: sensor.deviceId,
+      deviceName: sensor.deviceName,
+      hasLightSensor: sensor.hasLightSensor
+    };
+  }
+
+  /**
+   * Convert any error into an EnvironmentServiceError
+   */
+  private wrapError(error: unknown, unknownMessage: string): EnvironmentServiceError {
+    if (error instanceof EnvironmentServiceError) {
+      return error;
+    }
+
+    if (error instanceof SwitchBotAPIError) {
+      return new EnvironmentServiceError(
+        'Failed to retrieve environment data from SwitchBot Hub',
+        'API_ERROR',
         error
       );
     }
+
+    return new EnvironmentServiceError(unknownMessage, 'UNKNOWN_ERROR', error);
   }
 
   /**
@@ -156,12 +252,19 @@ export class EnvironmentService {
   }
 
   /**
-   * Reset cached hub device ID (useful for testing or when devices change)
+   * Reset cached sensor list (useful for testing or when devices change)
    */
   resetHubCache(): void {
-    this.hubDeviceId = null;
+    this.sensors = null;
   }
 }
 
+/**
+ * Whether a device type is a hub (hubs are preferred as the primary sensor)
+ */
+function isHubDevice(deviceType: string): boolean {
+  return deviceType.startsWith('Hub');
+}
+
 // Export singleton instance
 export const environmentService = new EnvironmentService();
\ No newline at end of file
@@ -0,0 +1,239 @@
+/**
+ * Storage backends for time series history data
+ * The history services keep a working copy in memory and mirror every change
+ * into one of these stores so that data survives backend restarts.
+ */
+
+import fs from 'fs';
+import { ensureParentDirectory, writeFileAtomic } from '../utils/file-storage';
+
+/**
+ * Record stored in a history store
+ */
+export interface TimestampedRecord {
+  timestamp: Date;
+}
+
+/**
+ * Supported storage backend types
+ */
+export type HistoryStorageType = 'memory' | 'file';
+
+/**
+ * History store interface
+ */
+export interface HistoryStore<T extends TimestampedRecord> {
+  /** Storage backend type */
+  readonly type: HistoryStorageType;
+  /** Load all persisted records in chronological order */
+  load(): T[];
+  /** Persist a newly added record */
+  append(record: T): void;
+  /** Persist an update to the most recently added record */
+  replaceLast(record: T): void;
+  /** Replace the persisted contents with the given records */
+  rewrite(records: T[]): void;
+  /**
+   * Whether the store would benefit from being rewritten
+   * @param liveRecords Records still kept in memory; records trimmed since the last rewrite count as garbage
+   */
+  shouldCompact(liveRecords?: number): boolean;
+}
+
+/**
+ * In-memory history store
+ * Nothing is written anywhere; used for tests and when persistence is disabled.
+ */
+export class InMemoryHistoryStore<T extends TimestampedRecord> implements HistoryStore<T> {
+  readonly type: HistoryStorageType = 'memory';
+
+  load(): T[] {
+    return [];
+  }
+
+  append(_record: T): void {
+    // Nothing to persist
+  }
+
+  replaceLast(_record: T): void {
+    // Nothing to persist
+  }
+
+  rewrite(_records: T[]): void {
+    // Nothing to persist
+  }
+
+  shouldCompact(_liveRecords?: number): boolean {
+    return false;
+  }
+}
+
+/**
+ * Operation written to the JSONL history file
+ */
+interface HistoryFileEntry {
+  op: 'append' | 'replaceLast';
+  record: any;
+}
+
+/**
+ * Append-only JSONL history store
+ * Each line is an operation; loading replays the operations in order.
+ * The file is compacted (rewritten atomically) once it holds many more
+ * operations than records.
+ */
+export class JsonlHistoryStore<T extends TimestampedRecord> implements HistoryStore<T> {
+  readonly type: HistoryStorageType = 'file';
+  private readonly filePath: string;
+  private readonly keyOf: (record: T) => string;
+  private lineCount: number = 0;
+  private recordCount: number = 0;
+
+  private static readonly MIN_LINES_BEFORE_COMPACTION = 1000;
+
+  /**
+   * @param filePath Path of the JSONL file
+   * @param keyOf Series key of a record; replaceLast updates the latest record with the same key
+   */
+  constructor(filePath: string, keyOf: (record: T) => string = () => 'default') {
+    this.filePath = filePath;
+    this.keyOf = keyOf;
+  }
+
+  load(): T[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const records: T[] = [];
+    const lastIndexByKey = new Map<string, number>();
+    const lines = this.repairTail(fs.readFileSync(this.filePath, 'utf8')).split('\n');
+    let invalidLines = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let entry: HistoryFileEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        invalidLines++;
+        continue;
+      }
+
+      const record = this.deserialize(entry.record);
+      if (!record) {
+        invalidLines++;
+        continue;
+      }
+
+      const key = this.keyOf(record);
+      const lastIndex = lastIndexByKey.get(key);
+
+      if (entry.op === 'replaceLast' && lastIndex !== undefined) {
+        records[lastIndex] = record;
+      } else {
+        lastIndexByKey.set(key, records.length);
+        records.push(record);
+      }
+      this.lineCount++;
+    }
+
+    if (invalidLines > 0) {
+      console.warn(`Skipped ${invalidLines} invalid lines while loading history from ${this.filePath}`);
+    }
+
+    this.recordCount = records.length;
+    console.log(`Loaded ${records.length} history records from ${this.filePath}`);
+    return records;
+  }
+
+  append(record: T): void {
+    this.writeEntry({ op: 'append', record });
+    this.recordCount++;
+  }
+
+  replaceLast(record: T): void {
+    this.writeEntry({ op: 'replaceLast', record });
+  }
+
+  rewrite(records: T[]): void {
+    const contents = records
+      .map(record => JSON.stringify({ op: 'append', record }))
+      .join('\n');
+
+    writeFileAtomic(this.filePath, contents.length > 0 ? `${contents}\n` : '');
+    this.lineCount = records.length;
+    this.recordCount = records.length;
+  }
+
+  shouldCompact(liveRecords: number = this.recordCount): boolean {
+    return this.lineCount > JsonlHistoryStore.MIN_LINES_BEFORE_COMPACTION &&
+      this.lineCount > Math.min(liveRecords, this.recordCount) * 2;
+  }
+
+  /**
+   * Make sure the file ends with a complete line before anything is appended
+   * Every operation is written together with its newline, so an unterminated
+   * last line is a write torn by a crash. It is cut off; otherwise the next
+   * append would continue that line and be lost as well.
+   */
+  private repairTail(contents: string): string {
+    const tailStart = contents.lastIndexOf('\n') + 1;
+    if (tailStart === contents.length) {
+      return contents;
+    }
+
+    const tail = contents.slice(tailStart);
+    try {
+      JSON.parse(tail);
+      // A complete operation that only lacks its newline (e.g. edited by hand) is kept
+      fs.appendFileSync(this.filePath, '\n', 'utf8');
+      return `${contents}\n`;
+    } catch {
+      console.warn(`Removing a partially written last line from ${this.filePath}`);
+      const repaired = contents.slice(0, tailStart);
+      fs.truncateSync(this.filePath, Buffer.byteLength(repaired, 'utf8'));
+      return repaired;
+    }
+  }
+
+  /**
+   * Append a single operation line to the file
+   */
+  private writeEntry(entry: HistoryFileEntry): void {
+    ensureParentDirectory(this.filePath);
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    this.lineCount++;
+  }
+
+  /**
+   * Convert a parsed JSON record back into a typed record
+   */
+  private deserialize(raw: any): T | null {
+    if (!raw || typeof raw !== 'object' || !raw.timestamp) {
+      return null;
+    }
+
+    const timestamp = new Date(raw.timestamp);
+    if (isNaN(timestamp.getTime())) {
+      return null;
+    }
+
+    return { ...raw, timestamp } as T;
+  }
+}
+
+/**
+ * Create a history store for the given storage type
+ */
+export function createHistoryStore<T extends TimestampedRecord>(
+  type: HistoryStorageType,
+  filePath: string,
+  keyOf?: (record: T) => string
+): HistoryStore<T> {
+  if (type === 'file') {
+    return new JsonlHistoryStore<T>(filePath, keyOf);
+  }
+  return new InMemoryHistoryStore<T>();
+}
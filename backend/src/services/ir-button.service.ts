@@ -0,0 +1,170 @@
+/**
+ * IR button service for SwitchBot Dashboard
+ * Keeps the catalog of learned button names per IR remote. Registered buttons
+ * are sent as customize commands through the command queue. The catalog is
+ * persisted to a JSON file when a file path is configured.
+ */
+
+import fs from 'fs';
+import { IRButtonCatalog, IRButtonValidator } from '../models/ir-button';
+import { config as appConfig } from '../config';
+import { writeFileAtomic } from '../utils/file-storage';
+
+/**
+ * Current schema version of the persisted button catalog file
+ */
+export const IR_BUTTON_SCHEMA_VERSION = 1;
+
+/**
+ * IR button service error types
+ */
+export type IRButtonServiceErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'BUTTON_NOT_FOUND'
+  | 'FILE_ERROR';
+
+/**
+ * IR button service error class
+ */
+export class IRButtonServiceError extends Error {
+  constructor(
+    message: string,
+    public code: IRButtonServiceErrorCode,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'IRButtonServiceError';
+  }
+}
+
+/**
+ * IR button service class
+ */
+export class IRButtonService {
+  private catalogs: Map<string, IRButtonCatalog> = new Map();
+  private readonly filePath: string | null;
+
+  /**
+   * @param filePath Path of the button catalog file, or null to keep the catalog in memory only
+   */
+  constructor(filePath: string | null = null) {
+    this.filePath = filePath;
+
+    if (this.filePath) {
+      this.loadFromFile(this.filePath);
+    }
+  }
+
+  /**
+   * Get the learned button names of a device (empty when none are registered)
+   */
+  getButtons(deviceId: string): string[] {
+    return [...(this.catalogs.get(deviceId)?.buttons ?? [])];
+  }
+
+  /**
+   * Replace the learned button names of a device
+   * An empty list removes the device from the catalog.
+   */
+  setButtons(deviceId: string, buttons: string[]): IRButtonCatalog {
+    const validation = IRButtonValidator.validate(buttons);
+    if (!validation.isValid) {
+      throw new IRButtonServiceError(
+        `Button validation failed: ${validation.errors.join(', ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    const catalog: IRButtonCatalog = {
+      deviceId,
+      buttons: buttons.map(button => button.trim()),
+      updatedAt: new Date()
+    };
+
+    const catalogs = new Map(this.catalogs);
+    if (catalog.buttons.length > 0) {
+      catalogs.set(deviceId, catalog);
+    } else {
+      catalogs.delete(deviceId);
+    }
+
+    this.saveToFile(catalogs);
+    this.catalogs = catalogs;
+    console.log(`IR buttons updated for ${deviceId}: ${catalog.buttons.length} buttons`);
+    return { ...catalog, buttons: [...catalog.buttons] };
+  }
+
+  /**
+   * Ensure a button is registered for a device before it is sent
+   */
+  assertButton(deviceId: string, button: string): void {
+    if (!this.getButtons(deviceId).includes(button)) {
+      throw new IRButtonServiceError(
+        `Button "${button}" is not registered for device ${deviceId}`,
+        'BUTTON_NOT_FOUND'
+      );
+    }
+  }
+
+  /**
+   * Load the button catalog from its file
+   */
+  private loadFromFile(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      console.log(`IR button file ${filePath} not found, starting without buttons`);
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const storedCatalogs: any[] = Array.isArray(raw?.catalogs) ? raw.catalogs : [];
+
+      for (const stored of storedCatalogs) {
+        const validation = IRButtonValidator.validate(stored?.buttons);
+        if (typeof stored?.deviceId !== 'string' || !validation.isValid) {
+          console.warn(`Skipping invalid IR button catalog ${stored?.deviceId}: ${validation.errors.join(', ')}`);
+          continue;
+        }
+        this.catalogs.set(stored.deviceId, {
+          deviceId: stored.deviceId,
+          buttons: stored.buttons,
+          updatedAt: new Date(stored.updatedAt)
+        });
+      }
+
+      console.log(`Loaded IR buttons of ${this.catalogs.size} devices from ${filePath}`);
+    } catch (error) {
+      console.error(`Failed to read IR button file ${filePath}, starting without buttons:`, error);
+      this.catalogs = new Map();
+    }
+  }
+
+  /**
+   * Persist the button catalog to its file (no-op when running in memory)
+   */
+  private saveToFile(catalogs: Map<string, IRButtonCatalog>): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const persisted = {
+      schemaVersion: IR_BUTTON_SCHEMA_VERSION,
+      catalogs: Array.from(catalogs.values())
+    };
+
+    try {
+      writeFileAtomic(this.filePath, `${JSON.stringify(persisted, null, 2)}\n`);
+    } catch (error) {
+      throw new IRButtonServiceError(
+        `Failed to save IR buttons to ${this.filePath}`,
+        'FILE_ERROR',
+        error
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const irButtonService = new IRButtonService(
+  appConfig.irButtons.storage === 'file' ? appConfig.irButtons.filePath : null
+);
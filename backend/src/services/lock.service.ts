@@ -0,0 +1,232 @@
+/**
+ * Lock service for SwitchBot Dashboard
+ * Issues confirmation tokens for lock/unlock, sends the confirmed commands
+ * through the device service and keeps an audit log of every attempt. The
+ * audit log is mirrored into a history store so it survives restarts.
+ */
+
+import crypto from 'crypto';
+import { Device } from '../models/device';
+import { LockAction, LockAuditEntry, LockAuditResult, LockConfirmation, isLockAction } from '../models/lock';
+import { config as appConfig } from '../config';
+import { deviceService, DeviceService } from './device.service';
+import { HistoryStore, InMemoryHistoryStore, createHistoryStore } from './history-store';
+
+/**
+ * Device access used to look up and operate locks
+ */
+export type LockController = Pick<DeviceService, 'getDeviceById' | 'controlLock'>;
+
+/**
+ * Lock service configuration
+ */
+export interface LockServiceConfig {
+  confirmationTtlMs: number;   // Lifetime of a confirmation token
+  maxAuditEntries: number;     // Oldest audit entries are dropped beyond this count
+}
+
+/**
+ * Lock service error types
+ */
+export type LockServiceErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_DEVICE_TYPE'
+  | 'INVALID_CONFIRMATION';
+
+/**
+ * Lock service error class
+ */
+export class LockServiceError extends Error {
+  constructor(
+    message: string,
+    public code: LockServiceErrorCode,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'LockServiceError';
+  }
+}
+
+/**
+ * Lock service class
+ */
+export class LockService {
+  private confirmations: Map<string, LockConfirmation> = new Map();
+  private auditLog: LockAuditEntry[] = [];
+  private readonly controller: LockController;
+  private readonly store: HistoryStore<LockAuditEntry>;
+  private readonly config: LockServiceConfig;
+
+  /**
+   * @param controller Device access used to look up and operate locks
+   * @param store Store of the audit log
+   * @param config Token lifetime and audit log size
+   */
+  constructor(
+    controller: LockController = deviceService,
+    store?: HistoryStore<LockAuditEntry>,
+    config: Partial<LockServiceConfig> = {}
+  ) {
+    this.controller = controller;
+    this.store = store || new InMemoryHistoryStore<LockAuditEntry>();
+    this.config = {
+      confirmationTtlMs: config.confirmationTtlMs || 60 * 1000,
+      maxAuditEntries: config.maxAuditEntries || 1000
+    };
+
+    this.loadFromStore();
+  }
+
+  /**
+   * Issue a single-use confirmation token for a lock action
+   */
+  async requestConfirmation(deviceId: string, action: LockAction): Promise<LockConfirmation> {
+    this.validateAction(action);
+    await this.getLock(deviceId);
+    this.removeExpiredConfirmations();
+
+    const confirmation: LockConfirmation = {
+      token: crypto.randomUUID(),
+      deviceId,
+      action,
+      expiresAt: new Date(Date.now() + this.config.confirmationTtlMs)
+    };
+
+    this.confirmations.set(confirmation.token, confirmation);
+    return { ...confirmation };
+  }
+
+  /**
+   * Lock or unlock a device with a confirmation token issued for that action
+   * The token is consumed by the attempt, whether it succeeds or not.
+   */
+  async execute(deviceId: string, action: LockAction, token: unknown): Promise<LockAuditEntry> {
+    this.validateAction(action);
+    const device = await this.getLock(deviceId);
+
+    const confirmation = typeof token === 'string' ? this.confirmations.get(token) : undefined;
+    if (confirmation) {
+      this.confirmations.delete(confirmation.token);
+    }
+
+    if (
+      !confirmation ||
+      confirmation.deviceId !== deviceId ||
+      confirmation.action !== action ||
+      confirmation.expiresAt.getTime() <= Date.now()
+    ) {
+      const message = 'Confirmation token is missing, expired or was issued for another action';
+      this.record(device, action, 'rejected', message);
+      throw new LockServiceError(message, 'INVALID_CONFIRMATION');
+    }
+
+    try {
+      await this.controller.controlLock(deviceId, action);
+    } catch (error) {
+      this.record(device, action, 'failed', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    return this.record(device, action, 'success');
+  }
+
+  /**
+   * Get the audit log, newest entries first
+   */
+  getAuditLog(options: { deviceId?: string; limit?: number } = {}): LockAuditEntry[] {
+    const entries = options.deviceId
+      ? this.auditLog.filter(entry => entry.deviceId === options.deviceId)
+      : this.auditLog;
+
+    return entries
+      .slice()
+      .reverse()
+      .slice(0, options.limit ?? entries.length)
+      .map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Look up a device and make sure it is a lock
+   */
+  private async getLock(deviceId: string): Promise<Device> {
+    const device = await this.controller.getDeviceById(deviceId);
+
+    if (device.deviceType !== 'Lock') {
+      throw new LockServiceError(`Device ${deviceId} is not a lock`, 'INVALID_DEVICE_TYPE');
+    }
+
+    return device;
+  }
+
+  private validateAction(action: unknown): void {
+    if (!isLockAction(action)) {
+      throw new LockServiceError('Action must be either "lock" or "unlock"', 'VALIDATION_ERROR');
+    }
+  }
+
+  private removeExpiredConfirmations(): void {
+    const now = Date.now();
+    for (const [token, confirmation] of this.confirmations) {
+      if (confirmation.expiresAt.getTime() <= now) {
+        this.confirmations.delete(token);
+      }
+    }
+  }
+
+  /**
+   * Add an entry to the audit log
+   */
+  private record(device: Device, action: LockAction, result: LockAuditResult, message?: string): LockAuditEntry {
+    const timestamp = new Date();
+    const entry: LockAuditEntry = {
+      id: `lock-${timestamp.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      deviceId: device.deviceId,
+      deviceName: device.deviceName,
+      action,
+      result,
+      ...(message ? { message } : {}),
+      timestamp
+    };
+
+    console.log(`Lock audit: ${action} ${device.deviceName} (${device.deviceId}) - ${result}${message ? `: ${message}` : ''}`);
+
+    this.auditLog.push(entry);
+    this.persist(() => this.store.append(entry));
+
+    if (this.auditLog.length > this.config.maxAuditEntries || this.store.shouldCompact()) {
+      this.auditLog = this.auditLog.slice(-this.config.maxAuditEntries);
+      this.persist(() => this.store.rewrite(this.auditLog));
+    }
+
+    return { ...entry };
+  }
+
+  /**
+   * Restore the persisted audit log
+   */
+  private loadFromStore(): void {
+    try {
+      this.auditLog = this.store.load().slice(-this.config.maxAuditEntries);
+    } catch (error) {
+      console.error('Failed to load lock audit log from store, starting empty:', error);
+      this.auditLog = [];
+    }
+  }
+
+  /**
+   * Run a store write, logging failures instead of failing the lock action
+   */
+  private persist(write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      console.error('Failed to persist lock audit log:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const lockService = new LockService(
+  deviceService,
+  createHistoryStore<LockAuditEntry>(appConfig.lockAudit.storage, appConfig.lockAudit.filePath)
+);
@@ -0,0 +1,469 @@
+/**
+ * Scene service for SwitchBot Dashboard
+ * Stores scenes (ordered device commands with optional delays) and executes
+ * them sequentially through the device service. Scenes are persisted to a
+ * JSON file when a file path is configured. Manual scenes created in the
+ * SwitchBot app (cloud scenes) can be listed and executed as well.
+ */
+
+import fs from 'fs';
+import {
+  Scene,
+  SceneInput,
+  SceneExecution,
+  SceneStepResult,
+  SceneValidator,
+  CloudScene,
+  CloudSceneExecution
+} from '../models/scene';
+import { config as appConfig } from '../config';
+import { writeFileAtomic } from '../utils/file-storage';
+import { switchBotAPI, SwitchBotAPI } from '../utils/switchbot-api';
+import { deviceService, DeviceService } from './device.service';
+
+/**
+ * Current schema version of the persisted scenes file
+ */
+export const SCENE_SCHEMA_VERSION = 1;
+
+/**
+ * How long the list of cloud scenes is cached
+ */
+export const CLOUD_SCENE_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Device control used to execute scene steps
+ */
+export type SceneDeviceController = Pick<DeviceService, 'controlDevice'>;
+
+/**
+ * Wait function used for step delays
+ */
+export type SceneDelay = (ms: number) => Promise<void>;
+
+/**
+ * SwitchBot API used for cloud scenes
+ */
+export type CloudSceneApi = Pick<SwitchBotAPI, 'getScenes' | 'executeScene'>;
+
+/**
+ * Scene service error types
+ */
+export type SceneServiceErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'SCENE_NOT_FOUND'
+  | 'SCENE_BUSY'
+  | 'CLOUD_SCENE_ERROR'
+  | 'FILE_ERROR'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Scene service error class
+ */
+export class SceneServiceError extends Error {
+  constructor(
+    message: string,
+    public code: SceneServiceErrorCode,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'SceneServiceError';
+  }
+}
+
+const defaultDelay: SceneDelay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Scene service class
+ */
+export class SceneService {
+  private scenes: Scene[] = [];
+  private runningScenes: Set<string> = new Set();
+  // Scenes run one after another so their commands never interleave
+  // and the API client's request scheduler can space every request
+  private executionQueue: Promise<unknown> = Promise.resolve();
+  private cloudScenes: CloudScene[] = [];
+  private cloudScenesFetchedAt: Date | null = null;
+  private readonly filePath: string | null;
+  private readonly controller: SceneDeviceController;
+  private readonly delay: SceneDelay;
+  private readonly cloudApi: CloudSceneApi;
+
+  /**
+   * @param filePath Path of the scenes file, or null to keep scenes in memory only
+   * @param controller Device control used to execute steps
+   * @param delay Wait function used for step delays
+   * @param cloudApi SwitchBot API used to list and execute cloud scenes
+   */
+  constructor(
+    filePath: string | null = null,
+    controller: SceneDeviceController = deviceService,
+    delay: SceneDelay = defaultDelay,
+    cloudApi: CloudSceneApi = switchBotAPI
+  ) {
+    this.filePath = filePath;
+    this.controller = controller;
+    this.delay = delay;
+    this.cloudApi = cloudApi;
+
+    if (this.filePath) {
+      this.loadFromFile(this.filePath);
+    }
+  }
+
+  /**
+   * Get all scenes
+   */
+  getScenes(): Scene[] {
+    return this.scenes.map(cloneScene);
+  }
+
+  /**
+   * Get a scene by ID
+   */
+  getScene(sceneId: string): Scene {
+    return cloneScene(this.findScene(sceneId));
+  }
+
+  /**
+   * Check whether a scene with the given ID exists
+   */
+  hasScene(sceneId: string): boolean {
+    return this.scenes.some(scene => scene.id === sceneId);
+  }
+
+  /**
+   * Check whether a scene is queued or executing
+   */
+  isSceneRunning(sceneId: string): boolean {
+    return this.runningScenes.has(sceneId);
+  }
+
+  /**
+   * Create a new scene
+   */
+  createScene(input: SceneInput): Scene {
+    this.validateInput(input);
+
+    const now = new Date();
+    const scene: Scene = {
+      id: `scene-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: input.name.trim(),
+      icon: input.icon,
+      steps: input.steps.map(step => ({ ...step })),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.saveScenes([...this.scenes, scene]);
+    console.log(`Scene created: ${scene.name} (${scene.id})`);
+    return cloneScene(scene);
+  }
+
+  /**
+   * Update an existing scene (partial update)
+   */
+  updateScene(sceneId: string, updates: Partial<SceneInput>): Scene {
+    const existing = this.findScene(sceneId);
+    const merged: SceneInput = {
+      name: updates.name ?? existing.name,
+      icon: updates.icon ?? existing.icon,
+      steps: updates.steps ?? existing.steps
+    };
+    this.validateInput(merged);
+
+    const updated: Scene = {
+      ...existing,
+      name: merged.name.trim(),
+      icon: merged.icon,
+      steps: merged.steps.map(step => ({ ...step })),
+      updatedAt: new Date()
+    };
+
+    this.saveScenes(this.scenes.map(scene => (scene.id === sceneId ? updated : scene)));
+    console.log(`Scene updated: ${updated.name} (${sceneId})`);
+    return cloneScene(updated);
+  }
+
+  /**
+   * Delete a scene
+   */
+  deleteScene(sceneId: string): void {
+    const scene = this.findScene(sceneId);
+    this.saveScenes(this.scenes.filter(existing => existing.id !== sceneId));
+    console.log(`Scene deleted: ${scene.name} (${sceneId})`);
+  }
+
+  /**
+   * Execute a scene
+   * Steps are sent in order; a failing step is recorded and the remaining
+   * steps still run. Throws SCENE_BUSY when the scene is already queued or running.
+   */
+  async executeScene(sceneId: string): Promise<SceneExecution> {
+    const scene = this.findScene(sceneId);
+
+    if (this.runningScenes.has(sceneId)) {
+      throw new SceneServiceError(`Scene ${scene.name} is already running`, 'SCENE_BUSY');
+    }
+
+    this.runningScenes.add(sceneId);
+    const execution = this.executionQueue.then(() => this.runSteps(cloneScene(scene)));
+    this.executionQueue = execution.catch(() => undefined);
+
+    try {
+      return await execution;
+    } finally {
+      this.runningScenes.delete(sceneId);
+    }
+  }
+
+  /**
+   * Get the manual scenes of the SwitchBot account (cached)
+   */
+  async getCloudScenes(forceRefresh: boolean = false): Promise<CloudScene[]> {
+    if (!forceRefresh && this.cloudScenesFetchedAt &&
+        Date.now() - this.cloudScenesFetchedAt.getTime() < CLOUD_SCENE_CACHE_MS) {
+      return this.cloudScenes.map(scene => ({ ...scene }));
+    }
+
+    try {
+      const response = await this.cloudApi.getScenes();
+      this.cloudScenes = (response.body || []).map(scene => ({
+        sceneId: scene.sceneId,
+        sceneName: scene.sceneName
+      }));
+      this.cloudScenesFetchedAt = new Date();
+      console.log(`Fetched ${this.cloudScenes.length} cloud scenes`);
+      return this.cloudScenes.map(scene => ({ ...scene }));
+    } catch (error) {
+      throw new SceneServiceError(
+        `Failed to fetch scenes from SwitchBot API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'CLOUD_SCENE_ERROR',
+        error
+      );
+    }
+  }
+
+  /**
+   * Execute a manual scene of the SwitchBot account
+   * Shares the execution queue with local scenes so requests stay rate limited.
+   * The ID is checked against the scene list so unknown IDs never reach the API. A cached
+   * list is refreshed once when it does not know the ID (scenes created in the app since).
+   */
+  async executeCloudScene(sceneId: string): Promise<CloudSceneExecution> {
+    const cachedAt = this.cloudScenesFetchedAt;
+    let cloudScene = (await this.getCloudScenes()).find(scene => scene.sceneId === sceneId);
+    if (!cloudScene && this.cloudScenesFetchedAt === cachedAt) {
+      cloudScene = (await this.getCloudScenes(true)).find(scene => scene.sceneId === sceneId);
+    }
+    if (!cloudScene) {
+      throw new SceneServiceError(`Scene ${sceneId} not found`, 'SCENE_NOT_FOUND');
+    }
+
+    if (this.runningScenes.has(sceneId)) {
+      throw new SceneServiceError(`Scene ${sceneId} is already running`, 'SCENE_BUSY');
+    }
+
+    this.runningScenes.add(sceneId);
+    const execution = this.executionQueue.then(async () => {
+      console.log(`Executing cloud scene: ${sceneId}`);
+      await this.cloudApi.executeScene(sceneId);
+    });
+    this.executionQueue = execution.catch(() => undefined);
+
+    try {
+      await execution;
+    } catch (error) {
+      throw new SceneServiceError(
+        `Failed to execute scene ${sceneId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'CLOUD_SCENE_ERROR',
+        error
+      );
+    } finally {
+      this.runningScenes.delete(sceneId);
+    }
+
+    return {
+      sceneId,
+      sceneName: cloudScene.sceneName,
+      executedAt: new Date(),
+      success: true
+    };
+  }
+
+  /**
+   * Get service status
+   */
+  getStatus(): { sceneCount: number; runningSceneCount: number; storageType: string } {
+    return {
+      sceneCount: this.scenes.length,
+      runningSceneCount: this.runningScenes.size,
+      storageType: this.filePath ? 'file' : 'memory'
+    };
+  }
+
+  /**
+   * Send the steps of a scene in order and record the result
+   */
+  private async runSteps(scene: Scene): Promise<SceneExecution> {
+    console.log(`Executing scene: ${scene.name} (${scene.id}), ${scene.steps.length} steps`);
+    const startedAt = new Date();
+    const results: SceneStepResult[] = [];
+
+    for (const step of scene.steps) {
+      if (step.delayMs) {
+        await this.delay(step.delayMs);
+      }
+
+      try {
+        await this.controller.controlDevice(step.deviceId, step.command, step.parameter);
+        results.push({ ...step, success: true, executedAt: new Date() });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Scene step ${step.command} on ${step.deviceId} failed:`, error);
+        results.push({ ...step, success: false, error: message, executedAt: new Date() });
+      }
+    }
+
+    const execution: SceneExecution = {
+      id: `scene-exec-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      sceneId: scene.id,
+      sceneName: scene.name,
+      startedAt,
+      finishedAt: new Date(),
+      success: results.every(result => result.success),
+      steps: results
+    };
+
+    // The scene may have been deleted while it was running
+    const stored = this.scenes.find(existing => existing.id === scene.id);
+    if (stored) {
+      stored.lastExecutedAt = execution.finishedAt;
+      try {
+        this.saveToFile(this.scenes);
+      } catch (error) {
+        console.error('Failed to persist scene state:', error);
+      }
+    }
+
+    return execution;
+  }
+
+  /**
+   * Find a scene by ID or throw SCENE_NOT_FOUND
+   */
+  private findScene(sceneId: string): Scene {
+    const scene = this.scenes.find(existing => existing.id === sceneId);
+    if (!scene) {
+      throw new SceneServiceError(`Scene ${sceneId} not found`, 'SCENE_NOT_FOUND');
+    }
+    return scene;
+  }
+
+  /**
+   * Validate scene input or throw VALIDATION_ERROR
+   */
+  private validateInput(input: Partial<SceneInput>): void {
+    const validation = SceneValidator.validate(input);
+    if (!validation.isValid) {
+      throw new SceneServiceError(
+        `Scene validation failed: ${validation.errors.join(', ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Persist scenes and apply them only after a successful save
+   */
+  private saveScenes(scenes: Scene[]): void {
+    this.saveToFile(scenes);
+    this.scenes = scenes;
+  }
+
+  /**
+   * Load scenes from the scenes file
+   */
+  private loadFromFile(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      console.log(`Scenes file ${filePath} not found, starting without scenes`);
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const storedScenes: any[] = Array.isArray(raw?.scenes) ? raw.scenes : [];
+
+      for (const stored of storedScenes) {
+        const validation = SceneValidator.validate(stored);
+        if (!stored.id || !validation.isValid) {
+          console.warn(`Skipping invalid scene ${stored?.id}: ${validation.errors.join(', ')}`);
+          continue;
+        }
+        this.scenes.push(deserializeScene(stored));
+      }
+
+      console.log(`Loaded ${this.scenes.length} scenes from ${filePath}`);
+    } catch (error) {
+      console.error(`Failed to read scenes file ${filePath}, starting without scenes:`, error);
+      this.scenes = [];
+    }
+  }
+
+  /**
+   * Persist scenes to the scenes file (no-op when running in memory)
+   */
+  private saveToFile(scenes: Scene[]): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const persisted = {
+      schemaVersion: SCENE_SCHEMA_VERSION,
+      scenes
+    };
+
+    try {
+      writeFileAtomic(this.filePath, `${JSON.stringify(persisted, null, 2)}\n`);
+    } catch (error) {
+      throw new SceneServiceError(
+        `Failed to save scenes to ${this.filePath}`,
+        'FILE_ERROR',
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Convert a stored scene back into a typed scene
+ */
+function deserializeScene(stored: any): Scene {
+  const scene: Scene = {
+    id: stored.id,
+    name: stored.name,
+    icon: stored.icon,
+    steps: stored.steps,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt)
+  };
+  if (stored.lastExecutedAt) {
+    scene.lastExecutedAt = new Date(stored.lastExecutedAt);
+  }
+  return scene;
+}
+
+/**
+ * Create a deep copy of a scene so callers cannot mutate internal state
+ */
+function cloneScene(scene: Scene): Scene {
+  return {
+    ...scene,
+    steps: scene.steps.map(step => ({ ...step }))
+  };
+}
+
+// Export singleton instance
+export const sceneService = new SceneService(
+  appConfig.scenes.storage === 'file' ? appConfig.scenes.filePath : null
+);
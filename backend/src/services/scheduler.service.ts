@@ -0,0 +1,407 @@
+/**
+ * Scheduler service for SwitchBot Dashboard
+ * Runs weekly device schedules (weekdays + local time) by sending their
+ * commands through the device service. Schedules are persisted to a JSON file
+ * when a file path is configured.
+ */
+
+import fs from 'fs';
+import {
+  DeviceSchedule,
+  DeviceScheduleInput,
+  ScheduleRunResult,
+  ScheduleValidator,
+  calculateNextRun
+} from '../models/schedule';
+import { config as appConfig } from '../config';
+import { writeFileAtomic } from '../utils/file-storage';
+import { deviceService, DeviceService } from './device.service';
+
+/**
+ * Current schema version of the persisted schedules file
+ */
+export const SCHEDULE_SCHEMA_VERSION = 1;
+
+/**
+ * Default interval between two checks for due schedules
+ */
+export const DEFAULT_SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Device control used to execute schedule actions
+ */
+export type ScheduleDeviceController = Pick<DeviceService, 'controlDevice'>;
+
+/**
+ * Scheduler service error types
+ */
+export type SchedulerServiceErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'SCHEDULE_NOT_FOUND'
+  | 'FILE_ERROR'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Scheduler service error class
+ */
+export class SchedulerServiceError extends Error {
+  constructor(
+    message: string,
+    public code: SchedulerServiceErrorCode,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'SchedulerServiceError';
+  }
+}
+
+/**
+ * Scheduler service class
+ */
+export class SchedulerService {
+  private schedules: DeviceSchedule[] = [];
+  private runningSchedules: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly filePath: string | null;
+  private readonly controller: ScheduleDeviceController;
+
+  /**
+   * @param filePath Path of the schedules file, or null to keep schedules in memory only
+   * @param controller Device control used to execute actions
+   */
+  constructor(filePath: string | null = null, controller: ScheduleDeviceController = deviceService) {
+    this.filePath = filePath;
+    this.controller = controller;
+
+    if (this.filePath) {
+      this.loadFromFile(this.filePath);
+    }
+  }
+
+  /**
+   * Get all schedules, optionally only those of one device
+   */
+  getSchedules(deviceId?: string): DeviceSchedule[] {
+    return this.schedules
+      .filter(schedule => !deviceId || schedule.deviceId === deviceId)
+      .map(cloneSchedule);
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  getSchedule(scheduleId: string): DeviceSchedule {
+    return cloneSchedule(this.findSchedule(scheduleId));
+  }
+
+  /**
+   * Create a new schedule
+   */
+  createSchedule(input: DeviceScheduleInput): DeviceSchedule {
+    this.validateInput(input);
+
+    const now = new Date();
+    const schedule: DeviceSchedule = {
+      id: `schedule-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: input.name.trim(),
+      enabled: input.enabled ?? true,
+      deviceId: input.deviceId.trim(),
+      weekdays: normalizeWeekdays(input.weekdays),
+      time: input.time,
+      actions: input.actions.map(action => ({ ...action })),
+      createdAt: now,
+      updatedAt: now
+    };
+    schedule.nextRunAt = schedule.enabled ? calculateNextRun(schedule, now) : undefined;
+
+    this.saveSchedules([...this.schedules, schedule]);
+    console.log(`Schedule created: ${schedule.name} (${schedule.id}), next run ${schedule.nextRunAt?.toISOString()}`);
+    return cloneSchedule(schedule);
+  }
+
+  /**
+   * Update an existing schedule (partial update)
+   */
+  updateSchedule(scheduleId: string, updates: Partial<DeviceScheduleInput>): DeviceSchedule {
+    const existing = this.findSchedule(scheduleId);
+    const merged: DeviceScheduleInput = {
+      name: updates.name ?? existing.name,
+      enabled: updates.enabled ?? existing.enabled,
+      deviceId: updates.deviceId ?? existing.deviceId,
+      weekdays: updates.weekdays ?? existing.weekdays,
+      time: updates.time ?? existing.time,
+      actions: updates.actions ?? existing.actions
+    };
+    this.validateInput(merged);
+
+    const now = new Date();
+    const updated: DeviceSchedule = {
+      ...existing,
+      name: merged.name.trim(),
+      enabled: merged.enabled ?? existing.enabled,
+      deviceId: merged.deviceId.trim(),
+      weekdays: normalizeWeekdays(merged.weekdays),
+      time: merged.time,
+      actions: merged.actions.map(action => ({ ...action })),
+      updatedAt: now
+    };
+    updated.nextRunAt = updated.enabled ? calculateNextRun(updated, now) : undefined;
+
+    this.saveSchedules(this.schedules.map(schedule => (schedule.id === scheduleId ? updated : schedule)));
+    console.log(`Schedule updated: ${updated.name} (${scheduleId})`);
+    return cloneSchedule(updated);
+  }
+
+  /**
+   * Enable or disable a schedule
+   */
+  setScheduleEnabled(scheduleId: string, enabled: boolean): DeviceSchedule {
+    return this.updateSchedule(scheduleId, { enabled });
+  }
+
+  /**
+   * Delete a schedule
+   */
+  deleteSchedule(scheduleId: string): void {
+    const schedule = this.findSchedule(scheduleId);
+    this.saveSchedules(this.schedules.filter(existing => existing.id !== scheduleId));
+    console.log(`Schedule deleted: ${schedule.name} (${scheduleId})`);
+  }
+
+  /**
+   * Run every enabled schedule whose next run is due
+   * Returns the schedules that ran. Never throws, so a failing schedule
+   * cannot stop the scheduler.
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<DeviceSchedule[]> {
+    const ran: DeviceSchedule[] = [];
+
+    for (const schedule of this.schedules) {
+      if (!schedule.enabled ||
+          !schedule.nextRunAt ||
+          schedule.nextRunAt.getTime() > now.getTime() ||
+          this.runningSchedules.has(schedule.id)) {
+        continue;
+      }
+
+      try {
+        await this.runSchedule(schedule, now);
+        ran.push(cloneSchedule(schedule));
+      } catch (error) {
+        console.error(`Failed to run schedule ${schedule.name} (${schedule.id}):`, error);
+      }
+    }
+
+    return ran;
+  }
+
+  /**
+   * Start checking for due schedules periodically
+   */
+  start(intervalMs: number = DEFAULT_SCHEDULER_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`Scheduler started with ${this.schedules.length} schedules (interval ${intervalMs}ms)`);
+    this.timer = setInterval(() => {
+      this.runDueSchedules().catch(error => {
+        console.error('Scheduler tick failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop checking for due schedules
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('Scheduler stopped');
+    }
+  }
+
+  /**
+   * Get service status
+   */
+  getStatus(): { scheduleCount: number; enabledScheduleCount: number; isRunning: boolean; storageType: string } {
+    return {
+      scheduleCount: this.schedules.length,
+      enabledScheduleCount: this.schedules.filter(schedule => schedule.enabled).length,
+      isRunning: this.timer !== null,
+      storageType: this.filePath ? 'file' : 'memory'
+    };
+  }
+
+  /**
+   * Run the actions of a due schedule in order and advance its next run
+   */
+  private async runSchedule(schedule: DeviceSchedule, now: Date): Promise<void> {
+    console.log(`Running schedule: ${schedule.name} (${schedule.id}) on ${schedule.deviceId}`);
+    this.runningSchedules.add(schedule.id);
+
+    let result: ScheduleRunResult = { timestamp: now, success: true };
+    try {
+      for (const action of schedule.actions) {
+        await this.controller.controlDevice(schedule.deviceId, action.command, action.parameter);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Schedule ${schedule.name} (${schedule.id}) failed:`, error);
+      result = { timestamp: now, success: false, error: message };
+    } finally {
+      this.runningSchedules.delete(schedule.id);
+    }
+
+    schedule.lastRunAt = now;
+    schedule.lastResult = result;
+    schedule.nextRunAt = calculateNextRun(schedule, now);
+
+    // Persist the run so lastRunAt and nextRunAt survive restarts
+    try {
+      this.saveToFile(this.schedules);
+    } catch (error) {
+      console.error('Failed to persist schedule state:', error);
+    }
+  }
+
+  /**
+   * Find a schedule by ID or throw SCHEDULE_NOT_FOUND
+   */
+  private findSchedule(scheduleId: string): DeviceSchedule {
+    const schedule = this.schedules.find(existing => existing.id === scheduleId);
+    if (!schedule) {
+      throw new SchedulerServiceError(`Schedule ${scheduleId} not found`, 'SCHEDULE_NOT_FOUND');
+    }
+    return schedule;
+  }
+
+  /**
+   * Validate schedule input or throw VALIDATION_ERROR
+   */
+  private validateInput(input: Partial<DeviceScheduleInput>): void {
+    const validation = ScheduleValidator.validate(input);
+    if (!validation.isValid) {
+      throw new SchedulerServiceError(
+        `Schedule validation failed: ${validation.errors.join(', ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Persist schedules and apply them only after a successful save
+   */
+  private saveSchedules(schedules: DeviceSchedule[]): void {
+    this.saveToFile(schedules);
+    this.schedules = schedules;
+  }
+
+  /**
+   * Load schedules from the schedules file
+   * Runs missed while the server was down are skipped: the next run is
+   * recalculated from the current time.
+   */
+  private loadFromFile(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      console.log(`Schedules file ${filePath} not found, starting without schedules`);
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const storedSchedules: any[] = Array.isArray(raw?.schedules) ? raw.schedules : [];
+      const now = new Date();
+
+      for (const stored of storedSchedules) {
+        const validation = ScheduleValidator.validate(stored);
+        if (!stored.id || !validation.isValid) {
+          console.warn(`Skipping invalid schedule ${stored?.id}: ${validation.errors.join(', ')}`);
+          continue;
+        }
+
+        const schedule = deserializeSchedule(stored);
+        schedule.nextRunAt = schedule.enabled ? calculateNextRun(schedule, now) : undefined;
+        this.schedules.push(schedule);
+      }
+
+      console.log(`Loaded ${this.schedules.length} schedules from ${filePath}`);
+    } catch (error) {
+      console.error(`Failed to read schedules file ${filePath}, starting without schedules:`, error);
+      this.schedules = [];
+    }
+  }
+
+  /**
+   * Persist schedules to the schedules file (no-op when running in memory)
+   */
+  private saveToFile(schedules: DeviceSchedule[]): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const persisted = {
+      schemaVersion: SCHEDULE_SCHEMA_VERSION,
+      schedules
+    };
+
+    try {
+      writeFileAtomic(this.filePath, `${JSON.stringify(persisted, null, 2)}\n`);
+    } catch (error) {
+      throw new SchedulerServiceError(
+        `Failed to save schedules to ${this.filePath}`,
+        'FILE_ERROR',
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Sort weekdays and drop duplicates
+ */
+function normalizeWeekdays(weekdays: number[]): number[] {
+  return Array.from(new Set(weekdays)).sort((a, b) => a - b);
+}
+
+/**
+ * Convert a stored schedule back into a typed schedule
+ */
+function deserializeSchedule(stored: any): DeviceSchedule {
+  const schedule: DeviceSchedule = {
+    id: stored.id,
+    name: stored.name,
+    enabled: stored.enabled ?? true,
+    deviceId: stored.deviceId,
+    weekdays: normalizeWeekdays(stored.weekdays),
+    time: stored.time,
+    actions: stored.actions,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt)
+  };
+  if (stored.lastRunAt) {
+    schedule.lastRunAt = new Date(stored.lastRunAt);
+  }
+  if (stored.lastResult) {
+    schedule.lastResult = { ...stored.lastResult, timestamp: new Date(stored.lastResult.timestamp) };
+  }
+  return schedule;
+}
+
+/**
+ * Create a deep copy of a schedule so callers cannot mutate internal state
+ */
+function cloneSchedule(schedule: DeviceSchedule): DeviceSchedule {
+  return {
+    ...schedule,
+    weekdays: [...schedule.weekdays],
+    actions: schedule.actions.map(action => ({ ...action })),
+    lastResult: schedule.lastResult ? { ...schedule.lastResult } : undefined
+  };
+}
+
+// Export singleton instance
+export const schedulerService = new SchedulerService(
+  appConfig.scheduler.storage === 'file' ? appConfig.scheduler.filePath : null
+);
@@ -1,13 +1,42 @@
 /**
- * Settings service for managing application settings (memory-based)
+ * Settings service for managing application settings
+ * Settings are kept in memory and, when a file path is configured, persisted
+ * to a versioned JSON file so that they survive backend restarts.
  */
 
+import fs from 'fs';
 import { AppSettings, DEFAULT_SETTINGS, SettingsValidator } from '../models/settings';
+import { config as appConfig } from '../config';
+import { writeFileAtomic } from '../utils/file-storage';
+
+/**
+ * Current schema version of the persisted settings file
+ */
+export const SETTINGS_SCHEMA_VERSION = 1;
+
+/**
+ * Settings as stored in the settings file
+ */
+export interface PersistedSettings extends AppSettings {
+  schemaVersion: number;
+}
+
+/**
+ * Migrations from each schema version to the next one
+ * Settings files written before versioning was introduced have no
+ * schemaVersion field and are treated as version 0.
+ */
+const SETTINGS_MIGRATIONS: Record<number, (raw: any) => any> = {
+  0: (raw: any) => ({
+    ...raw,
+    schemaVersion: 1
+  })
+};
 
 /**
  * Settings service error types
  */
-export type SettingsServiceErrorCode = 
+export type SettingsServiceErrorCode =
   | 'VALIDATION_ERROR'
   | 'FILE_ERROR'
   | 'UNKNOWN_ERROR';
@@ -27,20 +56,30 @@ export class SettingsServiceError extends Error {
 }
 
 /**
- * Settings service class (memory-based)
+ * Settings service class
  */
 export class SettingsService {
-  private settings: AppSettings = { ...DEFAULT_SETTINGS };
+  private settings: AppSettings = cloneSettings(DEFAULT_SETTINGS);
+  private readonly filePath: string | null;
 
-  constructor() {
-    console.log('Settings service initialized with default values');
+  /**
+   * @param filePath Path of the settings file, or null to keep settings in memory only
+   */
+  constructor(filePath: string | null = null) {
+    this.filePath = filePath;
+
+    if (this.filePath) {
+      this.loadFromFile(this.filePath);
+    } else {
+      console.log('Settings service initialized with default values');
+    }
   }
 
   /**
    * Get current settings
    */
   getSettings(): AppSettings {
-    return { ...this.settings };
+    return cloneSettings(this.settings);
   }
 
   /**
@@ -56,39 +95,24 @@ export class SettingsService {
       );
     }
 
-    // Merge updates with current settings
-    this.settings = {
-      ...this.settings,
-      ...updates,
-      alertThresholds: {
-        ...this.settings.alertThresholds,
-        ...updates.alertThresholds,
-        temperature: {
-          ...this.settings.alertThresholds.temperature,
-          ...updates.alertThresholds?.temperature
-        },
-        humidity: {
-          ...this.settings.alertThresholds.humidity,
-          ...updates.alertThresholds?.humidity
-        }
-      },
-      notifications: {
-        ...this.settings.notifications,
-        ...updates.notifications
-      }
-    };
+    // Merge updates with current settings and persist before applying them
+    const updatedSettings = mergeSettings(this.settings, updates);
+    this.saveToFile(updatedSettings);
+    this.settings = updatedSettings;
 
     console.log('Settings updated successfully:', this.settings);
-    return { ...this.settings };
+    return cloneSettings(this.settings);
   }
 
   /**
    * Reset settings to defaults
    */
   resetSettings(): AppSettings {
-    this.settings = { ...DEFAULT_SETTINGS };
+    const defaultSettings = cloneSettings(DEFAULT_SETTINGS);
+    this.saveToFile(defaultSettings);
+    this.settings = defaultSettings;
     console.log('Settings reset to defaults');
-    return { ...this.settings };
+    return cloneSettings(this.settings);
   }
 
   /**
@@ -102,11 +126,151 @@ export class SettingsService {
    * Get alert thresholds
    */
   getAlertThresholds() {
-    return { ...this.settings.alertThresholds };
+    return cloneSettings(this.settings).alertThresholds;
   }
 
+  /**
+   * Load settings from the settings file, migrating older schema versions
+   */
+  private loadFromFile(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      console.log(`Settings file ${filePath} not found, using default values`);
+      return;
+    }
 
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`Failed to read settings file ${filePath}, using default values:`, error);
+      this.backupUnreadableFile(filePath);
+      return;
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      console.error(`Settings file ${filePath} does not contain a settings object, using default values`);
+      this.backupUnreadableFile(filePath);
+      return;
+    }
+
+    const fileVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+    const migrated = migrateSettings(raw);
+    const { schemaVersion: _schemaVersion, ...storedSettings } = migrated;
+    const loadedSettings = mergeSettings(DEFAULT_SETTINGS, storedSettings);
+
+    const validation = SettingsValidator.validateSettings(loadedSettings);
+    if (!validation.isValid) {
+      console.error(`Settings file ${filePath} contains invalid values (${validation.errors.join(', ')}), using default values`);
+      return;
+    }
+
+    this.settings = loadedSettings;
+    console.log(`Settings loaded from ${filePath} (schema version ${fileVersion})`);
+
+    // Write the migrated settings back so the file is on the current schema
+    if (fileVersion < SETTINGS_SCHEMA_VERSION) {
+      try {
+        this.saveToFile(this.settings);
+        console.log(`Settings file migrated from schema version ${fileVersion} to ${SETTINGS_SCHEMA_VERSION}`);
+      } catch (error) {
+        console.error('Failed to write migrated settings file:', error);
+      }
+    }
+  }
+
+  /**
+   * Persist settings to the settings file (no-op when running in memory)
+   */
+  private saveToFile(settings: AppSettings): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const persisted: PersistedSettings = {
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
+      ...settings
+    };
+
+    try {
+      writeFileAtomic(this.filePath, `${JSON.stringify(persisted, null, 2)}\n`);
+    } catch (error) {
+      throw new SettingsServiceError(
+        `Failed to save settings to ${this.filePath}`,
+        'FILE_ERROR',
+        error
+      );
+    }
+  }
+
+  /**
+   * Keep a copy of a settings file that could not be parsed
+   */
+  private backupUnreadableFile(filePath: string): void {
+    const backupPath = `${filePath}.${Date.now()}.bak`;
+    try {
+      fs.copyFileSync(filePath, backupPath);
+      console.warn(`Unreadable settings file backed up to ${backupPath}`);
+    } catch (error) {
+      console.error('Failed to back up unreadable settings file:', error);
+    }
+  }
+}
+
+/**
+ * Apply all pending migrations to raw settings file contents
+ */
+function migrateSettings(raw: any): any {
+  let migrated = { ...raw };
+  let version = typeof migrated.schemaVersion === 'number' ? migrated.schemaVersion : 0;
+
+  if (version > SETTINGS_SCHEMA_VERSION) {
+    console.warn(`Settings file has newer schema version ${version}, only known fields will be used`);
+    return migrated;
+  }
+
+  while (version < SETTINGS_SCHEMA_VERSION) {
+    migrated = SETTINGS_MIGRATIONS[version](migrated);
+    version = migrated.schemaVersion;
+  }
+
+  return migrated;
+}
+
+/**
+ * Deep merge partial settings into a base settings object
+ */
+function mergeSettings(base: AppSettings, updates: Partial<AppSettings>): AppSettings {
+  return {
+    dataUpdateInterval: updates.dataUpdateInterval ?? base.dataUpdateInterval,
+    alertThresholds: {
+      temperature: {
+        ...base.alertThresholds.temperature,
+        ...updates.alertThresholds?.temperature
+      },
+      humidity: {
+        ...base.alertThresholds.humidity,
+        ...updates.alertThresholds?.humidity
+      },
+      co2: {
+        ...base.alertThresholds.co2,
+        ...updates.alertThresholds?.co2
+      }
+    },
+    notifications: {
+      ...base.notifications,
+      ...updates.notifications
+    }
+  };
+}
+
+/**
+ * Create a deep copy of settings so callers cannot mutate internal state
+ */
+function cloneSettings(settings: AppSettings): AppSettings {
+  return mergeSettings(settings, {});
 }
 
 // Export singleton instance
-export const settingsService = new SettingsService();
\ No newline at end of file
+export const settingsService = new SettingsService(
+  appConfig.settings.storage === 'file' ? appConfig.settings.filePath : null
+);
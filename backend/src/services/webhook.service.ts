@@ -0,0 +1,256 @@
+/**
+ * Webhook service for SwitchBot Dashboard
+ * Receives device state changes pushed by SwitchBot, applies them to the device
+ * cache and notifies listeners (the WebSocket service forwards them to browsers).
+ * Also registers, lists and removes the webhook URL of the SwitchBot account.
+ */
+
+import crypto from 'crypto';
+import { Device } from '../models/device';
+import { isWebhookPayload, parseWebhookEvent } from '../models/webhook';
+import { config as appConfig } from '../config';
+import { switchBotAPI, SwitchBotAPI, SwitchBotAPIError } from '../utils/switchbot-api';
+import { deviceService, DeviceService } from './device.service';
+
+/**
+ * Device cache updated by webhook events
+ */
+export type WebhookDeviceStore = Pick<DeviceService, 'applyStateChange'>;
+
+/**
+ * SwitchBot API used to manage the webhook URL
+ */
+export type WebhookApi = Pick<SwitchBotAPI, 'setupWebhook' | 'queryWebhook' | 'deleteWebhook'>;
+
+/**
+ * Listener called with every device updated by a webhook event
+ */
+export type DeviceUpdateListener = (device: Device) => void;
+
+/**
+ * Result of handling a webhook event
+ * handled is false for events of other types and for devices that are not cached.
+ */
+export interface WebhookEventResult {
+  handled: boolean;
+  deviceId?: string;
+}
+
+/**
+ * Webhook service error types
+ */
+export type WebhookServiceErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'RECEIVER_DISABLED'
+  | 'API_ERROR';
+
+/**
+ * Webhook service error class
+ */
+export class WebhookServiceError extends Error {
+  constructor(
+    message: string,
+    public code: WebhookServiceErrorCode,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'WebhookServiceError';
+  }
+}
+
+/**
+ * Webhook service class
+ */
+export class WebhookService {
+  private listeners: Set<DeviceUpdateListener> = new Set();
+  private receivedEvents: number = 0;
+  private lastEventAt: Date | null = null;
+  private readonly devices: WebhookDeviceStore;
+  private readonly api: WebhookApi;
+  private readonly token: string;
+
+  /**
+   * @param devices Device cache updated by events
+   * @param api SwitchBot API used to manage the webhook URL
+   * @param token Token the receiver URL has to carry; empty disables the receiver
+   */
+  constructor(
+    devices: WebhookDeviceStore = deviceService,
+    api: WebhookApi = switchBotAPI,
+    token: string = appConfig.webhook.token
+  ) {
+    this.devices = devices;
+    this.api = api;
+    this.token = token;
+  }
+
+  /**
+   * Handle a payload posted by SwitchBot
+   */
+  handleEvent(payload: unknown, token?: unknown): WebhookEventResult {
+    this.assertReceiverEnabled();
+    if (!this.isAuthorized(token)) {
+      throw new WebhookServiceError('Webhook token is missing or invalid', 'UNAUTHORIZED');
+    }
+
+    if (!isWebhookPayload(payload)) {
+      throw new WebhookServiceError('Payload is not a SwitchBot webhook event', 'VALIDATION_ERROR');
+    }
+
+    this.receivedEvents++;
+    this.lastEventAt = new Date();
+
+    const event = parseWebhookEvent(payload);
+    if (!event) {
+      return { handled: false };
+    }
+
+    const device = this.devices.applyStateChange(event.deviceId, event.status, event.timestamp);
+    if (!device) {
+      console.log(`Webhook event for unknown device ${event.deviceId} (${event.switchBotType}) ignored`);
+      return { handled: false, deviceId: event.deviceId };
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(device);
+      } catch (error) {
+        console.error('Webhook device update listener failed:', error);
+      }
+    }
+
+    return { handled: true, deviceId: device.deviceId };
+  }
+
+  /**
+   * Register a listener for devices updated by webhook events
+   * Returns a function that removes the listener.
+   */
+  onDeviceUpdate(listener: DeviceUpdateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Number of received events and time of the last one
+   */
+  getStatus(): { receivedEvents: number; lastEventAt: Date | null } {
+    return {
+      receivedEvents: this.receivedEvents,
+      lastEventAt: this.lastEventAt
+    };
+  }
+
+  /**
+   * Register the webhook URL of the account
+   * The configured token is added to URLs without one, so SwitchBot posts events the receiver accepts.
+   */
+  async setupWebhook(url: unknown): Promise<string> {
+    this.assertReceiverEnabled();
+    const webhookUrl = this.withToken(this.validateUrl(url));
+
+    try {
+      await this.api.setupWebhook(webhookUrl);
+      return webhookUrl;
+    } catch (error) {
+      throw this.wrapApiError(error, 'Failed to set up webhook');
+    }
+  }
+
+  /**
+   * Get the webhook URLs registered for the account
+   */
+  async getWebhookUrls(): Promise<string[]> {
+    try {
+      const response = await this.api.queryWebhook();
+      return Array.isArray(response.body?.urls) ? response.body.urls : [];
+    } catch (error) {
+      throw this.wrapApiError(error, 'Failed to query webhook');
+    }
+  }
+
+  /**
+   * Remove a webhook URL of the account
+   */
+  async deleteWebhook(url: unknown): Promise<string> {
+    const webhookUrl = this.validateUrl(url);
+
+    try {
+      await this.api.deleteWebhook(webhookUrl);
+      return webhookUrl;
+    } catch (error) {
+      throw this.wrapApiError(error, 'Failed to delete webhook');
+    }
+  }
+
+  /**
+   * Events are only accepted with a shared token; without one anyone could push fake device state
+   */
+  private assertReceiverEnabled(): void {
+    if (!this.token) {
+      throw new WebhookServiceError(
+        'Webhook receiver is disabled: set SWITCHBOT_WEBHOOK_TOKEN to receive events',
+        'RECEIVER_DISABLED'
+      );
+    }
+  }
+
+  /**
+   * Compare the token of a request with the configured token in constant time
+   */
+  private isAuthorized(token: unknown): boolean {
+    if (typeof token !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Check that a webhook URL is an http(s) URL
+   */
+  private validateUrl(url: unknown): string {
+    if (typeof url !== 'string' || !/^https?:\/\/\S+$/.test(url)) {
+      throw new WebhookServiceError('url must be an http(s) URL', 'VALIDATION_ERROR');
+    }
+    return url;
+  }
+
+  /**
+   * Add the configured token to a receiver URL
+   * URLs carrying a different token are rejected, since every event sent to them would be refused.
+   */
+  private withToken(webhookUrl: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(webhookUrl);
+    } catch {
+      throw new WebhookServiceError('url must be an http(s) URL', 'VALIDATION_ERROR');
+    }
+
+    const token = parsed.searchParams.get('token');
+    if (token === null) {
+      parsed.searchParams.set('token', this.token);
+      return parsed.toString();
+    }
+    if (!this.isAuthorized(token)) {
+      throw new WebhookServiceError('url carries a token that does not match SWITCHBOT_WEBHOOK_TOKEN', 'VALIDATION_ERROR');
+    }
+    return webhookUrl;
+  }
+
+  private wrapApiError(error: unknown, message: string): WebhookServiceError {
+    if (error instanceof SwitchBotAPIError) {
+      return new WebhookServiceError(`${message}: ${error.message}`, 'API_ERROR', error);
+    }
+    return new WebhookServiceError(message, 'API_ERROR', error);
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
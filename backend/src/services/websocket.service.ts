@@ -4,11 +4,17 @@
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { environmentService, EnvironmentServiceError } from './environment.service';
-import { environmentHistoryService, TimePeriod, HistoricalDataPoint } from './environment-history.service';
+import { environmentHistoryService, TimePeriod, HistoricalDataPoint, parseHistoryRange } from './environment-history.service';
 import { alertService } from './alert.service';
 import { settingsService } from './settings.service';
+import { automationService } from './automation.service';
 import { EnvironmentData } from '../models/environment';
 import { Alert } from '../models/alert';
+import { AutomationExecution } from '../models/automation';
+import { Device } from '../models/device';
+import { DeviceCommand } from '../models/command';
+import { apiQuotaTracker, ApiQuotaTracker, budgetedPollInterval } from '../utils/api-quota';
+import { switchBotClient, RequestCounter } from '../utils/switchbot-client';
 
 /**
  * WebSocket events interface
@@ -16,17 +22,30 @@ import { Alert } from '../models/alert';
 export interface WebSocketEvents {
   // Server to client events
   environmentUpdate: EnvironmentData;
+  environmentSensorsUpdate: EnvironmentData[];
   historyUpdate: HistoricalDataPoint[];
   alertUpdate: Alert[];
   alertTriggered: Alert;
   alertDismissed: { alertId: string };
+  automationExecuted: AutomationExecution;
+  deviceUpdate: Device;
+  commandStatus: DeviceCommand;
   error: { code: string; message: string };
   connectionStatus: { connected: boolean; timestamp: string };
   
   // Client to server events
   subscribeEnvironment: void;
   unsubscribeEnvironment: void;
-  getHistory: TimePeriod;
+  getHistory: TimePeriod | HistoryRangeRequest; // optional second argument: sensor device ID
+}
+
+/**
+ * Custom range payload of the getHistory event (ISO 8601 timestamps)
+ */
+export interface HistoryRangeRequest {
+  from: string;
+  to: string;
+  bucketMinutes?: number;
 }
 
 /**
@@ -38,6 +57,11 @@ interface WebSocketConfig {
   retryDelay: number; // milliseconds
 }
 
+/**
+ * Daily API usage the polling interval is budgeted against
+ */
+export type PollingQuota = Pick<ApiQuotaTracker, 'getUsage'>;
+
 /**
  * Connected client information
  */
@@ -59,9 +83,20 @@ export class WebSocketService {
   private isRunning: boolean = false;
   private retryCount: number = 0;
   private lastEnvironmentData: EnvironmentData | null = null;
-
-  constructor(io: SocketIOServer, config: Partial<WebSocketConfig> = {}) {
+  private lastSensorData: EnvironmentData[] = [];
+  private quota: PollingQuota;
+  private requests: RequestCounter;
+  private callsPerPoll: number = 1; // Estimate until the first poll has been measured
+
+  constructor(
+    io: SocketIOServer,
+    config: Partial<WebSocketConfig> = {},
+    quota: PollingQuota = apiQuotaTracker,
+    requests: RequestCounter = switchBotClient
+  ) {
     this.io = io;
+    this.quota = quota;
+    this.requests = requests;
     this.config = {
       updateInterval: config.updateInterval || (process.env.NODE_ENV === 'development' ? 5000 : 10000), // 5 seconds in dev, 10 seconds in prod
       maxRetries: config.maxRetries || 3,
@@ -106,6 +141,9 @@ export class WebSocketService {
     if (this.lastEnvironmentData) {
       socket.emit('environmentUpdate', this.lastEnvironmentData);
     }
+    if (this.lastSensorData.length > 0) {
+      socket.emit('environmentSensorsUpdate', this.lastSensorData);
+    }
 
     // Handle subscription to environment updates
     socket.on('subscribeEnvironment', () => {
@@ -118,8 +156,8 @@ export class WebSocketService {
     });
 
     // Handle history data requests
-    socket.on('getHistory', (period: TimePeriod) => {
-      this.handleGetHistory(clientId, period);
+    socket.on('getHistory', (request: TimePeriod | HistoryRangeRequest, deviceId?: string) => {
+      this.handleGetHistory(clientId, request, deviceId);
     });
 
     // Handle client disconnection
@@ -166,17 +204,35 @@ export class WebSocketService {
   }
 
   /**
-   * Handle history data request
+   * Handle history data request for a preset period or a custom range
    */
-  private handleGetHistory(clientId: string, period: TimePeriod): void {
+  private handleGetHistory(clientId: string, request: TimePeriod | HistoryRangeRequest, deviceId?: string): void {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    console.log(`Client ${clientId} requested history for period: ${period}`);
+    const description = typeof request === 'string'
+      ? `period: ${request}`
+      : `range: ${request?.from} - ${request?.to}`;
+    console.log(`Client ${clientId} requested history for ${description}${deviceId ? ` (sensor: ${deviceId})` : ''}`);
     
     try {
-      const historyData = environmentHistoryService.getHistoricalData(period);
-      client.socket.emit('historyUpdate', historyData);
+      if (typeof request === 'string') {
+        const historyData = environmentHistoryService.getHistoricalData(request, deviceId);
+        client.socket.emit('historyUpdate', historyData);
+        return;
+      }
+
+      const validation = parseHistoryRange(request?.from, request?.to, request?.bucketMinutes);
+      if (!validation.isValid || !validation.query) {
+        client.socket.emit('error', {
+          code: 'INVALID_RANGE',
+          message: validation.errors.join(', ')
+        });
+        return;
+      }
+
+      const result = environmentHistoryService.getHistoricalDataInRange(validation.query, deviceId);
+      client.socket.emit('historyUpdate', result.dataPoints);
     } catch (error) {
       console.error(`Failed to get history data for client ${clientId}:`, error);
       client.socket.emit('error', {
@@ -221,10 +277,43 @@ export class WebSocketService {
     // Fetch initial data immediately
     this.fetchAndBroadcastEnvironmentData();
 
-    // Set up periodic updates with current settings
-    this.updateTimer = setInterval(() => {
-      this.fetchAndBroadcastEnvironmentData();
-    }, updateIntervalMs);
+    this.scheduleNextUpdate();
+  }
+
+  /**
+   * Schedule the next periodic update
+   * The delay is recalculated after every poll so that it follows settings
+   * changes and stretches when the daily API budget runs low.
+   */
+  private scheduleNextUpdate(): void {
+    const interval = this.getEffectiveUpdateInterval();
+    if (interval > this.getBaseUpdateInterval()) {
+      console.warn(`Daily API budget is running low, next environment update in ${Math.round(interval / 1000)}s`);
+    }
+
+    const timer = setTimeout(async () => {
+      await this.fetchAndBroadcastEnvironmentData();
+
+      // Skip when updates were stopped (or restarted) during the fetch
+      if (this.isRunning && this.updateTimer === timer) {
+        this.scheduleNextUpdate();
+      }
+    }, interval);
+    this.updateTimer = timer;
+  }
+
+  /**
+   * Update interval configured in the settings (milliseconds)
+   */
+  private getBaseUpdateInterval(): number {
+    return settingsService.getDataUpdateInterval() * 1000;
+  }
+
+  /**
+   * Update interval stretched to the daily API budget (milliseconds)
+   */
+  private getEffectiveUpdateInterval(): number {
+    return budgetedPollInterval(this.getBaseUpdateInterval(), this.callsPerPoll, this.quota.getUsage());
   }
 
   /**
@@ -237,29 +326,41 @@ export class WebSocketService {
     this.isRunning = false;
 
     if (this.updateTimer) {
-      clearInterval(this.updateTimer);
+      clearTimeout(this.updateTimer);
       this.updateTimer = null;
     }
   }
 
   /**
-   * Fetch environment data and broadcast to subscribed clients
+   * Fetch environment data from all sensors and broadcast to subscribed clients
    */
   private async fetchAndBroadcastEnvironmentData(): Promise<void> {
     try {
-      const environmentData = await environmentService.getCurrentEnvironmentData();
+      // Polling yields to commands and reads a user is waiting for. Only the
+      // poll's own requests are counted, not commands or samplers running meanwhile.
+      const { result: sensorData, requests } = await this.requests.countRequests(
+        () => environmentService.getAllEnvironmentData('background')
+      );
+      if (requests > 0) {
+        this.callsPerPoll = requests;
+      }
+      const environmentData = sensorData[0];
       this.lastEnvironmentData = environmentData;
+      this.lastSensorData = sensorData;
       this.retryCount = 0; // Reset retry count on success
 
-      // Add to history
-      environmentHistoryService.addDataPoint(environmentData);
-
-      // Check for alerts
+      // Add to history and check for alerts per sensor
       const previousActiveAlerts = alertService.getActiveAlerts();
-      const currentAlerts = alertService.checkEnvironmentData(environmentData);
+      let currentAlerts: Alert[] = [];
+      for (const data of sensorData) {
+        environmentHistoryService.addDataPoint(data);
+        currentAlerts = alertService.checkEnvironmentData(data);
+      }
       
       // Broadcast environment data to all subscribed clients
+      // environmentUpdate carries the primary sensor for single-sensor clients
       this.broadcastToSubscribedClients('environmentUpdate', environmentData);
+      this.broadcastToSubscribedClients('environmentSensorsUpdate', sensorData);
       
       // Broadcast alert updates
       this.broadcastToSubscribedClients('alertUpdate', currentAlerts);
@@ -273,7 +374,10 @@ export class WebSocketService {
         this.broadcastToSubscribedClients('alertTriggered', newAlert);
       }
 
-      console.log(`Environment data and ${currentAlerts.length} alerts broadcasted to ${this.getSubscribedClientCount()} clients`);
+      console.log(`Environment data from ${sensorData.length} sensors and ${currentAlerts.length} alerts broadcasted to ${this.getSubscribedClientCount()} clients`);
+
+      // Let the automation sampler reuse the fresh readings (mock data never drives devices)
+      automationService.recordReadings(sensorData);
     } catch (error) {
       console.error('Failed to fetch environment data for broadcast:', error);
       
@@ -284,6 +388,7 @@ export class WebSocketService {
         console.log('Using mock data for development...');
         const mockData = environmentService.generateMockData();
         this.lastEnvironmentData = mockData;
+        this.lastSensorData = [mockData];
         
         // Add to history
         environmentHistoryService.addDataPoint(mockData);
@@ -293,6 +398,7 @@ export class WebSocketService {
         
         // Broadcast mock data to all subscribed clients
         this.broadcastToSubscribedClients('environmentUpdate', mockData);
+        this.broadcastToSubscribedClients('environmentSensorsUpdate', [mockData]);
         this.broadcastToSubscribedClients('alertUpdate', currentAlerts);
         
         console.log(`Mock environment data broadcasted to ${this.getSubscribedClientCount()} clients`);
@@ -336,6 +442,31 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Push a device whose state changed (reported by a webhook) to every connected client
+   */
+  public broadcastDeviceUpdate(device: Device): void {
+    for (const client of this.clients.values()) {
+      client.socket.emit('deviceUpdate', device);
+    }
+  }
+
+  /**
+   * Push a rule execution of the automation sampler to subscribed clients
+   */
+  public broadcastAutomationExecution(execution: AutomationExecution): void {
+    this.broadcastToSubscribedClients('automationExecuted', execution);
+  }
+
+  /**
+   * Push a status change of a queued device command to every connected client
+   */
+  public broadcastCommandStatus(command: DeviceCommand): void {
+    for (const client of this.clients.values()) {
+      client.socket.emit('commandStatus', command);
+    }
+  }
+
   /**
    * Get count of subscribed clients
    */
@@ -347,13 +478,16 @@ export class WebSocketService {
    * Get WebSocket service status
    */
   public getStatus() {
-    const currentUpdateInterval = settingsService.getDataUpdateInterval() * 1000;
+    const currentUpdateInterval = this.getBaseUpdateInterval();
+    const effectiveUpdateInterval = this.getEffectiveUpdateInterval();
     
     return {
       isRunning: this.isRunning,
       connectedClients: this.clients.size,
       subscribedClients: this.getSubscribedClientCount(),
       updateInterval: currentUpdateInterval,
+      effectiveUpdateInterval,
+      budgetLimited: effectiveUpdateInterval > currentUpdateInterval,
       retryCount: this.retryCount,
       lastUpdate: this.lastEnvironmentData?.timestamp?.toISOString() || null
     };
@@ -0,0 +1,90 @@
+/**
+ * Tests for simulated SwitchBot devices
+ */
+
+import {
+  DEFAULT_ROOM,
+  driftRoom,
+  SimulatedAirConditioner,
+  SimulatedCurtain,
+  SimulatedDeviceError,
+  SimulatedHub,
+  SimulatedLight,
+  SimulatedPlug,
+  SimulatedRoom
+} from '../devices';
+
+describe('simulated devices', () => {
+  let room: SimulatedRoom;
+  const noDrift = () => 0.5;
+
+  beforeEach(() => {
+    room = { ...DEFAULT_ROOM };
+  });
+
+  it('should report the room climate from the hub', () => {
+    const hub = new SimulatedHub('HUB', 'Hub');
+    room.temperature = 23.46;
+
+    expect(hub.getStatus(room)).toMatchObject({ deviceType: 'Hub 2', temperature: 23.5, humidity: 50, lightLevel: 10 });
+  });
+
+  it('should apply light commands and reject invalid parameters with 190', () => {
+    const light = new SimulatedLight('LIGHT', 'Light', 'HUB');
+
+    light.applyCommand('turnOn', undefined);
+    light.applyCommand('setBrightness', '40');
+    light.applyCommand('setColor', '255:128:0');
+
+    expect(light.getStatus()).toMatchObject({ power: 'on', brightness: 40, color: '255:128:0' });
+    expect(() => light.applyCommand('setBrightness', '140')).toThrow(
+      expect.objectContaining({ statusCode: 190 })
+    );
+    expect(() => light.applyCommand('fly', undefined)).toThrow(SimulatedDeviceError);
+  });
+
+  it('should only draw power and count minutes while the plug is on', () => {
+    const plug = new SimulatedPlug('PLUG', 'Plug', 'HUB', 100);
+
+    plug.tick(120000, room, noDrift);
+    plug.applyCommand('turnOff');
+    plug.tick(120000, room, noDrift);
+
+    expect(plug.getStatus()).toMatchObject({ power: 'off', weight: 0, electricCurrent: 0, electricityOfDay: 2 });
+
+    plug.applyCommand('turnOn');
+    expect(plug.getStatus()).toMatchObject({ weight: 100, voltage: 100, electricCurrent: 1 });
+  });
+
+  it('should move the curtain towards the requested position', () => {
+    const curtain = new SimulatedCurtain('CURTAIN', 'Curtain', 'HUB', 10);
+
+    curtain.applyCommand('setPosition', '0,ff,80');
+    curtain.tick(3000);
+    expect(curtain.getStatus()).toMatchObject({ slidePosition: 30, moving: true });
+
+    curtain.tick(10000);
+    expect(curtain.getStatus()).toMatchObject({ slidePosition: 80, moving: false });
+  });
+
+  it('should cool the room while the air conditioner runs and report no status', () => {
+    const airConditioner = new SimulatedAirConditioner('AC', 'AC', 'HUB', 0.5);
+    room.temperature = 28;
+
+    airConditioner.applyCommand('setAll', '25,2,1,on', 'command');
+    airConditioner.tick(4 * 60000, room);
+
+    expect(room.temperature).toBeCloseTo(26);
+    expect(airConditioner.getState()).toEqual({ temperature: 25, mode: 'cool', fanSpeed: 'auto', power: 'on' });
+    expect(() => airConditioner.getStatus()).toThrow(expect.objectContaining({ statusCode: 160 }));
+  });
+
+  it('should let the room drift back towards the default climate', () => {
+    room.temperature = 30;
+
+    driftRoom(room, 10 * 60000, noDrift);
+
+    expect(room.temperature).toBeLessThan(30);
+    expect(room.temperature).toBeGreaterThan(DEFAULT_ROOM.temperature);
+  });
+});
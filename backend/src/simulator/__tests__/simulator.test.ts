@@ -0,0 +1,116 @@
+/**
+ * Tests for the local SwitchBot API simulator
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import { SwitchBotSimulator, verifySignature } from '../simulator';
+
+const token = 'test-token';
+const secret = 'test-secret';
+
+/**
+ * Build the headers the backend signs its requests with
+ */
+function signedHeaders(signingSecret: string = secret): Record<string, string> {
+  const t = Date.now().toString();
+  const nonce = crypto.randomUUID();
+  const sign = crypto.createHmac('sha256', signingSecret).update(token + t + nonce).digest('base64');
+  return { Authorization: token, sign, t, nonce };
+}
+
+describe('SwitchBotSimulator', () => {
+  let simulator: SwitchBotSimulator;
+
+  beforeEach(() => {
+    simulator = new SwitchBotSimulator({ token, secret });
+  });
+
+  afterEach(() => {
+    simulator.stop();
+  });
+
+  it('should reject requests with a wrong signature', async () => {
+    const response = await request(simulator.app).get('/v1.1/devices').set(signedHeaders('other-secret'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should list physical devices and infrared remotes', async () => {
+    const response = await request(simulator.app).get('/v1.1/devices').set(signedHeaders());
+
+    expect(response.status).toBe(200);
+    expect(response.body.statusCode).toBe(100);
+    expect(response.body.body.deviceList.map((device: any) => device.deviceType)).toEqual(
+      ['Hub 2', 'Color Bulb', 'Plug Mini (JP)', 'Curtain3']
+    );
+    expect(response.body.body.infraredRemoteList).toEqual([
+      expect.objectContaining({ remoteType: 'Air Conditioner' })
+    ]);
+  });
+
+  it('should apply commands to the device status', async () => {
+    const devices = await request(simulator.app).get('/v1.1/devices').set(signedHeaders());
+    const light = devices.body.body.deviceList.find((device: any) => device.deviceType === 'Color Bulb');
+
+    const command = await request(simulator.app)
+      .post(`/v1.1/devices/${light.deviceId}/commands`)
+      .set(signedHeaders())
+      .send({ command: 'turnOn' });
+    const status = await request(simulator.app).get(`/v1.1/devices/${light.deviceId}/status`).set(signedHeaders());
+
+    expect(command.body.statusCode).toBe(100);
+    expect(status.body.body.power).toBe('on');
+  });
+
+  it('should answer unknown devices with status code 152', async () => {
+    const response = await request(simulator.app).get('/v1.1/devices/UNKNOWN/status').set(signedHeaders());
+
+    expect(response.body.statusCode).toBe(152);
+  });
+
+  it('should inject device errors and rate limits', async () => {
+    simulator.setFaults({ errorRate: 1 });
+    const failed = await request(simulator.app).get('/v1.1/devices/C0A1B2C3D4E5/status').set(signedHeaders());
+
+    simulator.setFaults({ errorRate: 0, rateLimitRate: 1 });
+    const limited = await request(simulator.app).get('/v1.1/devices').set(signedHeaders());
+
+    expect(failed.body.statusCode).toBe(190);
+    expect(limited.status).toBe(429);
+  });
+
+  it('should change faults through the control API and validate them', async () => {
+    const updated = await request(simulator.app).put('/simulator/faults').send({ latencyMs: 50 });
+    const invalid = await request(simulator.app).put('/simulator/faults').send({ errorRate: 2 });
+
+    expect(updated.body.data).toEqual({ errorRate: 0, rateLimitRate: 0, latencyMs: 50 });
+    expect(invalid.status).toBe(400);
+    expect(simulator.getFaults().errorRate).toBe(0);
+  });
+
+  it('should execute scenes and register webhook URLs', async () => {
+    const scenes = await request(simulator.app).get('/v1.1/scenes').set(signedHeaders());
+    const home = scenes.body.body.find((scene: any) => scene.sceneName === '帰宅');
+
+    await request(simulator.app).post(`/v1.1/scenes/${home.sceneId}/execute`).set(signedHeaders());
+    await request(simulator.app)
+      .post('/v1.1/webhook/setupWebhook')
+      .set(signedHeaders())
+      .send({ action: 'setupWebhook', url: 'http://localhost:3001/api/webhook/switchbot', deviceList: 'ALL' });
+    const webhook = await request(simulator.app).post('/v1.1/webhook/queryWebhook').set(signedHeaders()).send({ action: 'queryUrl' });
+
+    const snapshot = simulator.getSnapshot();
+    expect(snapshot.devices.find(device => device.deviceName === 'リビング エアコン')?.state).toMatchObject({ power: 'on', mode: 'cool' });
+    expect(webhook.body.body.urls).toEqual(['http://localhost:3001/api/webhook/switchbot']);
+  });
+});
+
+describe('verifySignature', () => {
+  it('should accept the uppercase signature variant', () => {
+    const headers = signedHeaders();
+
+    expect(verifySignature({ authorization: token, sign: headers.sign.toUpperCase(), t: headers.t, nonce: headers.nonce }, token, secret)).toBe(true);
+    expect(verifySignature({ authorization: 'other', sign: headers.sign, t: headers.t, nonce: headers.nonce }, token, secret)).toBe(false);
+  });
+});
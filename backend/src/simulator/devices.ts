@@ -0,0 +1,493 @@
+/**
+ * Simulated SwitchBot devices
+ * Every device keeps its own state, answers status requests in the shape of the
+ * SwitchBot API v1.1 and applies the commands the dashboard sends. All devices
+ * share one room: the hub reads its climate, which drifts slowly on every tick
+ * and follows the air conditioner while it runs.
+ */
+
+import { AirConditionerProperties } from '../models/device';
+import { AirConditionerCommandError, applyAirConditionerCommand, DEFAULT_AIR_CONDITIONER_STATE } from '../models/air-conditioner';
+import { LightColor, formatLightColor, isValidColorTemperature, parseLightColor } from '../models/light';
+
+/**
+ * Status codes returned by the SwitchBot API
+ */
+export const SWITCHBOT_STATUS_CODES = {
+  success: 100,
+  deviceNotFound: 152,
+  commandNotSupported: 160,
+  deviceInternalError: 190
+} as const;
+
+/**
+ * Error raised when a device rejects a command or status request
+ * statusCode is the SwitchBot status code reported in the response body.
+ */
+export class SimulatedDeviceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'SimulatedDeviceError';
+  }
+}
+
+/**
+ * Climate of the room the simulated devices are in
+ */
+export interface SimulatedRoom {
+  temperature: number; // °C
+  humidity: number;    // %
+  lightLevel: number;  // 1-20 (Hub 2 illuminance level)
+}
+
+/**
+ * Room climate the simulation starts from and drifts back to
+ */
+export const DEFAULT_ROOM: SimulatedRoom = {
+  temperature: 24,
+  humidity: 50,
+  lightLevel: 10
+};
+
+/**
+ * Random number source (0 <= n < 1), replaceable for deterministic tests
+ */
+export type RandomSource = () => number;
+
+/**
+ * Device list entry of a physical device
+ */
+export interface SimulatedDeviceListEntry {
+  deviceId: string;
+  deviceName: string;
+  deviceType: string;
+  enableCloudService: boolean;
+  hubDeviceId: string;
+}
+
+/**
+ * Device list entry of an infrared remote
+ */
+export interface SimulatedRemoteListEntry {
+  deviceId: string;
+  deviceName: string;
+  remoteType: string;
+  hubDeviceId: string;
+}
+
+/**
+ * Base class of simulated devices
+ */
+export abstract class SimulatedDevice {
+  constructor(
+    readonly deviceId: string,
+    readonly deviceName: string,
+    readonly hubDeviceId: string
+  ) {}
+
+  /**
+   * Status body of GET /devices/:deviceId/status
+   */
+  abstract getStatus(room: SimulatedRoom): Record<string, unknown>;
+
+  /**
+   * Apply a command sent with POST /devices/:deviceId/commands
+   */
+  abstract applyCommand(command: string, parameter: unknown, commandType: string): void;
+
+  /**
+   * Advance the device by elapsedMs; devices may change the room while doing so
+   */
+  tick(_elapsedMs: number, _room: SimulatedRoom, _random: RandomSource): void {}
+
+  /**
+   * Whether the device is listed as infrared remote
+   */
+  abstract get infrared(): boolean;
+
+  /**
+   * Device list entry of GET /devices
+   */
+  abstract toListEntry(): SimulatedDeviceListEntry | SimulatedRemoteListEntry;
+
+  protected unsupported(command: string): SimulatedDeviceError {
+    return new SimulatedDeviceError(
+      `Command ${command} is not supported by ${this.deviceName}`,
+      SWITCHBOT_STATUS_CODES.commandNotSupported
+    );
+  }
+}
+
+/**
+ * Base class of physical (Bluetooth/Wi-Fi) devices
+ */
+abstract class SimulatedPhysicalDevice extends SimulatedDevice {
+  constructor(
+    deviceId: string,
+    deviceName: string,
+    readonly deviceType: string,
+    hubDeviceId: string
+  ) {
+    super(deviceId, deviceName, hubDeviceId);
+  }
+
+  get infrared(): boolean {
+    return false;
+  }
+
+  toListEntry(): SimulatedDeviceListEntry {
+    return {
+      deviceId: this.deviceId,
+      deviceName: this.deviceName,
+      deviceType: this.deviceType,
+      enableCloudService: true,
+      hubDeviceId: this.hubDeviceId
+    };
+  }
+
+  protected statusHeader(): Record<string, unknown> {
+    return { deviceId: this.deviceId, deviceType: this.deviceType, hubDeviceId: this.hubDeviceId };
+  }
+}
+
+/**
+ * Hub 2 reporting the room climate
+ */
+export class SimulatedHub extends SimulatedPhysicalDevice {
+  constructor(deviceId: string, deviceName: string) {
+    super(deviceId, deviceName, 'Hub 2', deviceId);
+  }
+
+  getStatus(room: SimulatedRoom): Record<string, unknown> {
+    return {
+      ...this.statusHeader(),
+      temperature: Math.round(room.temperature * 10) / 10,
+      humidity: Math.round(room.humidity),
+      lightLevel: Math.round(room.lightLevel),
+      version: 'V1.0-0.8'
+    };
+  }
+
+  applyCommand(command: string): void {
+    throw this.unsupported(command);
+  }
+}
+
+/**
+ * Color Bulb with brightness, color and color temperature
+ */
+export class SimulatedLight extends SimulatedPhysicalDevice {
+  private power: 'on' | 'off' = 'off';
+  private brightness: number = 100;
+  private color: LightColor = { red: 255, green: 255, blue: 255 };
+  private colorTemperature: number = 4000;
+
+  constructor(deviceId: string, deviceName: string, hubDeviceId: string) {
+    super(deviceId, deviceName, 'Color Bulb', hubDeviceId);
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...this.statusHeader(),
+      power: this.power,
+      brightness: this.brightness,
+      color: formatLightColor(this.color),
+      colorTemperature: this.colorTemperature
+    };
+  }
+
+  applyCommand(command: string, parameter: unknown): void {
+    switch (command) {
+      case 'turnOn':
+        this.power = 'on';
+        return;
+      case 'turnOff':
+        this.power = 'off';
+        return;
+      case 'toggle':
+        this.power = this.power === 'on' ? 'off' : 'on';
+        return;
+      case 'setBrightness': {
+        const brightness = Number(parameter);
+        if (!Number.isInteger(brightness) || brightness < 1 || brightness > 100) {
+          throw invalidParameter(command, parameter);
+        }
+        this.brightness = brightness;
+        return;
+      }
+      case 'setColor': {
+        const color = typeof parameter === 'string' ? parseLightColor(parameter) : undefined;
+        if (!color) {
+          throw invalidParameter(command, parameter);
+        }
+        this.color = color;
+        return;
+      }
+      case 'setColorTemperature': {
+        const colorTemperature = Number(parameter);
+        if (!isValidColorTemperature(colorTemperature)) {
+          throw invalidParameter(command, parameter);
+        }
+        this.colorTemperature = colorTemperature;
+        return;
+      }
+      default:
+        throw this.unsupported(command);
+    }
+  }
+
+  tick(_elapsedMs: number, room: SimulatedRoom): void {
+    // A lit bulb keeps the room at least moderately bright
+    if (this.power === 'on') {
+      room.lightLevel = Math.max(room.lightLevel, 5 + this.brightness / 10);
+    }
+  }
+}
+
+/**
+ * Plug Mini (JP) with a load that draws power while switched on
+ */
+export class SimulatedPlug extends SimulatedPhysicalDevice {
+  private power: 'on' | 'off' = 'on';
+  private voltage: number = 100;
+  private watts: number = 0;
+  private onMs: number = 0;
+
+  /**
+   * @param loadWatts Average draw of the connected appliance
+   */
+  constructor(deviceId: string, deviceName: string, hubDeviceId: string, private readonly loadWatts: number = 60) {
+    super(deviceId, deviceName, 'Plug Mini (JP)', hubDeviceId);
+    this.watts = loadWatts;
+  }
+
+  getStatus(): Record<string, unknown> {
+    const watts = this.power === 'on' ? this.watts : 0;
+    return {
+      ...this.statusHeader(),
+      power: this.power,
+      voltage: Math.round(this.voltage * 10) / 10,
+      weight: Math.round(watts * 10) / 10,
+      electricCurrent: Math.round((watts / this.voltage) * 100) / 100,
+      electricityOfDay: Math.floor(this.onMs / 60000)
+    };
+  }
+
+  applyCommand(command: string): void {
+    switch (command) {
+      case 'turnOn':
+        this.power = 'on';
+        return;
+      case 'turnOff':
+        this.power = 'off';
+        return;
+      case 'toggle':
+        this.power = this.power === 'on' ? 'off' : 'on';
+        return;
+      default:
+        throw this.unsupported(command);
+    }
+  }
+
+  tick(elapsedMs: number, _room: SimulatedRoom, random: RandomSource): void {
+    this.voltage = clamp(this.voltage + (random() - 0.5) * 0.4, 98, 102);
+    if (this.power === 'on') {
+      this.onMs += elapsedMs;
+      // The load fluctuates by up to ±10% around its average
+      this.watts = clamp(this.watts + (random() - 0.5) * this.loadWatts * 0.05, this.loadWatts * 0.9, this.loadWatts * 1.1);
+    }
+  }
+}
+
+/**
+ * Curtain 3 moving towards the requested position
+ * slidePosition runs from 0 (open) to 100 (closed).
+ */
+export class SimulatedCurtain extends SimulatedPhysicalDevice {
+  private position: number = 0;
+  private target: number = 0;
+
+  /**
+   * @param percentPerSecond Travel speed of the motor
+   */
+  constructor(deviceId: string, deviceName: string, hubDeviceId: string, private readonly percentPerSecond: number = 10) {
+    super(deviceId, deviceName, 'Curtain3', hubDeviceId);
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...this.statusHeader(),
+      calibrate: true,
+      group: false,
+      moving: this.position !== this.target,
+      battery: 87,
+      slidePosition: Math.round(this.position)
+    };
+  }
+
+  applyCommand(command: string, parameter: unknown): void {
+    switch (command) {
+      case 'turnOn':
+        this.target = 0;
+        return;
+      case 'turnOff':
+        this.target = 100;
+        return;
+      case 'pause':
+        this.target = this.position;
+        return;
+      case 'setPosition': {
+        // "index,mode,position", e.g. "0,ff,80"
+        const parts = typeof parameter === 'string' ? parameter.split(',') : [];
+        const position = Number(parts[2]);
+        if (parts.length !== 3 || !Number.isInteger(position) || position < 0 || position > 100) {
+          throw invalidParameter(command, parameter);
+        }
+        this.target = position;
+        return;
+      }
+      default:
+        throw this.unsupported(command);
+    }
+  }
+
+  tick(elapsedMs: number): void {
+    const step = (this.percentPerSecond * elapsedMs) / 1000;
+    this.position = this.position < this.target
+      ? Math.min(this.target, this.position + step)
+      : Math.max(this.target, this.position - step);
+  }
+}
+
+/**
+ * Infrared air conditioner that heats, cools or dries the room while running
+ * IR remotes cannot report their state; the status endpoint rejects them like SwitchBot does.
+ */
+export class SimulatedAirConditioner extends SimulatedDevice {
+  private state: AirConditionerProperties = { ...DEFAULT_AIR_CONDITIONER_STATE };
+
+  /**
+   * @param degreesPerMinute How fast the room approaches the target temperature
+   */
+  constructor(deviceId: string, deviceName: string, hubDeviceId: string, private readonly degreesPerMinute: number = 0.2) {
+    super(deviceId, deviceName, hubDeviceId);
+  }
+
+  get infrared(): boolean {
+    return true;
+  }
+
+  /**
+   * State the remote last sent (only visible through the simulator's own API)
+   */
+  getState(): AirConditionerProperties {
+    return { ...this.state };
+  }
+
+  toListEntry(): SimulatedRemoteListEntry {
+    return {
+      deviceId: this.deviceId,
+      deviceName: this.deviceName,
+      remoteType: 'Air Conditioner',
+      hubDeviceId: this.hubDeviceId
+    };
+  }
+
+  getStatus(): Record<string, unknown> {
+    throw new SimulatedDeviceError(
+      `${this.deviceName} is an infrared remote and has no status`,
+      SWITCHBOT_STATUS_CODES.commandNotSupported
+    );
+  }
+
+  applyCommand(command: string, parameter: unknown, commandType: string): void {
+    // Learned buttons are sent blindly; the simulator cannot know what they do
+    if (commandType === 'customize') {
+      return;
+    }
+
+    try {
+      this.state = applyAirConditionerCommand(this.state, command, parameter);
+    } catch (error) {
+      if (error instanceof AirConditionerCommandError) {
+        throw new SimulatedDeviceError(error.message, SWITCHBOT_STATUS_CODES.commandNotSupported);
+      }
+      throw error;
+    }
+  }
+
+  tick(elapsedMs: number, room: SimulatedRoom): void {
+    if (this.state.power !== 'on') {
+      return;
+    }
+
+    const fanFactor = { auto: 1, low: 0.6, medium: 1, high: 1.5 }[this.state.fanSpeed];
+    const step = (this.degreesPerMinute * fanFactor * elapsedMs) / 60000;
+    const target = this.state.temperature;
+
+    switch (this.state.mode) {
+      case 'cool':
+        if (room.temperature > target) {
+          room.temperature = Math.max(target, room.temperature - step);
+        }
+        break;
+      case 'heat':
+        if (room.temperature < target) {
+          room.temperature = Math.min(target, room.temperature + step);
+        }
+        break;
+      case 'auto':
+        room.temperature = room.temperature > target
+          ? Math.max(target, room.temperature - step)
+          : Math.min(target, room.temperature + step);
+        break;
+      case 'dry':
+        room.humidity = Math.max(30, room.humidity - step * 5);
+        break;
+      case 'fan':
+        break;
+    }
+  }
+}
+
+/**
+ * Let the room climate drift randomly, pulled back towards the default climate
+ * Rates are per minute so the drift does not depend on the tick interval.
+ */
+export function driftRoom(room: SimulatedRoom, elapsedMs: number, random: RandomSource): void {
+  const minutes = elapsedMs / 60000;
+  const drift = (baseline: number, current: number, noise: number): number =>
+    current + (baseline - current) * Math.min(1, 0.02 * minutes) + (random() - 0.5) * noise * Math.sqrt(minutes);
+
+  room.temperature = clamp(drift(DEFAULT_ROOM.temperature, room.temperature, 0.2), 5, 40);
+  room.humidity = clamp(drift(DEFAULT_ROOM.humidity, room.humidity, 1), 15, 90);
+  room.lightLevel = clamp(drift(DEFAULT_ROOM.lightLevel, room.lightLevel, 0.5), 1, 20);
+}
+
+/**
+ * Devices of the default simulated home: a hub, a light, an air conditioner, a plug and a curtain
+ */
+export function createDefaultDevices(): SimulatedDevice[] {
+  const hubId = 'C0A1B2C3D4E5';
+  return [
+    new SimulatedHub(hubId, 'リビング ハブ2'),
+    new SimulatedLight('C0A1B2C3D4E6', 'リビング 照明', hubId),
+    new SimulatedAirConditioner('01-202401011200-00000001', 'リビング エアコン', hubId),
+    new SimulatedPlug('C0A1B2C3D4E7', 'テレビ プラグ', hubId, 120),
+    new SimulatedCurtain('C0A1B2C3D4E8', 'リビング カーテン', hubId)
+  ];
+}
+
+function invalidParameter(command: string, parameter: unknown): SimulatedDeviceError {
+  return new SimulatedDeviceError(
+    `Invalid parameter for ${command}: ${String(parameter)}`,
+    SWITCHBOT_STATUS_CODES.deviceInternalError
+  );
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,33 @@
+/**
+ * Entry point of the local SwitchBot API simulator
+ * Accepts the SWITCHBOT_TOKEN / SWITCHBOT_SECRET the backend signs its requests
+ * with; point the backend at it with SWITCHBOT_BASE_URL=http://localhost:<port>/v1.1.
+ */
+
+import { config } from '../config';
+import { SwitchBotSimulator } from './simulator';
+
+const { token, secret } = config.switchbot;
+if (!token || !secret) {
+  console.error('SwitchBot simulator needs SWITCHBOT_TOKEN and SWITCHBOT_SECRET to verify request signatures');
+  process.exit(1);
+}
+
+const simulator = new SwitchBotSimulator({
+  token,
+  secret,
+  faults: {
+    errorRate: config.simulator.errorRate,
+    rateLimitRate: config.simulator.rateLimitRate,
+    latencyMs: config.simulator.latencyMs
+  }
+});
+
+simulator.start();
+
+simulator.app.listen(config.simulator.port, () => {
+  console.log(`SwitchBot simulator running on port ${config.simulator.port}`);
+  console.log(`API base URL: http://localhost:${config.simulator.port}/v1.1`);
+  console.log(`Simulated devices: http://localhost:${config.simulator.port}/simulator/devices`);
+  console.log('Faults:', simulator.getFaults());
+});
@@ -0,0 +1,408 @@
+/**
+ * Local SwitchBot API v1.1 simulator
+ * Serves the endpoints the dashboard uses (device list, status, commands, scenes
+ * and webhook management) from simulated devices, verifying the HMAC signature
+ * of every request like the real API. Faults can be injected to exercise the
+ * retry and error handling of the backend: devices failing with status code 190,
+ * HTTP 429 responses and added latency.
+ */
+
+import crypto from 'crypto';
+import express, { Express, NextFunction, Request, Response, Router } from 'express';
+import {
+  createDefaultDevices,
+  DEFAULT_ROOM,
+  driftRoom,
+  RandomSource,
+  SimulatedAirConditioner,
+  SimulatedDevice,
+  SimulatedDeviceError,
+  SimulatedLight,
+  SimulatedRoom,
+  SWITCHBOT_STATUS_CODES
+} from './devices';
+
+/**
+ * Fault injection settings
+ */
+export interface SimulatorFaults {
+  errorRate: number;     // Share (0-1) of status and command requests failing with status code 190
+  rateLimitRate: number; // Share (0-1) of requests rejected with HTTP 429
+  latencyMs: number;     // Delay added to every response
+}
+
+/**
+ * Command a simulated scene sends to a device
+ */
+export interface SimulatedSceneCommand {
+  deviceId: string;
+  command: string;
+  parameter?: string;
+}
+
+/**
+ * Manual scene of the simulated account
+ */
+export interface SimulatedScene {
+  sceneId: string;
+  sceneName: string;
+  commands: SimulatedSceneCommand[];
+}
+
+/**
+ * Simulator options
+ */
+export interface SimulatorOptions {
+  token: string;
+  secret: string;
+  devices?: SimulatedDevice[];
+  scenes?: SimulatedScene[];
+  faults?: Partial<SimulatorFaults>;
+  random?: RandomSource;
+}
+
+export const DEFAULT_FAULTS: SimulatorFaults = {
+  errorRate: 0,
+  rateLimitRate: 0,
+  latencyMs: 0
+};
+
+/**
+ * Interval of the sensor drift and device movement simulation
+ */
+export const SIMULATOR_TICK_INTERVAL_MS = 5000; // 5 seconds
+
+/**
+ * Simulator error types
+ */
+export type SimulatorErrorCode = 'VALIDATION_ERROR';
+
+/**
+ * Simulator error class
+ */
+export class SimulatorError extends Error {
+  constructor(
+    message: string,
+    public code: SimulatorErrorCode
+  ) {
+    super(message);
+    this.name = 'SimulatorError';
+  }
+}
+
+/**
+ * Verify the SwitchBot v1.1 request signature
+ * sign must be base64(HMAC-SHA256(secret, token + t + nonce)); the uppercase
+ * variant shown in the SwitchBot documentation is accepted as well.
+ */
+export function verifySignature(
+  headers: Record<string, string | string[] | undefined>,
+  token: string,
+  secret: string
+): boolean {
+  const { authorization, sign, t, nonce } = headers;
+  if (authorization !== token || typeof sign !== 'string' || typeof t !== 'string' || typeof nonce !== 'string') {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(token + t + nonce).digest('base64');
+  return [expected, expected.toUpperCase()].some(candidate =>
+    candidate.length === sign.length && crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(sign))
+  );
+}
+
+/**
+ * Simulated SwitchBot account
+ */
+export class SwitchBotSimulator {
+  readonly app: Express;
+  private devices: Map<string, SimulatedDevice>;
+  private scenes: SimulatedScene[];
+  private room: SimulatedRoom = { ...DEFAULT_ROOM };
+  private faults: SimulatorFaults;
+  private webhookUrls: string[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private readonly token: string;
+  private readonly secret: string;
+  private readonly random: RandomSource;
+
+  constructor(options: SimulatorOptions) {
+    this.token = options.token;
+    this.secret = options.secret;
+    this.random = options.random ?? Math.random;
+    this.devices = new Map((options.devices ?? createDefaultDevices()).map(device => [device.deviceId, device]));
+    this.scenes = options.scenes ?? createDefaultScenes([...this.devices.values()]);
+    this.faults = { ...DEFAULT_FAULTS };
+    this.setFaults(options.faults ?? {});
+    this.app = this.createApp();
+  }
+
+  /**
+   * Advance the simulation by elapsedMs
+   */
+  tick(elapsedMs: number): void {
+    driftRoom(this.room, elapsedMs, this.random);
+    for (const device of this.devices.values()) {
+      device.tick(elapsedMs, this.room, this.random);
+    }
+  }
+
+  /**
+   * Advance the simulation in real time
+   */
+  start(intervalMs: number = SIMULATOR_TICK_INTERVAL_MS): void {
+    this.stop();
+    let lastTick = Date.now();
+    this.timer = setInterval(() => {
+      const now = Date.now();
+      this.tick(now - lastTick);
+      lastTick = now;
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getFaults(): SimulatorFaults {
+    return { ...this.faults };
+  }
+
+  /**
+   * Change fault injection settings; omitted settings keep their value
+   */
+  setFaults(changes: Partial<SimulatorFaults>): SimulatorFaults {
+    const faults = { ...this.faults, ...changes };
+    for (const key of ['errorRate', 'rateLimitRate'] as const) {
+      if (typeof faults[key] !== 'number' || faults[key] < 0 || faults[key] > 1) {
+        throw new SimulatorError(`${key} must be a number between 0 and 1`, 'VALIDATION_ERROR');
+      }
+    }
+    if (typeof faults.latencyMs !== 'number' || !Number.isFinite(faults.latencyMs) || faults.latencyMs < 0) {
+      throw new SimulatorError('latencyMs must be a non-negative number', 'VALIDATION_ERROR');
+    }
+
+    this.faults = faults;
+    return this.getFaults();
+  }
+
+  /**
+   * Snapshot of the room and every device, including state SwitchBot cannot report (IR remotes)
+   */
+  getSnapshot(): { room: SimulatedRoom; devices: Record<string, unknown>[] } {
+    return {
+      room: { ...this.room },
+      devices: [...this.devices.values()].map(device => ({
+        ...device.toListEntry(),
+        state: device instanceof SimulatedAirConditioner ? device.getState() : device.getStatus(this.room)
+      }))
+    };
+  }
+
+  private createApp(): Express {
+    const app = express();
+    app.use(express.json());
+
+    app.use('/v1.1', this.injectLatency, this.authenticate, this.injectRateLimit, this.createApiRouter());
+    app.use('/simulator', this.createControlRouter());
+
+    return app;
+  }
+
+  /**
+   * SwitchBot API v1.1 endpoints
+   */
+  private createApiRouter(): Router {
+    const router = Router();
+
+    router.get('/devices', (req: Request, res: Response) => {
+      const devices = [...this.devices.values()];
+      reply(res, SWITCHBOT_STATUS_CODES.success, {
+        deviceList: devices.filter(device => !device.infrared).map(device => device.toListEntry()),
+        infraredRemoteList: devices.filter(device => device.infrared).map(device => device.toListEntry())
+      });
+    });
+
+    router.get('/devices/:deviceId/status', (req: Request, res: Response) => {
+      this.handleDeviceRequest(res, req.params.deviceId, device => device.getStatus(this.room));
+    });
+
+    router.post('/devices/:deviceId/commands', (req: Request, res: Response) => {
+      const { command, parameter, commandType = 'command' } = req.body ?? {};
+      this.handleDeviceRequest(res, req.params.deviceId, device => {
+        if (typeof command !== 'string') {
+          throw new SimulatedDeviceError('command is required', SWITCHBOT_STATUS_CODES.deviceInternalError);
+        }
+        device.applyCommand(command, parameter, commandType);
+        return {};
+      });
+    });
+
+    router.get('/scenes', (req: Request, res: Response) => {
+      reply(res, SWITCHBOT_STATUS_CODES.success, this.scenes.map(({ sceneId, sceneName }) => ({ sceneId, sceneName })));
+    });
+
+    router.post('/scenes/:sceneId/execute', (req: Request, res: Response) => {
+      const scene = this.scenes.find(candidate => candidate.sceneId === req.params.sceneId);
+      if (!scene) {
+        reply(res, SWITCHBOT_STATUS_CODES.deviceNotFound, {}, 'scene not found');
+        return;
+      }
+      if (this.shouldFail(this.faults.errorRate)) {
+        reply(res, SWITCHBOT_STATUS_CODES.deviceInternalError, {}, 'Device internal error due to device states not synchronized with server');
+        return;
+      }
+
+      // A scene runs as far as it can, like in the SwitchBot app
+      for (const { deviceId, command, parameter } of scene.commands) {
+        try {
+          this.devices.get(deviceId)?.applyCommand(command, parameter, 'command');
+        } catch (error) {
+          console.warn(`Simulated scene ${scene.sceneName}: ${deviceId} rejected ${command}:`, error);
+        }
+      }
+      reply(res, SWITCHBOT_STATUS_CODES.success, {});
+    });
+
+    router.post('/webhook/setupWebhook', (req: Request, res: Response) => {
+      const { url } = req.body ?? {};
+      if (typeof url !== 'string' || url === '') {
+        reply(res, SWITCHBOT_STATUS_CODES.deviceInternalError, {}, 'url is required');
+        return;
+      }
+      this.webhookUrls = [url];
+      reply(res, SWITCHBOT_STATUS_CODES.success, {});
+    });
+
+    router.post('/webhook/queryWebhook', (req: Request, res: Response) => {
+      reply(res, SWITCHBOT_STATUS_CODES.success, { urls: [...this.webhookUrls] });
+    });
+
+    router.post('/webhook/deleteWebhook', (req: Request, res: Response) => {
+      const { url } = req.body ?? {};
+      this.webhookUrls = this.webhookUrls.filter(registered => registered !== url);
+      reply(res, SWITCHBOT_STATUS_CODES.success, {});
+    });
+
+    return router;
+  }
+
+  /**
+   * Endpoints to inspect and steer the simulation (no signature required)
+   */
+  private createControlRouter(): Router {
+    const router = Router();
+
+    router.get('/devices', (req: Request, res: Response) => {
+      res.json({ success: true, data: this.getSnapshot() });
+    });
+
+    router.get('/faults', (req: Request, res: Response) => {
+      res.json({ success: true, data: this.getFaults() });
+    });
+
+    router.put('/faults', (req: Request, res: Response) => {
+      try {
+        res.json({ success: true, data: this.setFaults(req.body ?? {}) });
+      } catch (error) {
+        if (error instanceof SimulatorError) {
+          res.status(400).json({ success: false, error: { code: error.code, message: error.message } });
+          return;
+        }
+        throw error;
+      }
+    });
+
+    return router;
+  }
+
+  /**
+   * Run a status or command request against a device, answering like SwitchBot
+   */
+  private handleDeviceRequest(
+    res: Response,
+    deviceId: string,
+    handler: (device: SimulatedDevice) => Record<string, unknown>
+  ): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      reply(res, SWITCHBOT_STATUS_CODES.deviceNotFound, {}, 'device not found');
+      return;
+    }
+    if (this.shouldFail(this.faults.errorRate)) {
+      reply(res, SWITCHBOT_STATUS_CODES.deviceInternalError, {}, 'Device internal error due to device states not synchronized with server');
+      return;
+    }
+
+    try {
+      reply(res, SWITCHBOT_STATUS_CODES.success, handler(device));
+    } catch (error) {
+      if (error instanceof SimulatedDeviceError) {
+        reply(res, error.statusCode, {}, error.message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private injectLatency = (req: Request, res: Response, next: NextFunction): void => {
+    if (this.faults.latencyMs > 0) {
+      setTimeout(next, this.faults.latencyMs);
+      return;
+    }
+    next();
+  };
+
+  private authenticate = (req: Request, res: Response, next: NextFunction): void => {
+    if (!verifySignature(req.headers, this.token, this.secret)) {
+      res.status(401).json({ message: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+
+  private injectRateLimit = (req: Request, res: Response, next: NextFunction): void => {
+    if (this.shouldFail(this.faults.rateLimitRate)) {
+      res.status(429).json({ message: 'Too Many Requests' });
+      return;
+    }
+    next();
+  };
+
+  private shouldFail(rate: number): boolean {
+    return rate > 0 && this.random() < rate;
+  }
+}
+
+/**
+ * Scenes of the default simulated home
+ */
+function createDefaultScenes(devices: SimulatedDevice[]): SimulatedScene[] {
+  const light = devices.find(device => device instanceof SimulatedLight)?.deviceId;
+  const airConditioner = devices.find(device => device instanceof SimulatedAirConditioner)?.deviceId;
+  const step = (deviceId: string | undefined, command: string, parameter?: string): SimulatedSceneCommand[] =>
+    deviceId ? [{ deviceId, command, parameter }] : [];
+
+  return [
+    {
+      sceneId: 'T01-202401010000-00000001',
+      sceneName: '帰宅',
+      commands: [...step(light, 'turnOn'), ...step(airConditioner, 'setAll', '26,2,1,on')]
+    },
+    {
+      sceneId: 'T01-202401010000-00000002',
+      sceneName: 'おやすみ',
+      commands: [...step(light, 'turnOff'), ...step(airConditioner, 'turnOff')]
+    }
+  ];
+}
+
+/**
+ * Send a SwitchBot style response body
+ */
+function reply(res: Response, statusCode: number, body: unknown, message: string = 'success'): void {
+  res.json({ statusCode, body, message });
+}
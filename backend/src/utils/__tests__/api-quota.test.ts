@@ -0,0 +1,123 @@
+/**
+ * Tests for daily API quota accounting
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiQuotaTracker, ApiQuotaUsage, budgetedPollInterval } from '../api-quota';
+
+describe('ApiQuotaTracker', () => {
+  let now: Date;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = new Date(2024, 0, 1, 12, 0, 0);
+  });
+
+  it('should count calls of the current day', () => {
+    const tracker = new ApiQuotaTracker({ dailyLimit: 100, reservedForCommands: 10, now: clock });
+
+    tracker.recordCall();
+    tracker.recordCall();
+
+    expect(tracker.getUsage()).toEqual({
+      date: '2024-01-01',
+      used: 2,
+      limit: 100,
+      remaining: 98,
+      reserved: 10,
+      resetAt: new Date(2024, 0, 2)
+    });
+  });
+
+  it('should start from zero when the day changes', () => {
+    const tracker = new ApiQuotaTracker({ dailyLimit: 100, reservedForCommands: 10, now: clock });
+    tracker.recordCall();
+
+    now = new Date(2024, 0, 2, 0, 0, 1);
+
+    expect(tracker.getUsage()).toMatchObject({ date: '2024-01-02', used: 0, remaining: 100 });
+  });
+
+  it('should never report negative remaining calls', () => {
+    const tracker = new ApiQuotaTracker({ dailyLimit: 1, reservedForCommands: 0, now: clock });
+    tracker.recordCall();
+    tracker.recordCall();
+
+    expect(tracker.getUsage()).toMatchObject({ used: 2, remaining: 0 });
+  });
+
+  describe('file storage', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-quota-'));
+      filePath = path.join(tempDir, 'api-usage.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should keep the counter of the current day across restarts', () => {
+      const tracker = new ApiQuotaTracker({ dailyLimit: 100, reservedForCommands: 10, filePath, now: clock });
+      tracker.recordCall();
+      tracker.recordCall();
+
+      const restarted = new ApiQuotaTracker({ dailyLimit: 100, reservedForCommands: 10, filePath, now: clock });
+
+      expect(restarted.getUsage().used).toBe(2);
+    });
+
+    it('should ignore counters of previous days', () => {
+      fs.writeFileSync(filePath, JSON.stringify({ date: '2023-12-31', count: 80 }));
+
+      const tracker = new ApiQuotaTracker({ dailyLimit: 100, reservedForCommands: 10, filePath, now: clock });
+
+      expect(tracker.getUsage().used).toBe(0);
+    });
+
+    it('should count from zero when the file is unreadable', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      fs.writeFileSync(filePath, '{not json');
+
+      const tracker = new ApiQuotaTracker({ dailyLimit: 100, reservedForCommands: 10, filePath, now: clock });
+
+      expect(tracker.getUsage().used).toBe(0);
+      consoleSpy.mockRestore();
+    });
+  });
+});
+
+describe('budgetedPollInterval', () => {
+  const now = new Date(2024, 0, 1, 12, 0, 0);
+  const usage = (remaining: number, reserved: number = 500): ApiQuotaUsage => ({
+    date: '2024-01-01',
+    used: 10000 - remaining,
+    limit: 10000,
+    remaining,
+    reserved,
+    resetAt: new Date(2024, 0, 2)
+  });
+  const twelveHours = 12 * 60 * 60 * 1000;
+
+  it('should keep the base interval while the budget lasts until the reset', () => {
+    // 12 hours of 30 second polls with 2 calls each take 2880 calls
+    expect(budgetedPollInterval(30000, 2, usage(5000), now)).toBe(30000);
+  });
+
+  it('should stretch the interval so the budget lasts until the reset', () => {
+    // 1000 calls minus 500 reserved allow 250 polls of 2 calls in 12 hours
+    expect(budgetedPollInterval(30000, 2, usage(1000), now)).toBe(twelveHours / 250);
+  });
+
+  it('should wait for the reset when only the reserved calls are left', () => {
+    expect(budgetedPollInterval(30000, 1, usage(500), now)).toBe(twelveHours);
+  });
+
+  it('should keep the base interval when polls make no API calls', () => {
+    expect(budgetedPollInterval(30000, 0, usage(0), now)).toBe(30000);
+  });
+});
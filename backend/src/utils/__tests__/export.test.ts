@@ -0,0 +1,37 @@
+/**
+ * Tests for export helpers
+ */
+
+import { escapeCsvValue, exportFilename, isExportFormat } from '../export';
+
+describe('export helpers', () => {
+  describe('escapeCsvValue', () => {
+    it('should leave plain values unquoted', () => {
+      expect(escapeCsvValue('hub-1')).toBe('hub-1');
+      expect(escapeCsvValue(21.5)).toBe('21.5');
+      expect(escapeCsvValue(false)).toBe('false');
+    });
+
+    it('should write missing values as empty fields', () => {
+      expect(escapeCsvValue(undefined)).toBe('');
+      expect(escapeCsvValue(null)).toBe('');
+    });
+
+    it('should quote values containing separators, quotes or newlines', () => {
+      expect(escapeCsvValue('[Living] 温度が高すぎます, 30°C')).toBe('"[Living] 温度が高すぎます, 30°C"');
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvValue('line1\nline2')).toBe('"line1\nline2"');
+    });
+  });
+
+  it('should validate export formats', () => {
+    expect(isExportFormat('csv')).toBe(true);
+    expect(isExportFormat('json')).toBe(true);
+    expect(isExportFormat('xml')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+
+  it('should build dated export filenames', () => {
+    expect(exportFilename('alert-history', new Date('2024-01-31T12:00:00Z'))).toBe('alert-history-2024-01-31');
+  });
+});
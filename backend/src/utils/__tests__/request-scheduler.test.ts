@@ -0,0 +1,168 @@
+/**
+ * Tests for the priority-aware request scheduler
+ */
+
+import { RequestScheduler } from '../request-scheduler';
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Queue a request and record the order in which requests start
+   */
+  const track = (scheduler: RequestScheduler, started: string[]) =>
+    (name: string, priority: 'interactive' | 'read' | 'background') =>
+      scheduler.waitForSlot(priority).then(() => {
+        started.push(name);
+      });
+
+  it('should start the first request immediately', async () => {
+    const scheduler = new RequestScheduler(10000, 1000);
+    const started: string[] = [];
+
+    await track(scheduler, started)('poll', 'background');
+
+    expect(started).toEqual(['poll']);
+  });
+
+  it('should start queued requests by priority, then in arrival order', async () => {
+    const scheduler = new RequestScheduler(10000, 1000);
+    const started: string[] = [];
+    const queue = track(scheduler, started);
+
+    const requests = [
+      queue('first', 'background'),
+      queue('poll', 'background'),
+      queue('status', 'read'),
+      queue('toggle', 'interactive')
+    ];
+    await jest.advanceTimersByTimeAsync(30000);
+    await Promise.all(requests);
+
+    expect(started).toEqual(['first', 'toggle', 'status', 'poll']);
+  });
+
+  it('should let interactive requests skip the wait of a queued background request', async () => {
+    const scheduler = new RequestScheduler(10000, 1000);
+    const started: string[] = [];
+    const queue = track(scheduler, started);
+
+    queue('first', 'background');
+    queue('poll', 'background');
+    await jest.advanceTimersByTimeAsync(0);
+    queue('toggle', 'interactive');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(['first', 'toggle']);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(started).toEqual(['first', 'toggle', 'poll']);
+  });
+
+  it('should report queue depth and wait times per lane', async () => {
+    const scheduler = new RequestScheduler(10000, 1000);
+    const queue = track(scheduler, []);
+
+    queue('first', 'background');
+    queue('poll', 'background');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(scheduler.getStats().lanes.background).toEqual({
+      queued: 1,
+      dispatched: 1,
+      averageWaitMs: 0,
+      maxWaitMs: 0
+    });
+
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(scheduler.getStats().lanes.background).toEqual({
+      queued: 0,
+      dispatched: 2,
+      averageWaitMs: 5000,
+      maxWaitMs: 10000
+    });
+    expect(scheduler.getStats().lanes.interactive.dispatched).toBe(0);
+  });
+
+  it('should count only the requests a caller sent itself', async () => {
+    const scheduler = new RequestScheduler(10000, 1000);
+
+    const other = Promise.all([scheduler.waitForSlot('interactive'), scheduler.waitForSlot('read')]);
+    const counted = scheduler.countRequests(async () => {
+      await scheduler.waitForSlot('background');
+      await scheduler.waitForSlot('background');
+      return 'polled';
+    });
+    await jest.advanceTimersByTimeAsync(40000);
+    await other;
+
+    await expect(counted).resolves.toEqual({ result: 'polled', requests: 2 });
+  });
+
+  describe('coalesce', () => {
+    it('should share an identical read that is in flight', async () => {
+      const scheduler = new RequestScheduler();
+      let resolveRead: (value: string) => void = () => undefined;
+      const read = jest.fn(() => new Promise<string>(resolve => {
+        resolveRead = resolve;
+      }));
+
+      const first = scheduler.coalesce('GET /devices', read);
+      const second = scheduler.coalesce('GET /devices', read);
+      expect(scheduler.getStats().inFlightReads).toBe(1);
+
+      resolveRead('devices');
+
+      await expect(first).resolves.toBe('devices');
+      await expect(second).resolves.toBe('devices');
+      expect(read).toHaveBeenCalledTimes(1);
+      expect(scheduler.getStats()).toMatchObject({ inFlightReads: 0, coalescedReads: 1 });
+    });
+
+    it('should run the read again once the previous one settled', async () => {
+      const scheduler = new RequestScheduler();
+      const read = jest.fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce('devices');
+
+      await expect(scheduler.coalesce('GET /devices', read)).rejects.toThrow('Network error');
+      await expect(scheduler.coalesce('GET /devices', read)).resolves.toBe('devices');
+      expect(read).toHaveBeenCalledTimes(2);
+    });
+
+    it('should move a waiting shared read to the lane of a more urgent caller', async () => {
+      const scheduler = new RequestScheduler(10000, 1000);
+      const started: string[] = [];
+      const queue = track(scheduler, started);
+      const key = 'GET /devices/hub/status';
+      const read = () => scheduler.waitForSlot('background', key).then(() => {
+        started.push('status');
+        return 'status';
+      });
+
+      queue('first', 'background');
+      queue('plug', 'background');
+      const polled = scheduler.coalesce(key, read, 'background');
+      await jest.advanceTimersByTimeAsync(0);
+
+      const viewed = scheduler.coalesce(key, read, 'read');
+      expect(scheduler.getStats().lanes).toMatchObject({ read: { queued: 1 }, background: { queued: 1 } });
+
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(started).toEqual(['first', 'status']);
+      await expect(viewed).resolves.toBe('status');
+      await expect(polled).resolves.toBe('status');
+
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(started).toEqual(['first', 'status', 'plug']);
+    });
+  });
+});
@@ -49,7 +49,7 @@ describe('SwitchBotAPI', () => {
 
       const result = await api.getDevices();
 
-      expect(mockSwitchBotClient.get).toHaveBeenCalledWith('/devices');
+      expect(mockSwitchBotClient.get).toHaveBeenCalledWith('/devices', 'read');
       expect(result).toEqual(mockResponse);
     });
 
@@ -83,7 +83,7 @@ describe('SwitchBotAPI', () => {
 
       const result = await api.getDeviceStatus('device1');
 
-      expect(mockSwitchBotClient.get).toHaveBeenCalledWith('/devices/device1/status');
+      expect(mockSwitchBotClient.get).toHaveBeenCalledWith('/devices/device1/status', 'read');
       expect(result).toEqual(mockResponse);
     });
 
@@ -119,6 +119,18 @@ describe('SwitchBotAPI', () => {
       expect(result).toEqual(mockResponse);
     });
 
+    it('should send customize commands with their command type', async () => {
+      mockSwitchBotClient.post.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+
+      await api.sendDeviceCommand('ir1', 'Input', 'default', 'customize');
+
+      expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/devices/ir1/commands', {
+        command: 'Input',
+        parameter: 'default',
+        commandType: 'customize'
+      });
+    });
+
     it('should send command with parameter successfully', async () => {
       const mockResponse = {
         statusCode: 100,
@@ -138,6 +150,81 @@ describe('SwitchBotAPI', () => {
     });
   });
 
+  describe('scenes', () => {
+    it('should get manual scenes', async () => {
+      const mockResponse = {
+        statusCode: 100,
+        body: [{ sceneId: 'T02-20200804130110', sceneName: 'Close Office Devices' }],
+        message: 'success'
+      };
+
+      mockSwitchBotClient.get.mockResolvedValue(mockResponse);
+
+      const result = await api.getScenes();
+
+      expect(mockSwitchBotClient.get).toHaveBeenCalledWith('/scenes');
+      expect(result.body[0].sceneName).toBe('Close Office Devices');
+    });
+
+    it('should execute a scene', async () => {
+      mockSwitchBotClient.post.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+
+      await api.executeScene('T02-20200804130110');
+
+      expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/scenes/T02-20200804130110/execute');
+    });
+
+    it('should throw error when scene execution fails', async () => {
+      mockSwitchBotClient.post.mockResolvedValue({ statusCode: 190, body: {}, message: 'unknown scene' });
+
+      await expect(api.executeScene('missing')).rejects.toThrow('Failed to execute scene');
+    });
+  });
+
+  describe('webhooks', () => {
+    it('should set up a webhook for all devices', async () => {
+      mockSwitchBotClient.post.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+
+      await api.setupWebhook('https://example.com/api/webhook/switchbot');
+
+      expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/webhook/setupWebhook', {
+        action: 'setupWebhook',
+        url: 'https://example.com/api/webhook/switchbot',
+        deviceList: 'ALL'
+      });
+    });
+
+    it('should query registered webhook URLs', async () => {
+      mockSwitchBotClient.post.mockResolvedValue({
+        statusCode: 100,
+        body: { urls: ['https://example.com/api/webhook/switchbot'] },
+        message: 'success'
+      });
+
+      const result = await api.queryWebhook();
+
+      expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/webhook/queryWebhook', { action: 'queryUrl' });
+      expect(result.body.urls).toEqual(['https://example.com/api/webhook/switchbot']);
+    });
+
+    it('should delete a webhook', async () => {
+      mockSwitchBotClient.post.mockResolvedValue({ statusCode: 100, body: {}, message: 'success' });
+
+      await api.deleteWebhook('https://example.com/api/webhook/switchbot');
+
+      expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/webhook/deleteWebhook', {
+        action: 'deleteWebhook',
+        url: 'https://example.com/api/webhook/switchbot'
+      });
+    });
+
+    it('should throw error when the webhook request fails', async () => {
+      mockSwitchBotClient.post.mockResolvedValue({ statusCode: 190, body: {}, message: 'invalid url' });
+
+      await expect(api.setupWebhook('not-a-url')).rejects.toThrow('Failed to set up webhook: invalid url');
+    });
+  });
+
   describe('getEnvironmentData', () => {
     it('should return environment data from Hub 2', async () => {
       const mockResponse = {
@@ -221,6 +308,36 @@ describe('SwitchBotAPI', () => {
       );
     });
 
+    it('should set color temperature in Kelvin', async () => {
+      await api.controlLight('light1', 'setColorTemperature', undefined, 4000);
+
+      expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/devices/light1/commands', {
+        command: 'setColorTemperature',
+        parameter: '4000'
+      });
+    });
+
+    it('should throw error for invalid color temperature', async () => {
+      await expect(api.controlLight('light1', 'setColorTemperature', undefined, 2000)).rejects.toThrow(
+        'Color temperature must be between 2700K and 6500K'
+      );
+    });
+
+    it('should set color as red:green:blue', async () => {
+      await api.controlLight('light1', 'setColor', undefined, undefined, { red: 255, green: 128, blue: 0 });
+
+      expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/devices/light1/commands', {
+        command: 'setColor',
+        parameter: '255:128:0'
+      });
+    });
+
+    it('should throw error for invalid color', async () => {
+      await expect(
+        api.controlLight('light1', 'setColor', undefined, undefined, { red: 256, green: 0, blue: 0 })
+      ).rejects.toThrow('Color values must be integers between 0 and 255');
+    });
+
     it('should throw error for unknown action', async () => {
       await expect(api.controlLight('light1', 'invalidAction' as any)).rejects.toThrow(
         'Unknown light action: invalidAction'
@@ -259,12 +376,7 @@ describe('SwitchBotAPI', () => {
 
       expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/devices/ac1/commands', {
         command: 'setAll',
-        parameter: {
-          temperature: 22,
-          mode: 'cool',
-          fanSpeed: 'auto',
-          power: 'on'
-        }
+        parameter: '22,2,1,on'
       });
     });
 
@@ -273,12 +385,7 @@ describe('SwitchBotAPI', () => {
 
       expect(mockSwitchBotClient.post).toHaveBeenCalledWith('/devices/ac1/commands', {
         command: 'setAll',
-        parameter: {
-          temperature: 24,
-          mode: 'auto',
-          fanSpeed: 'auto',
-          power: 'on'
-        }
+        parameter: '24,1,1,on'
       });
     });
 
@@ -11,6 +11,12 @@ jest.mock('../../config', () => ({
       token: 'test-token',
       secret: 'test-secret',
       baseUrl: 'https://api.switch-bot.com/v1.1'
+    },
+    apiQuota: {
+      storage: 'memory',
+      filePath: 'data/api-usage.json',
+      dailyLimit: 10000,
+      reservedForCommands: 500
     }
   }
 }));
@@ -107,6 +113,49 @@ describe('SwitchBotClient - Core Functionality', () => {
     });
   });
 
+  describe('request scheduling', () => {
+    it('should share concurrent reads of the same endpoint', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { devices: [] } });
+
+      const [first, second] = await Promise.all([
+        client.get('/devices'),
+        client.get('/devices', 'background')
+      ]);
+
+      expect(first).toEqual({ devices: [] });
+      expect(second).toBe(first);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(client.getSchedulerStats().coalescedReads).toBe(1);
+      expect(client.getSchedulerStats().lanes.read.dispatched).toBe(1);
+    });
+  });
+
+  describe('quota accounting', () => {
+    it('should record every request in the daily quota', async () => {
+      const quota = { recordCall: jest.fn(), getUsage: jest.fn() };
+      client = new SwitchBotClient(quota);
+      mockAxiosInstance.get.mockResolvedValue({ data: { success: true } });
+
+      await client.get('/devices');
+
+      expect(quota.recordCall).toHaveBeenCalledTimes(1);
+    });
+
+    it('should expose the usage of the current day', () => {
+      const usage = {
+        date: '2024-01-01',
+        used: 42,
+        limit: 10000,
+        remaining: 9958,
+        reserved: 500,
+        resetAt: new Date(2024, 0, 2)
+      };
+      client = new SwitchBotClient({ recordCall: jest.fn(), getUsage: jest.fn(() => usage) });
+
+      expect(client.getQuotaUsage()).toBe(usage);
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return true when API is accessible', async () => {
       mockAxiosInstance.get.mockResolvedValue({ data: { devices: [] } });
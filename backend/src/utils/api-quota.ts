@@ -0,0 +1,184 @@
+/**
+ * Daily SwitchBot API quota accounting
+ * SwitchBot limits the number of API calls per account and day. Every request
+ * sent by the client is counted here, and the counter is persisted to a JSON
+ * file so that restarting the backend during the day does not reset it.
+ */
+
+import fs from 'fs';
+import { config } from '../config';
+import { writeFileAtomic } from './file-storage';
+
+/**
+ * API usage of the current day
+ */
+export interface ApiQuotaUsage {
+  date: string; // Local date (YYYY-MM-DD) the counter belongs to
+  used: number;
+  limit: number;
+  remaining: number;
+  reserved: number; // Calls kept free for user-issued commands
+  resetAt: Date;
+}
+
+/**
+ * Quota tracker options
+ */
+export interface ApiQuotaOptions {
+  dailyLimit: number;
+  reservedForCommands: number;
+  filePath?: string | null; // null keeps the counter in memory only
+  now?: () => Date;
+}
+
+/**
+ * Counter as stored in the usage file
+ */
+interface PersistedApiUsage {
+  date: string;
+  count: number;
+}
+
+/**
+ * Per-day counter of SwitchBot API calls
+ */
+export class ApiQuotaTracker {
+  private date: string;
+  private count: number = 0;
+  private readonly dailyLimit: number;
+  private readonly reservedForCommands: number;
+  private readonly filePath: string | null;
+  private readonly now: () => Date;
+
+  constructor(options: ApiQuotaOptions) {
+    this.dailyLimit = options.dailyLimit;
+    this.reservedForCommands = Math.min(options.reservedForCommands, options.dailyLimit);
+    this.filePath = options.filePath ?? null;
+    this.now = options.now ?? (() => new Date());
+    this.date = formatLocalDate(this.now());
+
+    if (this.filePath) {
+      this.loadFromFile(this.filePath);
+    }
+  }
+
+  /**
+   * Count one request sent to the SwitchBot API
+   */
+  recordCall(): void {
+    this.rollOver();
+    this.count++;
+    this.saveToFile();
+  }
+
+  /**
+   * Get the usage of the current day
+   */
+  getUsage(): ApiQuotaUsage {
+    this.rollOver();
+
+    const today = this.now();
+    const resetAt = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+    return {
+      date: this.date,
+      used: this.count,
+      limit: this.dailyLimit,
+      remaining: Math.max(0, this.dailyLimit - this.count),
+      reserved: this.reservedForCommands,
+      resetAt
+    };
+  }
+
+  /**
+   * Start a new counter when the day has changed
+   */
+  private rollOver(): void {
+    const today = formatLocalDate(this.now());
+    if (today !== this.date) {
+      this.date = today;
+      this.count = 0;
+    }
+  }
+
+  private loadFromFile(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const raw: Partial<PersistedApiUsage> = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (raw.date === this.date && typeof raw.count === 'number' && raw.count >= 0) {
+        this.count = raw.count;
+        console.log(`API usage loaded from ${filePath}: ${this.count} calls today`);
+      }
+    } catch (error) {
+      console.error(`Failed to read API usage file ${filePath}, counting from zero:`, error);
+    }
+  }
+
+  /**
+   * Persist the counter (no-op when running in memory)
+   * Failures are logged; losing the counter must never fail an API request.
+   */
+  private saveToFile(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const persisted: PersistedApiUsage = { date: this.date, count: this.count };
+    try {
+      writeFileAtomic(this.filePath, `${JSON.stringify(persisted)}\n`);
+    } catch (error) {
+      console.error(`Failed to save API usage to ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Calculate the polling interval that keeps the projected daily usage within budget
+ * Polling may use the remaining calls minus the calls reserved for commands.
+ * When the base interval would exhaust that budget before the counter resets,
+ * the interval is stretched so the budget lasts until the reset; when nothing is
+ * left, polling waits for the reset.
+ *
+ * @param baseIntervalMs Interval configured in the settings
+ * @param callsPerPoll API calls made by one poll
+ * @param usage Current API usage
+ * @param now Current time
+ */
+export function budgetedPollInterval(
+  baseIntervalMs: number,
+  callsPerPoll: number,
+  usage: ApiQuotaUsage,
+  now: Date = new Date()
+): number {
+  if (callsPerPoll <= 0) {
+    return baseIntervalMs;
+  }
+
+  const msUntilReset = Math.max(0, usage.resetAt.getTime() - now.getTime());
+  const budget = usage.remaining - usage.reserved;
+  if (budget < callsPerPoll) {
+    return Math.max(baseIntervalMs, msUntilReset);
+  }
+
+  const affordablePolls = Math.floor(budget / callsPerPoll);
+  return Math.max(baseIntervalMs, Math.ceil(msUntilReset / affordablePolls));
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Export singleton instance
+export const apiQuotaTracker = new ApiQuotaTracker({
+  dailyLimit: config.apiQuota.dailyLimit,
+  reservedForCommands: config.apiQuota.reservedForCommands,
+  filePath: config.apiQuota.storage === 'file' ? config.apiQuota.filePath : null
+});
@@ -0,0 +1,91 @@
+/**
+ * Helpers for streaming data exports (CSV / JSON downloads)
+ */
+
+import { Response } from 'express';
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+/**
+ * Check whether a value is a supported export format
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Column of an export; the key is used as CSV header and JSON property name
+ */
+export interface ExportColumn<T> {
+  key: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+/**
+ * Stream rows to the response as a downloadable CSV or JSON file
+ * Rows are written one at a time so large histories are never serialized in one piece.
+ */
+export function streamExport<T>(
+  res: Response,
+  format: ExportFormat,
+  baseFilename: string,
+  columns: ExportColumn<T>[],
+  rows: Iterable<T>
+): void {
+  const filename = `${baseFilename}.${format}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    // BOM so that spreadsheet applications detect UTF-8 (Japanese alert messages)
+    res.write('\uFEFF');
+    res.write(`${columns.map(column => escapeCsvValue(column.key)).join(',')}\r\n`);
+    for (const row of rows) {
+      res.write(`${columns.map(column => escapeCsvValue(column.value(row))).join(',')}\r\n`);
+    }
+    res.end();
+    return;
+  }
+
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.write('[');
+  let first = true;
+  for (const row of rows) {
+    const record: Record<string, unknown> = {};
+    for (const column of columns) {
+      const value = column.value(row);
+      record[column.key] = value === undefined ? null : value;
+    }
+    res.write(`${first ? '' : ','}\n${JSON.stringify(record)}`);
+    first = false;
+  }
+  res.write('\n]\n');
+  res.end();
+}
+
+/**
+ * Escape a single CSV field (RFC 4180)
+ */
+export function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Export filename with the current date, e.g. environment-history-2024-01-31
+ */
+export function exportFilename(prefix: string, date: Date = new Date()): string {
+  return `${prefix}-${date.toISOString().slice(0, 10)}`;
+}
@@ -0,0 +1,36 @@
+/**
+ * File storage helpers for persisted dashboard data
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Create the parent directory of a file if it does not exist yet
+ */
+export function ensureParentDirectory(filePath: string): void {
+  const directory = path.dirname(filePath);
+  if (!fs.existsSync(directory)) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+}
+
+/**
+ * Write file contents atomically
+ * Data is written to a temporary file first and then renamed over the target,
+ * so a crash mid-write never leaves a truncated file behind.
+ */
+export function writeFileAtomic(filePath: string, contents: string): void {
+  ensureParentDirectory(filePath);
+
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, contents, 'utf8');
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
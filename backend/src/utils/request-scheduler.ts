@@ -0,0 +1,271 @@
+/**
+ * Priority-aware scheduler for SwitchBot API requests
+ * Requests wait in one of three lanes. Whenever the next request may be sent,
+ * the oldest request of the most urgent non-empty lane goes first, so a user's
+ * command never queues behind background polling. Identical reads that are
+ * already in flight share a single request, which moves up to the lane of the
+ * most urgent caller while it is still waiting.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Request lanes, most urgent first
+ * - interactive: commands issued by a user (device control, scenes)
+ * - read: status reads a user is waiting for (REST API)
+ * - background: periodic polling and sampling
+ */
+export type RequestPriority = 'interactive' | 'read' | 'background';
+
+export const REQUEST_PRIORITIES: RequestPriority[] = ['interactive', 'read', 'background'];
+
+/**
+ * Minimum interval between two SwitchBot API requests
+ * The daily quota is enforced separately (see api-quota.ts); spacing requests
+ * keeps bursts of reads from draining it.
+ */
+export const MIN_REQUEST_INTERVAL_MS = 10000; // 10 seconds
+
+/**
+ * Minimum interval before an interactive request
+ * Commands only wait a short moment after the previous request so the
+ * dashboard reacts promptly.
+ */
+export const INTERACTIVE_REQUEST_INTERVAL_MS = 1000; // 1 second
+
+/**
+ * Queue diagnostics of a lane
+ */
+export interface LaneStats {
+  queued: number;
+  dispatched: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Queue diagnostics of the scheduler
+ */
+export interface RequestSchedulerStats {
+  lanes: Record<RequestPriority, LaneStats>;
+  inFlightReads: number;
+  coalescedReads: number;
+}
+
+/**
+ * Requests sent on behalf of one caller (see countRequests)
+ */
+interface RequestTally {
+  requests: number;
+}
+
+/**
+ * Request waiting for its turn
+ */
+interface QueuedRequest {
+  enqueuedAt: number;
+  start: () => void;
+  key?: string; // Coalescing key of the read waiting here
+  tally?: RequestTally; // Caller the request is counted for
+}
+
+/**
+ * Read that is in flight and may be shared
+ */
+interface InFlightRead {
+  promise: Promise<unknown>;
+  priority: RequestPriority; // Most urgent priority of the callers sharing it
+}
+
+/**
+ * Dispatch counters of a lane
+ */
+interface LaneCounters {
+  dispatched: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Request scheduler class
+ */
+export class RequestScheduler {
+  private lanes: Record<RequestPriority, QueuedRequest[]> = {
+    interactive: [],
+    read: [],
+    background: []
+  };
+  private counters: Record<RequestPriority, LaneCounters> = {
+    interactive: { dispatched: 0, totalWaitMs: 0, maxWaitMs: 0 },
+    read: { dispatched: 0, totalWaitMs: 0, maxWaitMs: 0 },
+    background: { dispatched: 0, totalWaitMs: 0, maxWaitMs: 0 }
+  };
+  private inFlightReads: Map<string, InFlightRead> = new Map();
+  private coalescedReads: number = 0;
+  private callers: AsyncLocalStorage<RequestTally> = new AsyncLocalStorage();
+  private lastDispatchAt: number = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly minInterval: number;
+  private readonly interactiveInterval: number;
+
+  /**
+   * @param minInterval Minimum interval between two requests (milliseconds)
+   * @param interactiveInterval Minimum interval before an interactive request (milliseconds)
+   */
+  constructor(
+    minInterval: number = MIN_REQUEST_INTERVAL_MS,
+    interactiveInterval: number = INTERACTIVE_REQUEST_INTERVAL_MS
+  ) {
+    this.minInterval = minInterval;
+    this.interactiveInterval = Math.min(interactiveInterval, minInterval);
+  }
+
+  /**
+   * Wait until a request of the given priority may be sent
+   * Pass the coalescing key of a shared read so that it (and its retries)
+   * waits in the lane of the most urgent caller sharing it.
+   */
+  waitForSlot(priority: RequestPriority, key?: string): Promise<void> {
+    const shared = key ? this.inFlightReads.get(key) : undefined;
+    const lane = shared && isMoreUrgent(shared.priority, priority) ? shared.priority : priority;
+
+    return new Promise(resolve => {
+      this.lanes[lane].push({ enqueuedAt: Date.now(), start: resolve, key, tally: this.callers.getStore() });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Share the result of an identical read that is already in flight
+   * The first caller of a key runs the request; callers arriving before it
+   * settles receive the same result (or error). A more urgent caller moves the
+   * shared read to its own lane if the read is still waiting for its turn.
+   */
+  coalesce<T>(key: string, request: () => Promise<T>, priority: RequestPriority = 'read'): Promise<T> {
+    const pending = this.inFlightReads.get(key);
+    if (pending) {
+      this.coalescedReads++;
+      if (isMoreUrgent(priority, pending.priority)) {
+        pending.priority = priority;
+        this.promote(key, priority);
+      }
+      return pending.promise as Promise<T>;
+    }
+
+    const entry: InFlightRead = { promise: Promise.resolve(), priority };
+    this.inFlightReads.set(key, entry);
+    const promise = request().finally(() => {
+      this.inFlightReads.delete(key);
+    });
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * Run a task and count the requests it sends
+   * Only requests queued by the task itself are counted, not those of other
+   * callers sent in the meantime. A read shared with a request that another
+   * caller started counts for that caller only.
+   */
+  async countRequests<T>(task: () => Promise<T>): Promise<{ result: T; requests: number }> {
+    const tally: RequestTally = { requests: 0 };
+    const result = await this.callers.run(tally, task);
+    return { result, requests: tally.requests };
+  }
+
+  /**
+   * Get queue depth and wait times of every lane
+   */
+  getStats(): RequestSchedulerStats {
+    const lanes = {} as Record<RequestPriority, LaneStats>;
+    for (const priority of REQUEST_PRIORITIES) {
+      const counters = this.counters[priority];
+      lanes[priority] = {
+        queued: this.lanes[priority].length,
+        dispatched: counters.dispatched,
+        averageWaitMs: counters.dispatched > 0 ? Math.round(counters.totalWaitMs / counters.dispatched) : 0,
+        maxWaitMs: counters.maxWaitMs
+      };
+    }
+
+    return {
+      lanes,
+      inFlightReads: this.inFlightReads.size,
+      coalescedReads: this.coalescedReads
+    };
+  }
+
+  /**
+   * Move the queued request of a shared read into a more urgent lane
+   * It keeps its arrival time, so it goes ahead of requests that arrived later.
+   */
+  private promote(key: string, priority: RequestPriority): void {
+    for (const lane of REQUEST_PRIORITIES) {
+      if (!isMoreUrgent(priority, lane)) {
+        continue;
+      }
+
+      const index = this.lanes[lane].findIndex(request => request.key === key);
+      if (index === -1) {
+        continue;
+      }
+
+      const [request] = this.lanes[lane].splice(index, 1);
+      const target = this.lanes[priority];
+      const position = target.findIndex(queued => queued.enqueuedAt > request.enqueuedAt);
+      target.splice(position === -1 ? target.length : position, 0, request);
+      this.dispatch();
+      return;
+    }
+  }
+
+  /**
+   * Start the next request if its interval has passed, otherwise wait for it
+   * Called whenever a request is queued, so an urgent request arriving while
+   * a less urgent one waits takes its place.
+   */
+  private dispatch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const priority = REQUEST_PRIORITIES.find(lane => this.lanes[lane].length > 0);
+    if (!priority) {
+      return;
+    }
+
+    const now = Date.now();
+    const interval = priority === 'interactive' ? this.interactiveInterval : this.minInterval;
+    const waitTime = this.lastDispatchAt + interval - now;
+    if (waitTime > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.dispatch();
+      }, waitTime);
+      return;
+    }
+
+    const request = this.lanes[priority].shift()!;
+    const waitedMs = now - request.enqueuedAt;
+    const counters = this.counters[priority];
+    counters.dispatched++;
+    counters.totalWaitMs += waitedMs;
+    counters.maxWaitMs = Math.max(counters.maxWaitMs, waitedMs);
+
+    if (request.tally) {
+      request.tally.requests++;
+    }
+
+    this.lastDispatchAt = now;
+    request.start();
+    this.dispatch();
+  }
+}
+
+/**
+ * Check whether a priority is more urgent than another
+ */
+function isMoreUrgent(priority: RequestPriority, than: RequestPriority): boolean {
+  return REQUEST_PRIORITIES.indexOf(priority) < REQUEST_PRIORITIES.indexOf(than);
+}
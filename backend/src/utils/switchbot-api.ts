@@ -1,4 +1,20 @@
 import { switchBotClient } from './switchbot-client';
+import { RequestPriority } from './request-scheduler';
+import {
+  AirConditionerCommandError,
+  AirConditionerFanSpeed,
+  AirConditionerMode,
+  DEFAULT_AIR_CONDITIONER_STATE,
+  applyAirConditionerCommand,
+  buildSetAllParameter
+} from '../models/air-conditioner';
+import {
+  LightColor,
+  LIGHT_MAX_COLOR_TEMPERATURE,
+  LIGHT_MIN_COLOR_TEMPERATURE,
+  formatLightColor,
+  isValidColorValue
+} from '../models/light';
 
 /**
  * SwitchBot API error class
@@ -54,6 +70,45 @@ export interface DeviceCommandResponse {
   message: string;
 }
 
+/**
+ * Command type: 'command' for built-in commands, 'customize' for buttons learned by IR remotes
+ */
+export type CommandType = 'command' | 'customize';
+
+/**
+ * Manual scene created in the SwitchBot app
+ */
+export interface SwitchBotScene {
+  sceneId: string;
+  sceneName: string;
+}
+
+export interface SceneListResponse {
+  statusCode: number;
+  body: SwitchBotScene[];
+  message: string;
+}
+
+export interface SceneExecuteResponse {
+  statusCode: number;
+  body: any;
+  message: string;
+}
+
+export interface WebhookResponse {
+  statusCode: number;
+  body: any;
+  message: string;
+}
+
+export interface WebhookQueryResponse {
+  statusCode: number;
+  body: {
+    urls: string[];
+  };
+  message: string;
+}
+
 /**
  * Environment data from Hub 2
  */
@@ -70,9 +125,9 @@ export class SwitchBotAPI {
   /**
    * Get all devices connected to SwitchBot account
    */
-  async getDevices(): Promise<DeviceListResponse> {
+  async getDevices(priority: RequestPriority = 'read'): Promise<DeviceListResponse> {
     try {
-      const response = await switchBotClient.get<DeviceListResponse>('/devices');
+      const response = await switchBotClient.get<DeviceListResponse>('/devices', priority);
       
       if (response.statusCode !== 100) {
         throw new SwitchBotAPIError(
@@ -92,10 +147,11 @@ export class SwitchBotAPI {
 
   /**
    * Get device status by device ID
+   * Pass 'background' for periodic polling so reads a user waits for go first.
    */
-  async getDeviceStatus(deviceId: string): Promise<DeviceStatusResponse> {
+  async getDeviceStatus(deviceId: string, priority: RequestPriority = 'read'): Promise<DeviceStatusResponse> {
     try {
-      const response = await switchBotClient.get<DeviceStatusResponse>(`/devices/${deviceId}/status`);
+      const response = await switchBotClient.get<DeviceStatusResponse>(`/devices/${deviceId}/status`, priority);
       
       if (response.statusCode !== 100) {
         throw new SwitchBotAPIError(
@@ -120,17 +176,22 @@ export class SwitchBotAPI {
 
   /**
    * Send command to device
+   * Buttons learned by IR remotes are sent with commandType 'customize' and the button name as command.
    */
   async sendDeviceCommand(
     deviceId: string,
     command: string,
-    parameter?: string | object
+    parameter?: string | object,
+    commandType: CommandType = 'command'
   ): Promise<DeviceCommandResponse> {
     try {
       const payload: any = { command };
       if (parameter !== undefined) {
         payload.parameter = parameter;
       }
+      if (commandType !== 'command') {
+        payload.commandType = commandType;
+      }
 
       const response = await switchBotClient.post<DeviceCommandResponse>(
         `/devices/${deviceId}/commands`,
@@ -158,6 +219,106 @@ export class SwitchBotAPI {
     }
   }
 
+  /**
+   * Get all manual scenes of the SwitchBot account
+   */
+  async getScenes(): Promise<SceneListResponse> {
+    try {
+      const response = await switchBotClient.get<SceneListResponse>('/scenes');
+
+      if (response.statusCode !== 100) {
+        throw new SwitchBotAPIError(
+          `Failed to get scenes: ${response.message}`,
+          response.statusCode
+        );
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof SwitchBotAPIError) {
+        throw error;
+      }
+      throw new SwitchBotAPIError('Failed to retrieve scene list', undefined, undefined, error);
+    }
+  }
+
+  /**
+   * Execute a manual scene by scene ID
+   */
+  async executeScene(sceneId: string): Promise<SceneExecuteResponse> {
+    try {
+      const response = await switchBotClient.post<SceneExecuteResponse>(`/scenes/${sceneId}/execute`);
+
+      if (response.statusCode !== 100) {
+        throw new SwitchBotAPIError(
+          `Failed to execute scene: ${response.message}`,
+          response.statusCode
+        );
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof SwitchBotAPIError) {
+        throw error;
+      }
+      throw new SwitchBotAPIError(
+        `Failed to execute scene ${sceneId}`,
+        undefined,
+        undefined,
+        error
+      );
+    }
+  }
+
+  /**
+   * Register a webhook URL that receives state changes of all devices
+   * SwitchBot supports a single webhook URL per account.
+   */
+  async setupWebhook(url: string): Promise<WebhookResponse> {
+    return this.postWebhook<WebhookResponse>('setupWebhook', { action: 'setupWebhook', url, deviceList: 'ALL' }, 'set up webhook');
+  }
+
+  /**
+   * Get the webhook URLs registered for the account
+   */
+  async queryWebhook(): Promise<WebhookQueryResponse> {
+    return this.postWebhook<WebhookQueryResponse>('queryWebhook', { action: 'queryUrl' }, 'query webhook');
+  }
+
+  /**
+   * Remove a registered webhook URL
+   */
+  async deleteWebhook(url: string): Promise<WebhookResponse> {
+    return this.postWebhook<WebhookResponse>('deleteWebhook', { action: 'deleteWebhook', url }, 'delete webhook');
+  }
+
+  /**
+   * POST to a webhook management endpoint
+   */
+  private async postWebhook<T extends { statusCode: number; message: string }>(
+    endpoint: string,
+    payload: object,
+    description: string
+  ): Promise<T> {
+    try {
+      const response = await switchBotClient.post<T>(`/webhook/${endpoint}`, payload);
+
+      if (response.statusCode !== 100) {
+        throw new SwitchBotAPIError(
+          `Failed to ${description}: ${response.message}`,
+          response.statusCode
+        );
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof SwitchBotAPIError) {
+        throw error;
+      }
+      throw new SwitchBotAPIError(`Failed to ${description}`, undefined, undefined, error);
+    }
+  }
+
   /**
    * Get environment data from Hub 2
    */
@@ -190,8 +351,15 @@ export class SwitchBotAPI {
 
   /**
    * Control light device
+   * Colors are sent as "red:green:blue" and color temperatures in Kelvin (Color Bulb / Strip Light).
    */
-  async controlLight(deviceId: string, action: 'turnOn' | 'turnOff' | 'setBrightness' | 'setColorTemperature', brightness?: number, colorTemperature?: number): Promise<DeviceCommandResponse> {
+  async controlLight(
+    deviceId: string,
+    action: 'turnOn' | 'turnOff' | 'setBrightness' | 'setColorTemperature' | 'setColor',
+    brightness?: number,
+    colorTemperature?: number,
+    color?: LightColor
+  ): Promise<DeviceCommandResponse> {
     try {
       let command: string;
       let parameter: string | object | undefined;
@@ -211,14 +379,22 @@ export class SwitchBotAPI {
           parameter = brightness.toString();
           break;
         case 'setColorTemperature':
-          if (colorTemperature === undefined || colorTemperature < 2700 || colorTemperature > 6500) {
+          if (
+            colorTemperature === undefined ||
+            colorTemperature < LIGHT_MIN_COLOR_TEMPERATURE ||
+            colorTemperature > LIGHT_MAX_COLOR_TEMPERATURE
+          ) {
             throw new SwitchBotAPIError('Color temperature must be between 2700K and 6500K');
           }
-          // SwitchBot APIでは色温度制御に'setColor'コマンドを使用
+          command = 'setColorTemperature';
+          parameter = colorTemperature.toString();
+          break;
+        case 'setColor':
+          if (!color || ![color.red, color.green, color.blue].every(isValidColorValue)) {
+            throw new SwitchBotAPIError('Color values must be integers between 0 and 255');
+          }
           command = 'setColor';
-          parameter = {
-            temperature: colorTemperature
-          };
+          parameter = formatLightColor(color);
           break;
         default:
           throw new SwitchBotAPIError(`Unknown light action: ${action}`);
@@ -240,18 +416,21 @@ export class SwitchBotAPI {
 
   /**
    * Control air conditioner
+   * Mode and temperature changes send the full "temperature,mode,fanSpeed,power" state with setAll;
+   * unspecified values fall back to the default air conditioner state.
    */
   async controlAirConditioner(
     deviceId: string,
     action: 'turnOn' | 'turnOff' | 'setMode' | 'setTemperature',
     options?: {
-      mode?: 'cool' | 'heat' | 'dry' | 'auto' | 'fan';
+      mode?: AirConditionerMode;
       temperature?: number;
+      fanSpeed?: AirConditionerFanSpeed;
     }
   ): Promise<DeviceCommandResponse> {
     try {
       let command: string;
-      let parameter: string | object | undefined;
+      let parameter: string | undefined;
 
       switch (action) {
         case 'turnOn':
@@ -264,16 +443,15 @@ export class SwitchBotAPI {
           if (!options?.mode) {
             throw new SwitchBotAPIError('Mode is required for setMode action');
           }
-          // For IR AC, mode is the command itself
-          command = options.mode;
+          command = 'setAll';
+          parameter = this.buildAirConditionerSetAll(options);
           break;
         case 'setTemperature':
-          if (!options?.temperature || options.temperature < 16 || options.temperature > 30) {
-            throw new SwitchBotAPIError('Temperature must be between 16 and 30 degrees');
+          if (!options?.temperature) {
+            throw new SwitchBotAPIError('Temperature is required for setTemperature action');
           }
-          // For IR AC, use setAll command with temperature parameter
           command = 'setAll';
-          parameter = `${options.temperature},1,1`; // temp,mode,fanSpeed
+          parameter = this.buildAirConditionerSetAll(options);
           break;
         default:
           throw new SwitchBotAPIError(`Unknown air conditioner action: ${action}`);
@@ -293,6 +471,33 @@ export class SwitchBotAPI {
     }
   }
 
+  /**
+   * Build the setAll parameter of an air conditioner, turning it on
+   */
+  private buildAirConditionerSetAll(options: {
+    mode?: AirConditionerMode;
+    temperature?: number;
+    fanSpeed?: AirConditionerFanSpeed;
+  }): string {
+    try {
+      const state = applyAirConditionerCommand(
+        { ...DEFAULT_AIR_CONDITIONER_STATE, power: 'on' },
+        'setTemperature',
+        options.temperature ?? DEFAULT_AIR_CONDITIONER_STATE.temperature
+      );
+      return buildSetAllParameter({
+        ...state,
+        mode: options.mode ?? state.mode,
+        fanSpeed: options.fanSpeed ?? state.fanSpeed
+      });
+    } catch (error) {
+      if (error instanceof AirConditionerCommandError) {
+        throw new SwitchBotAPIError(error.message);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Test API connectivity
    */
@@ -1,28 +1,8 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
 import { config } from '../config';
 import { generateSwitchBotHeaders } from './switchbot-auth';
-
-/**
- * Rate limiter for SwitchBot API calls
- * SwitchBot API allows 1000 requests per day, approximately 1 request per 86.4 seconds
- * We'll be more conservative and limit to 1 request per 10 seconds
- */
-class RateLimiter {
-  private lastRequestTime: number = 0;
-  private readonly minInterval: number = 10000; // 10 seconds in milliseconds
-
-  async waitIfNeeded(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.minInterval) {
-      const waitTime = this.minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastRequestTime = Date.now();
-  }
-}
+import { apiQuotaTracker, ApiQuotaTracker, ApiQuotaUsage } from './api-quota';
+import { RequestScheduler, RequestPriority, RequestSchedulerStats } from './request-scheduler';
 
 /**
  * Retry configuration for API calls
@@ -49,15 +29,31 @@ export class SwitchBotAPIError extends Error {
 }
 
 /**
- * SwitchBot API client with rate limiting, retry logic, and error handling
+ * Daily counter of the requests sent to the SwitchBot API
+ */
+export type ApiCallCounter = Pick<ApiQuotaTracker, 'recordCall' | 'getUsage'>;
+
+/**
+ * Counter of the requests a caller sends (used to budget periodic polling)
+ */
+export type RequestCounter = Pick<SwitchBotClient, 'countRequests'>;
+
+/**
+ * SwitchBot API client with prioritized scheduling, retry logic, and error handling
  */
 export class SwitchBotClient {
   private axiosInstance: AxiosInstance;
-  private rateLimiter: RateLimiter;
+  private scheduler: RequestScheduler;
   private retryConfig: RetryConfig;
+  private quota: ApiCallCounter;
 
-  constructor() {
-    this.rateLimiter = new RateLimiter();
+  /**
+   * @param quota Daily counter every request (including retries) is recorded in
+   * @param scheduler Scheduler spacing requests by priority
+   */
+  constructor(quota: ApiCallCounter = apiQuotaTracker, scheduler: RequestScheduler = new RequestScheduler()) {
+    this.quota = quota;
+    this.scheduler = scheduler;
     this.retryConfig = {
       maxRetries: 3,
       baseDelay: 1000, // 1 second
@@ -171,18 +167,24 @@ export class SwitchBotClient {
   }
 
   /**
-   * Execute API request with rate limiting and retry logic
+   * Execute API request with prioritized scheduling and retry logic
+   * Every attempt, retries included, waits for its turn in the lane of its priority
+   * (or of a more urgent caller sharing the read identified by coalesceKey).
    */
   private async executeWithRetry<T>(
-    requestFn: () => Promise<AxiosResponse<T>>
+    requestFn: () => Promise<AxiosResponse<T>>,
+    priority: RequestPriority,
+    coalesceKey?: string
   ): Promise<T> {
     let lastError: SwitchBotAPIError;
 
     for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
       try {
-        // Apply rate limiting
-        await this.rateLimiter.waitIfNeeded();
+        await this.scheduler.waitForSlot(priority, coalesceKey);
         
+        // Every attempt counts against the daily quota, failed ones included
+        this.quota.recordCall();
+
         // Execute the request
         const response = await requestFn();
         return response.data;
@@ -206,30 +208,57 @@ export class SwitchBotClient {
 
   /**
    * GET request with retry logic
+   * Concurrent reads of the same endpoint share one request, sent with the most urgent of their priorities.
    */
-  async get<T>(endpoint: string): Promise<T> {
-    return this.executeWithRetry(() => this.axiosInstance.get<T>(endpoint));
+  async get<T>(endpoint: string, priority: RequestPriority = 'read'): Promise<T> {
+    const key = `GET ${endpoint}`;
+    return this.scheduler.coalesce(key, () =>
+      this.executeWithRetry(() => this.axiosInstance.get<T>(endpoint), priority, key),
+      priority
+    );
   }
 
   /**
    * POST request with retry logic
    */
-  async post<T>(endpoint: string, data?: any): Promise<T> {
-    return this.executeWithRetry(() => this.axiosInstance.post<T>(endpoint, data));
+  async post<T>(endpoint: string, data?: any, priority: RequestPriority = 'interactive'): Promise<T> {
+    return this.executeWithRetry(() => this.axiosInstance.post<T>(endpoint, data), priority);
   }
 
   /**
    * PUT request with retry logic
    */
-  async put<T>(endpoint: string, data?: any): Promise<T> {
-    return this.executeWithRetry(() => this.axiosInstance.put<T>(endpoint, data));
+  async put<T>(endpoint: string, data?: any, priority: RequestPriority = 'interactive'): Promise<T> {
+    return this.executeWithRetry(() => this.axiosInstance.put<T>(endpoint, data), priority);
   }
 
   /**
    * DELETE request with retry logic
    */
-  async delete<T>(endpoint: string): Promise<T> {
-    return this.executeWithRetry(() => this.axiosInstance.delete<T>(endpoint));
+  async delete<T>(endpoint: string, priority: RequestPriority = 'interactive'): Promise<T> {
+    return this.executeWithRetry(() => this.axiosInstance.delete<T>(endpoint), priority);
+  }
+
+  /**
+   * Run a task and count the SwitchBot API requests it sends, retries included
+   * Requests sent for other callers in the meantime are not counted.
+   */
+  countRequests<T>(task: () => Promise<T>): Promise<{ result: T; requests: number }> {
+    return this.scheduler.countRequests(task);
+  }
+
+  /**
+   * Get the SwitchBot API usage of the current day
+   */
+  getQuotaUsage(): ApiQuotaUsage {
+    return this.quota.getUsage();
+  }
+
+  /**
+   * Get queue depth and wait times of the request lanes
+   */
+  getSchedulerStats(): RequestSchedulerStats {
+    return this.scheduler.getStats();
   }
 
   /**
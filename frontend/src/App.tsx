@@ -38,6 +38,10 @@ function App() {
     error: devicesError,
     controlDevice,
     updateDeviceStatus,
+    applyDeviceUpdate,
+    applyCommandStatus,
+    trackCommand,
+    commandStatuses,
     testDevice,
     refreshDevices
   } = useDevices();
@@ -103,6 +107,8 @@ function App() {
             devices={devices}
             controlDevice={enhancedControlDevice}
             devicesLoading={devicesLoading}
+            onDeviceUpdate={applyDeviceUpdate}
+            onCommandStatus={applyCommandStatus}
             irDeviceStates={irDeviceStates}
           />
         );
@@ -120,6 +126,8 @@ function App() {
               selectedDeviceId={selectedDeviceId}
               onDeviceSelect={setSelectedDeviceId}
               irDeviceStates={irDeviceStates}
+              commandStatuses={commandStatuses}
+              onCommandQueued={trackCommand}
             />
           </div>
         );
@@ -12,6 +12,13 @@ interface AirConditionerControlProps {
   disabled?: boolean;
 }
 
+const fanSpeedNames: Record<AirConditionerProperties['fanSpeed'], string> = {
+  auto: '自動',
+  low: '弱',
+  medium: '中',
+  high: '強'
+};
+
 interface ControlResponse {
   success: boolean;
   message?: string;
@@ -35,6 +42,7 @@ const AirConditionerControl = ({
   const isPoweredOn = airconProperties?.power === 'on';
   const currentMode = airconProperties?.mode || 'auto';
   const currentTemperature = airconProperties?.temperature || 25;
+  const currentFanSpeed = airconProperties?.fanSpeed || 'auto';
 
   /**
    * Show feedback message to user
@@ -84,9 +92,9 @@ const AirConditionerControl = ({
         return { success: false, error: errorMessage };
       }
 
-      showFeedback('success', `${actionName}が完了しました`);
+      showFeedback('success', `${actionName}を受け付けました`);
       onControlSuccess?.(device.deviceId, actionName, result.data);
-      return { success: true, message: `${actionName} completed successfully` };
+      return { success: true, message: `${actionName} queued` };
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -135,6 +143,13 @@ const AirConditionerControl = ({
     await controlAirConditioner('/aircon/temperature', { temperature }, `温度設定 (${temperature}°C)`);
   }, [controlAirConditioner]);
 
+  /**
+   * Set air conditioner fan speed
+   */
+  const handleSetFanSpeed = useCallback(async (fanSpeed: AirConditionerProperties['fanSpeed']) => {
+    await controlAirConditioner('/aircon/fan', { fanSpeed }, `風量変更 (${fanSpeedNames[fanSpeed]})`);
+  }, [controlAirConditioner]);
+
   /**
    * Handle temperature adjustment buttons
    */
@@ -203,8 +218,8 @@ const AirConditionerControl = ({
             <div>
               <p className="font-medium">IR機器の動作について</p>
               <p className="text-xs mt-1">
-                このエアコンはIR（赤外線）制御です。モードや温度の変更は画面上で反映されますが、
-                実際のエアコンへの制御は電源ON/OFFのみ送信されます。詳細な制御にはSwitchBotアプリまたはリモコンをご利用ください。
+                このエアコンはIR（赤外線）制御です。電源・モード・温度・風量は最後に送信した設定をまとめて送信します。
+                リモコンや本体で直接操作した場合、画面上の表示と実際の状態が一致しなくなります。
               </p>
             </div>
           </div>
@@ -302,7 +317,7 @@ const AirConditionerControl = ({
                     ? 'bg-orange-700 text-orange-300 hover:bg-orange-600'
                     : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
               } ${isControlling || disabled || !isPoweredOn ? 'opacity-50 cursor-not-allowed' : ''}`}
-              title={device.isInfraredRemote ? 'IR機器：表示のみ更新されます（実際の制御は制限されています）' : ''}
+              title={device.isInfraredRemote ? 'IR機器：設定内容をまとめて送信します' : ''}
             >
               <span className="text-lg">{modeIcons[mode]}</span>
               <span>{modeNames[mode]}</span>
@@ -311,6 +326,32 @@ const AirConditionerControl = ({
         </div>
       </div>
 
+      {/* Fan Speed Control */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-300">風量</span>
+          <span className="text-sm text-gray-400">{fanSpeedNames[currentFanSpeed]}</span>
+        </div>
+        
+        <div className="grid grid-cols-4 gap-2">
+          {(['auto', 'low', 'medium', 'high'] as const).map(fanSpeed => (
+            <button
+              key={fanSpeed}
+              onClick={() => handleSetFanSpeed(fanSpeed)}
+              disabled={isControlling || disabled || !isPoweredOn}
+              aria-label={`風量: ${fanSpeedNames[fanSpeed]}`}
+              className={`p-2 rounded text-xs font-medium transition-colors ${
+                currentFanSpeed === fanSpeed
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              } ${isControlling || disabled || !isPoweredOn ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {fanSpeedNames[fanSpeed]}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Temperature Control */}
       <div className="space-y-3">
         <div className="flex items-center justify-between">
@@ -332,7 +373,7 @@ const AirConditionerControl = ({
                 ? 'opacity-50 cursor-not-allowed' 
                 : ''
             }`}
-            title={device.isInfraredRemote ? 'IR機器：表示のみ更新されます（実際の制御は制限されています）' : ''}
+            title={device.isInfraredRemote ? 'IR機器：設定内容をまとめて送信します' : ''}
           >
             -
           </button>
@@ -354,7 +395,7 @@ const AirConditionerControl = ({
                 ? 'opacity-50 cursor-not-allowed' 
                 : ''
             }`}
-            title={device.isInfraredRemote ? 'IR機器：表示のみ更新されます（実際の制御は制限されています）' : ''}
+            title={device.isInfraredRemote ? 'IR機器：設定内容をまとめて送信します' : ''}
           >
             +
           </button>
@@ -372,7 +413,7 @@ const AirConditionerControl = ({
             className={`w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider ${
               isControlling || disabled || !isPoweredOn ? 'opacity-50 cursor-not-allowed' : ''
             }`}
-            title={device.isInfraredRemote ? 'IR機器：表示のみ更新されます（実際の制御は制限されています）' : ''}
+            title={device.isInfraredRemote ? 'IR機器：設定内容をまとめて送信します' : ''}
             style={{
               background: isPoweredOn 
                 ? `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((currentTemperature - 16) / 14) * 100}%, #374151 ${((currentTemperature - 16) / 14) * 100}%, #374151 100%)`
@@ -394,7 +435,7 @@ const AirConditionerControl = ({
                       ? 'bg-orange-700 text-orange-300 hover:bg-orange-600'
                       : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                 } ${isControlling || disabled || !isPoweredOn ? 'opacity-50 cursor-not-allowed' : ''}`}
-                title={device.isInfraredRemote ? 'IR機器：表示のみ更新されます（実際の制御は制限されています）' : ''}
+                title={device.isInfraredRemote ? 'IR機器：設定内容をまとめて送信します' : ''}
               >
                 {temperature}°C
               </button>
@@ -3,12 +3,12 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Device, AirConditionerProperties } from '../types';
+import { Device, AirConditionerProperties, QueuedCommand } from '../types';
 import AirConditionerControl from './AirConditionerControl';
 
 interface AirConditionerControlPanelProps {
   devices: Device[];
-  onDeviceUpdate?: (deviceId: string) => void;
+  onCommandQueued?: (queued: QueuedCommand) => void;
   className?: string;
 }
 
@@ -22,7 +22,7 @@ interface ControlFeedback {
 
 const AirConditionerControlPanel = ({ 
   devices, 
-  onDeviceUpdate, 
+  onCommandQueued, 
   className = '' 
 }: AirConditionerControlPanelProps) => {
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
@@ -46,17 +46,18 @@ const AirConditionerControlPanel = ({
   /**
    * Handle control success
    */
-  const handleControlSuccess = (deviceId: string, action: string, _result: any) => {
+  const handleControlSuccess = (deviceId: string, action: string, queued: QueuedCommand) => {
     const newFeedback: ControlFeedback = {
       deviceId,
       action,
       success: true,
-      message: `${action}が完了しました`,
+      message: `${action}を受け付けました`,
       timestamp: new Date()
     };
 
     setFeedback(prev => [newFeedback, ...prev.slice(0, 4)]); // Keep last 5 feedback items
-    onDeviceUpdate?.(deviceId);
+    // The device is refreshed once the queued command has succeeded
+    onCommandQueued?.(queued);
   };
 
   /**
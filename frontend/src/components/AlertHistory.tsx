@@ -0,0 +1,76 @@
+import React from 'react';
+import { Alert, ExportFormat } from '../types';
+
+interface AlertHistoryProps {
+  history: Alert[];
+  maxItems?: number;
+  onRefresh?: () => void;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+const AlertHistory: React.FC<AlertHistoryProps> = ({ history, maxItems = 5, onRefresh }) => {
+  const formatTimestamp = (timestamp: Date) => {
+    return new Date(timestamp).toLocaleString('ja-JP', {
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-white">アラート履歴</h3>
+        <div className="flex items-center space-x-2">
+          {onRefresh && (
+            <button
+              onClick={onRefresh}
+              className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              更新
+            </button>
+          )}
+          {EXPORT_FORMATS.map((format) => (
+            <a
+              key={format}
+              href={`/api/alerts/history/export?format=${format}`}
+              download
+              className="px-2 py-1 rounded text-xs font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+            >
+              ⬇ {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {history.length > 0 ? (
+        <ul className="space-y-2">
+          {history.slice(0, maxItems).map((alert, index) => (
+            <li
+              key={`${alert.id}-${index}`}
+              data-testid="alert-history-item"
+              className="flex items-start space-x-3 p-2 bg-gray-700/50 rounded-lg"
+            >
+              <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${
+                alert.severity === 'critical' ? 'bg-red-400' : 'bg-yellow-400'
+              }`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white">{alert.message}</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {formatTimestamp(alert.timestamp)}
+                  {!alert.isActive && <span className="ml-2">解除済み</span>}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-400 text-sm">アラート履歴はありません</p>
+      )}
+    </div>
+  );
+};
+
+export default AlertHistory;
@@ -18,7 +18,8 @@ const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({
 }) => {
   const [thresholds, setThresholds] = useState<AlertThresholds>({
     temperature: { min: 18, max: 28 },
-    humidity: { min: 30, max: 70 }
+    humidity: { min: 30, max: 70 },
+    co2: { warning: 1000, critical: 1500 }
   });
   
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -64,6 +65,17 @@ const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({
       newErrors.humidityMax = '最高湿度は0%から100%の間で設定してください';
     }
 
+    // CO2 validation
+    if (newThresholds.co2.warning >= newThresholds.co2.critical) {
+      newErrors.co2 = '注意レベルは警告レベルより低く設定してください';
+    }
+    if (newThresholds.co2.warning < 400 || newThresholds.co2.warning > 10000) {
+      newErrors.co2Warning = '注意レベルは400ppmから10000ppmの間で設定してください';
+    }
+    if (newThresholds.co2.critical < 400 || newThresholds.co2.critical > 10000) {
+      newErrors.co2Critical = '警告レベルは400ppmから10000ppmの間で設定してください';
+    }
+
     return newErrors;
   };
 
@@ -92,6 +104,25 @@ const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({
     setErrors(newErrors);
   };
 
+  const handleCO2Change = (level: 'warning' | 'critical', value: string) => {
+    const numValue = parseFloat(value);
+    if (isNaN(numValue)) return;
+
+    setThresholds({
+      ...thresholds,
+      co2: {
+        ...thresholds.co2,
+        [level]: numValue
+      }
+    });
+
+    // Clear related errors
+    const newErrors = { ...errors };
+    delete newErrors.co2;
+    delete newErrors[`co2${level.charAt(0).toUpperCase() + level.slice(1)}`];
+    setErrors(newErrors);
+  };
+
   const handleSave = async () => {
     const validationErrors = validateThresholds(thresholds);
     
@@ -245,12 +276,62 @@ const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({
             )}
           </div>
 
+          {/* CO2 Settings */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-white">CO2アラート</h3>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  注意 (ppm)
+                </label>
+                <input
+                  type="number"
+                  value={thresholds.co2.warning}
+                  onChange={(e) => handleCO2Change('warning', e.target.value)}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  step="50"
+                  min="400"
+                  max="10000"
+                  disabled={isSaving}
+                />
+                {errors.co2Warning && (
+                  <p className="text-red-400 text-xs mt-1">{errors.co2Warning}</p>
+                )}
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  警告 (ppm)
+                </label>
+                <input
+                  type="number"
+                  value={thresholds.co2.critical}
+                  onChange={(e) => handleCO2Change('critical', e.target.value)}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  step="50"
+                  min="400"
+                  max="10000"
+                  disabled={isSaving}
+                />
+                {errors.co2Critical && (
+                  <p className="text-red-400 text-xs mt-1">{errors.co2Critical}</p>
+                )}
+              </div>
+            </div>
+            
+            {errors.co2 && (
+              <p className="text-red-400 text-sm">{errors.co2}</p>
+            )}
+          </div>
+
           {/* Current Values Info */}
           <div className="bg-gray-700/50 rounded-lg p-4">
             <h4 className="text-sm font-medium text-gray-300 mb-2">現在の設定</h4>
             <div className="text-sm text-gray-400 space-y-1">
               <p>温度: {thresholds.temperature.min}°C ～ {thresholds.temperature.max}°C</p>
               <p>湿度: {thresholds.humidity.min}% ～ {thresholds.humidity.max}%</p>
+              <p>CO2: 注意 {thresholds.co2.warning}ppm / 警告 {thresholds.co2.critical}ppm</p>
             </div>
           </div>
         </div>
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ApiQuotaUsage, PollingStatus } from '../types';
+
+interface ApiQuotaPanelProps {
+  usage: ApiQuotaUsage | null;
+  polling?: PollingStatus | null;
+  error?: string | null;
+}
+
+/**
+ * Usage ratio from which the bar turns yellow / red
+ */
+const WARNING_RATIO = 0.8;
+const CRITICAL_RATIO = 0.95;
+
+const formatSeconds = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 120 ? `${Math.round(seconds / 60)}分` : `${seconds}秒`;
+};
+
+const ApiQuotaPanel: React.FC<ApiQuotaPanelProps> = ({ usage, polling, error }) => {
+  const ratio = usage && usage.limit > 0 ? Math.min(1, usage.used / usage.limit) : 0;
+  const barColor = ratio >= CRITICAL_RATIO
+    ? 'bg-red-500'
+    : ratio >= WARNING_RATIO ? 'bg-yellow-500' : 'bg-blue-500';
+
+  return (
+    <div className="card p-6" data-testid="api-quota-panel">
+      <h2 className="text-xl font-semibold text-white mb-4">API使用量</h2>
+      <p className="text-gray-400 mb-4">本日のSwitchBot API呼び出し回数</p>
+
+      {error && !usage && (
+        <div className="text-red-400 text-sm">⚠️ API使用量を取得できませんでした</div>
+      )}
+
+      {!usage && !error && (
+        <div className="text-gray-400 text-sm">読み込み中...</div>
+      )}
+
+      {usage && (
+        <div className="space-y-3">
+          <div className="flex items-baseline justify-between">
+            <span className="text-2xl font-bold text-white" data-testid="api-quota-used">
+              {usage.used.toLocaleString()} / {usage.limit.toLocaleString()}
+            </span>
+            <span className="text-sm text-gray-400">残り {usage.remaining.toLocaleString()} 回</span>
+          </div>
+
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-2 ${barColor}`}
+              style={{ width: `${(ratio * 100).toFixed(1)}%` }}
+              data-testid="api-quota-bar"
+            />
+          </div>
+
+          <div className="text-xs text-gray-500">
+            デバイス操作用に {usage.reserved.toLocaleString()} 回を確保しています ・
+            {usage.resetAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })} にリセット
+          </div>
+
+          {polling?.budgetLimited && (
+            <div className="text-sm text-yellow-400" data-testid="api-quota-limited">
+              ⏳ 上限に近づいているため、データ更新間隔を {formatSeconds(polling.effectiveUpdateInterval)} に延長しています
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiQuotaPanel;
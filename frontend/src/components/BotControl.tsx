@@ -0,0 +1,147 @@
+/**
+ * Bot control component for pressing or switching SwitchBot Bots
+ */
+
+import { useState, useCallback } from 'react';
+import { Device, BotProperties } from '../types';
+
+interface BotControlProps {
+  device: Device;
+  onControlSuccess?: (deviceId: string, action: string, result: any) => void;
+  onControlError?: (deviceId: string, action: string, error: string) => void;
+  disabled?: boolean;
+}
+
+// Battery level (%) at or below which the low battery indicator is shown
+export const LOW_BATTERY_THRESHOLD = 20;
+
+const MODE_LABELS: Record<NonNullable<BotProperties['mode']>, string> = {
+  press: 'プレスモード',
+  switch: 'スイッチモード',
+  customize: 'カスタマイズモード'
+};
+
+const BotControl = ({
+  device,
+  onControlSuccess,
+  onControlError,
+  disabled = false
+}: BotControlProps) => {
+  const botProperties = device.properties as BotProperties;
+  const isSwitchMode = botProperties?.mode === 'switch';
+  const battery = botProperties?.battery;
+  const isLowBattery = battery !== undefined && battery <= LOW_BATTERY_THRESHOLD;
+
+  const [isControlling, setIsControlling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Send a bot command to its dedicated endpoint
+   */
+  const controlBot = useCallback(async (action: 'press' | 'on' | 'off'): Promise<boolean> => {
+    if (isControlling || disabled) {
+      return false;
+    }
+
+    setIsControlling(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/devices/${device.deviceId}/bot/${action}`, {
+        method: 'POST'
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        const errorMessage = result.error?.message || result.error || 'Bot control failed';
+        setError(errorMessage);
+        onControlError?.(device.deviceId, action, errorMessage);
+        return false;
+      }
+
+      onControlSuccess?.(device.deviceId, action, result.data);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      onControlError?.(device.deviceId, action, errorMessage);
+      return false;
+    } finally {
+      setIsControlling(false);
+    }
+  }, [device.deviceId, isControlling, disabled, onControlSuccess, onControlError]);
+
+  const isDisabled = isControlling || disabled || device.status === 'offline';
+
+  return (
+    <div className="space-y-3">
+      {botProperties?.mode && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-300">モード</span>
+          <span className="text-sm text-gray-400">
+            {MODE_LABELS[botProperties.mode]}
+            {isSwitchMode && ` (${botProperties.power === 'on' ? 'ON' : 'OFF'})`}
+          </span>
+        </div>
+      )}
+
+      {isSwitchMode ? (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => controlBot('off')}
+            disabled={isDisabled}
+            className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors ${
+              botProperties.power === 'off'
+                ? 'bg-red-600 hover:bg-red-700 text-white'
+                : 'bg-gray-600 hover:bg-gray-700 text-gray-400'
+            } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            OFF
+          </button>
+          <button
+            onClick={() => controlBot('on')}
+            disabled={isDisabled}
+            className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors ${
+              botProperties.power === 'on'
+                ? 'bg-green-600 hover:bg-green-700 text-white'
+                : 'bg-gray-600 hover:bg-gray-700 text-gray-400'
+            } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            ON
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => controlBot('press')}
+          disabled={isDisabled}
+          className={`w-full px-3 py-2 rounded text-sm font-medium transition-colors bg-blue-600 hover:bg-blue-700 text-white ${
+            isDisabled ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          {isControlling ? '実行中...' : 'プレス'}
+        </button>
+      )}
+
+      {battery !== undefined && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-300">バッテリー</span>
+          <span
+            data-testid="bot-battery"
+            className={`text-sm ${isLowBattery ? 'text-red-400 font-medium' : 'text-gray-400'}`}
+          >
+            {isLowBattery && '🪫 '}{battery}%
+          </span>
+        </div>
+      )}
+
+      {isLowBattery && (
+        <p className="text-xs text-red-400">バッテリー残量が少なくなっています。電池を交換してください</p>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default BotControl;
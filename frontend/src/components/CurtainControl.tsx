@@ -0,0 +1,150 @@
+/**
+ * Curtain control component for opening, closing and positioning curtains
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Device, CurtainProperties } from '../types';
+
+interface CurtainControlProps {
+  device: Device;
+  onControlSuccess?: (deviceId: string, action: string, result: any) => void;
+  onControlError?: (deviceId: string, action: string, error: string) => void;
+  disabled?: boolean;
+}
+
+const CurtainControl = ({
+  device,
+  onControlSuccess,
+  onControlError,
+  disabled = false
+}: CurtainControlProps) => {
+  const curtainProperties = device.properties as CurtainProperties;
+  const currentPosition = curtainProperties?.position ?? 0;
+
+  const [isControlling, setIsControlling] = useState(false);
+  const [targetPosition, setTargetPosition] = useState(currentPosition);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the reported position while the slider is not being edited
+  useEffect(() => {
+    setTargetPosition(currentPosition);
+  }, [currentPosition]);
+
+  /**
+   * Send a curtain command to its dedicated endpoint
+   */
+  const controlCurtain = useCallback(async (
+    action: 'open' | 'close' | 'pause' | 'position',
+    body?: { position: number }
+  ): Promise<boolean> => {
+    if (isControlling || disabled) {
+      return false;
+    }
+
+    setIsControlling(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/devices/${device.deviceId}/curtain/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        const errorMessage = result.error?.message || result.error || 'Curtain control failed';
+        setError(errorMessage);
+        onControlError?.(device.deviceId, action, errorMessage);
+        return false;
+      }
+
+      onControlSuccess?.(device.deviceId, action, result.data);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      onControlError?.(device.deviceId, action, errorMessage);
+      return false;
+    } finally {
+      setIsControlling(false);
+    }
+  }, [device.deviceId, isControlling, disabled, onControlSuccess, onControlError]);
+
+  const isDisabled = isControlling || disabled || device.status === 'offline';
+  const buttonClass = `flex-1 px-2 py-1 rounded text-xs font-medium transition-colors bg-gray-700 hover:bg-gray-600 text-gray-300 ${
+    isDisabled ? 'opacity-50 cursor-not-allowed' : ''
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-300">位置</span>
+        <span className="text-sm text-gray-400">
+          {currentPosition === 0 ? '全開' : currentPosition === 100 ? '全閉' : `${currentPosition}% 閉`}
+          {curtainProperties?.moving && <span className="ml-1 text-yellow-400">移動中...</span>}
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button onClick={() => controlCurtain('open')} disabled={isDisabled} className={buttonClass}>
+          開ける
+        </button>
+        <button onClick={() => controlCurtain('pause')} disabled={isDisabled} className={buttonClass}>
+          停止
+        </button>
+        <button onClick={() => controlCurtain('close')} disabled={isDisabled} className={buttonClass}>
+          閉める
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center space-x-3">
+          <span className="text-xs text-gray-500">開</span>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="5"
+            value={targetPosition}
+            onChange={(e) => setTargetPosition(parseInt(e.target.value, 10))}
+            disabled={isDisabled}
+            aria-label="カーテン位置"
+            className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <span className="text-xs text-gray-500">閉</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">{targetPosition}%</span>
+          <button
+            onClick={() => controlCurtain('position', { position: targetPosition })}
+            disabled={isDisabled || targetPosition === currentPosition}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors bg-blue-600 hover:bg-blue-700 text-white ${
+              isDisabled || targetPosition === currentPosition ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            移動
+          </button>
+        </div>
+      </div>
+
+      {curtainProperties?.battery !== undefined && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-300">バッテリー</span>
+          <span className="text-sm text-gray-400">{curtainProperties.battery}%</span>
+        </div>
+      )}
+
+      {curtainProperties?.calibrate === false && (
+        <p className="text-xs text-yellow-400">キャリブレーションが必要です</p>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CurtainControl;
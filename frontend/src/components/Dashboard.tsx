@@ -2,17 +2,25 @@ import { useEffect, useState } from 'react';
 import EnvironmentCards from './EnvironmentCards';
 import EnvironmentChart from './EnvironmentChart';
 import AlertBanner from './AlertBanner';
+import AlertHistory from './AlertHistory';
 import AlertSettingsModal from './AlertSettingsModal';
+import SceneBar from './SceneBar';
+import PowerChart from './PowerChart';
 import { useWebSocket } from '../hooks/useWebSocket';
 import { useEnvironmentHistory } from '../hooks/useEnvironmentHistory';
 import { useAlerts } from '../hooks/useAlerts';
 import { useDevices } from '../hooks/useDevices';
+import { useScenes } from '../hooks/useScenes';
+import { Device, DeviceCommand } from '../types';
+import { useEnergy } from '../hooks/useEnergy';
 
 interface DashboardProps {
   onDeviceSelect?: (deviceId: string) => void;
   devices: any[];
   controlDevice: (deviceId: string, command: string, parameter?: any) => Promise<boolean>;
   devicesLoading: boolean;
+  onDeviceUpdate?: (device: Device) => void;
+  onCommandStatus?: (command: DeviceCommand) => void;
   irDeviceStates: Record<string, {
     power: 'on' | 'off';
     brightness?: number;
@@ -20,7 +28,7 @@ interface DashboardProps {
   }>;
 }
 
-const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irDeviceStates }: DashboardProps) => {
+const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, onDeviceUpdate, onCommandStatus, irDeviceStates }: DashboardProps) => {
   const [isAlertSettingsOpen, setIsAlertSettingsOpen] = useState(false);
   
   // グローバルなIR機器状態を使用（App.tsxから渡される）
@@ -29,9 +37,11 @@ const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irD
   const {
     alerts,
     thresholds,
+    alertHistory,
     statistics,
     isLoading: alertsLoading,
     error: alertsError,
+    fetchAlertHistory,
     updateThresholds,
     dismissAlert,
     clearAllAlerts,
@@ -40,11 +50,35 @@ const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irD
     handleAlertDismissed
   } = useAlerts();
 
+  // Scenes
+  const {
+    scenes,
+    cloudScenes,
+    runningSceneIds,
+    lastExecution,
+    error: scenesError,
+    fetchScenes,
+    executeScene
+  } = useScenes();
+
+  // Plug energy monitoring
+  const {
+    plugs,
+    readings: powerReadings,
+    dailyTotals,
+    selectedPlugId,
+    period: energyPeriod,
+    isLoading: energyLoading,
+    error: energyError,
+    selectPlug,
+    setPeriod: setEnergyPeriod
+  } = useEnergy();
+
   // Device statistics calculation (moved from useDevices)
   const deviceStatistics = devices.length > 0 ? {
     total: devices.length,
     online: devices.filter(d => d.status === 'online').length,
-    controllable: devices.filter(d => ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug'].includes(d.deviceType)).length,
+    controllable: devices.filter(d => ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug', 'TV', 'Fan', 'Speaker', 'Projector', 'Lock'].includes(d.deviceType)).length,
     byType: devices.reduce((acc, device) => {
       acc[device.deviceType] = (acc[device.deviceType] || 0) + 1;
       return acc;
@@ -52,13 +86,22 @@ const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irD
   } : null;
 
   // WebSocket with alert handlers
-  const { environmentData, state, subscribe, unsubscribe } = useWebSocket(
+  const { environmentData, sensorsData, state, subscribe, unsubscribe } = useWebSocket(
     updateAlertsFromWebSocket,
     handleNewAlert,
-    handleAlertDismissed
+    handleAlertDismissed,
+    onDeviceUpdate,
+    onCommandStatus
   );
   
-  const { historyState, selectedPeriod, setSelectedPeriod } = useEnvironmentHistory();
+  const {
+    historyState,
+    selectedPeriod,
+    setSelectedPeriod,
+    customRange,
+    setCustomRange,
+    getExportUrl
+  } = useEnvironmentHistory();
 
   // クイック制御用の電源制御関数
   const handleQuickPowerControl = async (deviceId: string, powerState: 'on' | 'off') => {
@@ -129,6 +172,17 @@ const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irD
         </div>
       </div>
 
+      {/* Scenes */}
+      <SceneBar
+        scenes={scenes}
+        cloudScenes={cloudScenes}
+        runningSceneIds={runningSceneIds}
+        lastExecution={lastExecution}
+        error={scenesError}
+        onExecute={executeScene}
+        onRefresh={() => fetchScenes(true)}
+      />
+
       {/* Alert Banner */}
       <AlertBanner
         alerts={alerts}
@@ -142,6 +196,7 @@ const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irD
         <div className="lg:col-span-8">
           <EnvironmentCards
             environmentData={environmentData}
+            sensorsData={sensorsData}
             isLoading={state.isConnecting}
             error={state.error || undefined}
           />
@@ -151,9 +206,26 @@ const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irD
             data={historyState.data}
             selectedPeriod={selectedPeriod}
             onPeriodChange={setSelectedPeriod}
+            customRange={customRange}
+            onRangeChange={setCustomRange}
+            getExportUrl={getExportUrl}
             isLoading={historyState.isLoading}
             error={historyState.error || undefined}
           />
+
+          {/* Power Chart (only shown when plugs report power readings) */}
+          <PowerChart
+            plugs={plugs}
+            deviceNames={Object.fromEntries(devices.map(device => [device.deviceId, device.deviceName]))}
+            selectedPlugId={selectedPlugId}
+            onSelectPlug={selectPlug}
+            period={energyPeriod}
+            onPeriodChange={setEnergyPeriod}
+            readings={powerReadings}
+            dailyTotals={dailyTotals}
+            isLoading={energyLoading}
+            error={energyError || undefined}
+          />
         </div>
 
         {/* Device Controls Section */}
@@ -338,6 +410,12 @@ const Dashboard = ({ onDeviceSelect, devices, controlDevice, devicesLoading, irD
                 </div>
               )}
             </div>
+
+            {/* Alert History Section */}
+            <AlertHistory
+              history={alertHistory}
+              onRefresh={() => fetchAlertHistory()}
+            />
           </div>
         </div>
       </div>
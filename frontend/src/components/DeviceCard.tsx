@@ -3,7 +3,22 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Device, DeviceType } from '../types';
+import { Device, DeviceType, DeviceCommand, CommandStatus, QueuedCommand } from '../types';
+import CurtainControl from './CurtainControl';
+import BotControl from './BotControl';
+import RemotePad from './RemotePad';
+import IRRemoteControl from './IRRemoteControl';
+import LockControl from './LockControl';
+
+/**
+ * Badge shown for the latest command sent to the device
+ */
+const COMMAND_STATUS_BADGES: Record<CommandStatus, { label: string; className: string }> = {
+  queued: { label: '⏳ 待機中', className: 'text-yellow-400' },
+  sending: { label: '⏳ 送信中', className: 'text-yellow-400' },
+  succeeded: { label: '✓ 完了', className: 'text-green-400' },
+  failed: { label: '⚠ 失敗', className: 'text-red-400' }
+};
 
 interface DeviceCardProps {
   device: Device;
@@ -12,6 +27,8 @@ interface DeviceCardProps {
   onTest?: (deviceId: string) => Promise<boolean>;
   isControlling?: boolean;
   isSelected?: boolean;
+  commandStatus?: DeviceCommand;
+  onCommandQueued?: (queued: QueuedCommand) => void;
   irDeviceStates?: Record<string, {
     power: 'on' | 'off';
     brightness?: number;
@@ -28,6 +45,8 @@ const DeviceCard = ({
   onTest, 
   isControlling = false,
   isSelected = false,
+  commandStatus,
+  onCommandQueued,
   irDeviceStates = {}
 }: DeviceCardProps) => {
   // グローバルなIR機器状態を使用（App.tsxから渡される）
@@ -324,6 +343,20 @@ const DeviceCard = ({
         return '🪟';
       case 'Plug':
         return '🔌';
+      case 'TV':
+        return '📺';
+      case 'Fan':
+        return '🌀';
+      case 'Speaker':
+        return '🔊';
+      case 'Projector':
+        return '📽️';
+      case 'Lock':
+        return '🔒';
+      case 'Keypad':
+        return '🔢';
+      case 'Meter':
+        return '🌡️';
       default:
         return '❓';
     }
@@ -352,7 +385,7 @@ const DeviceCard = ({
   };
 
   const isControllable = (): boolean => {
-    const controllableTypes: DeviceType[] = ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug'];
+    const controllableTypes: DeviceType[] = ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug', 'TV', 'Fan', 'Speaker', 'Projector', 'Lock'];
     return controllableTypes.includes(device.deviceType);
   };
 
@@ -372,12 +405,22 @@ const DeviceCard = ({
     }
   };
 
+  // 専用の操作エンドポイントはコマンドをキューに登録するだけなので、状態はコマンドの完了後に更新される
+  const handleCommandQueued = (_deviceId: string, _action: string, queued: QueuedCommand) => {
+    onCommandQueued?.(queued);
+  };
+
   const handleTest = async () => {
     if (onTest) {
       await onTest(device.deviceId);
     }
   };
 
+  // 専用の制御画面がないIR機器は学習ボタンのリモコンパッドで操作する
+  const hasRemotePad = device.isInfraredRemote &&
+    device.remoteType !== 'Light' &&
+    device.remoteType !== 'Air Conditioner';
+
   const renderDeviceControls = () => {
     if (!isControllable() || !onControl) {
       return null;
@@ -550,9 +593,7 @@ const DeviceCard = ({
                     </span>
                   </span>
                   <span className="text-sm text-gray-400">
-                    {localColorTemp !== null 
-                      ? localColorTemp 
-                      : (device.properties as any)?.colorTemperature || 3000}K
+                    {currentColorTemp}K
                     {isUpdatingColorTemp && <span className="ml-1 text-yellow-400">更新中...</span>}
                   </span>
                 </div>
@@ -570,7 +611,7 @@ const DeviceCard = ({
                     <div 
                       className="bg-orange-400 h-2 rounded-full transition-all duration-300"
                       style={{
-                        width: `${((localColorTemp !== null ? localColorTemp : (device.properties as any)?.colorTemperature || 3000) - 2700) / (6500 - 2700) * 100}%`
+                        width: `${(currentColorTemp - 2700) / (6500 - 2700) * 100}%`
                       }}
                     />
                   </div>
@@ -771,23 +812,41 @@ const DeviceCard = ({
 
       case 'Bot':
         return (
-          <div className="space-y-3">
-            <button
-              onClick={() => handleControl('press')}
-              disabled={isControlling}
-              className={`w-full px-3 py-2 rounded text-sm font-medium transition-colors bg-blue-600 hover:bg-blue-700 text-white ${
-                isControlling ? 'opacity-50 cursor-not-allowed' : ''
-              }`}
-            >
-              {isControlling ? '実行中...' : 'プレス'}
-            </button>
-            {(device.properties as any)?.battery !== undefined && (
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-300">バッテリー</span>
-                <span className="text-sm text-gray-400">{(device.properties as any).battery}%</span>
-              </div>
-            )}
-          </div>
+          <BotControl
+            device={device}
+            disabled={isControlling}
+            onControlSuccess={handleCommandQueued}
+          />
+        );
+
+      case 'Curtain':
+        return (
+          <CurtainControl
+            device={device}
+            disabled={isControlling}
+            onControlSuccess={handleCommandQueued}
+          />
+        );
+
+      case 'TV':
+      case 'Fan':
+      case 'Speaker':
+      case 'Projector':
+        return (
+          <IRRemoteControl
+            device={device}
+            disabled={isControlling}
+            onControlSuccess={handleCommandQueued}
+          />
+        );
+
+      case 'Lock':
+        return (
+          <LockControl
+            device={device}
+            disabled={isControlling}
+            onControlSuccess={handleStatusUpdate}
+          />
         );
 
       default:
@@ -813,6 +872,15 @@ const DeviceCard = ({
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {commandStatus && (
+            <span
+              className={`text-xs ${COMMAND_STATUS_BADGES[commandStatus.status].className}`}
+              title={commandStatus.error?.message ?? commandStatus.command}
+              data-testid="command-status"
+            >
+              {COMMAND_STATUS_BADGES[commandStatus.status].label}
+            </span>
+          )}
           <span className={`text-xs ${getStatusColor(device.status)}`}>
             ● {getStatusText(device.status)}
           </span>
@@ -826,6 +894,13 @@ const DeviceCard = ({
         </div>
       )}
 
+      {/* IR Remote Pad */}
+      {hasRemotePad && (
+        <div className="mb-4">
+          <RemotePad device={device} disabled={isControlling} onControlSuccess={handleCommandQueued} />
+        </div>
+      )}
+
       {/* Device Actions */}
       <div className="flex items-center justify-between pt-3 border-t border-gray-700">
         <div className="text-xs text-gray-500">
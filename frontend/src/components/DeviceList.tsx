@@ -3,8 +3,10 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import { Device, DeviceType, DeviceStatus } from '../types';
+import { Device, DeviceType, DeviceStatus, DeviceCommand, QueuedCommand } from '../types';
 import DeviceCard from './DeviceCard';
+import ScheduleEditor from './ScheduleEditor';
+import { useSchedules } from '../hooks/useSchedules';
 
 interface DeviceListProps {
   devices: Device[];
@@ -21,6 +23,8 @@ interface DeviceListProps {
     brightness?: number;
     colorTemp?: number;
   }>;
+  commandStatuses?: Record<string, DeviceCommand>;
+  onCommandQueued?: (queued: QueuedCommand) => void;
 }
 
 interface DeviceFilters {
@@ -39,7 +43,9 @@ const DeviceList = ({
   onRefresh,
   selectedDeviceId,
   onDeviceSelect,
-  irDeviceStates = {}
+  irDeviceStates = {},
+  commandStatuses = {},
+  onCommandQueued
 }: DeviceListProps) => {
   const [filters, setFilters] = useState<DeviceFilters>({
     type: 'all',
@@ -48,6 +54,13 @@ const DeviceList = ({
   });
   const [controllingDevices, setControllingDevices] = useState<Set<string>>(new Set());
   const selectedDeviceRef = useRef<HTMLDivElement>(null);
+  const {
+    schedules,
+    error: scheduleError,
+    createSchedule,
+    setScheduleEnabled,
+    deleteSchedule
+  } = useSchedules();
 
   // 選択されたデバイスまでスクロール
   useEffect(() => {
@@ -60,7 +73,7 @@ const DeviceList = ({
   }, [selectedDeviceId]);
 
   const deviceTypes: (DeviceType | 'all')[] = [
-    'all', 'Light', 'Air Conditioner', 'Hub', 'Bot', 'Curtain', 'Plug', 'Unknown'
+    'all', 'Light', 'Air Conditioner', 'Hub', 'Bot', 'Curtain', 'Plug', 'TV', 'Fan', 'Speaker', 'Projector', 'Lock', 'Keypad', 'Meter', 'Unknown'
   ];
 
   const statusOptions: (DeviceStatus | 'all')[] = ['all', 'online', 'offline', 'unknown'];
@@ -74,6 +87,13 @@ const DeviceList = ({
       'Bot': 'ボット',
       'Curtain': 'カーテン',
       'Plug': 'プラグ',
+      'TV': 'テレビ',
+      'Fan': '扇風機',
+      'Speaker': 'スピーカー',
+      'Projector': 'プロジェクター',
+      'Lock': 'ロック',
+      'Keypad': 'キーパッド',
+      'Meter': '温湿度計',
       'Unknown': '不明'
     };
     return labels[type];
@@ -90,10 +110,12 @@ const DeviceList = ({
   };
 
   const isControllableDevice = (deviceType: DeviceType): boolean => {
-    const controllableTypes: DeviceType[] = ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug'];
+    const controllableTypes: DeviceType[] = ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug', 'TV', 'Fan', 'Speaker', 'Projector', 'Lock'];
     return controllableTypes.includes(deviceType);
   };
 
+  const controllableDevices = devices.filter(device => isControllableDevice(device.deviceType));
+
   const filteredDevices = devices.filter(device => {
     // Type filter
     if (filters.type !== 'all' && device.deviceType !== filters.type) {
@@ -323,6 +345,8 @@ const DeviceList = ({
                       isControlling={controllingDevices.has(device.deviceId)}
                       isSelected={selectedDeviceId === device.deviceId}
                       irDeviceStates={irDeviceStates}
+                      commandStatus={commandStatuses[device.deviceId]}
+                      onCommandQueued={onCommandQueued}
                     />
                   </div>
                 ))}
@@ -331,6 +355,19 @@ const DeviceList = ({
           ))}
         </div>
       )}
+
+      {/* Schedules */}
+      {controllableDevices.length > 0 && (
+        <ScheduleEditor
+          devices={controllableDevices}
+          schedules={schedules}
+          error={scheduleError}
+          defaultDeviceId={selectedDeviceId}
+          onCreate={createSchedule}
+          onToggle={setScheduleEnabled}
+          onDelete={deleteSchedule}
+        />
+      )}
     </div>
   );
 };
@@ -2,17 +2,32 @@ import React from 'react';
 import EnvironmentCard from './EnvironmentCard';
 import { EnvironmentData } from '../types';
 
+// CO2 levels (ppm) matching the backend CO2 alerts
+const CO2_WARNING_LEVEL = 1000;
+const CO2_CRITICAL_LEVEL = 1500;
+
+const getCO2ColorClass = (co2: number): string => {
+  if (co2 > CO2_CRITICAL_LEVEL) return 'text-red-400';
+  if (co2 > CO2_WARNING_LEVEL) return 'text-yellow-400';
+  return 'text-gray-300';
+};
+
 export interface EnvironmentCardsProps {
   environmentData: EnvironmentData | null;
+  sensorsData?: EnvironmentData[];
   isLoading?: boolean;
   error?: string;
 }
 
 const EnvironmentCards: React.FC<EnvironmentCardsProps> = ({
   environmentData,
+  sensorsData = [],
   isLoading = false,
   error
 }) => {
+  // Per-sensor cards are also the only place CO2 readings are shown
+  const showSensorCards = sensorsData.length > 1 || sensorsData.some(sensor => sensor.co2 !== undefined);
+
   // Temperature icon (thermometer)
   const TemperatureIcon = () => (
     <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
@@ -35,44 +50,100 @@ const EnvironmentCards: React.FC<EnvironmentCardsProps> = ({
   );
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-      {/* Temperature Card */}
-      <EnvironmentCard
-        title="温度"
-        value={environmentData?.temperature ?? null}
-        unit="°C"
-        icon={<TemperatureIcon />}
-        colorClass="text-primary-400"
-        isLoading={isLoading}
-        error={error}
-        lastUpdated={environmentData?.timestamp}
-      />
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {/* Temperature Card */}
+        <EnvironmentCard
+          title="温度"
+          value={environmentData?.temperature ?? null}
+          unit="°C"
+          icon={<TemperatureIcon />}
+          colorClass="text-primary-400"
+          isLoading={isLoading}
+          error={error}
+          lastUpdated={environmentData?.timestamp}
+        />
+
+        {/* Humidity Card */}
+        <EnvironmentCard
+          title="湿度"
+          value={environmentData?.humidity ?? null}
+          unit="%"
+          icon={<HumidityIcon />}
+          colorClass="text-success-400"
+          isLoading={isLoading}
+          error={error}
+          lastUpdated={environmentData?.timestamp}
+        />
 
-      {/* Humidity Card */}
-      <EnvironmentCard
-        title="湿度"
-        value={environmentData?.humidity ?? null}
-        unit="%"
-        icon={<HumidityIcon />}
-        colorClass="text-success-400"
-        isLoading={isLoading}
-        error={error}
-        lastUpdated={environmentData?.timestamp}
-      />
+        {/* Light Card */}
+        <EnvironmentCard
+          title="照度"
+          value={environmentData?.light ?? null}
+          unit="lux"
+          icon={<LightIcon />}
+          colorClass="text-warning-400"
+          isLoading={isLoading}
+          error={error}
+          lastUpdated={environmentData?.timestamp}
+        />
+      </div>
 
-      {/* Light Card */}
-      <EnvironmentCard
-        title="照度"
-        value={environmentData?.light ?? null}
-        unit="lux"
-        icon={<LightIcon />}
-        colorClass="text-warning-400"
-        isLoading={isLoading}
-        error={error}
-        lastUpdated={environmentData?.timestamp}
-      />
-    </div>
+      {/* Per-sensor cards (when more than one sensor or a CO2 sensor is available) */}
+      {showSensorCards && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-gray-300 mb-3">センサー別</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {sensorsData.map((sensor, index) => (
+              <div
+                key={sensor.deviceId || index}
+                className="card p-4"
+                data-testid="sensor-card"
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-white font-medium">{sensor.deviceName || `センサー ${index + 1}`}</span>
+                  <span className="text-xs text-gray-400">
+                    {sensor.timestamp.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <div className="flex justify-center text-primary-400"><TemperatureIcon /></div>
+                    <div className="text-xl font-bold text-white">{sensor.temperature.toFixed(1)}</div>
+                    <div className="text-xs text-gray-400">°C</div>
+                  </div>
+                  <div>
+                    <div className="flex justify-center text-success-400"><HumidityIcon /></div>
+                    <div className="text-xl font-bold text-white">{Math.round(sensor.humidity)}</div>
+                    <div className="text-xs text-gray-400">%</div>
+                  </div>
+                  <div>
+                    <div className="flex justify-center text-warning-400"><LightIcon /></div>
+                    <div className="text-xl font-bold text-white">
+                      {sensor.hasLightSensor === false ? '--' : Math.round(sensor.light)}
+                    </div>
+                    <div className="text-xs text-gray-400">lux</div>
+                  </div>
+                </div>
+                {(sensor.co2 !== undefined || sensor.battery !== undefined) && (
+                  <div className="flex items-center justify-between mt-3 text-sm">
+                    {sensor.co2 !== undefined ? (
+                      <span className={getCO2ColorClass(sensor.co2)} data-testid="sensor-co2">
+                        CO2 {Math.round(sensor.co2)} ppm
+                      </span>
+                    ) : <span />}
+                    {sensor.battery !== undefined && (
+                      <span className="text-gray-400">🔋 {sensor.battery}%</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
   );
 };
 
-export default EnvironmentCards;
\ No newline at end of file
+export default EnvironmentCards;
@@ -14,6 +14,8 @@ import {
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import 'chartjs-adapter-date-fns';
+import { format } from 'date-fns';
+import { HistoryRange, ExportFormat } from '../types';
 
 // Register Chart.js components
 ChartJS.register(
@@ -32,15 +34,43 @@ export interface HistoricalDataPoint {
   temperature: number;
   humidity: number;
   light: number;
+  temperatureMin?: number;
+  temperatureMax?: number;
+  humidityMin?: number;
+  humidityMax?: number;
+  lightMin?: number;
+  lightMax?: number;
   sampleCount?: number;
 }
 
-export type TimePeriod = '1h' | '6h' | '12h';
+export type TimePeriod = '1h' | '6h' | '12h' | '24h' | '7d' | '30d';
+
+// Period labels (also used for the chart title)
+const PERIOD_LABELS: Record<TimePeriod, string> = {
+  '1h': '1時間',
+  '6h': '6時間',
+  '12h': '12時間',
+  '24h': '24時間',
+  '7d': '7日',
+  '30d': '30日'
+};
+
+// Bucket size options for custom ranges (undefined = chosen by the server)
+const BUCKET_OPTIONS: { value: number | undefined; label: string }[] = [
+  { value: undefined, label: '自動' },
+  { value: 5, label: '5分' },
+  { value: 15, label: '15分' },
+  { value: 60, label: '1時間' },
+  { value: 1440, label: '1日' }
+];
 
 interface EnvironmentChartProps {
   data: HistoricalDataPoint[];
   selectedPeriod: TimePeriod;
   onPeriodChange: (period: TimePeriod) => void;
+  customRange?: HistoryRange | null;
+  onRangeChange?: (range: HistoryRange | null) => void;
+  getExportUrl?: (format: ExportFormat) => string;
   isLoading?: boolean;
   error?: string;
 }
@@ -49,11 +79,50 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
   data,
   selectedPeriod,
   onPeriodChange,
+  customRange = null,
+  onRangeChange,
+  getExportUrl,
   isLoading = false,
   error
 }) => {
   const chartRef = useRef<ChartJS<'line'>>(null);
   const [selectedMetric, setSelectedMetric] = useState<'temperature' | 'humidity' | 'light'>('temperature');
+  const [isRangeFormOpen, setIsRangeFormOpen] = useState(false);
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  const [rangeBucket, setRangeBucket] = useState<number | undefined>(undefined);
+  const [rangeError, setRangeError] = useState<string | null>(null);
+
+  const periodLabel = customRange ? formatRangeLabel(customRange) : PERIOD_LABELS[selectedPeriod];
+
+  // Open the range form, prefilled with the current range or the last 24 hours
+  const openRangeForm = () => {
+    const to = customRange?.to ?? new Date();
+    const from = customRange?.from ?? new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    setRangeFrom(toDateTimeInputValue(from));
+    setRangeTo(toDateTimeInputValue(to));
+    setRangeBucket(customRange?.bucketMinutes);
+    setRangeError(null);
+    setIsRangeFormOpen(true);
+  };
+
+  // Validate and apply the custom range
+  const applyRange = () => {
+    const from = new Date(rangeFrom);
+    const to = new Date(rangeTo);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      setRangeError('開始日時と終了日時を入力してください');
+      return;
+    }
+    if (from >= to) {
+      setRangeError('開始日時は終了日時より前にしてください');
+      return;
+    }
+
+    onRangeChange?.({ from, to, bucketMinutes: rangeBucket });
+    setIsRangeFormOpen(false);
+  };
 
   // Chart configuration
   const options: ChartOptions<'line'> = {
@@ -75,7 +144,7 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
       },
       title: {
         display: true,
-        text: getChartTitle(selectedMetric, selectedPeriod),
+        text: `${getMetricLabel(selectedMetric)} - ${periodLabel}`,
         color: '#F9FAFB', // text-gray-50
         font: {
           size: 16,
@@ -97,6 +166,17 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
             const value = context.parsed.y;
             const unit = getMetricUnit(selectedMetric);
             return `${context.dataset.label}: ${value.toFixed(1)}${unit}`;
+          },
+          afterLabel: (context: TooltipItem<'line'>) => {
+            // Rollup points (7d / 30d) carry the min/max of their bucket
+            const point = data[context.dataIndex];
+            const min = point?.[`${selectedMetric}Min` as const];
+            const max = point?.[`${selectedMetric}Max` as const];
+            if (min === undefined || max === undefined) {
+              return '';
+            }
+            const unit = getMetricUnit(selectedMetric);
+            return `最小 ${min.toFixed(1)}${unit} / 最大 ${max.toFixed(1)}${unit}`;
           }
         }
       }
@@ -108,11 +188,11 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
           displayFormats: {
             minute: 'HH:mm',
             hour: 'HH:mm',
-            day: 'MM/dd HH:mm',
+            day: 'MM/dd',
             week: 'MM/dd',
             month: 'MM/dd'
           },
-          unit: getTimeUnit(selectedPeriod)
+          unit: customRange ? getRangeTimeUnit(customRange) : getTimeUnit(selectedPeriod)
         },
         grid: {
           color: '#374151', // border-gray-700
@@ -168,11 +248,9 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
   };
 
   // Period selection buttons
-  const periodButtons: { value: TimePeriod; label: string }[] = [
-    { value: '1h', label: '1時間' },
-    { value: '6h', label: '6時間' },
-    { value: '12h', label: '12時間' }
-  ];
+  const periodButtons: { value: TimePeriod; label: string }[] = (
+    Object.keys(PERIOD_LABELS) as TimePeriod[]
+  ).map(value => ({ value, label: PERIOD_LABELS[value] }));
 
   // Metric selection buttons
   const metricButtons: { value: typeof selectedMetric; label: string; icon: string }[] = [
@@ -187,12 +265,24 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
         {/* Header */}
         <div className="flex items-center justify-between">
           <h3 className="text-xl font-semibold text-white">環境データ履歴</h3>
-          {isLoading && (
-            <div className="flex items-center space-x-2 text-blue-400">
-              <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
-              <span className="text-sm">読み込み中...</span>
-            </div>
-          )}
+          <div className="flex items-center space-x-3">
+            {isLoading && (
+              <div className="flex items-center space-x-2 text-blue-400">
+                <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+                <span className="text-sm">読み込み中...</span>
+              </div>
+            )}
+            {getExportUrl && (['csv', 'json'] as ExportFormat[]).map((format) => (
+              <a
+                key={format}
+                href={getExportUrl(format)}
+                download
+                className="px-2 py-1 rounded text-xs font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+              >
+                ⬇ {format.toUpperCase()}
+              </a>
+            ))}
+          </div>
         </div>
 
         {/* Controls */}
@@ -216,13 +306,13 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
           </div>
 
           {/* Period Selection */}
-          <div className="flex space-x-2">
+          <div className="flex flex-wrap gap-2">
             {periodButtons.map((period) => (
               <button
                 key={period.value}
                 onClick={() => onPeriodChange(period.value)}
                 className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                  selectedPeriod === period.value
+                  !customRange && selectedPeriod === period.value
                     ? 'bg-green-600 text-white'
                     : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                 }`}
@@ -230,8 +320,80 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
                 {period.label}
               </button>
             ))}
+            {onRangeChange && (
+              <button
+                onClick={() => (isRangeFormOpen ? setIsRangeFormOpen(false) : openRangeForm())}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  customRange
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                期間指定
+              </button>
+            )}
           </div>
         </div>
+
+        {/* Custom Range Form */}
+        {onRangeChange && isRangeFormOpen && (
+          <div className="bg-gray-700 rounded-lg p-4 flex flex-col sm:flex-row sm:items-end gap-3">
+            <label className="flex flex-col text-xs text-gray-400">
+              開始
+              <input
+                type="datetime-local"
+                value={rangeFrom}
+                onChange={(e) => setRangeFrom(e.target.value)}
+                className="mt-1 bg-gray-800 text-white rounded px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              終了
+              <input
+                type="datetime-local"
+                value={rangeTo}
+                onChange={(e) => setRangeTo(e.target.value)}
+                className="mt-1 bg-gray-800 text-white rounded px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              集計間隔
+              <select
+                value={rangeBucket ?? ''}
+                onChange={(e) => setRangeBucket(e.target.value ? Number(e.target.value) : undefined)}
+                className="mt-1 bg-gray-800 text-white rounded px-2 py-1 text-sm"
+              >
+                {BUCKET_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value ?? ''}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={applyRange}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-500"
+              >
+                適用
+              </button>
+              {customRange && (
+                <button
+                  onClick={() => {
+                    onRangeChange(null);
+                    setIsRangeFormOpen(false);
+                  }}
+                  className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-600 text-gray-200 hover:bg-gray-500"
+                >
+                  解除
+                </button>
+              )}
+            </div>
+            {rangeError && (
+              <p className="text-red-400 text-sm">{rangeError}</p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Chart Container */}
@@ -280,7 +442,7 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
           <div className="bg-gray-700 rounded-lg p-3">
             <div className="text-xs text-gray-400 mb-1">期間</div>
             <div className="text-lg font-semibold text-white">
-              {periodButtons.find(p => p.value === selectedPeriod)?.label}
+              {periodLabel}
             </div>
           </div>
         </div>
@@ -290,10 +452,12 @@ const EnvironmentChart: React.FC<EnvironmentChartProps> = ({
 };
 
 // Helper functions
-function getChartTitle(metric: string, period: TimePeriod): string {
-  const metricName = getMetricLabel(metric);
-  const periodName = period === '1h' ? '1時間' : period === '6h' ? '6時間' : '12時間';
-  return `${metricName} - ${periodName}`;
+function formatRangeLabel(range: HistoryRange): string {
+  return `${format(range.from, 'MM/dd HH:mm')} 〜 ${format(range.to, 'MM/dd HH:mm')}`;
+}
+
+function toDateTimeInputValue(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm");
 }
 
 function getMetricLabel(metric: string): string {
@@ -329,10 +493,21 @@ function getTimeUnit(period: TimePeriod): 'minute' | 'hour' | 'day' {
       return 'minute';
     case '6h':
     case '12h':
+    case '24h':
       return 'hour';
+    case '7d':
+    case '30d':
+      return 'day';
     default:
       return 'hour';
   }
 }
 
+function getRangeTimeUnit(range: HistoryRange): 'minute' | 'hour' | 'day' {
+  const hours = (range.to.getTime() - range.from.getTime()) / (60 * 60 * 1000);
+  if (hours <= 2) return 'minute';
+  if (hours <= 48) return 'hour';
+  return 'day';
+}
+
 export default EnvironmentChart;
\ No newline at end of file
@@ -0,0 +1,223 @@
+/**
+ * IR remote control component for TVs, fans, speakers and projectors
+ */
+
+import { useState, useCallback } from 'react';
+import { Device, TVProperties, FanProperties } from '../types';
+
+type IRRemoteType = 'TV' | 'Fan' | 'Speaker' | 'Projector';
+
+interface IRRemoteControlProps {
+  device: Device;
+  onControlSuccess?: (deviceId: string, action: string, result: any) => void;
+  onControlError?: (deviceId: string, action: string, error: string) => void;
+  disabled?: boolean;
+}
+
+interface RemoteButton {
+  action: string;
+  label: string;
+  ariaLabel?: string;
+}
+
+// Route prefix of each remote type (POST /api/devices/:deviceId/:prefix/:action)
+const ROUTE_PREFIXES: Record<IRRemoteType, string> = {
+  TV: 'tv',
+  Fan: 'fan',
+  Speaker: 'speaker',
+  Projector: 'projector'
+};
+
+// Button rows shown below the power buttons
+const BUTTON_ROWS: Record<IRRemoteType, RemoteButton[][]> = {
+  TV: [
+    [
+      { action: 'channel-down', label: 'CH −' },
+      { action: 'channel-up', label: 'CH ＋' }
+    ],
+    [
+      { action: 'volume-down', label: '音量 −' },
+      { action: 'volume-up', label: '音量 ＋' }
+    ]
+  ],
+  Fan: [
+    [
+      { action: 'low', label: '弱' },
+      { action: 'middle', label: '中' },
+      { action: 'high', label: '強' }
+    ],
+    [
+      { action: 'swing', label: '首振り' },
+      { action: 'timer', label: 'タイマー' }
+    ]
+  ],
+  Speaker: [
+    [
+      { action: 'previous', label: '⏮', ariaLabel: '前へ' },
+      { action: 'rewind', label: '⏪', ariaLabel: '巻き戻し' },
+      { action: 'play', label: '▶', ariaLabel: '再生' },
+      { action: 'pause', label: '⏸', ariaLabel: '一時停止' },
+      { action: 'stop', label: '⏹', ariaLabel: '停止' },
+      { action: 'fast-forward', label: '⏩', ariaLabel: '早送り' },
+      { action: 'next', label: '⏭', ariaLabel: '次へ' }
+    ],
+    [
+      { action: 'volume-down', label: '音量 −' },
+      { action: 'mute', label: 'ミュート' },
+      { action: 'volume-up', label: '音量 ＋' }
+    ]
+  ],
+  Projector: []
+};
+
+const FAN_SPEED_LABELS: Record<NonNullable<FanProperties['speed']>, string> = {
+  low: '弱',
+  middle: '中',
+  high: '強'
+};
+
+const IRRemoteControl = ({
+  device,
+  onControlSuccess,
+  onControlError,
+  disabled = false
+}: IRRemoteControlProps) => {
+  const remoteType = device.deviceType as IRRemoteType;
+  const properties = device.properties as TVProperties & FanProperties;
+  const isPoweredOn = properties?.power === 'on';
+
+  const [isControlling, setIsControlling] = useState(false);
+  const [channelInput, setChannelInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Send a remote button to its dedicated endpoint
+   */
+  const sendAction = useCallback(async (action: string, body?: object): Promise<boolean> => {
+    if (isControlling || disabled) {
+      return false;
+    }
+
+    setIsControlling(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/devices/${device.deviceId}/${ROUTE_PREFIXES[remoteType]}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        const errorMessage = result.error?.message || result.error || 'Remote control failed';
+        setError(errorMessage);
+        onControlError?.(device.deviceId, action, errorMessage);
+        return false;
+      }
+
+      onControlSuccess?.(device.deviceId, action, result.data);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      onControlError?.(device.deviceId, action, errorMessage);
+      return false;
+    } finally {
+      setIsControlling(false);
+    }
+  }, [device.deviceId, remoteType, isControlling, disabled, onControlSuccess, onControlError]);
+
+  const handleSetChannel = async () => {
+    const channel = parseInt(channelInput, 10);
+    if (!Number.isInteger(channel)) {
+      return;
+    }
+
+    if (await sendAction('channel', { channel })) {
+      setChannelInput('');
+    }
+  };
+
+  if (!(remoteType in ROUTE_PREFIXES)) {
+    return null;
+  }
+
+  const isDisabled = isControlling || disabled || device.status === 'offline';
+  const buttonClass = (active = false) =>
+    `flex-1 px-2 py-2 rounded text-sm font-medium transition-colors ${
+      active ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+    } ${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-300">電源</span>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => sendAction('off')} disabled={isDisabled} className={buttonClass(!isPoweredOn)}>
+            OFF
+          </button>
+          <button onClick={() => sendAction('on')} disabled={isDisabled} className={buttonClass(isPoweredOn)}>
+            ON
+          </button>
+        </div>
+      </div>
+
+      {remoteType === 'TV' && (
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-300">
+            CH {properties?.channel ?? '--'}
+          </span>
+          <input
+            type="number"
+            min="1"
+            max="999"
+            value={channelInput}
+            onChange={(e) => setChannelInput(e.target.value)}
+            aria-label="チャンネル"
+            className="flex-1 bg-gray-700 text-white rounded px-2 py-1 text-sm"
+          />
+          <button
+            onClick={handleSetChannel}
+            disabled={isDisabled || !channelInput}
+            className={`px-3 py-1 rounded text-sm bg-blue-600 hover:bg-blue-700 text-white ${
+              isDisabled || !channelInput ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            切替
+          </button>
+        </div>
+      )}
+
+      {remoteType === 'Fan' && properties?.speed && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-300">風量</span>
+          <span className="text-sm text-gray-400">{FAN_SPEED_LABELS[properties.speed]}</span>
+        </div>
+      )}
+
+      {BUTTON_ROWS[remoteType].map((row, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          {row.map(button => (
+            <button
+              key={button.action}
+              onClick={() => sendAction(button.action)}
+              disabled={isDisabled}
+              aria-label={button.ariaLabel}
+              className={buttonClass(remoteType === 'Fan' && properties?.speed === button.action)}
+            >
+              {button.label}
+            </button>
+          ))}
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default IRRemoteControl;
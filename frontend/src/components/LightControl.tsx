@@ -18,6 +18,27 @@ interface ControlResponse {
   error?: string;
 }
 
+type LightColor = NonNullable<LightProperties['color']>;
+
+// Color temperature range supported by Color Bulb / Strip Light (Kelvin)
+const MIN_COLOR_TEMPERATURE = 2700;
+const MAX_COLOR_TEMPERATURE = 6500;
+
+/**
+ * Convert a color to the "#rrggbb" value of a color input
+ */
+const toHexColor = (color: LightColor): string =>
+  '#' + [color.red, color.green, color.blue].map(value => value.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Convert the "#rrggbb" value of a color input to a color
+ */
+const fromHexColor = (hex: string): LightColor => ({
+  red: parseInt(hex.slice(1, 3), 16),
+  green: parseInt(hex.slice(3, 5), 16),
+  blue: parseInt(hex.slice(5, 7), 16)
+});
+
 const LightControl = ({ 
   device, 
   onControlSuccess, 
@@ -34,6 +55,10 @@ const LightControl = ({
   const lightProperties = device.properties as LightProperties;
   const isPoweredOn = lightProperties?.power === 'on';
   const currentBrightness = lightProperties?.brightness || 0;
+  const [colorInput, setColorInput] = useState<string | null>(null);
+  const [colorTemperatureInput, setColorTemperatureInput] = useState<number | null>(null);
+  const currentColor = colorInput ?? (lightProperties?.color ? toHexColor(lightProperties.color) : '#ffffff');
+  const currentColorTemperature = colorTemperatureInput ?? lightProperties?.colorTemperature ?? MIN_COLOR_TEMPERATURE;
 
   /**
    * Show feedback message to user
@@ -83,9 +108,9 @@ const LightControl = ({
         return { success: false, error: errorMessage };
       }
 
-      showFeedback('success', `${actionName}が完了しました`);
+      showFeedback('success', `${actionName}を受け付けました`);
       onControlSuccess?.(device.deviceId, actionName, result.data);
-      return { success: true, message: `${actionName} completed successfully` };
+      return { success: true, message: `${actionName} queued` };
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -128,6 +153,30 @@ const LightControl = ({
     handleSetBrightness(brightness);
   }, [handleSetBrightness]);
 
+  /**
+   * Send the selected color (Color Bulb / Strip Light)
+   */
+  const handleSetColor = useCallback(async () => {
+    const result = await controlLight('/light/color', fromHexColor(currentColor), `色設定 (${currentColor})`);
+    if (result.success) {
+      setColorInput(null);
+    }
+  }, [controlLight, currentColor]);
+
+  /**
+   * Send the selected color temperature (Color Bulb / Strip Light)
+   */
+  const handleSetColorTemperature = useCallback(async () => {
+    const result = await controlLight(
+      '/light/color-temperature',
+      { colorTemperature: currentColorTemperature },
+      `色温度設定 (${currentColorTemperature}K)`
+    );
+    if (result.success) {
+      setColorTemperatureInput(null);
+    }
+  }, [controlLight, currentColorTemperature]);
+
   if (device.deviceType !== 'Light') {
     return (
       <div className="text-center text-gray-400 text-sm p-4">
@@ -272,6 +321,65 @@ const LightControl = ({
         </div>
       )}
 
+      {/* Color Control (Color Bulb / Strip Light) */}
+      {lightProperties?.color !== undefined && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-300">色</span>
+          <div className="flex items-center space-x-2">
+            <input
+              type="color"
+              value={currentColor}
+              onChange={(e) => setColorInput(e.target.value)}
+              disabled={isControlling || disabled || device.status !== 'online'}
+              aria-label="色"
+              className="h-8 w-12 bg-gray-700 rounded cursor-pointer"
+            />
+            <button
+              onClick={handleSetColor}
+              disabled={isControlling || disabled || device.status !== 'online'}
+              className={`px-3 py-1 rounded text-xs font-medium transition-colors bg-blue-600 hover:bg-blue-700 text-white ${
+                isControlling || disabled || device.status !== 'online' ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              色を適用
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Color Temperature Control (Color Bulb / Strip Light) */}
+      {lightProperties?.colorTemperature !== undefined && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-300">色温度</span>
+            <span className="text-sm text-gray-400">{currentColorTemperature}K</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="range"
+              min={MIN_COLOR_TEMPERATURE}
+              max={MAX_COLOR_TEMPERATURE}
+              step="100"
+              value={currentColorTemperature}
+              onChange={(e) => setColorTemperatureInput(parseInt(e.target.value, 10))}
+              disabled={isControlling || disabled || device.status !== 'online'}
+              aria-label="色温度"
+              className="flex-1 h-2 rounded-lg appearance-none cursor-pointer"
+              style={{ background: 'linear-gradient(to right, #fbbf24, #f3f4f6, #93c5fd)' }}
+            />
+            <button
+              onClick={handleSetColorTemperature}
+              disabled={isControlling || disabled || device.status !== 'online'}
+              className={`px-3 py-1 rounded text-xs font-medium transition-colors bg-blue-600 hover:bg-blue-700 text-white ${
+                isControlling || disabled || device.status !== 'online' ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              適用
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Device Status */}
       <div className="pt-3 border-t border-gray-700">
         <div className="flex items-center justify-between text-xs text-gray-500">
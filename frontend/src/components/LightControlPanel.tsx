@@ -3,13 +3,13 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Device, LightProperties } from '../types';
+import { Device, LightProperties, QueuedCommand } from '../types';
 import { useLightControl } from '../hooks/useLightControl';
 import LightControl from './LightControl';
 
 interface LightControlPanelProps {
   devices: Device[];
-  onDeviceUpdate?: (deviceId: string) => void;
+  onCommandQueued?: (queued: QueuedCommand) => void;
   className?: string;
 }
 
@@ -23,7 +23,7 @@ interface ControlFeedback {
 
 const LightControlPanel = ({ 
   devices, 
-  onDeviceUpdate, 
+  onCommandQueued, 
   className = '' 
 }: LightControlPanelProps) => {
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
@@ -52,17 +52,18 @@ const LightControlPanel = ({
   /**
    * Handle control success
    */
-  const handleControlSuccess = (deviceId: string, action: string, _result: any) => {
+  const handleControlSuccess = (deviceId: string, action: string, queued: QueuedCommand) => {
     const newFeedback: ControlFeedback = {
       deviceId,
       action,
       success: true,
-      message: `${action}が完了しました`,
+      message: `${action}を受け付けました`,
       timestamp: new Date()
     };
 
     setFeedback(prev => [newFeedback, ...prev.slice(0, 4)]); // Keep last 5 feedback items
-    onDeviceUpdate?.(deviceId);
+    // The device is refreshed once the queued command has succeeded
+    onCommandQueued?.(queued);
   };
 
   /**
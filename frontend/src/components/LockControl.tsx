@@ -0,0 +1,177 @@
+/**
+ * Lock control component for locking and unlocking SwitchBot Locks
+ * Every action has to be confirmed: the card asks the user first, then fetches a
+ * confirmation token from the backend and sends it with the command.
+ */
+
+import { useState, useCallback } from 'react';
+import { Device, LockProperties } from '../types';
+import { LOW_BATTERY_THRESHOLD } from './BotControl';
+
+type LockAction = 'lock' | 'unlock';
+
+interface LockControlProps {
+  device: Device;
+  onControlSuccess?: (deviceId: string, action: string, result: any) => void;
+  onControlError?: (deviceId: string, action: string, error: string) => void;
+  disabled?: boolean;
+}
+
+const LOCK_STATE_LABELS: Record<LockProperties['lockState'], string> = {
+  locked: '施錠中',
+  unlocked: '解錠中',
+  jammed: 'エラー（ジャム）',
+  unknown: '不明'
+};
+
+const ACTION_LABELS: Record<LockAction, string> = {
+  lock: '施錠',
+  unlock: '解錠'
+};
+
+/**
+ * POST to a lock endpoint and return the response data, or throw its error message
+ */
+const postLockRequest = async (deviceId: string, path: string, body: object): Promise<any> => {
+  const response = await fetch(`/api/devices/${deviceId}/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || result.error || 'Lock control failed');
+  }
+
+  return result.data;
+};
+
+const LockControl = ({
+  device,
+  onControlSuccess,
+  onControlError,
+  disabled = false
+}: LockControlProps) => {
+  const lockProperties = device.properties as LockProperties | undefined;
+  const lockState = lockProperties?.lockState ?? 'unknown';
+  const isDoorOpen = lockProperties?.doorState === 'opened';
+  const battery = lockProperties?.battery;
+  const isLowBattery = battery !== undefined && battery <= LOW_BATTERY_THRESHOLD;
+
+  const [pendingAction, setPendingAction] = useState<LockAction | null>(null);
+  const [isControlling, setIsControlling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Request a confirmation token for the pending action and send it
+   */
+  const confirmAction = useCallback(async () => {
+    if (!pendingAction || isControlling || disabled) {
+      return;
+    }
+
+    const action = pendingAction;
+    setIsControlling(true);
+    setError(null);
+
+    try {
+      const { confirmationToken } = await postLockRequest(device.deviceId, 'lock/confirmation', { action });
+      const data = await postLockRequest(device.deviceId, action, { confirmationToken });
+      onControlSuccess?.(device.deviceId, action, data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      onControlError?.(device.deviceId, action, errorMessage);
+    } finally {
+      setPendingAction(null);
+      setIsControlling(false);
+    }
+  }, [device.deviceId, pendingAction, isControlling, disabled, onControlSuccess, onControlError]);
+
+  const isDisabled = isControlling || disabled || device.status === 'offline';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-300">状態</span>
+        <span
+          data-testid="lock-state"
+          className={`text-sm font-medium ${
+            lockState === 'locked' ? 'text-green-400' : lockState === 'unlocked' ? 'text-yellow-400' : 'text-red-400'
+          }`}
+        >
+          {lockState === 'locked' ? '🔒 ' : lockState === 'unlocked' ? '🔓 ' : ''}{LOCK_STATE_LABELS[lockState]}
+        </span>
+      </div>
+
+      {lockProperties?.doorState && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-300">ドア</span>
+          <span className={`text-sm ${isDoorOpen ? 'text-red-400 font-medium' : 'text-gray-400'}`}>
+            {isDoorOpen ? '開' : '閉'}
+          </span>
+        </div>
+      )}
+
+      {isDoorOpen && (
+        <p className="text-xs text-red-400">🚪 ドアが開いています</p>
+      )}
+
+      {pendingAction ? (
+        <div className="space-y-2">
+          <p className="text-sm text-yellow-300">{device.deviceName}を{ACTION_LABELS[pendingAction]}しますか？</p>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPendingAction(null)}
+              disabled={isControlling}
+              className="flex-1 px-3 py-2 rounded text-sm font-medium transition-colors bg-gray-600 hover:bg-gray-700 text-gray-200"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={confirmAction}
+              disabled={isDisabled}
+              className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors bg-red-600 hover:bg-red-700 text-white ${
+                isDisabled ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {isControlling ? '実行中...' : `${ACTION_LABELS[pendingAction]}する`}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-2">
+          {(['unlock', 'lock'] as LockAction[]).map(action => (
+            <button
+              key={action}
+              onClick={() => setPendingAction(action)}
+              disabled={isDisabled}
+              className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors bg-gray-700 hover:bg-gray-600 text-gray-200 ${
+                isDisabled ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {battery !== undefined && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-300">バッテリー</span>
+          <span className={`text-sm ${isLowBattery ? 'text-red-400 font-medium' : 'text-gray-400'}`}>
+            {isLowBattery && '🪫 '}{battery}%
+          </span>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default LockControl;
@@ -0,0 +1,269 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TimeScale,
+  ChartOptions
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import 'chartjs-adapter-date-fns';
+import { EnergyPeriod, PowerReading, DailyEnergy, PlugEnergySummary } from '../types';
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TimeScale
+);
+
+const PERIOD_LABELS: Record<EnergyPeriod, string> = {
+  '1h': '1時間',
+  '6h': '6時間',
+  '24h': '24時間',
+  '7d': '7日'
+};
+
+const POWER_COLOR = 'rgb(250, 204, 21)'; // yellow-400
+
+interface PowerChartProps {
+  plugs: PlugEnergySummary[];
+  deviceNames?: Record<string, string>;
+  selectedPlugId: string | null;
+  onSelectPlug: (deviceId: string) => void;
+  period: EnergyPeriod;
+  onPeriodChange: (period: EnergyPeriod) => void;
+  readings: PowerReading[];
+  dailyTotals: DailyEnergy[];
+  isLoading?: boolean;
+  error?: string;
+}
+
+const formatKWh = (kWh: number): string => `${kWh.toFixed(kWh < 10 ? 2 : 1)} kWh`;
+
+const PowerChart: React.FC<PowerChartProps> = ({
+  plugs,
+  deviceNames = {},
+  selectedPlugId,
+  onSelectPlug,
+  period,
+  onPeriodChange,
+  readings,
+  dailyTotals,
+  isLoading = false,
+  error
+}) => {
+  if (plugs.length === 0) {
+    return null;
+  }
+
+  const selectedPlug = plugs.find(plug => plug.deviceId === selectedPlugId) || plugs[0];
+  const maxDailyKWh = Math.max(...dailyTotals.map(day => day.kWh), 0);
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        display: false
+      },
+      title: {
+        display: true,
+        text: `消費電力 - ${PERIOD_LABELS[period]}`,
+        color: '#F9FAFB', // text-gray-50
+        font: {
+          size: 16,
+          weight: 'bold'
+        }
+      },
+      tooltip: {
+        backgroundColor: 'rgba(17, 24, 39, 0.95)', // bg-gray-900
+        titleColor: '#F9FAFB',
+        bodyColor: '#E5E7EB',
+        borderColor: '#374151',
+        borderWidth: 1,
+        callbacks: {
+          title: (context) => new Date(context[0].parsed.x).toLocaleString('ja-JP'),
+          label: (context) => `${context.parsed.y.toFixed(1)} W`
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'time',
+        time: {
+          displayFormats: {
+            minute: 'HH:mm',
+            hour: 'HH:mm',
+            day: 'MM/dd'
+          },
+          unit: period === '7d' ? 'day' : period === '1h' ? 'minute' : 'hour'
+        },
+        grid: {
+          color: '#374151', // border-gray-700
+        },
+        ticks: {
+          color: '#9CA3AF', // text-gray-400
+          maxTicksLimit: 8
+        }
+      },
+      y: {
+        beginAtZero: true,
+        grid: {
+          color: '#374151', // border-gray-700
+        },
+        ticks: {
+          color: '#9CA3AF', // text-gray-400
+          callback: (value) => `${value}W`
+        }
+      }
+    },
+    elements: {
+      point: {
+        radius: 1,
+        hoverRadius: 5
+      },
+      line: {
+        tension: 0.1
+      }
+    }
+  };
+
+  const chartData = {
+    datasets: [
+      {
+        label: '消費電力',
+        data: readings.map(reading => ({
+          x: reading.timestamp.getTime(),
+          y: reading.watts
+        })),
+        borderColor: POWER_COLOR,
+        backgroundColor: 'rgba(250, 204, 21, 0.1)',
+        borderWidth: 2,
+        fill: true
+      }
+    ]
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex flex-col space-y-4 mb-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-white">電力モニター</h3>
+          {isLoading && (
+            <div className="flex items-center space-x-2 text-blue-400">
+              <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+              <span className="text-sm">読み込み中...</span>
+            </div>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-3 sm:space-y-0">
+          <select
+            value={selectedPlug.deviceId}
+            onChange={(e) => onSelectPlug(e.target.value)}
+            aria-label="プラグ"
+            className="bg-gray-700 text-white rounded-lg px-3 py-2 text-sm"
+          >
+            {plugs.map(plug => (
+              <option key={plug.deviceId} value={plug.deviceId}>
+                {deviceNames[plug.deviceId] || plug.deviceId}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(PERIOD_LABELS) as EnergyPeriod[]).map(value => (
+              <button
+                key={value}
+                onClick={() => onPeriodChange(value)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  period === value
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {PERIOD_LABELS[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-gray-700 rounded-lg p-3">
+            <p className="text-xs text-gray-400">現在</p>
+            <p className="text-lg font-semibold text-yellow-400">
+              {selectedPlug.latest ? `${selectedPlug.latest.watts.toFixed(1)} W` : '--'}
+            </p>
+          </div>
+          <div className="bg-gray-700 rounded-lg p-3">
+            <p className="text-xs text-gray-400">今日</p>
+            <p className="text-lg font-semibold text-white">{formatKWh(selectedPlug.todayKWh)}</p>
+          </div>
+          <div className="bg-gray-700 rounded-lg p-3">
+            <p className="text-xs text-gray-400">今月</p>
+            <p className="text-lg font-semibold text-white">{formatKWh(selectedPlug.monthKWh)}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Chart Container */}
+      {error ? (
+        <div className="h-48 flex items-center justify-center bg-gray-700 rounded-lg">
+          <div className="text-center">
+            <p className="text-red-400 font-medium">データの読み込みに失敗しました</p>
+            <p className="text-gray-400 text-sm mt-1">{error}</p>
+          </div>
+        </div>
+      ) : readings.length === 0 && !isLoading ? (
+        <div className="h-48 flex items-center justify-center bg-gray-700 rounded-lg">
+          <p className="text-gray-400 font-medium">データがありません</p>
+        </div>
+      ) : (
+        <div className="h-48 bg-gray-800 rounded-lg p-4">
+          <Line options={options} data={chartData} />
+        </div>
+      )}
+
+      {/* Daily Totals */}
+      {dailyTotals.length > 0 && (
+        <div className="mt-4 space-y-1">
+          <p className="text-sm text-gray-300">日別使用量</p>
+          {dailyTotals.map(day => (
+            <div key={day.timestamp.toISOString()} data-testid="daily-energy" className="flex items-center space-x-3">
+              <span className="w-12 text-xs text-gray-400">
+                {`${day.timestamp.getMonth() + 1}/${day.timestamp.getDate()}`}
+              </span>
+              <div className="flex-1 bg-gray-700 rounded-full h-2">
+                <div
+                  className="h-2 rounded-full bg-yellow-400"
+                  style={{ width: `${maxDailyKWh > 0 ? (day.kWh / maxDailyKWh) * 100 : 0}%` }}
+                />
+              </div>
+              <span className="w-20 text-right text-xs text-gray-300">{formatKWh(day.kWh)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PowerChart;
@@ -0,0 +1,223 @@
+/**
+ * Remote pad component for sending buttons learned by IR remotes
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Device } from '../types';
+
+interface RemotePadProps {
+  device: Device;
+  onControlSuccess?: (deviceId: string, action: string, result: any) => void;
+  onControlError?: (deviceId: string, action: string, error: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Extract the error message of a failed API response
+ */
+const getErrorMessage = (result: any, fallback: string): string =>
+  result?.error?.message || (typeof result?.error === 'string' ? result.error : null) || fallback;
+
+const RemotePad = ({
+  device,
+  onControlSuccess,
+  onControlError,
+  disabled = false
+}: RemotePadProps) => {
+  const [buttons, setButtons] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [newButton, setNewButton] = useState('');
+  const [sendingButton, setSendingButton] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchButtons = async () => {
+      try {
+        const response = await fetch(`/api/devices/${device.deviceId}/ir/buttons`);
+        const result = await response.json();
+
+        if (!cancelled) {
+          if (response.ok && result.success) {
+            setButtons(result.data.buttons);
+          } else {
+            setError(getErrorMessage(result, 'ボタンの取得に失敗しました'));
+          }
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'ボタンの取得に失敗しました');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchButtons();
+    return () => {
+      cancelled = true;
+    };
+  }, [device.deviceId]);
+
+  /**
+   * Send a learned button
+   */
+  const pressButton = useCallback(async (button: string) => {
+    if (sendingButton || disabled) {
+      return;
+    }
+
+    setSendingButton(button);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/devices/${device.deviceId}/ir/button`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ button })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        const errorMessage = getErrorMessage(result, 'Button command failed');
+        setError(errorMessage);
+        onControlError?.(device.deviceId, button, errorMessage);
+        return;
+      }
+
+      onControlSuccess?.(device.deviceId, button, result.data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      onControlError?.(device.deviceId, button, errorMessage);
+    } finally {
+      setSendingButton(null);
+    }
+  }, [device.deviceId, sendingButton, disabled, onControlSuccess, onControlError]);
+
+  /**
+   * Save the button catalog of the device
+   */
+  const saveButtons = useCallback(async (nextButtons: string[]) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/devices/${device.deviceId}/ir/buttons`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ buttons: nextButtons })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setError(getErrorMessage(result, 'ボタンの保存に失敗しました'));
+        return false;
+      }
+
+      setButtons(result.data.buttons);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ボタンの保存に失敗しました');
+      return false;
+    }
+  }, [device.deviceId]);
+
+  const handleAddButton = async () => {
+    const name = newButton.trim();
+    if (!name) {
+      return;
+    }
+
+    if (await saveButtons([...buttons, name])) {
+      setNewButton('');
+    }
+  };
+
+  const isDisabled = disabled || sendingButton !== null;
+
+  if (isLoading) {
+    return <div className="text-center text-gray-400 text-sm">読み込み中...</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-300">学習ボタン</span>
+        <button
+          onClick={() => setIsEditing(editing => !editing)}
+          className="text-xs text-blue-400 hover:text-blue-300"
+        >
+          {isEditing ? '完了' : '編集'}
+        </button>
+      </div>
+
+      {buttons.length === 0 && !isEditing ? (
+        <p className="text-xs text-gray-400">
+          ボタンが登録されていません。「編集」からSwitchBotアプリで学習したボタン名を登録してください
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {buttons.map(button => (
+            <div key={button} className="relative">
+              <button
+                onClick={() => pressButton(button)}
+                disabled={isDisabled || isEditing}
+                className={`w-full px-2 py-2 rounded text-xs font-medium transition-colors bg-gray-700 hover:bg-gray-600 text-white truncate ${
+                  isDisabled || isEditing ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                {sendingButton === button ? '送信中...' : button}
+              </button>
+              {isEditing && (
+                <button
+                  onClick={() => saveButtons(buttons.filter(existing => existing !== button))}
+                  aria-label={`${button}を削除`}
+                  className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-red-600 text-white text-xs leading-4"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newButton}
+            onChange={(e) => setNewButton(e.target.value)}
+            placeholder="ボタン名"
+            aria-label="ボタン名"
+            maxLength={50}
+            className="flex-1 bg-gray-700 text-white rounded px-2 py-1 text-sm"
+          />
+          <button
+            onClick={handleAddButton}
+            disabled={!newButton.trim()}
+            className={`px-3 py-1 rounded text-sm bg-blue-600 hover:bg-blue-700 text-white ${
+              !newButton.trim() ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            追加
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default RemotePad;
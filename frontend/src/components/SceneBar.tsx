@@ -0,0 +1,110 @@
+import React from 'react';
+import { Scene, SceneExecution, CloudScene, CloudSceneExecution } from '../types';
+
+interface SceneBarProps {
+  scenes: Scene[];
+  cloudScenes?: CloudScene[];
+  runningSceneIds: string[];
+  lastExecution?: SceneExecution | CloudSceneExecution | null;
+  error?: string | null;
+  onExecute: (sceneId: string) => void;
+  onRefresh?: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `約${seconds}秒` : `約${Math.ceil(seconds / 60)}分`;
+};
+
+const SceneBar: React.FC<SceneBarProps> = ({
+  scenes,
+  cloudScenes = [],
+  runningSceneIds,
+  lastExecution,
+  error,
+  onExecute,
+  onRefresh
+}) => {
+  if (scenes.length === 0 && cloudScenes.length === 0) {
+    return null;
+  }
+
+  const getExecutionSummary = (execution: SceneExecution | CloudSceneExecution): string => {
+    const name = execution.sceneName || execution.sceneId;
+    if (execution.success) {
+      return `${name}: 実行完了`;
+    }
+    return execution.source === 'local'
+      ? `${name}: ${execution.steps.filter(step => !step.success).length}件のコマンドが失敗`
+      : `${name}: 実行失敗`;
+  };
+
+  const buttonClass = (isRunning: boolean) =>
+    `flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+      isRunning
+        ? 'bg-blue-900/50 text-blue-300 cursor-wait'
+        : 'bg-gray-700 text-white hover:bg-gray-600'
+    }`;
+
+  return (
+    <div className="card p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">シーン</h3>
+        <div className="flex items-center space-x-3">
+          {lastExecution && (
+            <span className={`text-xs ${lastExecution.success ? 'text-green-400' : 'text-red-400'}`}>
+              {getExecutionSummary(lastExecution)}
+            </span>
+          )}
+          {onRefresh && (
+            <button
+              onClick={onRefresh}
+              className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              更新
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {scenes.map(scene => {
+          const isRunning = runningSceneIds.includes(scene.id);
+          return (
+            <button
+              key={scene.id}
+              onClick={() => onExecute(scene.id)}
+              disabled={isRunning}
+              title={`${scene.steps.length}コマンド • ${formatDuration(scene.estimatedDurationMs)}`}
+              className={buttonClass(isRunning)}
+            >
+              {scene.icon && <span>{scene.icon}</span>}
+              <span>{scene.name}</span>
+              {isRunning && <span className="text-xs">実行中...</span>}
+            </button>
+          );
+        })}
+        {cloudScenes.map(scene => {
+          const isRunning = runningSceneIds.includes(scene.sceneId);
+          return (
+            <button
+              key={scene.sceneId}
+              onClick={() => onExecute(scene.sceneId)}
+              disabled={isRunning}
+              title="SwitchBotアプリのシーン"
+              className={buttonClass(isRunning)}
+            >
+              <span>☁️</span>
+              <span>{scene.sceneName}</span>
+              {isRunning && <span className="text-xs">実行中...</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SceneBar;
@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import { Device, DeviceSchedule, DeviceScheduleInput, ScheduleAction } from '../types';
+
+interface ScheduleEditorProps {
+  devices: Device[];
+  schedules: DeviceSchedule[];
+  error?: string | null;
+  defaultDeviceId?: string | null;
+  onCreate: (input: DeviceScheduleInput) => Promise<boolean>;
+  onToggle: (scheduleId: string, enabled: boolean) => void;
+  onDelete: (scheduleId: string) => void;
+}
+
+type PowerCommand = 'turnOn' | 'turnOff';
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const formatWeekdays = (weekdays: number[]): string => {
+  if (weekdays.length === 7) return '毎日';
+  if (weekdays.length === WEEKDAYS.length && WEEKDAYS.every(day => weekdays.includes(day))) return '平日';
+  return weekdays.map(day => WEEKDAY_LABELS[day]).join('・');
+};
+
+const formatAction = (action: ScheduleAction): string => {
+  switch (action.command) {
+    case 'turnOn':
+      return '電源ON';
+    case 'turnOff':
+      return '電源OFF';
+    case 'setBrightness':
+      return `明るさ ${action.parameter}%`;
+    default:
+      return action.parameter !== undefined ? `${action.command} (${action.parameter})` : action.command;
+  }
+};
+
+const formatNextRun = (date: Date) => {
+  return new Date(date).toLocaleString('ja-JP', {
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({
+  devices,
+  schedules,
+  error,
+  defaultDeviceId,
+  onCreate,
+  onToggle,
+  onDelete
+}) => {
+  const [deviceId, setDeviceId] = useState<string>(defaultDeviceId || devices[0]?.deviceId || '');
+  const [name, setName] = useState('');
+  const [time, setTime] = useState('07:00');
+  const [weekdays, setWeekdays] = useState<number[]>(WEEKDAYS);
+  const [command, setCommand] = useState<PowerCommand>('turnOn');
+  const [brightness, setBrightness] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 選択中のデバイスを既定の対象にする
+  useEffect(() => {
+    if (defaultDeviceId && devices.some(device => device.deviceId === defaultDeviceId)) {
+      setDeviceId(defaultDeviceId);
+    }
+  }, [defaultDeviceId]);
+
+  useEffect(() => {
+    if (!deviceId && devices.length > 0) {
+      setDeviceId(devices[0].deviceId);
+    }
+  }, [deviceId, devices]);
+
+  const selectedDevice = devices.find(device => device.deviceId === deviceId);
+  const supportsBrightness = selectedDevice?.deviceType === 'Light' && command === 'turnOn';
+
+  const getDeviceName = (id: string) =>
+    devices.find(device => device.deviceId === id)?.deviceName || id;
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!deviceId) {
+      setFormError('デバイスを選択してください');
+      return;
+    }
+    if (weekdays.length === 0) {
+      setFormError('曜日を1つ以上選択してください');
+      return;
+    }
+
+    const actions: ScheduleAction[] = [{ command }];
+    if (supportsBrightness && brightness !== '') {
+      const value = Number(brightness);
+      if (!Number.isInteger(value) || value < 1 || value > 100) {
+        setFormError('明るさは1〜100で指定してください');
+        return;
+      }
+      actions.push({ command: 'setBrightness', parameter: value });
+    }
+
+    setFormError(null);
+    setIsSaving(true);
+    try {
+      const success = await onCreate({
+        name: name.trim() || `${getDeviceName(deviceId)} ${time} ${formatAction(actions[0])}`,
+        deviceId,
+        weekdays,
+        time,
+        actions
+      });
+      if (success) {
+        setName('');
+        setBrightness('');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-xl font-semibold text-white mb-4">スケジュール</h3>
+
+      <form onSubmit={handleSubmit} className="space-y-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="schedule-device" className="block text-sm font-medium text-gray-300 mb-2">
+              デバイス
+            </label>
+            <select
+              id="schedule-device"
+              value={deviceId}
+              onChange={(e) => setDeviceId(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {devices.map(device => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.deviceName}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="schedule-time" className="block text-sm font-medium text-gray-300 mb-2">
+              時刻
+            </label>
+            <input
+              id="schedule-time"
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              required
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="schedule-name" className="block text-sm font-medium text-gray-300 mb-2">
+              名前 (任意)
+            </label>
+            <input
+              id="schedule-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="例: 朝の照明"
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-300 mb-2">曜日</span>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                aria-pressed={weekdays.includes(day)}
+                className={`w-9 h-9 rounded-full text-sm font-medium transition-colors ${
+                  weekdays.includes(day)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="schedule-command" className="block text-sm font-medium text-gray-300 mb-2">
+              操作
+            </label>
+            <select
+              id="schedule-command"
+              value={command}
+              onChange={(e) => setCommand(e.target.value as PowerCommand)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="turnOn">電源ON</option>
+              <option value="turnOff">電源OFF</option>
+            </select>
+          </div>
+
+          {supportsBrightness && (
+            <div>
+              <label htmlFor="schedule-brightness" className="block text-sm font-medium text-gray-300 mb-2">
+                明るさ % (任意)
+              </label>
+              <input
+                id="schedule-brightness"
+                type="number"
+                min={1}
+                max={100}
+                value={brightness}
+                onChange={(e) => setBrightness(e.target.value)}
+                className="w-28 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving || devices.length === 0}
+            className="btn-primary"
+          >
+            {isSaving ? '保存中...' : 'スケジュールを追加'}
+          </button>
+        </div>
+
+        {(formError || error) && (
+          <p className="text-sm text-red-400">{formError || error}</p>
+        )}
+      </form>
+
+      {schedules.length > 0 ? (
+        <ul className="space-y-2">
+          {schedules.map(schedule => (
+            <li
+              key={schedule.id}
+              data-testid="schedule-item"
+              className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className={`text-sm font-medium ${schedule.enabled ? 'text-white' : 'text-gray-500'}`}>
+                  {schedule.name}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {getDeviceName(schedule.deviceId)} • {formatWeekdays(schedule.weekdays)} {schedule.time} •{' '}
+                  {schedule.actions.map(formatAction).join(' → ')}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {schedule.nextRunAt ? `次回: ${formatNextRun(schedule.nextRunAt)}` : '停止中'}
+                  {schedule.lastResult && !schedule.lastResult.success && (
+                    <span className="ml-2 text-red-400">前回失敗: {schedule.lastResult.error}</span>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3 flex-shrink-0 ml-4">
+                <label className="flex items-center space-x-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={schedule.enabled}
+                    onChange={(e) => onToggle(schedule.id, e.target.checked)}
+                    aria-label={`${schedule.name}を有効化`}
+                    className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-xs text-gray-300">有効</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => onDelete(schedule.id)}
+                  className="text-sm text-red-400 hover:text-red-300 transition-colors"
+                >
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-400 text-sm">スケジュールはありません</p>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleEditor;
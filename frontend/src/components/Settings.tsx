@@ -4,10 +4,13 @@
 
 import { useState, useCallback } from 'react';
 import { useSettings } from '../hooks/useSettings';
+import { useApiQuota } from '../hooks/useApiQuota';
+import ApiQuotaPanel from './ApiQuotaPanel';
 import { SettingsUpdateRequest } from '../types/settings';
 
 const Settings = () => {
   const { settings, isLoading, error, updateSettings, resetSettings } = useSettings();
+  const { usage: apiUsage, polling, error: apiUsageError } = useApiQuota();
   const [isUpdating, setIsUpdating] = useState(false);
   const [feedback, setFeedback] = useState<{
     type: 'success' | 'error';
@@ -89,6 +92,17 @@ const Settings = () => {
     });
   }, [handleUpdateSettings]);
 
+  /**
+   * Handle CO2 threshold change
+   */
+  const handleCO2ThresholdChange = useCallback((warning: number, critical: number) => {
+    handleUpdateSettings({
+      alertThresholds: {
+        co2: { warning, critical }
+      }
+    });
+  }, [handleUpdateSettings]);
+
   /**
    * Handle notification settings change
    */
@@ -224,6 +238,9 @@ const Settings = () => {
         </div>
       </div>
 
+      {/* SwitchBot API Usage */}
+      <ApiQuotaPanel usage={apiUsage} polling={polling} error={apiUsageError} />
+
       {/* Alert Thresholds */}
       <div className="card p-6">
         <h2 className="text-xl font-semibold text-white mb-4">アラート閾値</h2>
@@ -325,6 +342,56 @@ const Settings = () => {
               </div>
             </div>
           </div>
+
+          {/* CO2 Thresholds */}
+          <div>
+            <h3 className="text-lg font-medium text-white mb-3">CO2アラート</h3>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">注意</label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      min="400"
+                      max="10000"
+                      step="50"
+                      value={settings.alertThresholds.co2.warning}
+                      onChange={(e) => handleCO2ThresholdChange(
+                        parseInt(e.target.value),
+                        settings.alertThresholds.co2.critical
+                      )}
+                      disabled={isUpdating}
+                      className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                    />
+                    <span className="text-gray-400">ppm</span>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">警告</label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      min="400"
+                      max="10000"
+                      step="50"
+                      value={settings.alertThresholds.co2.critical}
+                      onChange={(e) => handleCO2ThresholdChange(
+                        settings.alertThresholds.co2.warning,
+                        parseInt(e.target.value)
+                      )}
+                      disabled={isUpdating}
+                      className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                    />
+                    <span className="text-gray-400">ppm</span>
+                  </div>
+                </div>
+              </div>
+              <div className="text-sm text-gray-500">
+                CO2濃度が {settings.alertThresholds.co2.warning}ppm を超えると注意、{settings.alertThresholds.co2.critical}ppm を超えると警告のアラートが発生します
+              </div>
+            </div>
+          </div>
         </div>
       </div>
 
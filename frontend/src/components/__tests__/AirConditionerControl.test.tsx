@@ -193,6 +193,47 @@ describe('AirConditionerControl', () => {
     );
   });
 
+  it('should handle fan speed selection', async () => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: { deviceId: 'aircon-001', command: 'setFanSpeed', fanSpeed: 'high' }
+      })
+    });
+
+    const onDevice = {
+      ...mockAirconDevice,
+      properties: { ...mockAirconDevice.properties, power: 'on' } as AirConditionerProperties
+    };
+
+    render(
+      <AirConditionerControl
+        device={onDevice}
+        onControlSuccess={mockOnControlSuccess}
+        onControlError={mockOnControlError}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '風量: 強' }));
+
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/devices/aircon-001/aircon/fan',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ fanSpeed: 'high' })
+        })
+      );
+    });
+
+    expect(mockOnControlSuccess).toHaveBeenCalledWith(
+      'aircon-001',
+      '風量変更 (強)',
+      expect.any(Object)
+    );
+  });
+
   it('should handle temperature adjustment with buttons', async () => {
     (global.fetch as any).mockResolvedValueOnce({
       ok: true,
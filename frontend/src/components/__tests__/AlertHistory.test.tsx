@@ -0,0 +1,53 @@
+/**
+ * Tests for AlertHistory component
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import AlertHistory from '../AlertHistory';
+import { Alert } from '../../types';
+
+const createAlert = (id: string, isActive: boolean): Alert => ({
+  id,
+  type: 'temperature',
+  severity: 'warning',
+  message: `温度が高すぎます (${id})`,
+  timestamp: new Date('2024-01-01T12:00:00Z'),
+  isActive,
+  value: 32,
+  threshold: 28,
+  condition: 'above'
+});
+
+describe('AlertHistory', () => {
+  it('should render an empty state', () => {
+    render(<AlertHistory history={[]} />);
+
+    expect(screen.getByText('アラート履歴はありません')).toBeInTheDocument();
+  });
+
+  it('should render recent history entries up to the limit', () => {
+    const history = ['a', 'b', 'c'].map(id => createAlert(id, id !== 'a'));
+    render(<AlertHistory history={history} maxItems={2} />);
+
+    expect(screen.getAllByTestId('alert-history-item')).toHaveLength(2);
+    expect(screen.getByText('温度が高すぎます (a)')).toBeInTheDocument();
+    expect(screen.getByText('解除済み')).toBeInTheDocument();
+  });
+
+  it('should link to the CSV and JSON exports', () => {
+    render(<AlertHistory history={[]} />);
+
+    expect(screen.getByRole('link', { name: '⬇ CSV' })).toHaveAttribute('href', '/api/alerts/history/export?format=csv');
+    expect(screen.getByRole('link', { name: '⬇ JSON' })).toHaveAttribute('href', '/api/alerts/history/export?format=json');
+  });
+
+  it('should refresh the history on demand', () => {
+    const onRefresh = vi.fn();
+    render(<AlertHistory history={[]} onRefresh={onRefresh} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '更新' }));
+
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+  });
+});
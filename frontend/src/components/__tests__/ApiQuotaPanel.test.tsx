@@ -0,0 +1,62 @@
+/**
+ * Tests for ApiQuotaPanel component
+ */
+
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import ApiQuotaPanel from '../ApiQuotaPanel';
+import { ApiQuotaUsage } from '../../types';
+
+describe('ApiQuotaPanel', () => {
+  const usage = (used: number): ApiQuotaUsage => ({
+    date: '2024-07-01',
+    used,
+    limit: 10000,
+    remaining: 10000 - used,
+    reserved: 500,
+    resetAt: new Date(2024, 6, 2)
+  });
+
+  it('should show the usage against the daily limit', () => {
+    render(<ApiQuotaPanel usage={usage(2500)} />);
+
+    expect(screen.getByTestId('api-quota-used')).toHaveTextContent('2,500 / 10,000');
+    expect(screen.getByText('残り 7,500 回')).toBeInTheDocument();
+    expect(screen.getByTestId('api-quota-bar')).toHaveStyle({ width: '25.0%' });
+    expect(screen.getByTestId('api-quota-bar')).toHaveClass('bg-blue-500');
+  });
+
+  it('should highlight the bar when the quota is nearly used up', () => {
+    render(<ApiQuotaPanel usage={usage(9600)} />);
+
+    expect(screen.getByTestId('api-quota-bar')).toHaveClass('bg-red-500');
+  });
+
+  it('should tell when polling is slowed down to stay within budget', () => {
+    render(
+      <ApiQuotaPanel
+        usage={usage(9000)}
+        polling={{ updateInterval: 30000, effectiveUpdateInterval: 300000, budgetLimited: true }}
+      />
+    );
+
+    expect(screen.getByTestId('api-quota-limited')).toHaveTextContent('5分');
+  });
+
+  it('should not show the notice while polling runs at the configured interval', () => {
+    render(
+      <ApiQuotaPanel
+        usage={usage(100)}
+        polling={{ updateInterval: 30000, effectiveUpdateInterval: 30000, budgetLimited: false }}
+      />
+    );
+
+    expect(screen.queryByTestId('api-quota-limited')).not.toBeInTheDocument();
+  });
+
+  it('should show an error when the usage cannot be loaded', () => {
+    render(<ApiQuotaPanel usage={null} error="Failed to fetch API usage" />);
+
+    expect(screen.getByText('⚠️ API使用量を取得できませんでした')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for BotControl component
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import BotControl from '../BotControl';
+import { Device } from '../../types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const createBot = (properties: Device['properties']): Device => ({
+  deviceId: 'bot-001',
+  deviceName: 'Coffee Maker',
+  deviceType: 'Bot',
+  status: 'online',
+  hubDeviceId: 'hub-001',
+  enableCloudService: true,
+  isInfraredRemote: false,
+  properties,
+  lastUpdated: '2024-01-01T12:00:00Z'
+});
+
+describe('BotControl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: {} })
+    });
+  });
+
+  it('should press a bot in press mode', async () => {
+    const onControlSuccess = vi.fn();
+    render(<BotControl device={createBot({ power: 'off', battery: 90, mode: 'press' })} onControlSuccess={onControlSuccess} />);
+
+    fireEvent.click(screen.getByText('プレス'));
+
+    await waitFor(() => {
+      expect(onControlSuccess).toHaveBeenCalledWith('bot-001', 'press', {});
+    });
+    expect(fetch).toHaveBeenCalledWith('/api/devices/bot-001/bot/press', { method: 'POST' });
+    expect(screen.getByText('プレスモード')).toBeInTheDocument();
+  });
+
+  it('should show on/off buttons in switch mode', async () => {
+    render(<BotControl device={createBot({ power: 'on', battery: 90, mode: 'switch' })} />);
+
+    expect(screen.queryByText('プレス')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('OFF'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/devices/bot-001/bot/off', { method: 'POST' });
+    });
+  });
+
+  it('should indicate a low battery', () => {
+    render(<BotControl device={createBot({ power: 'off', battery: 15, mode: 'press' })} />);
+
+    expect(screen.getByTestId('bot-battery')).toHaveTextContent('🪫 15%');
+    expect(screen.getByText('バッテリー残量が少なくなっています。電池を交換してください')).toBeInTheDocument();
+  });
+
+  it('should not indicate a low battery above the threshold', () => {
+    render(<BotControl device={createBot({ power: 'off', battery: 60 })} />);
+
+    expect(screen.getByTestId('bot-battery')).toHaveTextContent('60%');
+    expect(screen.queryByText(/バッテリー残量が少なく/)).not.toBeInTheDocument();
+  });
+});
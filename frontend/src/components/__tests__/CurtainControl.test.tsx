@@ -0,0 +1,98 @@
+/**
+ * Tests for CurtainControl component
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import CurtainControl from '../CurtainControl';
+import { Device } from '../../types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const mockCurtainDevice: Device = {
+  deviceId: 'curtain-001',
+  deviceName: 'Bedroom Curtain',
+  deviceType: 'Curtain',
+  status: 'online',
+  hubDeviceId: 'hub-001',
+  enableCloudService: true,
+  isInfraredRemote: false,
+  properties: {
+    position: 100,
+    moving: false,
+    battery: 72
+  },
+  lastUpdated: '2024-01-01T12:00:00Z'
+};
+
+const mockResponse = (ok: boolean, body: any) => {
+  (fetch as any).mockResolvedValueOnce({
+    ok,
+    json: async () => body
+  });
+};
+
+describe('CurtainControl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render position and battery', () => {
+    render(<CurtainControl device={mockCurtainDevice} />);
+
+    expect(screen.getByText('全閉')).toBeInTheDocument();
+    expect(screen.getByText('72%')).toBeInTheDocument();
+  });
+
+  it('should open the curtain', async () => {
+    const onControlSuccess = vi.fn();
+    mockResponse(true, { success: true, data: { action: 'open' } });
+    render(<CurtainControl device={mockCurtainDevice} onControlSuccess={onControlSuccess} />);
+
+    fireEvent.click(screen.getByText('開ける'));
+
+    await waitFor(() => {
+      expect(onControlSuccess).toHaveBeenCalledWith('curtain-001', 'open', { action: 'open' });
+    });
+    expect(fetch).toHaveBeenCalledWith('/api/devices/curtain-001/curtain/open', expect.objectContaining({
+      method: 'POST'
+    }));
+  });
+
+  it('should move the curtain to the slider position', async () => {
+    mockResponse(true, { success: true, data: { position: 40 } });
+    render(<CurtainControl device={mockCurtainDevice} />);
+
+    fireEvent.change(screen.getByLabelText('カーテン位置'), { target: { value: '40' } });
+    fireEvent.click(screen.getByText('移動'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/devices/curtain-001/curtain/position', expect.objectContaining({
+        body: JSON.stringify({ position: 40 })
+      }));
+    });
+  });
+
+  it('should show the error message of a failed command', async () => {
+    const onControlError = vi.fn();
+    mockResponse(false, { success: false, error: { code: 'CONTROL_ERROR', message: 'Device offline' } });
+    render(<CurtainControl device={mockCurtainDevice} onControlError={onControlError} />);
+
+    fireEvent.click(screen.getByText('閉める'));
+
+    expect(await screen.findByText('Device offline')).toBeInTheDocument();
+    expect(onControlError).toHaveBeenCalledWith('curtain-001', 'close', 'Device offline');
+  });
+
+  it('should show when the curtain is moving', () => {
+    render(
+      <CurtainControl
+        device={{ ...mockCurtainDevice, properties: { position: 30, moving: true } }}
+      />
+    );
+
+    expect(screen.getByText('30% 閉')).toBeInTheDocument();
+    expect(screen.getByText('移動中...')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for DeviceCard component
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect } from 'vitest';
+import DeviceCard from '../DeviceCard';
+import { Device, DeviceCommand, QueuedCommand } from '../../types';
+
+describe('DeviceCard', () => {
+  const plug: Device = {
+    deviceId: 'plug-001',
+    deviceName: 'Desk Plug',
+    deviceType: 'Plug',
+    status: 'online',
+    properties: { power: 'off' },
+    lastUpdated: '2024-01-01T12:00:00Z'
+  };
+
+  const command = (status: DeviceCommand['status'], extra: Partial<DeviceCommand> = {}): DeviceCommand => ({
+    id: 'cmd-1',
+    deviceId: 'plug-001',
+    command: 'turnOn',
+    status,
+    createdAt: '2024-01-01T12:00:00Z',
+    updatedAt: '2024-01-01T12:00:00Z',
+    ...extra
+  });
+
+  it('should not show a command badge without a command', () => {
+    render(<DeviceCard device={plug} />);
+
+    expect(screen.queryByTestId('command-status')).not.toBeInTheDocument();
+  });
+
+  it('should show pending commands', () => {
+    render(<DeviceCard device={plug} commandStatus={command('sending')} />);
+
+    expect(screen.getByTestId('command-status')).toHaveTextContent('送信中');
+  });
+
+  it('should show confirmed commands', () => {
+    render(<DeviceCard device={plug} commandStatus={command('succeeded', { statusCode: 100 })} />);
+
+    expect(screen.getByTestId('command-status')).toHaveTextContent('完了');
+  });
+
+  it('should show the error of failed commands', () => {
+    render(
+      <DeviceCard
+        device={plug}
+        commandStatus={command('failed', { statusCode: 161, error: { code: 'CONTROL_ERROR', message: 'Device offline' } })}
+      />
+    );
+
+    expect(screen.getByTestId('command-status')).toHaveTextContent('失敗');
+    expect(screen.getByTestId('command-status')).toHaveAttribute('title', 'Device offline');
+  });
+
+  it('should pass commands queued by device controls up instead of refreshing right away', async () => {
+    const queued: QueuedCommand = {
+      commandId: 'cmd-2',
+      status: 'queued',
+      deviceId: 'bot-001',
+      command: 'press',
+      timestamp: '2024-01-01T12:00:00Z'
+    };
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 202,
+      json: async () => ({ success: true, data: queued })
+    });
+    const onCommandQueued = vi.fn();
+    const onStatusUpdate = vi.fn();
+    const bot: Device = {
+      ...plug,
+      deviceId: 'bot-001',
+      deviceName: 'Coffee Maker',
+      deviceType: 'Bot',
+      properties: { power: 'off', battery: 90, mode: 'press' }
+    };
+
+    render(
+      <DeviceCard device={bot} onControl={vi.fn()} onCommandQueued={onCommandQueued} onStatusUpdate={onStatusUpdate} />
+    );
+    fireEvent.click(screen.getByText('プレス'));
+
+    await waitFor(() => {
+      expect(onCommandQueued).toHaveBeenCalledWith(queued);
+    });
+    expect(onStatusUpdate).not.toHaveBeenCalled();
+  });
+});
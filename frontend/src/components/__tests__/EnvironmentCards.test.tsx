@@ -91,4 +91,44 @@ describe('EnvironmentCards', () => {
     const placeholders = screen.getAllByText('--');
     expect(placeholders).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  it('does not render per-sensor cards for a single sensor', () => {
+    render(
+      <EnvironmentCards
+        environmentData={mockEnvironmentData}
+        sensorsData={[{ ...mockEnvironmentData, deviceId: 'hub-1', deviceName: 'リビング' }]}
+      />
+    );
+
+    expect(screen.queryByText('センサー別')).not.toBeInTheDocument();
+  });
+
+  it('renders a card for each sensor when multiple sensors are available', () => {
+    const sensorsData: EnvironmentData[] = [
+      { ...mockEnvironmentData, deviceId: 'hub-1', deviceName: 'リビング', hasLightSensor: true },
+      { temperature: 19.2, humidity: 48, light: 0, timestamp: mockEnvironmentData.timestamp, deviceId: 'meter-1', deviceName: '寝室', hasLightSensor: false }
+    ];
+
+    render(<EnvironmentCards environmentData={mockEnvironmentData} sensorsData={sensorsData} />);
+
+    expect(screen.getByText('センサー別')).toBeInTheDocument();
+    expect(screen.getAllByTestId('sensor-card')).toHaveLength(2);
+    expect(screen.getByText('リビング')).toBeInTheDocument();
+    expect(screen.getByText('寝室')).toBeInTheDocument();
+    expect(screen.getByText('19.2')).toBeInTheDocument();
+  });
+
+  it('shows CO2 and battery of a single CO2 sensor', () => {
+    render(
+      <EnvironmentCards
+        environmentData={mockEnvironmentData}
+        sensorsData={[{ ...mockEnvironmentData, deviceId: 'co2-1', deviceName: '書斎', hasLightSensor: false, co2: 1240, battery: 64 }]}
+      />
+    );
+
+    expect(screen.getByText('センサー別')).toBeInTheDocument();
+    expect(screen.getByTestId('sensor-co2')).toHaveTextContent('CO2 1240 ppm');
+    expect(screen.getByTestId('sensor-co2')).toHaveClass('text-yellow-400');
+    expect(screen.getByText('🔋 64%')).toBeInTheDocument();
+  });
+});
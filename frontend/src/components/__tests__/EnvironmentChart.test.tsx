@@ -153,6 +153,88 @@ describe('EnvironmentChart', () => {
 
       expect(onPeriodChange).toHaveBeenCalledWith('6h');
     });
+
+    it('should offer long periods backed by rollups', () => {
+      const onPeriodChange = vi.fn();
+      render(<EnvironmentChart {...defaultProps} onPeriodChange={onPeriodChange} />);
+
+      expect(screen.getByRole('button', { name: '24時間' })).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: '7日' }));
+      fireEvent.click(screen.getByRole('button', { name: '30日' }));
+
+      expect(onPeriodChange).toHaveBeenCalledWith('7d');
+      expect(onPeriodChange).toHaveBeenCalledWith('30d');
+    });
+  });
+
+  describe('custom range', () => {
+    it('should not offer a custom range without a handler', () => {
+      render(<EnvironmentChart {...defaultProps} />);
+
+      expect(screen.queryByRole('button', { name: '期間指定' })).not.toBeInTheDocument();
+    });
+
+    it('should apply a custom range from the picker', () => {
+      const onRangeChange = vi.fn();
+      render(<EnvironmentChart {...defaultProps} onRangeChange={onRangeChange} />);
+
+      fireEvent.click(screen.getByRole('button', { name: '期間指定' }));
+      fireEvent.change(screen.getByLabelText('開始'), { target: { value: '2024-01-02T22:00' } });
+      fireEvent.change(screen.getByLabelText('終了'), { target: { value: '2024-01-03T06:00' } });
+      fireEvent.change(screen.getByLabelText('集計間隔'), { target: { value: '15' } });
+      fireEvent.click(screen.getByRole('button', { name: '適用' }));
+
+      expect(onRangeChange).toHaveBeenCalledWith({
+        from: new Date('2024-01-02T22:00'),
+        to: new Date('2024-01-03T06:00'),
+        bucketMinutes: 15
+      });
+    });
+
+    it('should reject a range that ends before it starts', () => {
+      const onRangeChange = vi.fn();
+      render(<EnvironmentChart {...defaultProps} onRangeChange={onRangeChange} />);
+
+      fireEvent.click(screen.getByRole('button', { name: '期間指定' }));
+      fireEvent.change(screen.getByLabelText('開始'), { target: { value: '2024-01-03T06:00' } });
+      fireEvent.change(screen.getByLabelText('終了'), { target: { value: '2024-01-02T22:00' } });
+      fireEvent.click(screen.getByRole('button', { name: '適用' }));
+
+      expect(onRangeChange).not.toHaveBeenCalled();
+      expect(screen.getByText('開始日時は終了日時より前にしてください')).toBeInTheDocument();
+    });
+
+    it('should show the active range and allow clearing it', () => {
+      const onRangeChange = vi.fn();
+      const customRange = {
+        from: new Date('2024-01-02T22:00'),
+        to: new Date('2024-01-03T06:00')
+      };
+      render(<EnvironmentChart {...defaultProps} customRange={customRange} onRangeChange={onRangeChange} />);
+
+      expect(screen.getByText('01/02 22:00 〜 01/03 06:00')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: '期間指定' }));
+      fireEvent.click(screen.getByRole('button', { name: '解除' }));
+
+      expect(onRangeChange).toHaveBeenCalledWith(null);
+    });
+  });
+
+  describe('export', () => {
+    it('should offer CSV and JSON downloads when an export URL is provided', () => {
+      const getExportUrl = vi.fn((format: string) => `/api/environment/history/export?format=${format}`);
+      render(<EnvironmentChart {...defaultProps} getExportUrl={getExportUrl} />);
+
+      expect(screen.getByRole('link', { name: '⬇ CSV' })).toHaveAttribute('href', '/api/environment/history/export?format=csv');
+      expect(screen.getByRole('link', { name: '⬇ JSON' })).toHaveAttribute('href', '/api/environment/history/export?format=json');
+    });
+
+    it('should not render download links without an export URL', () => {
+      render(<EnvironmentChart {...defaultProps} />);
+
+      expect(screen.queryByRole('link', { name: '⬇ CSV' })).not.toBeInTheDocument();
+    });
   });
 
   describe('data summary', () => {
@@ -0,0 +1,91 @@
+/**
+ * Tests for IRRemoteControl component
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import IRRemoteControl from '../IRRemoteControl';
+import { Device } from '../../types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const createRemote = (deviceType: Device['deviceType'], properties: Device['properties']): Device => ({
+  deviceId: 'ir-001',
+  deviceName: 'Living Room',
+  deviceType,
+  status: 'online',
+  hubDeviceId: 'hub-001',
+  enableCloudService: true,
+  isInfraredRemote: true,
+  remoteType: deviceType,
+  properties,
+  lastUpdated: '2024-01-01T12:00:00Z'
+});
+
+describe('IRRemoteControl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: {} })
+    });
+  });
+
+  it('should send TV buttons and channels', async () => {
+    const onControlSuccess = vi.fn();
+    render(<IRRemoteControl device={createRemote('TV', { power: 'on', channel: 4 })} onControlSuccess={onControlSuccess} />);
+
+    expect(screen.getByText('CH 4')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('音量 ＋'));
+
+    await waitFor(() => {
+      expect(onControlSuccess).toHaveBeenCalledWith('ir-001', 'volume-up', {});
+    });
+    expect(fetch).toHaveBeenCalledWith('/api/devices/ir-001/tv/volume-up', expect.objectContaining({ method: 'POST' }));
+
+    fireEvent.change(screen.getByLabelText('チャンネル'), { target: { value: '12' } });
+    fireEvent.click(screen.getByText('切替'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenLastCalledWith('/api/devices/ir-001/tv/channel', expect.objectContaining({
+        body: JSON.stringify({ channel: 12 })
+      }));
+    });
+  });
+
+  it('should show and set the fan speed', async () => {
+    render(<IRRemoteControl device={createRemote('Fan', { power: 'on', speed: 'middle' })} />);
+
+    expect(screen.getAllByText('中')).toHaveLength(2);
+    fireEvent.click(screen.getByText('強'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/devices/ir-001/fan/high', expect.objectContaining({ method: 'POST' }));
+    });
+  });
+
+  it('should send speaker transport buttons', async () => {
+    render(<IRRemoteControl device={createRemote('Speaker', { power: 'on' })} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '再生' }));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/devices/ir-001/speaker/play', expect.objectContaining({ method: 'POST' }));
+    });
+  });
+
+  it('should only show power buttons for projectors and report errors', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: false,
+      json: async () => ({ success: false, error: { message: 'Hub offline' } })
+    });
+
+    render(<IRRemoteControl device={createRemote('Projector', { power: 'off' })} />);
+
+    expect(screen.getAllByRole('button')).toHaveLength(2);
+    fireEvent.click(screen.getByText('ON'));
+
+    expect(await screen.findByText('Hub offline')).toBeInTheDocument();
+  });
+});
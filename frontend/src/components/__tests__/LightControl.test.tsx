@@ -264,7 +264,48 @@ describe('LightControl', () => {
     fireEvent.click(onButton);
 
     await waitFor(() => {
-      expect(screen.getByText('電源ONが完了しました')).toBeInTheDocument();
+      expect(screen.getByText('電源ONを受け付けました')).toBeInTheDocument();
+    });
+  });
+
+  it('should not show color controls for lights without color support', () => {
+    render(<LightControl device={mockLightDevice} />);
+
+    expect(screen.queryByLabelText('色')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('色温度')).not.toBeInTheDocument();
+  });
+
+  it('should send the selected color and color temperature', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: {} })
+    });
+    const colorBulb = {
+      ...mockLightDevice,
+      properties: { power: 'on', brightness: 100, color: { red: 255, green: 255, blue: 255 }, colorTemperature: 4000 }
+    };
+
+    render(<LightControl device={colorBulb} />);
+
+    expect(screen.getByLabelText('色')).toHaveValue('#ffffff');
+    expect(screen.getByText('4000K')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('色'), { target: { value: '#ff8000' } });
+    fireEvent.click(screen.getByText('色を適用'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/devices/light-001/light/color', expect.objectContaining({
+        body: JSON.stringify({ red: 255, green: 128, blue: 0 })
+      }));
+    });
+
+    fireEvent.change(screen.getByLabelText('色温度'), { target: { value: '5000' } });
+    fireEvent.click(screen.getByText('適用'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenLastCalledWith('/api/devices/light-001/light/color-temperature', expect.objectContaining({
+        body: JSON.stringify({ colorTemperature: 5000 })
+      }));
     });
   });
 
@@ -0,0 +1,93 @@
+/**
+ * Tests for LockControl component
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import LockControl from '../LockControl';
+import { Device, LockProperties } from '../../types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const createLock = (properties: LockProperties): Device => ({
+  deviceId: 'lock-001',
+  deviceName: '玄関',
+  deviceType: 'Lock',
+  status: 'online',
+  hubDeviceId: 'hub-001',
+  enableCloudService: true,
+  isInfraredRemote: false,
+  properties,
+  lastUpdated: '2024-01-01T12:00:00Z'
+});
+
+const jsonResponse = (ok: boolean, body: object) => ({
+  ok,
+  json: async () => body
+});
+
+describe('LockControl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the lock state and warn when the door is open', () => {
+    render(<LockControl device={createLock({ lockState: 'unlocked', doorState: 'opened', battery: 90 })} />);
+
+    expect(screen.getByTestId('lock-state')).toHaveTextContent('解錠中');
+    expect(screen.getByText('ドアが開いています', { exact: false })).toBeInTheDocument();
+    expect(screen.getByText('90%')).toBeInTheDocument();
+  });
+
+  it('should ask for confirmation and send the action with a confirmation token', async () => {
+    (fetch as any)
+      .mockResolvedValueOnce(jsonResponse(true, { success: true, data: { confirmationToken: 'token-1' } }))
+      .mockResolvedValueOnce(jsonResponse(true, { success: true, data: { command: 'unlock' } }));
+    const onControlSuccess = vi.fn();
+
+    render(<LockControl device={createLock({ lockState: 'locked', doorState: 'closed' })} onControlSuccess={onControlSuccess} />);
+
+    fireEvent.click(screen.getByText('解錠'));
+    expect(fetch).not.toHaveBeenCalled();
+    expect(screen.getByText('玄関を解錠しますか？')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('解錠する'));
+
+    await waitFor(() => {
+      expect(onControlSuccess).toHaveBeenCalledWith('lock-001', 'unlock', { command: 'unlock' });
+    });
+    expect(fetch).toHaveBeenNthCalledWith(1, '/api/devices/lock-001/lock/confirmation', expect.objectContaining({
+      body: JSON.stringify({ action: 'unlock' })
+    }));
+    expect(fetch).toHaveBeenNthCalledWith(2, '/api/devices/lock-001/unlock', expect.objectContaining({
+      body: JSON.stringify({ confirmationToken: 'token-1' })
+    }));
+  });
+
+  it('should not send anything when the confirmation is cancelled', () => {
+    render(<LockControl device={createLock({ lockState: 'unlocked' })} />);
+
+    fireEvent.click(screen.getByText('施錠'));
+    fireEvent.click(screen.getByText('キャンセル'));
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(screen.queryByText('玄関を施錠しますか？')).not.toBeInTheDocument();
+  });
+
+  it('should show errors returned by the backend', async () => {
+    (fetch as any).mockResolvedValueOnce(
+      jsonResponse(false, { success: false, error: { message: 'Lock is offline' } })
+    );
+    const onControlError = vi.fn();
+
+    render(<LockControl device={createLock({ lockState: 'unlocked' })} onControlError={onControlError} />);
+
+    fireEvent.click(screen.getByText('施錠'));
+    fireEvent.click(screen.getByText('施錠する'));
+
+    expect(await screen.findByText('Lock is offline')).toBeInTheDocument();
+    expect(onControlError).toHaveBeenCalledWith('lock-001', 'lock', 'Lock is offline');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for PowerChart component
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import PowerChart from '../PowerChart';
+import { PlugEnergySummary, PowerReading, DailyEnergy } from '../../types';
+
+// Mock Chart.js
+vi.mock('react-chartjs-2', () => ({
+  Line: vi.fn(({ data }) => (
+    <div data-testid="chart-mock">{JSON.stringify(data)}</div>
+  ))
+}));
+
+// Mock Chart.js registration
+vi.mock('chart.js', () => ({
+  Chart: {
+    register: vi.fn()
+  },
+  CategoryScale: {},
+  LinearScale: {},
+  PointElement: {},
+  LineElement: {},
+  Title: {},
+  Tooltip: {},
+  Legend: {},
+  TimeScale: {}
+}));
+
+describe('PowerChart', () => {
+  const plugs: PlugEnergySummary[] = [
+    {
+      deviceId: 'plug-1',
+      latest: { timestamp: new Date('2024-07-01T10:00:00Z'), deviceId: 'plug-1', watts: 42.5 },
+      todayKWh: 0.84,
+      monthKWh: 12.3
+    },
+    { deviceId: 'plug-2', latest: null, todayKWh: 0, monthKWh: 0 }
+  ];
+
+  const readings: PowerReading[] = [
+    { timestamp: new Date('2024-07-01T09:55:00Z'), deviceId: 'plug-1', watts: 40 },
+    { timestamp: new Date('2024-07-01T10:00:00Z'), deviceId: 'plug-1', watts: 42.5 }
+  ];
+
+  const dailyTotals: DailyEnergy[] = [
+    { timestamp: new Date(2024, 5, 30), deviceId: 'plug-1', kWh: 1.2, sampleCount: 288 },
+    { timestamp: new Date(2024, 6, 1), deviceId: 'plug-1', kWh: 0.84, sampleCount: 120 }
+  ];
+
+  const renderChart = (overrides: Partial<React.ComponentProps<typeof PowerChart>> = {}) => render(
+    <PowerChart
+      plugs={plugs}
+      deviceNames={{ 'plug-1': 'テレビ', 'plug-2': '冷蔵庫' }}
+      selectedPlugId="plug-1"
+      onSelectPlug={vi.fn()}
+      period="24h"
+      onPeriodChange={vi.fn()}
+      readings={readings}
+      dailyTotals={dailyTotals}
+      {...overrides}
+    />
+  );
+
+  it('should render nothing without plugs', () => {
+    const { container } = renderChart({ plugs: [] });
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show the current power and energy totals of the selected plug', () => {
+    renderChart();
+
+    expect(screen.getByText('42.5 W')).toBeInTheDocument();
+    expect(screen.getAllByText('0.84 kWh').length).toBeGreaterThan(0);
+    expect(screen.getByText('12.3 kWh')).toBeInTheDocument();
+    expect(screen.getAllByTestId('daily-energy')).toHaveLength(2);
+    expect(screen.getByTestId('chart-mock')).toHaveTextContent('42.5');
+  });
+
+  it('should select plugs and periods', () => {
+    const onSelectPlug = vi.fn();
+    const onPeriodChange = vi.fn();
+    renderChart({ onSelectPlug, onPeriodChange });
+
+    fireEvent.change(screen.getByLabelText('プラグ'), { target: { value: 'plug-2' } });
+    fireEvent.click(screen.getByText('7日'));
+
+    expect(onSelectPlug).toHaveBeenCalledWith('plug-2');
+    expect(onPeriodChange).toHaveBeenCalledWith('7d');
+  });
+
+  it('should show a placeholder without readings', () => {
+    renderChart({ readings: [], dailyTotals: [] });
+
+    expect(screen.getByText('データがありません')).toBeInTheDocument();
+  });
+});
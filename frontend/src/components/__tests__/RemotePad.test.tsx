@@ -0,0 +1,87 @@
+/**
+ * Tests for RemotePad component
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import RemotePad from '../RemotePad';
+import { Device } from '../../types';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const remoteDevice: Device = {
+  deviceId: 'ir-001',
+  deviceName: 'DIYプロジェクター',
+  deviceType: 'Unknown',
+  status: 'online',
+  hubDeviceId: 'hub-001',
+  enableCloudService: true,
+  isInfraredRemote: true,
+  remoteType: 'DIY Projector',
+  properties: {},
+  lastUpdated: '2024-01-01T12:00:00Z'
+};
+
+const jsonResponse = (data: any, ok = true) => ({
+  ok,
+  json: async () => data
+});
+
+describe('RemotePad', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send a learned button', async () => {
+    const onControlSuccess = vi.fn();
+    (fetch as any)
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: { buttons: ['Input', 'Zoom'] } }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: { command: 'Zoom' } }));
+
+    render(<RemotePad device={remoteDevice} onControlSuccess={onControlSuccess} />);
+
+    fireEvent.click(await screen.findByText('Zoom'));
+
+    await waitFor(() => {
+      expect(onControlSuccess).toHaveBeenCalledWith('ir-001', 'Zoom', { command: 'Zoom' });
+    });
+    expect(fetch).toHaveBeenLastCalledWith('/api/devices/ir-001/ir/button', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ button: 'Zoom' })
+    }));
+  });
+
+  it('should register a new button name', async () => {
+    (fetch as any)
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: { buttons: [] } }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: { buttons: ['Input'] } }));
+
+    render(<RemotePad device={remoteDevice} />);
+
+    expect(await screen.findByText(/ボタンが登録されていません/)).toBeInTheDocument();
+    fireEvent.click(screen.getByText('編集'));
+    fireEvent.change(screen.getByLabelText('ボタン名'), { target: { value: 'Input' } });
+    fireEvent.click(screen.getByText('追加'));
+
+    expect(await screen.findByText('Input')).toBeInTheDocument();
+    expect(fetch).toHaveBeenLastCalledWith('/api/devices/ir-001/ir/buttons', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ buttons: ['Input'] })
+    }));
+  });
+
+  it('should show the error of a failed button', async () => {
+    const onControlError = vi.fn();
+    (fetch as any)
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: { buttons: ['Input'] } }))
+      .mockResolvedValueOnce(jsonResponse({ success: false, error: { message: 'Hub offline' } }, false));
+
+    render(<RemotePad device={remoteDevice} onControlError={onControlError} />);
+
+    fireEvent.click(await screen.findByText('Input'));
+
+    expect(await screen.findByText('Hub offline')).toBeInTheDocument();
+    expect(onControlError).toHaveBeenCalledWith('ir-001', 'Input', 'Hub offline');
+  });
+});
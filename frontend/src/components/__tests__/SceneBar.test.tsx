@@ -0,0 +1,102 @@
+/**
+ * Tests for SceneBar component
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import SceneBar from '../SceneBar';
+import { Scene } from '../../types';
+
+const createScene = (id: string, name: string): Scene => ({
+  id,
+  name,
+  icon: '🌙',
+  steps: [
+    { deviceId: 'light-1', command: 'setBrightness', parameter: 40 },
+    { deviceId: 'ac-1', command: 'setAll', parameter: '26,2,1,on' }
+  ],
+  createdAt: new Date('2024-07-01T00:00:00Z'),
+  updatedAt: new Date('2024-07-01T00:00:00Z'),
+  lastExecutedAt: null,
+  estimatedDurationMs: 10000,
+  isRunning: false
+});
+
+describe('SceneBar', () => {
+  it('should render nothing without scenes', () => {
+    const { container } = render(<SceneBar scenes={[]} runningSceneIds={[]} onExecute={vi.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should execute a scene when its button is clicked', () => {
+    const onExecute = vi.fn();
+    render(
+      <SceneBar
+        scenes={[createScene('scene-1', 'おやすみ'), createScene('scene-2', '映画')]}
+        runningSceneIds={[]}
+        onExecute={onExecute}
+      />
+    );
+
+    fireEvent.click(screen.getByText('映画'));
+
+    expect(onExecute).toHaveBeenCalledWith('scene-2');
+  });
+
+  it('should disable running scenes', () => {
+    render(
+      <SceneBar
+        scenes={[createScene('scene-1', 'おやすみ')]}
+        runningSceneIds={['scene-1']}
+        onExecute={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('実行中...')).toBeInTheDocument();
+    expect(screen.getByRole('button')).toBeDisabled();
+  });
+
+  it('should report failed steps of the last execution', () => {
+    render(
+      <SceneBar
+        scenes={[createScene('scene-1', 'おやすみ')]}
+        runningSceneIds={[]}
+        lastExecution={{
+          id: 'scene-exec-1',
+          source: 'local',
+          sceneId: 'scene-1',
+          sceneName: 'おやすみ',
+          startedAt: new Date(),
+          finishedAt: new Date(),
+          success: false,
+          steps: [
+            { deviceId: 'light-1', command: 'turnOff', success: true },
+            { deviceId: 'ac-1', command: 'turnOff', success: false, error: 'Device offline' }
+          ]
+        }}
+        onExecute={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('おやすみ: 1件のコマンドが失敗')).toBeInTheDocument();
+  });
+
+  it('should list and execute SwitchBot app scenes', () => {
+    const onExecute = vi.fn();
+    render(
+      <SceneBar
+        scenes={[]}
+        cloudScenes={[{ sceneId: 'T02-1', sceneName: 'オフィス消灯', isRunning: false }]}
+        runningSceneIds={[]}
+        lastExecution={{ source: 'cloud', sceneId: 'T02-1', sceneName: 'オフィス消灯', executedAt: new Date(), success: true }}
+        onExecute={onExecute}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle('SwitchBotアプリのシーン'));
+
+    expect(onExecute).toHaveBeenCalledWith('T02-1');
+    expect(screen.getByText('オフィス消灯: 実行完了')).toBeInTheDocument();
+  });
+});
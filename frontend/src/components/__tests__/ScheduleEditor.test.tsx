@@ -0,0 +1,98 @@
+/**
+ * Tests for ScheduleEditor component
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ScheduleEditor from '../ScheduleEditor';
+import { Device, DeviceSchedule } from '../../types';
+
+const devices: Device[] = [
+  { deviceId: 'light-1', deviceName: 'リビング照明', deviceType: 'Light', status: 'online', lastUpdated: '2024-07-01T00:00:00Z' },
+  { deviceId: 'plug-1', deviceName: '扇風機プラグ', deviceType: 'Plug', status: 'online', lastUpdated: '2024-07-01T00:00:00Z' }
+];
+
+const createSchedule = (overrides: Partial<DeviceSchedule> = {}): DeviceSchedule => ({
+  id: 'schedule-1',
+  name: '朝の照明',
+  enabled: true,
+  deviceId: 'light-1',
+  weekdays: [1, 2, 3, 4, 5],
+  time: '07:00',
+  actions: [{ command: 'turnOn' }, { command: 'setBrightness', parameter: 60 }],
+  createdAt: new Date('2024-07-01T00:00:00Z'),
+  updatedAt: new Date('2024-07-01T00:00:00Z'),
+  lastRunAt: null,
+  lastResult: null,
+  nextRunAt: new Date('2024-07-02T07:00:00'),
+  ...overrides
+});
+
+const renderEditor = (props: Partial<React.ComponentProps<typeof ScheduleEditor>> = {}) => {
+  const handlers = {
+    onCreate: vi.fn().mockResolvedValue(true),
+    onToggle: vi.fn(),
+    onDelete: vi.fn()
+  };
+  render(<ScheduleEditor devices={devices} schedules={[]} {...handlers} {...props} />);
+  return handlers;
+};
+
+describe('ScheduleEditor', () => {
+  it('should render an empty state', () => {
+    renderEditor();
+
+    expect(screen.getByText('スケジュールはありません')).toBeInTheDocument();
+  });
+
+  it('should list schedules with weekdays, actions and next run', () => {
+    renderEditor({ schedules: [createSchedule()] });
+
+    expect(screen.getAllByTestId('schedule-item')).toHaveLength(1);
+    expect(screen.getByText('朝の照明')).toBeInTheDocument();
+    expect(screen.getByText(/平日 07:00/)).toBeInTheDocument();
+    expect(screen.getByText(/電源ON → 明るさ 60%/)).toBeInTheDocument();
+    expect(screen.getByText(/次回:/)).toBeInTheDocument();
+  });
+
+  it('should show disabled schedules as stopped', () => {
+    renderEditor({ schedules: [createSchedule({ enabled: false, nextRunAt: null })] });
+
+    expect(screen.getByText('停止中')).toBeInTheDocument();
+  });
+
+  it('should create a weekday light schedule with brightness', async () => {
+    const { onCreate } = renderEditor();
+
+    fireEvent.change(screen.getByLabelText('明るさ % (任意)'), { target: { value: '60' } });
+    fireEvent.click(screen.getByText('スケジュールを追加'));
+
+    await waitFor(() => expect(onCreate).toHaveBeenCalledTimes(1));
+    expect(onCreate.mock.calls[0][0]).toMatchObject({
+      deviceId: 'light-1',
+      weekdays: [1, 2, 3, 4, 5],
+      time: '07:00',
+      actions: [{ command: 'turnOn' }, { command: 'setBrightness', parameter: 60 }]
+    });
+  });
+
+  it('should toggle weekdays and require at least one', async () => {
+    const { onCreate } = renderEditor();
+
+    ['月', '火', '水', '木', '金'].forEach(label => fireEvent.click(screen.getByText(label)));
+    fireEvent.click(screen.getByText('スケジュールを追加'));
+
+    expect(await screen.findByText('曜日を1つ以上選択してください')).toBeInTheDocument();
+    expect(onCreate).not.toHaveBeenCalled();
+  });
+
+  it('should toggle and delete schedules', () => {
+    const { onToggle, onDelete } = renderEditor({ schedules: [createSchedule()] });
+
+    fireEvent.click(screen.getByLabelText('朝の照明を有効化'));
+    expect(onToggle).toHaveBeenCalledWith('schedule-1', false);
+
+    fireEvent.click(screen.getByText('削除'));
+    expect(onDelete).toHaveBeenCalledWith('schedule-1');
+  });
+});
@@ -5,7 +5,7 @@
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { useDevices } from '../useDevices';
-import { Device, DeviceListResponse, DeviceStatistics } from '../../types';
+import { Device, DeviceCommand, DeviceListResponse, DeviceStatistics } from '../../types';
 
 // Mock fetch
 global.fetch = vi.fn();
@@ -172,4 +172,44 @@ describe('useDevices', () => {
     expect(environmentDevices).toHaveLength(1);
     expect(environmentDevices[0].deviceType).toBe('Hub');
   });
+
+  it('should show a command queued by a device-specific route until it has failed', async () => {
+    const failed: DeviceCommand = {
+      id: 'cmd-1',
+      deviceId: 'light-001',
+      command: 'turnOn',
+      status: 'failed',
+      statusCode: 161,
+      error: { code: 'CONTROL_ERROR', message: 'Device offline' },
+      createdAt: '2024-01-01T12:00:00.000Z',
+      updatedAt: '2024-01-01T12:00:01.000Z'
+    };
+    mockFetch.mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: url === '/api/commands/cmd-1' ? failed : mockDeviceListResponse
+      })
+    }));
+
+    const { result } = renderHook(() => useDevices());
+
+    act(() => {
+      result.current.trackCommand({
+        commandId: 'cmd-1',
+        status: 'queued',
+        deviceId: 'light-001',
+        command: 'turnOn',
+        timestamp: '2024-01-01T12:00:00.000Z'
+      });
+    });
+
+    expect(result.current.commandStatuses['light-001']).toMatchObject({ id: 'cmd-1', status: 'queued' });
+
+    await waitFor(() => {
+      expect(result.current.commandStatuses['light-001'].status).toBe('failed');
+    }, { timeout: 4000 });
+    expect(mockFetch).toHaveBeenCalledWith('/api/commands/cmd-1');
+    expect(result.current.commandStatuses['light-001'].error?.message).toBe('Device offline');
+  });
 });
\ No newline at end of file
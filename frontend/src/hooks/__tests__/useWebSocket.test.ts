@@ -1,7 +1,7 @@
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { useWebSocket } from '../useWebSocket';
-import { EnvironmentData } from '../../types';
+import { Device, DeviceCommand, EnvironmentData } from '../../types';
 
 // Mock socket.io-client
 const mockSocket = {
@@ -230,4 +230,45 @@ describe('useWebSocket', () => {
       expect(result.current.state.error).toContain('サーバーとの接続が失われました');
     });
   });
+
+  it('passes device updates pushed by the server to the callback', () => {
+    const onDeviceUpdate = vi.fn();
+    renderHook(() => useWebSocket(undefined, undefined, undefined, onDeviceUpdate));
+
+    const device: Device = {
+      deviceId: 'plug-001',
+      deviceName: 'Desk Plug',
+      deviceType: 'Plug',
+      status: 'online',
+      properties: { power: 'on' },
+      lastUpdated: '2024-01-01T12:00:00Z'
+    };
+
+    act(() => {
+      (mockSocket as any)._deviceUpdateCallback?.(device);
+    });
+
+    expect(onDeviceUpdate).toHaveBeenCalledWith(device);
+  });
+
+  it('passes command status changes to the callback', () => {
+    const onCommandStatus = vi.fn();
+    renderHook(() => useWebSocket(undefined, undefined, undefined, undefined, onCommandStatus));
+
+    const command: DeviceCommand = {
+      id: 'cmd-1',
+      deviceId: 'light-001',
+      command: 'turnOn',
+      status: 'succeeded',
+      statusCode: 100,
+      createdAt: '2024-01-01T12:00:00Z',
+      updatedAt: '2024-01-01T12:00:01Z'
+    };
+
+    act(() => {
+      (mockSocket as any)._commandStatusCallback?.(command);
+    });
+
+    expect(onCommandStatus).toHaveBeenCalledWith(command);
+  });
 });
\ No newline at end of file
@@ -13,6 +13,7 @@ interface AlertStatistics {
   totalToday: number;
   temperatureAlerts: number;
   humidityAlerts: number;
+  co2Alerts: number;
 }
 
 export const useAlerts = () => {
@@ -23,11 +24,14 @@ export const useAlerts = () => {
     error: null
   });
 
+  const [alertHistory, setAlertHistory] = useState<Alert[]>([]);
+
   const [statistics, setStatistics] = useState<AlertStatistics>({
     activeCount: 0,
     totalToday: 0,
     temperatureAlerts: 0,
-    humidityAlerts: 0
+    humidityAlerts: 0,
+    co2Alerts: 0
   });
 
   // Fetch active alerts
@@ -62,6 +66,25 @@ export const useAlerts = () => {
     }
   }, []);
 
+  // Fetch recent alert history (most recent first)
+  const fetchAlertHistory = useCallback(async (limit: number = 20) => {
+    try {
+      const response = await fetch(`/api/alerts/history?limit=${limit}`);
+      const data: ApiResponse<{ alerts: any[]; count: number }> = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch alert history');
+      }
+
+      setAlertHistory(data.data?.alerts.map(alert => ({
+        ...alert,
+        timestamp: new Date(alert.timestamp)
+      })) || []);
+    } catch (error) {
+      console.error('Failed to fetch alert history:', error);
+    }
+  }, []);
+
   // Fetch alert thresholds
   const fetchThresholds = useCallback(async () => {
     try {
@@ -99,7 +122,8 @@ export const useAlerts = () => {
         activeCount: 0,
         totalToday: 0,
         temperatureAlerts: 0,
-        humidityAlerts: 0
+        humidityAlerts: 0,
+        co2Alerts: 0
       });
     } catch (error) {
       console.error('Failed to fetch statistics:', error);
@@ -243,12 +267,14 @@ export const useAlerts = () => {
     fetchAlerts();
     fetchThresholds();
     fetchStatistics();
-  }, [fetchAlerts, fetchThresholds, fetchStatistics]);
+    fetchAlertHistory();
+  }, [fetchAlerts, fetchThresholds, fetchStatistics, fetchAlertHistory]);
 
   return {
     // State
     alerts: state.alerts,
     thresholds: state.thresholds,
+    alertHistory,
     statistics,
     isLoading: state.isLoading,
     error: state.error,
@@ -257,6 +283,7 @@ export const useAlerts = () => {
     fetchAlerts,
     fetchThresholds,
     fetchStatistics,
+    fetchAlertHistory,
     updateThresholds,
     dismissAlert,
     clearAllAlerts,
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ApiResponse, ApiQuotaUsage, PollingStatus } from '../types';
+
+interface ApiQuotaState {
+  usage: ApiQuotaUsage | null;
+  polling: PollingStatus | null;
+  error: string | null;
+}
+
+/**
+ * Interval between two refreshes of the usage counter
+ */
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+export const useApiQuota = () => {
+  const [state, setState] = useState<ApiQuotaState>({
+    usage: null,
+    polling: null,
+    error: null
+  });
+
+  // Fetch the API usage of the current day and the polling interval it results in
+  const fetchQuota = useCallback(async () => {
+    try {
+      const [quotaResponse, statusResponse] = await Promise.all([
+        fetch('/api/quota'),
+        fetch('/api/websocket/status')
+      ]);
+      const quota: ApiResponse<any> = await quotaResponse.json();
+      const status: ApiResponse<PollingStatus> = await statusResponse.json();
+
+      if (!quota.success || !quota.data) {
+        throw new Error('Failed to fetch API usage');
+      }
+
+      setState({
+        usage: { ...quota.data, resetAt: new Date(quota.data.resetAt) },
+        polling: status.success && status.data ? status.data : null,
+        error: null
+      });
+    } catch (error) {
+      console.error('Failed to fetch API usage:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to fetch API usage'
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQuota();
+    const timer = setInterval(fetchQuota, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchQuota]);
+
+  return {
+    usage: state.usage,
+    polling: state.polling,
+    error: state.error,
+    refresh: fetchQuota
+  };
+};
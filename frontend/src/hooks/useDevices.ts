@@ -2,8 +2,8 @@
  * Custom hook for device management
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { Device, DeviceType, DeviceStatus, DeviceListResponse, DeviceStatistics, ApiResponse } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Device, DeviceType, DeviceStatus, DeviceListResponse, DeviceStatistics, DeviceCommand, QueuedCommand, ApiResponse } from '../types';
 
 interface DeviceState {
   devices: Device[];
@@ -13,6 +13,20 @@ interface DeviceState {
   lastUpdated: Date | null;
 }
 
+/**
+ * Interval between two status queries of a pending command
+ * (the commandStatus WebSocket event usually arrives first)
+ */
+const COMMAND_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Time after which a pending command is no longer followed
+ */
+const COMMAND_POLL_TIMEOUT_MS = 2 * 60 * 1000;
+
+const isCommandFinished = (command: DeviceCommand): boolean =>
+  command.status === 'succeeded' || command.status === 'failed';
+
 interface DeviceFilters {
   type?: DeviceType;
   status?: DeviceStatus;
@@ -31,6 +45,10 @@ export const useDevices = () => {
 
   const [filters, setFilters] = useState<DeviceFilters>({});
 
+  // Latest command sent to each device, keyed by device ID
+  const [commandStatuses, setCommandStatuses] = useState<Record<string, DeviceCommand>>({});
+  const finishedCommandIds = useRef<Set<string>>(new Set());
+
   /**
    * Fetch devices from API
    */
@@ -137,8 +155,87 @@ export const useDevices = () => {
     }
   }, []);
 
+  /**
+   * Replace a device with the state pushed by the server (webhook events)
+   */
+  const applyDeviceUpdate = useCallback((updatedDevice: Device) => {
+    setState(prev => ({
+      ...prev,
+      devices: prev.devices.map(device =>
+        device.deviceId === updatedDevice.deviceId ? updatedDevice : device
+      )
+    }));
+  }, []);
+
+  /**
+   * Apply a status change of a queued command (commandStatus WebSocket event or status query)
+   * Refreshes the device once its command has succeeded.
+   */
+  const applyCommandStatus = useCallback((command: DeviceCommand) => {
+    setCommandStatuses(prev => {
+      const current = prev[command.deviceId];
+      // Ignore updates of older commands and stale updates of the current one
+      if (current && (current.id !== command.id ? current.createdAt > command.createdAt : current.updatedAt > command.updatedAt)) {
+        return prev;
+      }
+      return { ...prev, [command.deviceId]: command };
+    });
+
+    if (isCommandFinished(command) && !finishedCommandIds.current.has(command.id)) {
+      finishedCommandIds.current.add(command.id);
+      if (command.status === 'succeeded') {
+        setTimeout(() => {
+          console.log(`useDevices: Updating device status for ${command.deviceId}`);
+          updateDeviceStatus(command.deviceId);
+        }, 1000);
+      }
+    }
+  }, [updateDeviceStatus]);
+
+  /**
+   * Query the status of a pending command until it has finished
+   */
+  const followCommand = useCallback(async (commandId: string) => {
+    const startedAt = Date.now();
+
+    while (!finishedCommandIds.current.has(commandId) && Date.now() - startedAt < COMMAND_POLL_TIMEOUT_MS) {
+      await new Promise(resolve => setTimeout(resolve, COMMAND_POLL_INTERVAL_MS));
+      if (finishedCommandIds.current.has(commandId)) {
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/commands/${commandId}`);
+        const result: ApiResponse<DeviceCommand> = await response.json();
+        if (response.ok && result.success && result.data) {
+          applyCommandStatus(result.data);
+        }
+      } catch (error) {
+        console.error(`Failed to get status of command ${commandId}:`, error);
+      }
+    }
+  }, [applyCommandStatus]);
+
+  /**
+   * Track a command queued by a device-specific control route
+   * Shows it as pending right away and follows it until it has finished.
+   */
+  const trackCommand = useCallback((queued: QueuedCommand) => {
+    applyCommandStatus({
+      id: queued.commandId,
+      deviceId: queued.deviceId,
+      command: queued.command,
+      status: queued.status,
+      createdAt: queued.timestamp,
+      updatedAt: queued.timestamp
+    });
+    followCommand(queued.commandId);
+  }, [applyCommandStatus, followCommand]);
+
   /**
    * Control device
+   * Resolves once the backend has queued the command; its progress is
+   * reported through commandStatuses.
    */
   const controlDevice = useCallback(async (
     deviceId: string,
@@ -159,22 +256,20 @@ export const useDevices = () => {
         body: JSON.stringify(requestBody)
       });
 
-      const result: ApiResponse<any> = await response.json();
+      const result: ApiResponse<DeviceCommand & { commandId: string }> = await response.json();
       console.log(`useDevices: API response for ${deviceId}:`, result);
 
       if (!response.ok) {
         throw new Error(result.error || `HTTP error! status: ${response.status}`);
       }
 
-      if (!result.success) {
+      if (!result.success || !result.data) {
         throw new Error(result.error || 'Failed to control device');
       }
 
-      // Update device status after successful control
-      setTimeout(() => {
-        console.log(`useDevices: Updating device status for ${deviceId}`);
-        updateDeviceStatus(deviceId);
-      }, 1000);
+      const { commandId, ...queued } = result.data;
+      applyCommandStatus(queued);
+      followCommand(commandId);
 
       return true;
 
@@ -182,7 +277,7 @@ export const useDevices = () => {
       console.error(`Failed to control device ${deviceId}:`, error);
       return false;
     }
-  }, [updateDeviceStatus]);
+  }, [applyCommandStatus, followCommand]);
 
   /**
    * Test device connectivity
@@ -245,7 +340,7 @@ export const useDevices = () => {
    * Get controllable devices
    */
   const getControllableDevices = useCallback((): Device[] => {
-    const controllableTypes: DeviceType[] = ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug'];
+    const controllableTypes: DeviceType[] = ['Light', 'Air Conditioner', 'Bot', 'Curtain', 'Plug', 'TV', 'Fan', 'Speaker', 'Projector', 'Lock'];
     return state.devices.filter(device => controllableTypes.includes(device.deviceType));
   }, [state.devices]);
 
@@ -285,10 +380,14 @@ export const useDevices = () => {
     error: state.error,
     lastUpdated: state.lastUpdated,
     filters,
+    commandStatuses,
 
     // Actions
     fetchDevices,
     updateDeviceStatus,
+    applyDeviceUpdate,
+    applyCommandStatus,
+    trackCommand,
     controlDevice,
     testDeviceConnectivity,
     clearCache,
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ApiResponse, EnergyPeriod, PowerReading, DailyEnergy, PlugEnergySummary } from '../types';
+
+interface EnergyState {
+  plugs: PlugEnergySummary[];
+  readings: PowerReading[];
+  dailyTotals: DailyEnergy[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Interval between two refreshes (the backend samples plugs every few minutes)
+ */
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Number of days shown in the daily totals
+ */
+const DAILY_TOTAL_DAYS = 7;
+
+/**
+ * Convert a power reading from its JSON representation
+ */
+const parseReading = (reading: any): PowerReading => ({
+  ...reading,
+  timestamp: new Date(reading.timestamp)
+});
+
+/**
+ * Extract the error message of a failed API response
+ */
+const getErrorMessage = (data: ApiResponse<unknown>, fallback: string): string => {
+  const error = data.error as any;
+  return (typeof error === 'string' ? error : error?.message) || fallback;
+};
+
+export const useEnergy = () => {
+  const [state, setState] = useState<EnergyState>({
+    plugs: [],
+    readings: [],
+    dailyTotals: [],
+    isLoading: false,
+    error: null
+  });
+  const [selectedPlugId, setSelectedPlugId] = useState<string | null>(null);
+  const [period, setPeriod] = useState<EnergyPeriod>('24h');
+
+  // Fetch the energy summary of all plugs
+  const fetchPlugs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/energy');
+      const data: ApiResponse<{ plugs: any[]; count: number }> = await response.json();
+
+      if (!data.success) {
+        throw new Error(getErrorMessage(data, 'Failed to fetch energy summary'));
+      }
+
+      const plugs: PlugEnergySummary[] = (data.data?.plugs || []).map(plug => ({
+        ...plug,
+        latest: plug.latest ? parseReading(plug.latest) : null
+      }));
+
+      setState(prev => ({ ...prev, plugs }));
+      setSelectedPlugId(prev => prev ?? plugs[0]?.deviceId ?? null);
+    } catch (error) {
+      console.error('Failed to fetch energy summary:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to fetch energy summary'
+      }));
+    }
+  }, []);
+
+  // Fetch the power readings and daily totals of the selected plug
+  const fetchHistory = useCallback(async (deviceId: string, historyPeriod: EnergyPeriod) => {
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const [historyResponse, dailyResponse] = await Promise.all([
+        fetch(`/api/energy/${deviceId}/history?period=${historyPeriod}`),
+        fetch(`/api/energy/${deviceId}/daily?days=${DAILY_TOTAL_DAYS}`)
+      ]);
+      const history: ApiResponse<{ readings: any[] }> = await historyResponse.json();
+      const daily: ApiResponse<{ days: any[] }> = await dailyResponse.json();
+
+      if (!history.success) {
+        throw new Error(getErrorMessage(history, 'Failed to fetch power history'));
+      }
+      if (!daily.success) {
+        throw new Error(getErrorMessage(daily, 'Failed to fetch daily energy totals'));
+      }
+
+      setState(prev => ({
+        ...prev,
+        readings: (history.data?.readings || []).map(parseReading),
+        dailyTotals: (daily.data?.days || []).map(day => ({ ...day, timestamp: new Date(day.timestamp) })),
+        isLoading: false
+      }));
+    } catch (error) {
+      console.error(`Failed to fetch energy history of ${deviceId}:`, error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to fetch power history',
+        isLoading: false
+      }));
+    }
+  }, []);
+
+  // Initial load and periodic refresh of the summary
+  useEffect(() => {
+    fetchPlugs();
+    const timer = setInterval(fetchPlugs, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchPlugs]);
+
+  // Load the history whenever the selected plug or period changes
+  useEffect(() => {
+    if (!selectedPlugId) return;
+
+    fetchHistory(selectedPlugId, period);
+    const timer = setInterval(() => fetchHistory(selectedPlugId, period), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [selectedPlugId, period, fetchHistory]);
+
+  return {
+    plugs: state.plugs,
+    readings: state.readings,
+    dailyTotals: state.dailyTotals,
+    selectedPlugId,
+    period,
+    isLoading: state.isLoading,
+    error: state.error,
+    selectPlug: setSelectedPlugId,
+    setPeriod
+  };
+};
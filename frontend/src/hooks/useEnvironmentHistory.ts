@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { HistoricalDataPoint, TimePeriod, HistoryStatistics } from '../types';
+import { HistoricalDataPoint, TimePeriod, HistoryStatistics, HistoryRange, ExportFormat } from '../types';
 
 export interface HistoryState {
   data: HistoricalDataPoint[];
@@ -13,14 +13,28 @@ export interface UseEnvironmentHistoryReturn {
   historyState: HistoryState;
   selectedPeriod: TimePeriod;
   setSelectedPeriod: (period: TimePeriod) => void;
+  customRange: HistoryRange | null;
+  setCustomRange: (range: HistoryRange | null) => void;
   refreshHistory: () => Promise<void>;
+  getExportUrl: (format: ExportFormat) => string;
   clearError: () => void;
 }
 
 const API_BASE_URL = (import.meta as any).env?.VITE_API_BASE_URL || 'http://localhost:3001/api';
 
+// Duration of each preset period, used to build export ranges
+const PERIOD_HOURS: Record<TimePeriod, number> = {
+  '1h': 1,
+  '6h': 6,
+  '12h': 12,
+  '24h': 24,
+  '7d': 24 * 7,
+  '30d': 24 * 30
+};
+
 export const useEnvironmentHistory = (initialPeriod: TimePeriod = '1h'): UseEnvironmentHistoryReturn => {
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>(initialPeriod);
+  const [customRange, setCustomRange] = useState<HistoryRange | null>(null);
   const [historyState, setHistoryState] = useState<HistoryState>({
     data: [],
     statistics: null,
@@ -29,12 +43,12 @@ export const useEnvironmentHistory = (initialPeriod: TimePeriod = '1h'): UseEnvi
     lastUpdated: null
   });
 
-  // Fetch history data from API
-  const fetchHistoryData = useCallback(async (period: TimePeriod): Promise<void> => {
+  // Fetch history data from API (a custom range takes precedence over the period)
+  const fetchHistoryData = useCallback(async (period: TimePeriod, range: HistoryRange | null = null): Promise<void> => {
     setHistoryState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const response = await fetch(`${API_BASE_URL}/environment/history/${period}`, {
+      const response = await fetch(`${API_BASE_URL}/environment/history/${buildHistoryQuery(period, range)}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -66,7 +80,7 @@ export const useEnvironmentHistory = (initialPeriod: TimePeriod = '1h'): UseEnvi
         lastUpdated: new Date()
       }));
 
-      console.log(`Loaded ${processedData.length} historical data points for period: ${period}`);
+      console.log(`Loaded ${processedData.length} historical data points for ${range ? 'custom range' : `period: ${period}`}`);
     } catch (error) {
       console.error('Failed to fetch history data:', error);
       
@@ -82,44 +96,76 @@ export const useEnvironmentHistory = (initialPeriod: TimePeriod = '1h'): UseEnvi
     }
   }, []);
 
-  // Refresh current period data
+  // Refresh current period or range data
   const refreshHistory = useCallback(async (): Promise<void> => {
-    await fetchHistoryData(selectedPeriod);
-  }, [selectedPeriod, fetchHistoryData]);
+    await fetchHistoryData(selectedPeriod, customRange);
+  }, [selectedPeriod, customRange, fetchHistoryData]);
+
+  // Download URL of the raw data shown in the current period or range
+  const getExportUrl = useCallback((format: ExportFormat): string => {
+    const to = customRange?.to ?? new Date();
+    const from = customRange?.from ?? new Date(to.getTime() - PERIOD_HOURS[selectedPeriod] * 60 * 60 * 1000);
+    const params = new URLSearchParams({
+      format,
+      from: from.toISOString(),
+      to: to.toISOString()
+    });
+    return `${API_BASE_URL}/environment/history/export?${params.toString()}`;
+  }, [selectedPeriod, customRange]);
 
   // Clear error state
   const clearError = useCallback((): void => {
     setHistoryState(prev => ({ ...prev, error: null }));
   }, []);
 
-  // Handle period change
+  // Handle period change (selecting a preset period leaves the custom range)
   const handlePeriodChange = useCallback((period: TimePeriod): void => {
+    setCustomRange(null);
     if (period !== selectedPeriod) {
       setSelectedPeriod(period);
     }
   }, [selectedPeriod]);
 
-  // Fetch data when period changes
+  // Fetch data when period or custom range changes
   useEffect(() => {
-    fetchHistoryData(selectedPeriod);
-  }, [selectedPeriod, fetchHistoryData]);
+    fetchHistoryData(selectedPeriod, customRange);
+  }, [selectedPeriod, customRange, fetchHistoryData]);
 
   // Auto-refresh data periodically (every 5 minutes for current data)
   useEffect(() => {
-    if (selectedPeriod === '1h') {
+    if (selectedPeriod === '1h' && !customRange) {
       const interval = setInterval(() => {
         fetchHistoryData(selectedPeriod);
       }, 5 * 60 * 1000); // 5 minutes
 
       return () => clearInterval(interval);
     }
-  }, [selectedPeriod, fetchHistoryData]);
+  }, [selectedPeriod, customRange, fetchHistoryData]);
 
   return {
     historyState,
     selectedPeriod,
     setSelectedPeriod: handlePeriodChange,
+    customRange,
+    setCustomRange,
     refreshHistory,
+    getExportUrl,
     clearError
   };
-};
\ No newline at end of file
+};
+
+// Build the history endpoint path for a preset period or a custom range
+function buildHistoryQuery(period: TimePeriod, range: HistoryRange | null): string {
+  if (!range) {
+    return period;
+  }
+
+  const params = new URLSearchParams({
+    from: range.from.toISOString(),
+    to: range.to.toISOString()
+  });
+  if (range.bucketMinutes) {
+    params.set('bucketMinutes', String(range.bucketMinutes));
+  }
+  return `range?${params.toString()}`;
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ApiResponse, Scene, SceneExecution, CloudScene, CloudSceneExecution } from '../types';
+
+interface SceneState {
+  scenes: Scene[];
+  cloudScenes: CloudScene[];
+  cloudError: string | null;
+  runningSceneIds: string[];
+  lastExecution: SceneExecution | CloudSceneExecution | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Convert a scene from its JSON representation
+ */
+const parseScene = (scene: any): Scene => ({
+  ...scene,
+  createdAt: new Date(scene.createdAt),
+  updatedAt: new Date(scene.updatedAt),
+  lastExecutedAt: scene.lastExecutedAt ? new Date(scene.lastExecutedAt) : null
+});
+
+/**
+ * Extract the error message of a failed API response
+ */
+const getErrorMessage = (data: ApiResponse<unknown>, fallback: string): string => {
+  const error = data.error as any;
+  return (typeof error === 'string' ? error : error?.message) || fallback;
+};
+
+export const useScenes = () => {
+  const [state, setState] = useState<SceneState>({
+    scenes: [],
+    cloudScenes: [],
+    cloudError: null,
+    runningSceneIds: [],
+    lastExecution: null,
+    isLoading: false,
+    error: null
+  });
+
+  // Fetch local scenes and the scenes of the SwitchBot app
+  const fetchScenes = useCallback(async (refresh: boolean = false) => {
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const response = await fetch(`/api/scenes${refresh ? '?refresh=true' : ''}`);
+      const data: ApiResponse<{
+        scenes: any[];
+        count: number;
+        cloudScenes?: CloudScene[];
+        cloudError?: string | null;
+      }> = await response.json();
+
+      if (!data.success) {
+        throw new Error(getErrorMessage(data, 'Failed to fetch scenes'));
+      }
+
+      setState(prev => ({
+        ...prev,
+        scenes: data.data?.scenes.map(parseScene) || [],
+        cloudScenes: data.data?.cloudScenes || [],
+        cloudError: data.data?.cloudError || null,
+        isLoading: false
+      }));
+    } catch (error) {
+      console.error('Failed to fetch scenes:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to fetch scenes',
+        isLoading: false
+      }));
+    }
+  }, []);
+
+  // Execute a scene and wait until all of its steps were sent
+  const executeScene = useCallback(async (sceneId: string): Promise<boolean> => {
+    setState(prev => ({
+      ...prev,
+      runningSceneIds: [...prev.runningSceneIds, sceneId],
+      error: null
+    }));
+
+    try {
+      const response = await fetch(`/api/scenes/${sceneId}/execute`, {
+        method: 'POST'
+      });
+      const data: ApiResponse<any> = await response.json();
+
+      if (!data.success) {
+        throw new Error(getErrorMessage(data, 'Failed to execute scene'));
+      }
+
+      if (data.data.source === 'cloud') {
+        const execution: CloudSceneExecution = {
+          ...data.data,
+          executedAt: new Date(data.data.executedAt)
+        };
+        setState(prev => ({ ...prev, lastExecution: execution }));
+        return execution.success;
+      }
+
+      const execution: SceneExecution = {
+        ...data.data,
+        startedAt: new Date(data.data.startedAt),
+        finishedAt: new Date(data.data.finishedAt)
+      };
+
+      setState(prev => ({
+        ...prev,
+        lastExecution: execution,
+        scenes: prev.scenes.map(scene =>
+          scene.id === sceneId ? { ...scene, lastExecutedAt: execution.finishedAt } : scene
+        )
+      }));
+      return execution.success;
+    } catch (error) {
+      console.error(`Failed to execute scene ${sceneId}:`, error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to execute scene'
+      }));
+      return false;
+    } finally {
+      setState(prev => ({
+        ...prev,
+        runningSceneIds: prev.runningSceneIds.filter(id => id !== sceneId)
+      }));
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    fetchScenes();
+  }, [fetchScenes]);
+
+  return {
+    scenes: state.scenes,
+    cloudScenes: state.cloudScenes,
+    cloudError: state.cloudError,
+    runningSceneIds: state.runningSceneIds,
+    lastExecution: state.lastExecution,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchScenes,
+    executeScene
+  };
+};
@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ApiResponse, DeviceSchedule, DeviceScheduleInput } from '../types';
+
+interface ScheduleState {
+  schedules: DeviceSchedule[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Convert a schedule from its JSON representation
+ */
+const parseSchedule = (schedule: any): DeviceSchedule => ({
+  ...schedule,
+  createdAt: new Date(schedule.createdAt),
+  updatedAt: new Date(schedule.updatedAt),
+  lastRunAt: schedule.lastRunAt ? new Date(schedule.lastRunAt) : null,
+  lastResult: schedule.lastResult
+    ? { ...schedule.lastResult, timestamp: new Date(schedule.lastResult.timestamp) }
+    : null,
+  nextRunAt: schedule.nextRunAt ? new Date(schedule.nextRunAt) : null
+});
+
+/**
+ * Extract the error message of a failed API response
+ */
+const getErrorMessage = (data: ApiResponse<unknown>, fallback: string): string => {
+  const error = data.error as any;
+  return (typeof error === 'string' ? error : error?.message) || fallback;
+};
+
+export const useSchedules = () => {
+  const [state, setState] = useState<ScheduleState>({
+    schedules: [],
+    isLoading: false,
+    error: null
+  });
+
+  // Fetch all schedules
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const response = await fetch('/api/schedules');
+      const data: ApiResponse<{ schedules: any[]; count: number }> = await response.json();
+
+      if (!data.success) {
+        throw new Error(getErrorMessage(data, 'Failed to fetch schedules'));
+      }
+
+      setState(prev => ({
+        ...prev,
+        schedules: data.data?.schedules.map(parseSchedule) || [],
+        isLoading: false
+      }));
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to fetch schedules',
+        isLoading: false
+      }));
+    }
+  }, []);
+
+  // Create a schedule
+  const createSchedule = useCallback(async (input: DeviceScheduleInput): Promise<boolean> => {
+    try {
+      setState(prev => ({ ...prev, error: null }));
+
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(input)
+      });
+      const data: ApiResponse<any> = await response.json();
+
+      if (!data.success) {
+        throw new Error(getErrorMessage(data, 'Failed to create schedule'));
+      }
+
+      const created = parseSchedule(data.data);
+      setState(prev => ({ ...prev, schedules: [...prev.schedules, created] }));
+      return true;
+    } catch (error) {
+      console.error('Failed to create schedule:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to create schedule'
+      }));
+      return false;
+    }
+  }, []);
+
+  // Enable or disable a schedule
+  const setScheduleEnabled = useCallback(async (scheduleId: string, enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}/${enabled ? 'enable' : 'disable'}`, {
+        method: 'POST'
+      });
+      const data: ApiResponse<any> = await response.json();
+
+      if (!data.success) {
+        throw new Error(getErrorMessage(data, 'Failed to update schedule'));
+      }
+
+      const updated = parseSchedule(data.data);
+      setState(prev => ({
+        ...prev,
+        schedules: prev.schedules.map(schedule => (schedule.id === scheduleId ? updated : schedule))
+      }));
+    } catch (error) {
+      console.error('Failed to update schedule:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to update schedule'
+      }));
+    }
+  }, []);
+
+  // Delete a schedule
+  const deleteSchedule = useCallback(async (scheduleId: string) => {
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}`, {
+        method: 'DELETE'
+      });
+      const data: ApiResponse<{ scheduleId: string }> = await response.json();
+
+      if (!data.success) {
+        throw new Error(getErrorMessage(data, 'Failed to delete schedule'));
+      }
+
+      setState(prev => ({
+        ...prev,
+        schedules: prev.schedules.filter(schedule => schedule.id !== scheduleId)
+      }));
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to delete schedule'
+      }));
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  return {
+    schedules: state.schedules,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchSchedules,
+    createSchedule,
+    setScheduleEnabled,
+    deleteSchedule
+  };
+};
@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { EnvironmentData, HistoricalDataPoint, TimePeriod, Alert } from '../types';
+import { EnvironmentData, HistoricalDataPoint, TimePeriod, HistoryRange, Alert, Device, DeviceCommand } from '../types';
 
 export interface WebSocketState {
   isConnected: boolean;
@@ -11,11 +11,12 @@ export interface WebSocketState {
 
 export interface UseWebSocketReturn {
   environmentData: EnvironmentData | null;
+  sensorsData: EnvironmentData[];
   state: WebSocketState;
   subscribe: () => void;
   unsubscribe: () => void;
   reconnect: () => void;
-  getHistory: (period: TimePeriod) => void;
+  getHistory: (request: TimePeriod | HistoryRange, deviceId?: string) => void;
   onAlertUpdate?: (alerts: Alert[]) => void;
   onAlertTriggered?: (alert: Alert) => void;
   onAlertDismissed?: (alertId: string) => void;
@@ -23,10 +24,13 @@ export interface UseWebSocketReturn {
 
 export interface WebSocketEvents {
   environmentUpdate: EnvironmentData;
+  environmentSensorsUpdate: EnvironmentData[];
   historyUpdate: HistoricalDataPoint[];
   alertUpdate: Alert[];
   alertTriggered: Alert;
   alertDismissed: { alertId: string };
+  deviceUpdate: Device;
+  commandStatus: DeviceCommand;
   error: { code: string; message: string };
   connectionStatus: { connected: boolean; timestamp: string };
 }
@@ -38,9 +42,12 @@ const MAX_RECONNECT_ATTEMPTS = 5;
 export const useWebSocket = (
   onAlertUpdate?: (alerts: Alert[]) => void,
   onAlertTriggered?: (alert: Alert) => void,
-  onAlertDismissed?: (alertId: string) => void
+  onAlertDismissed?: (alertId: string) => void,
+  onDeviceUpdate?: (device: Device) => void,
+  onCommandStatus?: (command: DeviceCommand) => void
 ): UseWebSocketReturn => {
   const [environmentData, setEnvironmentData] = useState<EnvironmentData | null>(null);
+  const [sensorsData, setSensorsData] = useState<EnvironmentData[]>([]);
   const [state, setState] = useState<WebSocketState>({
     isConnected: false,
     isConnecting: false,
@@ -133,6 +140,15 @@ export const useWebSocket = (
         }));
       });
 
+      // Environment data from every sensor
+      socket.on('environmentSensorsUpdate', (data: EnvironmentData[]) => {
+        console.log('Received sensor updates:', data.length, 'sensors');
+        setSensorsData(data.map(sensorData => ({
+          ...sensorData,
+          timestamp: typeof sensorData.timestamp === 'string' ? new Date(sensorData.timestamp) : sensorData.timestamp
+        })));
+      });
+
       // Error messages from server
       socket.on('error', (errorData: { code: string; message: string }) => {
         console.error('WebSocket server error:', errorData);
@@ -192,6 +208,22 @@ export const useWebSocket = (
         }
       });
 
+      // Device state changes reported to the server by SwitchBot webhooks
+      socket.on('deviceUpdate', (device: Device) => {
+        console.log('Device update:', device.deviceId);
+        if (onDeviceUpdate) {
+          onDeviceUpdate(device);
+        }
+      });
+
+      // Progress of device commands queued by the server
+      socket.on('commandStatus', (command: DeviceCommand) => {
+        console.log(`Command ${command.id} ${command.status}`);
+        if (onCommandStatus) {
+          onCommandStatus(command);
+        }
+      });
+
     } catch (error) {
       console.error('Failed to initialize WebSocket:', error);
       setState(prev => ({
@@ -245,15 +277,25 @@ export const useWebSocket = (
     socketRef.current.emit('unsubscribeEnvironment');
   }, []);
 
-  // Request history data
-  const getHistory = useCallback((period: TimePeriod) => {
+  // Request history data for a preset period or a custom range
+  const getHistory = useCallback((request: TimePeriod | HistoryRange, deviceId?: string) => {
     if (!socketRef.current?.connected) {
       console.warn('Cannot request history: WebSocket not connected');
       return;
     }
 
-    console.log('Requesting history data for period:', period);
-    socketRef.current.emit('getHistory', period);
+    if (typeof request === 'string') {
+      console.log('Requesting history data for period:', request);
+      socketRef.current.emit('getHistory', request, deviceId);
+      return;
+    }
+
+    console.log('Requesting history data for range:', request.from, request.to);
+    socketRef.current.emit('getHistory', {
+      from: request.from.toISOString(),
+      to: request.to.toISOString(),
+      bucketMinutes: request.bucketMinutes
+    }, deviceId);
   }, []);
 
   // Manual reconnect
@@ -298,6 +340,7 @@ export const useWebSocket = (
 
   return {
     environmentData,
+    sensorsData,
     state,
     subscribe,
     unsubscribe,
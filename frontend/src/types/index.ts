@@ -4,6 +4,11 @@ export interface EnvironmentData {
   humidity: number;
   light: number;
   timestamp: Date;
+  deviceId?: string;
+  deviceName?: string;
+  hasLightSensor?: boolean;
+  co2?: number;      // ppm, CO2 Meters only
+  battery?: number;  // Battery powered meters only
 }
 
 // Historical Data Types
@@ -18,20 +23,48 @@ export interface HistoricalDataPoint {
   humidityMax?: number;
   lightMin?: number;
   lightMax?: number;
+  co2?: number;
+  co2Min?: number;
+  co2Max?: number;
   sampleCount?: number;
 }
 
-export type TimePeriod = '1h' | '6h' | '12h';
+export type TimePeriod = '1h' | '6h' | '12h' | '24h' | '7d' | '30d';
+
+// Custom history range (bucketMinutes is chosen by the server when omitted)
+export interface HistoryRange {
+  from: Date;
+  to: Date;
+  bucketMinutes?: number;
+}
+
+// Download formats of the history export endpoints
+export type ExportFormat = 'csv' | 'json';
 
 export interface HistoryStatistics {
   temperature: { min: number; max: number; avg: number };
   humidity: { min: number; max: number; avg: number };
   light: { min: number; max: number; avg: number };
+  co2?: { min: number; max: number; avg: number };
   dataPointCount: number;
 }
 
 // Device Types
-export type DeviceType = 'Light' | 'Air Conditioner' | 'Hub' | 'Bot' | 'Curtain' | 'Plug' | 'Unknown';
+export type DeviceType =
+  | 'Light'
+  | 'Air Conditioner'
+  | 'Hub'
+  | 'Bot'
+  | 'Curtain'
+  | 'Plug'
+  | 'TV'
+  | 'Fan'
+  | 'Speaker'
+  | 'Projector'
+  | 'Lock'
+  | 'Keypad'
+  | 'Meter'
+  | 'Unknown';
 export type DeviceStatus = 'online' | 'offline' | 'unknown';
 
 export interface Device {
@@ -72,13 +105,22 @@ export interface HubProperties {
   version?: string;
 }
 
+export interface MeterProperties {
+  temperature?: number;
+  humidity?: number;
+  co2?: number;
+  battery?: number;
+}
+
 export interface BotProperties {
   power: 'on' | 'off';
   battery?: number;
+  mode?: 'press' | 'switch' | 'customize';
 }
 
 export interface CurtainProperties {
-  position: number;
+  position: number;      // 0 = open, 100 = closed
+  moving?: boolean;
   battery?: number;
   calibrate?: boolean;
 }
@@ -88,9 +130,40 @@ export interface PlugProperties {
   voltage?: number;
   current?: number;
   power_consumption?: number;
+  electricityOfDay?: number;
+}
+
+// IR remotes only report the state tracked from the last command sent
+export interface IRPowerProperties {
+  power: 'on' | 'off';
+}
+
+export interface TVProperties extends IRPowerProperties {
+  channel?: number;
+}
+
+export interface FanProperties extends IRPowerProperties {
+  speed?: 'low' | 'middle' | 'high';
+}
+
+export interface LockProperties {
+  lockState: 'locked' | 'unlocked' | 'jammed' | 'unknown';
+  doorState?: 'opened' | 'closed';
+  battery?: number;
 }
 
-export type DeviceProperties = LightProperties | AirConditionerProperties | HubProperties | BotProperties | CurtainProperties | PlugProperties;
+export type DeviceProperties =
+  | LightProperties
+  | AirConditionerProperties
+  | HubProperties
+  | BotProperties
+  | CurtainProperties
+  | PlugProperties
+  | TVProperties
+  | FanProperties
+  | IRPowerProperties
+  | LockProperties
+  | MeterProperties;
 
 // Device API Response Types
 export interface DeviceListResponse {
@@ -108,6 +181,35 @@ export interface DeviceStatistics {
   byType: Record<DeviceType, number>;
 }
 
+// Device Command Types
+// Commands are queued by the backend; queued/sending are pending, succeeded/failed are final
+export type CommandStatus = 'queued' | 'sending' | 'succeeded' | 'failed';
+
+export interface DeviceCommand {
+  id: string;
+  deviceId: string;
+  command: string;
+  parameter?: any;
+  status: CommandStatus;
+  statusCode?: number;
+  error?: {
+    code: string;
+    message: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// Response of the device-specific control routes (202 Accepted)
+export interface QueuedCommand {
+  commandId: string;
+  status: CommandStatus;
+  deviceId: string;
+  command: string;
+  timestamp: string;
+}
+
 // Settings Types
 export interface AppSettings {
   updateInterval: number;
@@ -125,7 +227,7 @@ export interface AppSettings {
 // Alert Types
 export interface Alert {
   id: string;
-  type: 'temperature' | 'humidity';
+  type: 'temperature' | 'humidity' | 'co2';
   severity: 'warning' | 'critical';
   message: string;
   timestamp: Date;
@@ -133,6 +235,8 @@ export interface Alert {
   value: number;
   threshold: number;
   condition: 'above' | 'below';
+  deviceId?: string;
+  deviceName?: string;
 }
 
 export interface AlertThresholds {
@@ -144,6 +248,127 @@ export interface AlertThresholds {
     min: number;
     max: number;
   };
+  co2: {
+    warning: number;
+    critical: number;
+  };
+}
+
+// Device Schedule Types
+export interface ScheduleAction {
+  command: string;
+  parameter?: any;
+}
+
+export interface DeviceSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  deviceId: string;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  time: string;       // HH:mm
+  actions: ScheduleAction[];
+  createdAt: Date;
+  updatedAt: Date;
+  lastRunAt: Date | null;
+  lastResult: { timestamp: Date; success: boolean; error?: string } | null;
+  nextRunAt: Date | null;
+}
+
+export interface DeviceScheduleInput {
+  name: string;
+  deviceId: string;
+  weekdays: number[];
+  time: string;
+  actions: ScheduleAction[];
+  enabled?: boolean;
+}
+
+// Scene Types
+export interface SceneStep {
+  deviceId: string;
+  command: string;
+  parameter?: any;
+  delayMs?: number;
+}
+
+export interface Scene {
+  id: string;
+  name: string;
+  icon?: string;
+  steps: SceneStep[];
+  createdAt: Date;
+  updatedAt: Date;
+  lastExecutedAt: Date | null;
+  estimatedDurationMs: number;
+  isRunning: boolean;
+}
+
+export interface SceneExecution {
+  id: string;
+  source: 'local';
+  sceneId: string;
+  sceneName: string;
+  startedAt: Date;
+  finishedAt: Date;
+  success: boolean;
+  steps: (SceneStep & { success: boolean; error?: string })[];
+}
+
+// Manual scene created in the SwitchBot app
+export interface CloudScene {
+  sceneId: string;
+  sceneName: string;
+  isRunning: boolean;
+}
+
+export interface CloudSceneExecution {
+  source: 'cloud';
+  sceneId: string;
+  sceneName?: string;
+  executedAt: Date;
+  success: boolean;
+}
+
+// Energy Monitoring Types (Plug / Plug Mini)
+export type EnergyPeriod = '1h' | '6h' | '24h' | '7d';
+
+export interface PowerReading {
+  timestamp: Date;
+  deviceId: string;
+  watts: number;
+  voltage?: number;
+  current?: number;
+}
+
+export interface DailyEnergy {
+  timestamp: Date;
+  deviceId: string;
+  kWh: number;
+  sampleCount: number;
+}
+
+export interface PlugEnergySummary {
+  deviceId: string;
+  latest: PowerReading | null;
+  todayKWh: number;
+  monthKWh: number;
+}
+
+// SwitchBot API Quota Types
+export interface ApiQuotaUsage {
+  date: string;
+  used: number;
+  limit: number;
+  remaining: number;
+  reserved: number; // Calls environment polling leaves to device commands
+  resetAt: Date;
+}
+
+export interface PollingStatus {
+  updateInterval: number; // milliseconds, as configured
+  effectiveUpdateInterval: number; // milliseconds, stretched to the daily budget
+  budgetLimited: boolean;
 }
 
 // API Response Types
@@ -13,6 +13,10 @@ export interface AppSettings {
       min: number;
       max: number;
     };
+    co2: {
+      warning: number;
+      critical: number;
+    };
   };
   notifications: {
     enabled: boolean;
@@ -31,6 +35,10 @@ export interface SettingsUpdateRequest {
       min?: number;
       max?: number;
     };
+    co2?: {
+      warning?: number;
+      critical?: number;
+    };
   };
   notifications?: {
     enabled?: boolean;